@@ -1,12 +1,60 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { APP_FILTER, APP_PIPE } from '@nestjs/core';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
+import { OAuthModule } from './oauth/oauth.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { buildDataSourceOptions } from './database/database.config';
+import { configuration, envFilePaths } from './config/configuration';
+import { AppValidationPipe } from './common/pipes/app-validation.pipe';
+import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
+import { RequestIdMiddleware } from './common/middleware/request-id.middleware';
+import { CsrfMiddleware } from './auth/middleware/csrf.middleware';
 
 @Module({
-  imports: [AuthModule, UsersModule],
+  imports: [
+    // Configuración tipada y validada al arrancar (ver src/config/).
+    // Los archivos .env se cargan antes que el resto de módulos, así
+    // buildDataSourceOptions también ve sus variables DB_*
+    ConfigModule.forRoot({
+      isGlobal: true,
+      cache: true,
+      envFilePath: envFilePaths(),
+      load: [configuration],
+    }),
+    // Conexión a la base de datos configurada por variables de entorno
+    // (ver src/database/database.config.ts)
+    TypeOrmModule.forRootAsync({
+      useFactory: () => ({
+        ...buildDataSourceOptions(),
+        autoLoadEntities: true,
+      }),
+    }),
+    AuthModule,
+    UsersModule,
+    OAuthModule,
+    WebhooksModule,
+  ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    // Validación y formato de errores globales. Se registran aquí y no en
+    // main.ts para que también apliquen en las pruebas e2e, que crean la
+    // aplicación sin pasar por bootstrap()
+    { provide: APP_PIPE, useClass: AppValidationPipe },
+    { provide: APP_FILTER, useClass: AllExceptionsFilter },
+  ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    // X-Request-Id en todas las rutas (ver RequestIdMiddleware)
+    consumer.apply(RequestIdMiddleware).forRoutes('{*splat}');
+    // Token CSRF en modo cookie (ver SessionCookiesService); después del
+    // anterior para que el error 403 incluya el request_id
+    consumer.apply(CsrfMiddleware).forRoutes('{*splat}');
+  }
+}
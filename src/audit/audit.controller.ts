@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { Readable } from 'stream';
+import { AuditService } from './audit.service';
+import { AuditEventsFilterDto } from './dto/audit-events-filter.dto';
+import { ListAuditEventsQueryDto } from './dto/list-audit-events-query.dto';
+import { canReadAudit } from './policies/audit.policies';
+import { ServiceAuthGuard } from '../auth/guards/service-auth.guard';
+import { PoliciesGuard } from '../auth/guards/policies.guard';
+import { CheckPolicies } from '../auth/decorators/check-policies.decorator';
+
+/**
+ * AuditController - Consulta del registro de auditoría
+ *
+ * Todas las rutas exigen el permiso audit:read (administradores, o
+ * aplicaciones con ese scope en su token de client credentials).
+ */
+@UseGuards(ServiceAuthGuard, PoliciesGuard)
+@CheckPolicies(canReadAudit)
+@Controller('audit')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * GET /audit
+   * Eventos del más reciente al más antiguo, por páginas
+   *
+   * QUERY STRING (ver ListAuditEventsQueryDto, todo opcional):
+   * - action, outcome, actorType, actorId, targetType, targetId, ip
+   * - createdFrom, createdTo: rango de fechas ISO 8601
+   * - limit (1-100, por defecto 50) y cursor
+   *
+   * RESPUESTA:
+   * {
+   *   "items": [
+   *     {
+   *       "id": 42,
+   *       "action": "auth.login",
+   *       "outcome": "failure",
+   *       "actorType": "anonymous",
+   *       "actorId": null,
+   *       "targetType": "user",
+   *       "targetId": "7",
+   *       "ip": "203.0.113.5",
+   *       "userAgent": "Mozilla/5.0 ...",
+   *       "metadata": { "email": "juan@test.com", "reason": "invalid_password" },
+   *       "createdAt": "2024-01-15T10:30:00.000Z"
+   *     }
+   *   ],
+   *   "total": 1280,
+   *   "next_cursor": "eyJpZCI6NDJ9"   ← null en la última página
+   * }
+   */
+  @Get()
+  findAll(@Query() query: ListAuditEventsQueryDto) {
+    return this.auditService.findAll(query);
+  }
+
+  /**
+   * GET /audit/export
+   * Descarga los eventos que cumplen los filtros (los mismos de GET
+   * /audit, sin limit ni cursor) en JSON Lines: un evento JSON por línea,
+   * del más antiguo al más reciente
+   *
+   * Se envía a medida que se lee de la base de datos (streaming).
+   */
+  @Get('export')
+  export(@Query() filters: AuditEventsFilterDto): StreamableFile {
+    const events = this.auditService.export(filters);
+    const lines = (async function* () {
+      for await (const event of events) {
+        yield `${JSON.stringify(event)}\n`;
+      }
+    })();
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new StreamableFile(Readable.from(lines), {
+      type: 'application/x-ndjson; charset=utf-8',
+      disposition: `attachment; filename="audit-${date}.jsonl"`,
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuditEvent } from './entities/audit-event.entity';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { PoliciesModule } from '../auth/policies/policies.module';
+
+/**
+ * AuditModule - Registro de eventos de seguridad
+ *
+ * Lo importan los módulos que registran eventos (AuthModule, UsersModule)
+ * con AuditService o con @Audited() + AuditInterceptor.
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([AuditEvent]), PoliciesModule],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,180 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { AuditEvent } from './entities/audit-event.entity';
+import { AuditEntry } from './interfaces/audit-entry.interface';
+import { AuditEventsFilterDto } from './dto/audit-events-filter.dto';
+import { ListAuditEventsQueryDto } from './dto/list-audit-events-query.dto';
+import { decodeCursor, encodeCursor, Paginated } from '../database/pagination';
+
+/**
+ * Eventos que se leen de la base de datos en cada consulta de la
+ * exportación
+ */
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * AuditService - Registro de eventos de seguridad
+ *
+ * RESPONSABILIDADES:
+ * 1. Registrar eventos (logins, cambios de contraseña, acciones de
+ *    administración...) con actor, destino, IP, User-Agent y resultado
+ * 2. Consultarlos con filtros y paginación (GET /audit)
+ * 3. Exportarlos completos, en JSON Lines (GET /audit/export)
+ *
+ * SOLO AGREGA: no hay métodos para modificar ni borrar eventos.
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectRepository(AuditEvent)
+    private readonly auditRepository: Repository<AuditEvent>,
+  ) {}
+
+  /**
+   * Registra un evento
+   *
+   * Nunca lanza excepciones: si no se puede guardar, el error va al log y
+   * la operación auditada continúa (un fallo de la auditoría no debe
+   * impedir, por ejemplo, que los usuarios inicien sesión).
+   *
+   * EJEMPLO:
+   * await auditService.record({
+   *   action: AuditAction.Login,
+   *   outcome: 'failure',
+   *   target: userRef(user.id),
+   *   client,
+   *   metadata: { reason: 'invalid_password' },
+   * });
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.auditRepository.save(
+        this.auditRepository.create({
+          action: entry.action,
+          outcome: entry.outcome,
+          actorType: entry.actor?.type ?? 'anonymous',
+          actorId: entry.actor ? String(entry.actor.id) : null,
+          targetType: entry.target?.type ?? null,
+          targetId: entry.target?.id != null ? String(entry.target.id) : null,
+          ip: entry.client?.ip?.slice(0, 45) ?? null,
+          userAgent: entry.client?.userAgent?.slice(0, 512) ?? null,
+          metadata: entry.metadata ?? null,
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `No se pudo registrar el evento ${entry.action} (${entry.outcome})`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  /**
+   * Página de eventos, del más reciente al más antiguo
+   *
+   * @returns { items, total, next_cursor }
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): Cursor inválido
+   */
+  async findAll(
+    query: ListAuditEventsQueryDto,
+  ): Promise<Paginated<AuditEvent>> {
+    const qb = this.filtered(query);
+    const total = await qb.getCount();
+
+    if (query.cursor !== undefined) {
+      const id = decodeCursor(query.cursor)?.id;
+      if (typeof id !== 'number') {
+        throw new BadRequestException(
+          'Cursor inválido: use el next_cursor de la respuesta anterior',
+        );
+      }
+      qb.andWhere('event.id < :cursorId', { cursorId: id });
+    }
+
+    const rows = await qb
+      .orderBy('event.id', 'DESC')
+      .limit(query.limit + 1)
+      .getMany();
+    const items = rows.slice(0, query.limit);
+
+    return {
+      items,
+      total,
+      next_cursor:
+        rows.length > query.limit
+          ? encodeCursor({ id: items[items.length - 1].id })
+          : null,
+    };
+  }
+
+  /**
+   * Todos los eventos que cumplen los filtros, del más antiguo al más
+   * reciente
+   *
+   * Los lee por lotes (EXPORT_BATCH_SIZE): la exportación puede abarcar
+   * millones de eventos sin cargarlos todos en memoria.
+   *
+   * EJEMPLO:
+   * for await (const event of auditService.export({ action: AuditAction.Login })) { ... }
+   */
+  async *export(filters: AuditEventsFilterDto): AsyncGenerator<AuditEvent> {
+    let lastId = 0;
+
+    while (true) {
+      const batch = await this.filtered(filters)
+        .andWhere('event.id > :lastId', { lastId })
+        .orderBy('event.id', 'ASC')
+        .limit(EXPORT_BATCH_SIZE)
+        .getMany();
+
+      yield* batch;
+
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  /**
+   * Consulta con los filtros aplicados (sin orden ni posición)
+   */
+  private filtered(
+    filters: AuditEventsFilterDto,
+  ): SelectQueryBuilder<AuditEvent> {
+    const qb = this.auditRepository.createQueryBuilder('event');
+
+    const exact = [
+      'action',
+      'outcome',
+      'actorType',
+      'actorId',
+      'targetType',
+      'targetId',
+      'ip',
+    ] as const;
+    for (const field of exact) {
+      if (filters[field] !== undefined) {
+        qb.andWhere(`event.${field} = :${field}`, { [field]: filters[field] });
+      }
+    }
+
+    if (filters.createdFrom) {
+      qb.andWhere('event.createdAt >= :createdFrom', {
+        createdFrom: filters.createdFrom,
+      });
+    }
+    if (filters.createdTo) {
+      qb.andWhere('event.createdAt <= :createdTo', {
+        createdTo: filters.createdTo,
+      });
+    }
+
+    return qb;
+  }
+}
@@ -0,0 +1,45 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Request } from 'express';
+import { AuditAction } from '../enums/audit-action.enum';
+
+/**
+ * Evento que registra una ruta con @Audited()
+ */
+export interface AuditedOptions {
+  action: AuditAction;
+  /**
+   * Tipo del recurso afectado. Su id es el parámetro :id de la ruta o, si
+   * no lo tiene (p. ej. POST /users), el "id" de la respuesta.
+   */
+  target: string;
+  /**
+   * Detalles a guardar a partir de la petición (p. ej. los roles
+   * asignados). NUNCA contraseñas ni tokens.
+   *
+   * También se evalúa si la petición falla, con el body sin validar (o
+   * sin body): elegir campos concretos, nunca copiar el body entero.
+   */
+  metadata?: (req: Request) => Record<string, unknown>;
+}
+
+/**
+ * Clave de metadatos donde @Audited() guarda sus opciones
+ */
+export const AUDITED_KEY = 'audited';
+
+/**
+ * @Audited() - Registra en la auditoría cada llamada a la ruta, con su
+ * resultado (éxito o error)
+ *
+ * - Se usa junto a AuditInterceptor
+ * - Las peticiones rechazadas por los guards (401, 403) no llegan al
+ *   interceptor y no se registran
+ *
+ * EJEMPLO:
+ * @UseInterceptors(AuditInterceptor)
+ * @Audited({ action: AuditAction.UserDeactivate, target: 'user' })
+ * @Post(':id/deactivate')
+ * deactivate() { ... }
+ */
+export const Audited = (options: AuditedOptions) =>
+  SetMetadata(AUDITED_KEY, options);
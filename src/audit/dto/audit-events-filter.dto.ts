@@ -0,0 +1,78 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { AuditAction } from '../enums/audit-action.enum';
+
+const AUDIT_ACTIONS = Object.values(AuditAction);
+
+/**
+ * AuditEventsFilterDto - Filtros de GET /audit y GET /audit/export
+ *
+ * Todos opcionales y acumulativos (AND).
+ *
+ * EJEMPLO:
+ * GET /audit?action=auth.login&outcome=failure&createdFrom=2024-01-01
+ * GET /audit?targetType=user&targetId=7   ← todo lo ocurrido a la cuenta 7
+ */
+export class AuditEventsFilterDto {
+  @IsOptional()
+  @IsEnum(AuditAction, {
+    message: `action admite: ${AUDIT_ACTIONS.join(', ')}`,
+  })
+  action?: AuditAction;
+
+  @IsOptional()
+  @IsIn(['success', 'failure'], { message: 'outcome admite: success, failure' })
+  outcome?: 'success' | 'failure';
+
+  /**
+   * Quién actuó: actorType user, client o anonymous, y su id
+   */
+  @IsOptional()
+  @IsIn(['user', 'client', 'anonymous'], {
+    message: 'actorType admite: user, client, anonymous',
+  })
+  actorType?: 'user' | 'client' | 'anonymous';
+
+  @IsOptional()
+  @IsString({ message: 'actorId debe ser una cadena de texto' })
+  @MaxLength(100, { message: 'actorId no puede exceder 100 caracteres' })
+  actorId?: string;
+
+  /**
+   * Recurso afectado (p. ej. targetType=user&targetId=7)
+   */
+  @IsOptional()
+  @IsString({ message: 'targetType debe ser una cadena de texto' })
+  @MaxLength(20, { message: 'targetType no puede exceder 20 caracteres' })
+  targetType?: string;
+
+  @IsOptional()
+  @IsString({ message: 'targetId debe ser una cadena de texto' })
+  @MaxLength(100, { message: 'targetId no puede exceder 100 caracteres' })
+  targetId?: string;
+
+  @IsOptional()
+  @IsString({ message: 'ip debe ser una cadena de texto' })
+  @MaxLength(45, { message: 'ip no puede exceder 45 caracteres' })
+  ip?: string;
+
+  /**
+   * Rango de fechas (inclusive), en formato ISO 8601
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'createdFrom debe ser una fecha ISO 8601' })
+  createdFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'createdTo debe ser una fecha ISO 8601' })
+  createdTo?: Date;
+}
@@ -0,0 +1,42 @@
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { AuditEventsFilterDto } from './audit-events-filter.dto';
+
+/**
+ * Tamaño máximo de página
+ */
+export const MAX_AUDIT_PAGE_SIZE = 100;
+
+/**
+ * ListAuditEventsQueryDto - Query string de GET /audit
+ *
+ * Los eventos se listan del más reciente al más antiguo. Solo admite
+ * paginación por cursor: en un registro que crece sin parar, un offset
+ * repetiría eventos de una página a otra.
+ *
+ * EJEMPLO:
+ * GET /audit?action=auth.login&outcome=failure&limit=50
+ * GET /audit?cursor=eyJpZCI6MTIzfQ   ← next_cursor de la respuesta anterior
+ */
+export class ListAuditEventsQueryDto extends AuditEventsFilterDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit debe ser un número entero' })
+  @Min(1, { message: 'limit debe ser al menos 1' })
+  @Max(MAX_AUDIT_PAGE_SIZE, {
+    message: `limit no puede exceder ${MAX_AUDIT_PAGE_SIZE}`,
+  })
+  limit: number = 50;
+
+  @IsOptional()
+  @IsString({ message: 'cursor debe ser una cadena de texto' })
+  @MaxLength(500, { message: 'Cursor inválido' })
+  cursor?: string;
+}
@@ -0,0 +1,92 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { AuditAction } from '../enums/audit-action.enum';
+
+/**
+ * Resultado de la acción registrada
+ */
+export type AuditOutcome = 'success' | 'failure';
+
+/**
+ * Quién realiza la acción
+ * - user: Un usuario (con sesión o API key)
+ * - client: Una aplicación (token de client credentials)
+ * - anonymous: Nadie identificado (p. ej. un login con contraseña incorrecta)
+ */
+export type AuditActorType = 'user' | 'client' | 'anonymous';
+
+/**
+ * Entidad AuditEvent
+ * Un evento de seguridad: quién hizo qué, sobre qué, desde dónde y con
+ * qué resultado.
+ *
+ * SOLO SE AGREGAN FILAS: AuditService no tiene métodos para modificar ni
+ * borrar eventos (y en MySQL la migración lo impide con triggers).
+ *
+ * Sin claves foráneas: el evento debe sobrevivir al usuario o la
+ * aplicación que menciona, y los ids se guardan como texto porque pueden
+ * ser de un usuario (1) o de una aplicación ("a1b2c3...").
+ */
+@Entity('audit_events')
+@Index('IDX_audit_events_actor', ['actorType', 'actorId'])
+@Index('IDX_audit_events_target', ['targetType', 'targetId'])
+export class AuditEvent {
+  /**
+   * Creciente: ordena los eventos y sirve de cursor para paginar.
+   */
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Index('IDX_audit_events_action')
+  @Column({ type: 'varchar', length: 50 })
+  action: AuditAction;
+
+  @Column({ type: 'varchar', length: 10 })
+  outcome: AuditOutcome;
+
+  @Column({ type: 'varchar', length: 20 })
+  actorType: AuditActorType;
+
+  /**
+   * ID del usuario o client_id de la aplicación (null si es anónimo).
+   */
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  actorId: string | null;
+
+  /**
+   * Recurso afectado (p. ej. "user" y su id), si lo hay.
+   */
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  targetType: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  targetId: string | null;
+
+  /**
+   * IP del cliente (IPv4 o IPv6).
+   */
+  @Column({ type: 'varchar', length: 45, nullable: true })
+  ip: string | null;
+
+  /**
+   * Cabecera User-Agent (recortada a 512 caracteres).
+   */
+  @Column({ type: 'varchar', length: 512, nullable: true })
+  userAgent: string | null;
+
+  /**
+   * Detalles propios de cada acción (p. ej. el motivo de un login fallido
+   * o los roles asignados). Nunca contraseñas ni tokens.
+   */
+  @Column({ type: 'simple-json', nullable: true })
+  metadata: Record<string, unknown> | null;
+
+  @Index('IDX_audit_events_createdAt')
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,40 @@
+/**
+ * Acciones que se registran en la auditoría
+ *
+ * El valor ("área.acción") es el que se guarda en audit_events.action y el
+ * que se usa para filtrar en GET /audit?action=auth.login
+ */
+export enum AuditAction {
+  // Autenticación (AuthService)
+  Register = 'auth.register',
+  Login = 'auth.login',
+  /** Demasiados intentos fallidos: la cuenta queda bloqueada (423) */
+  AccountLocked = 'auth.account_locked',
+  TokenRefresh = 'auth.token_refresh',
+  Logout = 'auth.logout',
+  LogoutAll = 'auth.logout_all',
+  SessionRevoke = 'auth.session_revoke',
+  PasswordChange = 'auth.password_change',
+  PasswordReset = 'auth.password_reset',
+  /** Se envió un enlace mágico (solo a cuentas existentes) */
+  MagicLinkRequest = 'auth.magic_link_request',
+  PasskeyRegister = 'auth.passkey_register',
+  PasskeyDelete = 'auth.passkey_delete',
+
+  // Administración de usuarios (UsersController)
+  UserRead = 'user.read',
+  UserCreate = 'user.create',
+  UserUpdate = 'user.update',
+  UserDeactivate = 'user.deactivate',
+  UserReactivate = 'user.reactivate',
+  UserForcePasswordReset = 'user.force_password_reset',
+  UserSetRoles = 'user.set_roles',
+  UserDelete = 'user.delete',
+
+  // Webhooks (WebhooksController)
+  WebhookCreate = 'webhook.create',
+  WebhookUpdate = 'webhook.update',
+  WebhookDelete = 'webhook.delete',
+  WebhookRotateSecret = 'webhook.rotate_secret',
+  WebhookReplay = 'webhook.replay',
+}
@@ -0,0 +1,93 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { catchError, concatMap, from, Observable, throwError } from 'rxjs';
+import { AUDITED_KEY, AuditedOptions } from '../decorators/audited.decorator';
+import { AuditService } from '../audit.service';
+import { AuditOutcome } from '../entities/audit-event.entity';
+import { actorOf } from '../interfaces/audit-entry.interface';
+import { clientInfoOf } from '../../auth/decorators/client-info.decorator';
+import { Principal } from '../../auth/interfaces/jwt-payload.interface';
+
+/**
+ * AuditInterceptor - Registra las rutas marcadas con @Audited()
+ *
+ * 1. Deja que el handler se ejecute
+ * 2. Si responde con éxito: registra el evento con outcome "success"
+ * 3. Si lanza una excepción: la registra con outcome "failure" (y el
+ *    estado HTTP en metadata.status) y la deja seguir su camino
+ *
+ * Es un interceptor (y no código en cada handler) porque necesita
+ * conocer el resultado, igual que BruteForceInterceptor.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditService: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const options = this.reflector.get<AuditedOptions | undefined>(
+      AUDITED_KEY,
+      context.getHandler(),
+    );
+    if (!options) {
+      return next.handle();
+    }
+
+    const req = context
+      .switchToHttp()
+      .getRequest<Request & { user?: Principal }>();
+
+    const record = (
+      outcome: AuditOutcome,
+      body: unknown,
+      extra: Record<string, unknown> = {},
+    ) => {
+      const principal = req.user;
+      const param = req.params.id;
+      const targetId =
+        typeof param === 'string'
+          ? param
+          : (body as { id?: number } | undefined)?.id;
+
+      return this.auditService.record({
+        action: options.action,
+        outcome,
+        actor: principal ? actorOf(principal) : undefined,
+        target: { type: options.target, id: targetId ?? null },
+        client: clientInfoOf(req),
+        metadata: {
+          ...(principal && { authMethod: principal.authMethod }),
+          ...options.metadata?.(req),
+          ...extra,
+        },
+      });
+    };
+
+    return next.handle().pipe(
+      concatMap(async (body: unknown) => {
+        await record('success', body);
+        return body;
+      }),
+      catchError((error: unknown) =>
+        from(
+          record('failure', undefined, {
+            status:
+              error instanceof HttpException
+                ? error.getStatus()
+                : HttpStatus.INTERNAL_SERVER_ERROR,
+          }),
+        ).pipe(concatMap(() => throwError(() => error))),
+      ),
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import type { ClientInfo } from '../../auth/decorators/client-info.decorator';
+import type { Principal } from '../../auth/interfaces/jwt-payload.interface';
+import { AuditAction } from '../enums/audit-action.enum';
+import type { AuditOutcome } from '../entities/audit-event.entity';
+
+/**
+ * Quién realiza la acción (sin actor = anónimo)
+ */
+export interface AuditActor {
+  type: 'user' | 'client';
+  id: number | string;
+}
+
+/**
+ * Recurso sobre el que se actúa (p. ej. { type: 'user', id: 7 })
+ */
+export interface AuditTarget {
+  type: string;
+  id: number | string | null;
+}
+
+/**
+ * Evento a registrar con AuditService.record()
+ */
+export interface AuditEntry {
+  action: AuditAction;
+  outcome: AuditOutcome;
+  actor?: AuditActor;
+  target?: AuditTarget;
+  /** IP y User-Agent de la petición */
+  client?: ClientInfo;
+  /** Detalles de la acción: NUNCA contraseñas, tokens ni secretos */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Referencia a una cuenta de usuario, como actor o como destino
+ *
+ * EJEMPLO:
+ * { action: AuditAction.Logout, actor: userRef(7), target: userRef(7), ... }
+ */
+export function userRef(userId: number): AuditActor & AuditTarget {
+  return { type: 'user', id: userId };
+}
+
+/**
+ * Actor correspondiente a la credencial de la petición (req.user)
+ */
+export function actorOf(principal: Principal): AuditActor {
+  return principal.authMethod === 'client-credentials'
+    ? { type: 'client', id: principal.clientId }
+    : userRef(principal.userId);
+}
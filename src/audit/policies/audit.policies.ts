@@ -0,0 +1,9 @@
+import { Permission } from '../../auth/policies/permission.enum';
+import { PolicyHandler } from '../../auth/policies/policy-handler.interface';
+
+/**
+ * Consultar y exportar la auditoría: administradores, o aplicaciones con
+ * el scope audit:read (p. ej. un SIEM que importa los eventos)
+ */
+export const canReadAudit: PolicyHandler = (ability) =>
+  ability.can(Permission.AuditRead);
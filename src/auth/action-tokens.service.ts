@@ -0,0 +1,131 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { ActionToken } from './entities/action-token.entity';
+import { hashToken } from './utils/hash-token';
+
+/**
+ * Acciones que se confirman con un ActionToken
+ */
+export enum ActionTokenPurpose {
+  EmailVerification = 'email-verification',
+  PasswordReset = 'password-reset',
+  EmailChange = 'email-change',
+  SocialLogin = 'social-login',
+  MagicLink = 'magic-link',
+}
+
+/**
+ * ActionTokensService - Tokens de un solo uso, hasheados y con expiración
+ *
+ * RESPONSABILIDADES:
+ * 1. Emitir tokens aleatorios guardando solo su hash
+ * 2. Canjearlos una única vez antes de que expiren
+ * 3. Anular los tokens pendientes de una acción (p. ej. al reenviar un email)
+ */
+@Injectable()
+export class ActionTokensService {
+  constructor(
+    @InjectRepository(ActionToken)
+    private readonly actionTokensRepository: Repository<ActionToken>,
+  ) {}
+
+  /**
+   * Emite un token para la acción indicada
+   *
+   * @param userId - Usuario al que pertenece
+   * @param purpose - Acción que autoriza
+   * @param ttlMs - Vigencia en milisegundos
+   * @param data - Datos asociados (se devuelven al canjearlo)
+   * @returns El token en texto plano (solo se conoce en este momento)
+   */
+  async issue(
+    userId: number,
+    purpose: ActionTokenPurpose,
+    ttlMs: number,
+    data: Record<string, string> | null = null,
+  ): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+
+    await this.actionTokensRepository.save(
+      this.actionTokensRepository.create({
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        data,
+        expiresAt: new Date(Date.now() + ttlMs),
+      }),
+    );
+
+    return token;
+  }
+
+  /**
+   * Busca un token vigente SIN canjearlo (p. ej. para validar los datos
+   * que lo acompañan antes de gastarlo)
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): Token inexistente, de otra acción, expirado o ya usado
+   */
+  async findValid(
+    token: string,
+    purpose: ActionTokenPurpose,
+  ): Promise<ActionToken> {
+    const stored = await this.actionTokensRepository.findOne({
+      where: { tokenHash: hashToken(token), purpose },
+    });
+
+    if (
+      !stored ||
+      stored.consumedAt ||
+      stored.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new BadRequestException('El enlace es inválido o ha expirado');
+    }
+    return stored;
+  }
+
+  /**
+   * Canjea un token (solo funciona una vez)
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): Token inexistente, de otra acción, expirado o ya usado
+   */
+  async consume(
+    token: string,
+    purpose: ActionTokenPurpose,
+  ): Promise<ActionToken> {
+    const stored = await this.findValid(token, purpose);
+
+    // Actualización condicional: si dos peticiones llegan a la vez con el
+    // mismo token, solo una lo consume
+    const result = await this.actionTokensRepository.update(
+      { id: stored.id, consumedAt: IsNull() },
+      { consumedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new BadRequestException('El enlace es inválido o ha expirado');
+    }
+
+    return stored;
+  }
+
+  /**
+   * Anula los tokens pendientes de una acción para el usuario
+   */
+  async revokePending(
+    userId: number,
+    purpose: ActionTokenPurpose,
+  ): Promise<void> {
+    await this.actionTokensRepository.update(
+      {
+        userId,
+        purpose,
+        consumedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      { consumedAt: new Date() },
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKey } from './entities/api-key.entity';
+import { SessionAuthGuard } from './guards/session-auth.guard';
+import { AuthenticatedUser } from './interfaces/jwt-payload.interface';
+import { CreateApiKeyDto } from '../users/dto/create-api-key.dto';
+
+/**
+ * ApiKeysController - API keys personales del usuario
+ *
+ * Todas las rutas exigen una sesión (SessionAuthGuard): con una API key
+ * no se pueden crear otras ni revocarlas.
+ */
+@UseGuards(SessionAuthGuard)
+@Controller('auth/api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * POST /auth/api-keys
+   * Crea una API key
+   *
+   * RESPUESTA: la clave completa ("key") solo se muestra esta vez
+   */
+  @Post()
+  async create(
+    @Req() req: Request & { user: AuthenticatedUser },
+    @Body() createApiKeyDto: CreateApiKeyDto,
+  ) {
+    const { apiKey, key } = await this.apiKeysService.create(
+      req.user.userId,
+      createApiKeyDto.name,
+    );
+    return { ...toResponse(apiKey), key };
+  }
+
+  /**
+   * GET /auth/api-keys
+   * API keys vigentes del usuario (sin el secreto)
+   */
+  @Get()
+  async list(@Req() req: Request & { user: AuthenticatedUser }) {
+    const apiKeys = await this.apiKeysService.findActive(req.user.userId);
+    return apiKeys.map(toResponse);
+  }
+
+  /**
+   * DELETE /auth/api-keys/:id
+   * Revoca una API key: deja de funcionar de inmediato
+   */
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete(':id')
+  async revoke(
+    @Req() req: Request & { user: AuthenticatedUser },
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.apiKeysService.revoke(req.user.userId, id);
+  }
+}
+
+/**
+ * Datos públicos de una API key
+ */
+function toResponse(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    last_used_at: apiKey.lastUsedAt,
+    created_at: apiKey.createdAt,
+  };
+}
@@ -0,0 +1,143 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKey } from './entities/api-key.entity';
+import { hashToken } from './utils/hash-token';
+import {
+  API_KEY_LAST_USED_RESOLUTION_MS,
+  MAX_API_KEYS_PER_USER,
+} from './auth.constants';
+
+/**
+ * ak_ + prefix (12 hex) + _ + secreto (32 bytes en base64url)
+ */
+const API_KEY_FORMAT = /^ak_([0-9a-f]{12})_[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Resultado de crear una API key
+ * - key: Valor completo, solo se entrega esta vez (se guarda hasheado)
+ */
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
+
+/**
+ * ApiKeysService - API keys personales para scripts y procesos
+ *
+ * RESPONSABILIDADES:
+ * 1. Crear claves aleatorias y guardar solo su hash
+ * 2. Listar y revocar las claves de un usuario
+ * 3. Autenticar la clave de una petición (ApiKeyStrategy) y registrar su
+ *    último uso
+ */
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeysRepository: Repository<ApiKey>,
+  ) {}
+
+  /**
+   * Crea una API key para el usuario
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): Ya tiene MAX_API_KEYS_PER_USER claves vigentes
+   */
+  async create(userId: number, name: string): Promise<CreatedApiKey> {
+    const active = await this.apiKeysRepository.count({
+      where: { userId, revokedAt: IsNull() },
+    });
+    if (active >= MAX_API_KEYS_PER_USER) {
+      throw new BadRequestException(
+        `No puede tener más de ${MAX_API_KEYS_PER_USER} API keys vigentes. Revoque alguna que ya no use.`,
+      );
+    }
+
+    const prefix = randomBytes(6).toString('hex');
+    const key = `ak_${prefix}_${randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await this.apiKeysRepository.save(
+      this.apiKeysRepository.create({
+        userId,
+        name,
+        prefix,
+        keyHash: hashToken(key),
+      }),
+    );
+
+    return { apiKey, key };
+  }
+
+  /**
+   * API keys vigentes del usuario (sin las revocadas)
+   */
+  findActive(userId: number): Promise<ApiKey[]> {
+    return this.apiKeysRepository.find({
+      where: { userId, revokedAt: IsNull() },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Revoca una API key del usuario
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): No existe, es de otro usuario o ya estaba
+   *   revocada
+   */
+  async revoke(userId: number, id: string): Promise<void> {
+    const result = await this.apiKeysRepository.update(
+      { id, userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new NotFoundException('API key no encontrada');
+    }
+  }
+
+  /**
+   * Identifica la API key de una petición
+   *
+   * ALGORITMO:
+   * 1. Valida el formato y busca la clave por su prefix
+   * 2. Compara el hash de la clave completa en tiempo constante
+   * 3. Registra el uso (como mucho una escritura por minuto)
+   *
+   * @returns La clave con su usuario, o null si no existe, no coincide o
+   *   está revocada
+   */
+  async authenticate(key: string): Promise<ApiKey | null> {
+    const prefix = API_KEY_FORMAT.exec(key)?.[1];
+    const apiKey = prefix
+      ? await this.apiKeysRepository.findOne({
+          where: { prefix },
+          relations: { user: true },
+        })
+      : null;
+
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      !timingSafeEqual(Buffer.from(hashToken(key)), Buffer.from(apiKey.keyHash))
+    ) {
+      return null;
+    }
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() >=
+        API_KEY_LAST_USED_RESOLUTION_MS
+    ) {
+      await this.apiKeysRepository.update(apiKey.id, { lastUsedAt: now });
+      apiKey.lastUsedAt = now;
+    }
+    return apiKey;
+  }
+}
@@ -0,0 +1,115 @@
+// ============================================
+// CONSTANTES DE AUTENTICACIÓN
+// ============================================
+
+// NOTA: La duración de los access tokens, el secreto JWT y las URLs se
+// configuran por variables de entorno (ver src/config/configuration.ts)
+
+/**
+ * Duración de los refresh tokens (en milisegundos): 7 días
+ */
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Vigencia de los enlaces de verificación de email (en milisegundos): 24 horas
+ */
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Vigencia de los enlaces para restablecer la contraseña (en milisegundos): 1 hora
+ */
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Vigencia de los enlaces mágicos para iniciar sesión (en milisegundos): 15 minutos
+ */
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Factor de costo de bcrypt (2^10 = 1024 rondas)
+ */
+export const BCRYPT_SALT_ROUNDS = 10;
+
+/**
+ * Vigencia del token "mfa pendiente" (en segundos): 5 minutos
+ * - Lo emite el login cuando la cuenta tiene 2FA activada
+ * - Solo sirve para canjearlo en POST /auth/2fa/verify
+ */
+export const MFA_TOKEN_EXPIRES_IN_SECONDS = 5 * 60;
+
+/**
+ * Códigos incorrectos que admite un mismo token "mfa pendiente"
+ * - Al llegar al límite el token se revoca: hay que volver a enviar la
+ *   contraseña, que pasa por los contadores del login
+ */
+export const MFA_TOKEN_MAX_FAILED_CODES = 3;
+
+/**
+ * Cantidad de códigos de recuperación que se entregan al activar 2FA
+ */
+export const RECOVERY_CODES_COUNT = 10;
+
+/**
+ * Vigencia del state del login social (en segundos): 10 minutos
+ * - Cookie firmada con el state y el code_verifier de PKCE
+ * - Es el tiempo que tiene el usuario para completar el login en el proveedor
+ */
+export const SOCIAL_LOGIN_STATE_EXPIRES_IN_SECONDS = 10 * 60;
+
+/**
+ * Nombre de la cookie con el state del login social
+ */
+export const SOCIAL_LOGIN_STATE_COOKIE = 'social_login_state';
+
+/**
+ * Cookies de sesión (AUTH_TOKEN_TRANSPORT=cookie, ver SessionCookiesService)
+ * - access_token y refresh_token: HttpOnly, el JavaScript no puede leerlas
+ * - csrf_token: legible por el frontend, que la copia en la cabecera
+ */
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const CSRF_COOKIE = 'csrf_token';
+
+/**
+ * Cabecera que debe repetir el valor de la cookie CSRF
+ */
+export const CSRF_HEADER = 'x-csrf-token';
+
+/**
+ * Vigencia del código que el callback social entrega al frontend
+ * (en milisegundos): 1 minuto, el frontend lo canjea de inmediato
+ */
+export const SOCIAL_LOGIN_CODE_TTL_MS = 60 * 1000;
+
+/**
+ * Vigencia de los desafíos de WebAuthn (en milisegundos): 5 minutos
+ * - Es el "timeout" que se indica al navegador para crear o usar la passkey
+ */
+export const WEBAUTHN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Passkeys que puede registrar un usuario
+ */
+export const MAX_PASSKEYS_PER_USER = 10;
+
+/**
+ * Cabecera con la que se envían las API keys personales
+ */
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * API keys vigentes que puede tener un usuario a la vez
+ */
+export const MAX_API_KEYS_PER_USER = 10;
+
+/**
+ * Cada cuánto se actualiza el "último uso" de una API key (en milisegundos):
+ * 1 minuto, para no escribir en la base de datos en cada petición
+ */
+export const API_KEY_LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Cada cuánto se actualiza la "última actividad" de una sesión (en
+ * milisegundos): 1 minuto, igual que las API keys
+ */
+export const SESSION_LAST_SEEN_RESOLUTION_MS = 60 * 1000;
@@ -2,18 +2,66 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
+  Delete,
   Body,
   UseGuards,
-  Request
+  UseInterceptors,
+  Request,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Headers,
+  Redirect,
+  Res,
+  BadRequestException,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { AuthService } from './auth.service';
 import { RegisterDto } from '../users/dto/register.dto';
 import { LoginDto } from '../users/dto/login.dto';
+import { RefreshTokenDto } from '../users/dto/refresh-token.dto';
+import { VerifyEmailDto } from '../users/dto/verify-email.dto';
+import { ResendVerificationDto } from '../users/dto/resend-verification.dto';
+import { ForgotPasswordDto } from '../users/dto/forgot-password.dto';
+import { ResetPasswordDto } from '../users/dto/reset-password.dto';
+import { ChangePasswordDto } from '../users/dto/change-password.dto';
+import { CheckPasswordDto } from '../users/dto/check-password.dto';
+import { PasswordPolicyService } from '../users/password-policy/password-policy.service';
+import { ChangeEmailDto } from '../users/dto/change-email.dto';
+import { TwoFactorCodeDto } from '../users/dto/two-factor-code.dto';
+import { VerifyTwoFactorDto } from '../users/dto/verify-two-factor.dto';
+import { DisableTwoFactorDto } from '../users/dto/disable-two-factor.dto';
+import { SocialLoginExchangeDto } from '../users/dto/social-login-exchange.dto';
+import { RequestMagicLinkDto } from '../users/dto/request-magic-link.dto';
+import { VerifyMagicLinkDto } from '../users/dto/verify-magic-link.dto';
+import { TwoFactorService } from './two-factor.service';
+import { EmailVerificationService } from './email-verification.service';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { SessionAuthGuard } from './guards/session-auth.guard';
+import { MfaPendingGuard } from './guards/mfa-pending.guard';
+import { BruteForceInterceptor } from './interceptors/brute-force.interceptor';
+import { SessionCookiesInterceptor } from './interceptors/session-cookies.interceptor';
+import { SessionCookiesService } from './session-cookies.service';
+import { BruteForceProtection, LOGIN_BRUTE_FORCE_OPTIONS, TWO_FACTOR_BRUTE_FORCE_OPTIONS } from './decorators/brute-force.decorator';
+import { ClientInfo } from './decorators/client-info.decorator';
+import { SocialAuthService } from './social-auth.service';
+import type { SocialCallbackParams } from './social-auth.service';
+import { MAGIC_LINK_TTL_MS, SOCIAL_LOGIN_STATE_COOKIE } from './auth.constants';
+import { readCookie } from './utils/cookies';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) { }
+  constructor(
+    private readonly authService: AuthService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly socialAuthService: SocialAuthService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly sessionCookiesService: SessionCookiesService,
+  ) { }
 
   /**
    * POST /auth/register
@@ -21,24 +69,352 @@ export class AuthController {
    * Ruta PÚBLICA
    */
   @Post('register')
-  register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto);
+  register(@Body() registerDto: RegisterDto, @ClientInfo() client: ClientInfo) {
+    return this.authService.register(registerDto, client);
+  }
+
+  /**
+   * POST /auth/verify-email
+   * Confirma el email con el token recibido por correo
+   * Ruta PÚBLICA
+   */
+  @HttpCode(HttpStatus.OK)
+  @Post('verify-email')
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    await this.emailVerificationService.verify(verifyEmailDto.token);
+    return { message: 'Email verificado exitosamente' };
+  }
+
+  /**
+   * POST /auth/resend-verification
+   * Reenvía el enlace de verificación
+   * Ruta PÚBLICA - responde siempre lo mismo para no revelar qué emails existen
+   */
+  @HttpCode(HttpStatus.OK)
+  @Post('resend-verification')
+  async resendVerification(@Body() resendVerificationDto: ResendVerificationDto) {
+    await this.emailVerificationService.resend(resendVerificationDto.email);
+    return {
+      message: 'Si el email está registrado y pendiente de verificación, recibirá un nuevo enlace',
+    };
+  }
+
+  /**
+   * POST /auth/forgot-password
+   * Envía un enlace para restablecer la contraseña
+   * Ruta PÚBLICA - responde siempre lo mismo para no revelar qué emails existen
+   */
+  @HttpCode(HttpStatus.OK)
+  @Post('forgot-password')
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.authService.forgotPassword(forgotPasswordDto.email);
+    return {
+      message: 'Si el email está registrado, recibirá un enlace para restablecer la contraseña',
+    };
+  }
+
+  /**
+   * POST /auth/reset-password
+   * Restablece la contraseña con el token recibido por correo
+   * Ruta PÚBLICA
+   */
+  @HttpCode(HttpStatus.OK)
+  @Post('reset-password')
+  resetPassword(@Body() resetPasswordDto: ResetPasswordDto, @ClientInfo() client: ClientInfo) {
+    return this.authService.resetPassword(resetPasswordDto.token, resetPasswordDto.password, client);
+  }
+
+  /**
+   * POST /auth/password-strength
+   * Evalúa una contraseña con la política actual, sin guardar nada (para
+   * el indicador de fortaleza de los formularios)
+   * Ruta PÚBLICA - el historial solo se comprueba al cambiar la contraseña
+   *
+   * RESPUESTA:
+   * { "valid": false, "strength": { "score": 1, "label": "débil" },
+   *   "violations": [{ "rule": "uppercase", "message": "..." }] }
+   */
+  @HttpCode(HttpStatus.OK)
+  @Post('password-strength')
+  checkPasswordStrength(@Body() checkPasswordDto: CheckPasswordDto) {
+    const { password, username, email } = checkPasswordDto;
+    return this.passwordPolicyService.check(password, { username, email });
   }
 
   /**
    * POST /auth/login
    * Inicio de sesión
-   * Ruta PÚBLICA
+   * Ruta PÚBLICA - limitada por cuenta (email) y por IP: 423 si la cuenta
+   * está bloqueada, 429 si hay que esperar (ver cabecera Retry-After)
+   *
+   * Con AUTH_TOKEN_TRANSPORT=cookie los tokens llegan en cookies HttpOnly
+   * y el body trae csrf_token en su lugar (ver SessionCookiesService); lo
+   * mismo vale para las demás rutas que inician o renuevan la sesión
    */
+  @UseInterceptors(BruteForceInterceptor, SessionCookiesInterceptor)
+  @BruteForceProtection(LOGIN_BRUTE_FORCE_OPTIONS)
   @Post('login')
-  login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  login(@Body() loginDto: LoginDto, @ClientInfo() client: ClientInfo) {
+    return this.authService.login(loginDto, client);
+  }
+
+  /**
+   * POST /auth/magic-link
+   * Envía un enlace para iniciar sesión sin contraseña
+   * Ruta PÚBLICA - responde siempre lo mismo para no revelar qué emails
+   * existen; rechaza las cuentas bloqueadas del login (423/429) sin contar
+   * fallos
+   *
+   * RESPUESTA:
+   * { "message": "...", "nonce": "c3Rh8Lm...", "expires_in": 900 }
+   * El navegador guarda el nonce y lo envía junto con el token del enlace
+   */
+  @UseInterceptors(BruteForceInterceptor)
+  @BruteForceProtection({ ...LOGIN_BRUTE_FORCE_OPTIONS, checkOnly: true })
+  @HttpCode(HttpStatus.OK)
+  @Post('magic-link')
+  async requestMagicLink(@Body() requestMagicLinkDto: RequestMagicLinkDto, @ClientInfo() client: ClientInfo) {
+    const nonce = await this.authService.requestMagicLink(requestMagicLinkDto.email, client);
+    return {
+      message: 'Si el email está registrado, recibirá un enlace para iniciar sesión',
+      nonce,
+      expires_in: MAGIC_LINK_TTL_MS / 1000,
+    };
+  }
+
+  /**
+   * POST /auth/magic-link/verify
+   * Canjea el enlace mágico: misma respuesta que POST /auth/login
+   * Ruta PÚBLICA - el enlace dura 15 minutos, sirve una sola vez y solo
+   * desde el navegador que lo pidió (nonce)
+   */
+  @UseInterceptors(SessionCookiesInterceptor)
+  @HttpCode(HttpStatus.OK)
+  @Post('magic-link/verify')
+  verifyMagicLink(@Body() verifyMagicLinkDto: VerifyMagicLinkDto, @ClientInfo() client: ClientInfo) {
+    return this.authService.verifyMagicLink(verifyMagicLinkDto.token, verifyMagicLinkDto.nonce, client);
+  }
+
+  /**
+   * POST /auth/2fa/verify
+   * Segundo paso del login: canjea el mfa_token y un código TOTP o de recuperación
+   * Ruta PÚBLICA - requiere el mfa_token emitido por POST /auth/login;
+   * los códigos incorrectos se limitan por cuenta y por IP, y cada
+   * mfa_token se revoca tras MFA_TOKEN_MAX_FAILED_CODES intentos fallidos
+   */
+  @UseGuards(MfaPendingGuard)
+  @UseInterceptors(BruteForceInterceptor, SessionCookiesInterceptor)
+  @BruteForceProtection(TWO_FACTOR_BRUTE_FORCE_OPTIONS)
+  @Post('2fa/verify')
+  verifyTwoFactor(@Body() verifyTwoFactorDto: VerifyTwoFactorDto, @ClientInfo() client: ClientInfo) {
+    return this.authService.verifyTwoFactor(verifyTwoFactorDto.mfa_token, verifyTwoFactorDto.code, client);
+  }
+
+  /**
+   * POST /auth/2fa/enroll
+   * Inicia la activación de 2FA: retorna el secreto y la URI otpauth:// (QR)
+   * Ruta PROTEGIDA - requiere una sesión (no acepta API keys)
+   */
+  @UseGuards(SessionAuthGuard)
+  @Post('2fa/enroll')
+  enrollTwoFactor(@Request() req) {
+    return this.twoFactorService.enroll(req.user.userId);
+  }
+
+  /**
+   * POST /auth/2fa/confirm
+   * Activa 2FA con un código de la app y entrega los códigos de recuperación
+   * Ruta PROTEGIDA - requiere una sesión (no acepta API keys)
+   */
+  @UseGuards(SessionAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @Post('2fa/confirm')
+  async confirmTwoFactor(@Request() req, @Body() twoFactorCodeDto: TwoFactorCodeDto) {
+    const recoveryCodes = await this.twoFactorService.confirm(req.user.userId, twoFactorCodeDto.code);
+    return {
+      message: 'Autenticación en dos pasos activada. Guarde los códigos de recuperación.',
+      recovery_codes: recoveryCodes,
+    };
+  }
+
+  /**
+   * POST /auth/2fa/disable
+   * Desactiva 2FA (requiere contraseña y un código)
+   * Ruta PROTEGIDA - requiere una sesión (no acepta API keys)
+   */
+  @UseGuards(SessionAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @Post('2fa/disable')
+  disableTwoFactor(@Request() req, @Body() disableTwoFactorDto: DisableTwoFactorDto) {
+    return this.authService.disableTwoFactor(
+      req.user,
+      disableTwoFactorDto.password,
+      disableTwoFactorDto.code,
+    );
+  }
+
+  /**
+   * GET /auth/social/:provider
+   * Inicia el login con Google, GitHub... (redirige al proveedor)
+   * Ruta PÚBLICA - se abre en el navegador, no con fetch; 404 si el
+   * proveedor no está configurado
+   */
+  @Get('social/:provider')
+  @Redirect()
+  startSocialLogin(@Param('provider') provider: string, @Res({ passthrough: true }) res: Response) {
+    const { url, stateCookie } = this.socialAuthService.start(provider);
+    res.cookie(SOCIAL_LOGIN_STATE_COOKIE, stateCookie, this.socialAuthService.stateCookieOptions());
+    return { url };
+  }
+
+  /**
+   * GET /auth/social/:provider/callback
+   * Vuelta desde el proveedor: redirige al frontend
+   * (/auth/social/complete?code=... o ?error=...)
+   * Ruta PÚBLICA - exige la cookie creada al iniciar el login
+   */
+  @Get('social/:provider/callback')
+  @Redirect()
+  async socialLoginCallback(
+    @Param('provider') provider: string,
+    @Query() query: SocialCallbackParams,
+    @Headers('cookie') cookieHeader: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    // La cookie es de un solo uso, tanto si el login sale bien como si no
+    // (Express ignora maxAge al borrar; path y flags deben coincidir)
+    res.clearCookie(SOCIAL_LOGIN_STATE_COOKIE, this.socialAuthService.stateCookieOptions());
+
+    const url = await this.socialAuthService.callback(
+      provider,
+      query,
+      readCookie(cookieHeader, SOCIAL_LOGIN_STATE_COOKIE),
+    );
+    return { url };
+  }
+
+  /**
+   * POST /auth/social/exchange
+   * Canjea el código del login social: misma respuesta que POST /auth/login
+   * Ruta PÚBLICA - el código dura un minuto y sirve una sola vez
+   */
+  @UseInterceptors(SessionCookiesInterceptor)
+  @HttpCode(HttpStatus.OK)
+  @Post('social/exchange')
+  exchangeSocialLogin(@Body() socialLoginExchangeDto: SocialLoginExchangeDto, @ClientInfo() client: ClientInfo) {
+    return this.authService.exchangeSocialLoginCode(socialLoginExchangeDto.code, client);
+  }
+
+  /**
+   * GET /auth/identities
+   * Cuentas externas (Google, GitHub...) vinculadas al usuario
+   * Ruta PROTEGIDA - requiere token válido o API key
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get('identities')
+  listIdentities(@Request() req) {
+    return this.authService.listIdentities(req.user.userId);
+  }
+
+  /**
+   * POST /auth/refresh
+   * Renovación de tokens (rota el refresh token)
+   * Ruta PÚBLICA - requiere un refresh token válido en el body (en modo
+   * cookie, en la cookie refresh_token)
+   */
+  @UseInterceptors(SessionCookiesInterceptor)
+  @Post('refresh')
+  refresh(@Request() req, @Body() refreshTokenDto: RefreshTokenDto, @ClientInfo() client: ClientInfo) {
+    const refreshToken = refreshTokenDto.refresh_token ?? this.sessionCookiesService.readRefreshToken(req);
+    if (!refreshToken) {
+      throw new BadRequestException('El refresh token es obligatorio');
+    }
+    return this.authService.refresh(refreshToken, client);
+  }
+
+  /**
+   * POST /auth/logout
+   * Cierra la sesión actual (revoca el access token y su refresh token)
+   * Ruta PROTEGIDA - requiere una sesión (no acepta API keys)
+   */
+  @UseGuards(SessionAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @Post('logout')
+  logout(@Request() req, @ClientInfo() client: ClientInfo, @Res({ passthrough: true }) res: Response) {
+    this.sessionCookiesService.clear(res);
+    return this.authService.logout(req.user, client);
+  }
+
+  /**
+   * POST /auth/logout-all
+   * Cierra la sesión en todos los dispositivos del usuario
+   * Ruta PROTEGIDA - requiere una sesión (no acepta API keys)
+   */
+  @UseGuards(SessionAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @Post('logout-all')
+  logoutAll(@Request() req, @ClientInfo() client: ClientInfo, @Res({ passthrough: true }) res: Response) {
+    this.sessionCookiesService.clear(res);
+    return this.authService.logoutAll(req.user, client);
+  }
+
+  /**
+   * GET /auth/sessions
+   * Sesiones abiertas del usuario (dispositivo, IP, última actividad); la
+   * del token actual viene con current: true
+   * Ruta PROTEGIDA - requiere una sesión (no acepta API keys)
+   */
+  @UseGuards(SessionAuthGuard)
+  @Get('sessions')
+  listSessions(@Request() req) {
+    return this.authService.listSessions(req.user);
+  }
+
+  /**
+   * DELETE /auth/sessions/:id
+   * Cierra una sesión (p. ej. la de un dispositivo perdido)
+   * Ruta PROTEGIDA - requiere una sesión (no acepta API keys)
+   */
+  @UseGuards(SessionAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete('sessions/:id')
+  revokeSession(@Request() req, @Param('id', ParseUUIDPipe) id: string, @ClientInfo() client: ClientInfo) {
+    return this.authService.revokeSession(req.user, id, client);
+  }
+
+  /**
+   * PATCH /auth/password
+   * Cambia la contraseña (requiere la actual) y cierra las demás sesiones
+   * Ruta PROTEGIDA - requiere una sesión (no acepta API keys)
+   */
+  @UseGuards(SessionAuthGuard)
+  @UseInterceptors(SessionCookiesInterceptor)
+  @Patch('password')
+  changePassword(@Request() req, @Body() changePasswordDto: ChangePasswordDto, @ClientInfo() client: ClientInfo) {
+    return this.authService.changePassword(
+      req.user,
+      changePasswordDto.currentPassword,
+      changePasswordDto.newPassword,
+      client,
+    );
+  }
+
+  /**
+   * PATCH /auth/email
+   * Solicita el cambio de email: se aplica al verificar la nueva dirección
+   * Ruta PROTEGIDA - requiere una sesión (no acepta API keys)
+   */
+  @UseGuards(SessionAuthGuard)
+  @UseInterceptors(SessionCookiesInterceptor)
+  @Patch('email')
+  changeEmail(@Request() req, @Body() changeEmailDto: ChangeEmailDto) {
+    return this.authService.changeEmail(req.user, changeEmailDto.password, changeEmailDto.newEmail);
   }
 
   /**
    * GET /auth/profile
    * Obtener perfil del usuario autenticado
-   * Ruta PROTEGIDA - requiere token válido
+   * Ruta PROTEGIDA - requiere token válido o API key
    */
   @UseGuards(JwtAuthGuard)
   @Get('profile')
@@ -49,7 +425,7 @@ export class AuthController {
   /**
    * GET /auth/protected
    * Ejemplo de ruta protegida
-   * Ruta PROTEGIDA - requiere token válido
+   * Ruta PROTEGIDA - requiere token válido o API key
    */
   @UseGuards(JwtAuthGuard)
   @Get('protected')
@@ -1,22 +1,100 @@
 import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { UsersModule } from '../users/users.module';
-import { JwtStrategy, JWT_SECRET } from '../strategies/jwt.strategy';
+import { ConfigService } from '@nestjs/config';
+import { JwtStrategy } from '../strategies/jwt.strategy';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { RevokedToken } from './entities/revoked-token.entity';
+import { TokenRevocationService } from './token-revocation.service';
+import { AppConfig } from '../config/configuration';
+import { ActionToken } from './entities/action-token.entity';
+import { ActionTokensService } from './action-tokens.service';
+import { EmailVerificationService } from './email-verification.service';
+import { MailModule } from '../mail/mail.module';
+import { RecoveryCode } from './entities/recovery-code.entity';
+import { TwoFactorService } from './two-factor.service';
+import { CLOCK, systemClock } from './interfaces/clock.interface';
+import { BruteForceService } from './brute-force/brute-force.service';
+import { BRUTE_FORCE_STORE } from './brute-force/brute-force-store.interface';
+import { MemoryBruteForceStore } from './brute-force/memory-brute-force.store';
+import { KeystoreService } from './keys/keystore.service';
+import { JwksController } from './keys/jwks.controller';
+import { SocialAuthService } from './social-auth.service';
+import { SOCIAL_PROVIDERS } from '../strategies/social/social-provider.interface';
+import { createSocialProviders } from '../strategies/social/social-providers.factory';
+import { ApiKey } from './entities/api-key.entity';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeyStrategy } from '../strategies/api-key.strategy';
+import { Session } from './entities/session.entity';
+import { SessionsService } from './sessions.service';
+import { AuditModule } from '../audit/audit.module';
+import { EventsModule } from '../events/events.module';
+import { WebAuthnCredential } from './entities/webauthn-credential.entity';
+import { WebAuthnChallenge } from './entities/webauthn-challenge.entity';
+import { WebAuthnService } from './webauthn.service';
+import { WebAuthnController } from './webauthn.controller';
+import { SessionCookiesService } from './session-cookies.service';
 
 @Module({
   imports: [
     UsersModule,
     PassportModule,
-    JwtModule.register({
-      secret: JWT_SECRET,
-      signOptions: { expiresIn: '24h' }, // Token válido por 24 horas
+    MailModule,
+    AuditModule,
+    EventsModule,
+    TypeOrmModule.forFeature([
+      RefreshToken,
+      RevokedToken,
+      ActionToken,
+      RecoveryCode,
+      ApiKey,
+      Session,
+      WebAuthnCredential,
+      WebAuthnChallenge,
+    ]),
+    // Por defecto JwtService firma con HMAC (JWT_SECRET): solo para los tokens
+    // internos que nunca salen de este servicio. Los access tokens se firman
+    // con la clave asimétrica del keystore (ver AuthService.signAccessToken)
+    JwtModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (config: ConfigService<AppConfig, true>) => ({
+        secret: config.get('jwt.secret', { infer: true }),
+        signOptions: { expiresIn: config.get('jwt.accessTokenTtl', { infer: true }) },
+      }),
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
-  exports: [JwtModule],
+  controllers: [AuthController, JwksController, ApiKeysController, WebAuthnController],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    RefreshTokensService,
+    SessionsService,
+    TokenRevocationService,
+    ActionTokensService,
+    EmailVerificationService,
+    TwoFactorService,
+    KeystoreService,
+    { provide: CLOCK, useValue: systemClock },
+    BruteForceService,
+    // Contadores de intentos fallidos: reemplazar por un store sobre Redis
+    // cuando haya varias instancias de la aplicación
+    { provide: BRUTE_FORCE_STORE, useClass: MemoryBruteForceStore },
+    SocialAuthService,
+    // Proveedores sociales con credenciales configuradas (Google, GitHub)
+    { provide: SOCIAL_PROVIDERS, inject: [ConfigService], useFactory: createSocialProviders },
+    ApiKeysService,
+    ApiKeyStrategy,
+    WebAuthnService,
+    SessionCookiesService,
+  ],
+  // OAuthModule firma y verifica con las mismas claves y lista negra;
+  // AppModule aplica CsrfMiddleware (SessionCookiesService) a todas las rutas
+  exports: [JwtModule, KeystoreService, TokenRevocationService, SessionCookiesService],
 })
 export class AuthModule { }
\ No newline at end of file
@@ -0,0 +1,38 @@
+/**
+ * Valor guardado en el store junto con el tiempo que le queda
+ */
+export interface StoredCounter {
+  value: number;
+  /** Milisegundos hasta que la clave expire */
+  ttlMs: number;
+}
+
+/**
+ * BruteForceStore - Almacenamiento de contadores con expiración
+ *
+ * La interfaz sigue la semántica de Redis para poder compartir los
+ * contadores entre varias instancias de la aplicación. increment debe ser
+ * atómico: BruteForceService reserva los intentos con él (ver reserve).
+ * - increment → INCR + PEXPIRE NX (la expiración solo se fija al crear la clave)
+ * - decrement → DECR, solo si la clave existe (no cambia la expiración)
+ * - get       → GET + PTTL
+ * - set       → SET key value PX ttl
+ * - delete    → DEL
+ *
+ * Por defecto se usa MemoryBruteForceStore (una sola instancia).
+ */
+export interface BruteForceStore {
+  increment(key: string, ttlMs: number): Promise<StoredCounter>;
+  decrement(key: string): Promise<void>;
+  get(key: string): Promise<StoredCounter | null>;
+  set(key: string, value: number, ttlMs: number): Promise<void>;
+  delete(...keys: string[]): Promise<void>;
+}
+
+/**
+ * Token de inyección del BruteForceStore
+ *
+ * EJEMPLO:
+ * constructor(@Inject(BRUTE_FORCE_STORE) private readonly store: BruteForceStore) {}
+ */
+export const BRUTE_FORCE_STORE = Symbol('BRUTE_FORCE_STORE');
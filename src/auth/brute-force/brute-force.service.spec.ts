@@ -0,0 +1,134 @@
+import { HttpStatus } from '@nestjs/common';
+import {
+  BruteForceOptions,
+  DEFAULT_BRUTE_FORCE_OPTIONS,
+} from '../decorators/brute-force.decorator';
+import { Clock } from '../interfaces/clock.interface';
+import { BruteForceService } from './brute-force.service';
+import { MemoryBruteForceStore } from './memory-brute-force.store';
+
+describe('BruteForceService', () => {
+  let now: number;
+  let service: BruteForceService;
+
+  const clock: Clock = { now: () => new Date(now) };
+  const options: BruteForceOptions = {
+    ...DEFAULT_BRUTE_FORCE_OPTIONS,
+    scope: 'login',
+    maxIpFailures: 8,
+  };
+  const subject = { account: 'Juan@Test.com', ip: '10.0.0.1' };
+
+  beforeEach(() => {
+    now = Date.UTC(2030, 0, 1);
+    service = new BruteForceService(new MemoryBruteForceStore(clock));
+  });
+
+  /** Reserva un intento y lo confirma como fallido */
+  const fail = async (target = subject) => {
+    expect(await service.reserve(options, target)).toBeNull();
+    return service.recordFailure(options, target);
+  };
+
+  /** Falla un intento y espera lo necesario para el siguiente */
+  const failAndWait = async (target = subject) => {
+    expect(await fail(target)).toBe(false);
+    const block = await service.check(options, target);
+    if (block?.status === HttpStatus.TOO_MANY_REQUESTS) {
+      now += block.retryAfterMs;
+    }
+  };
+
+  it('applies progressive delays after the free failures', async () => {
+    await fail();
+    await fail();
+    expect(await service.check(options, subject)).toBeNull();
+
+    await fail();
+    expect(await service.check(options, subject)).toEqual({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+      retryAfterMs: 1000,
+    });
+
+    now += 1000;
+    await fail();
+    expect(await service.check(options, subject)).toEqual({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+      retryAfterMs: 2000,
+    });
+  });
+
+  it('locks the account (case-insensitive) after too many failures', async () => {
+    for (let i = 1; i < options.maxAccountFailures; i++) {
+      await failAndWait();
+    }
+    expect(await fail()).toBe(true);
+
+    const otherIp = { account: 'juan@test.com', ip: '10.0.0.2' };
+    expect(await service.check(options, otherIp)).toEqual({
+      status: HttpStatus.LOCKED,
+      retryAfterMs: options.lockoutMs,
+    });
+
+    now += options.lockoutMs;
+    expect(await service.check(options, otherIp)).toBeNull();
+  });
+
+  it('limits failures per IP across accounts', async () => {
+    for (let i = 0; i < options.maxIpFailures; i++) {
+      await fail({ account: `user${i}@test.com`, ip: subject.ip });
+    }
+
+    const block = await service.check(options, {
+      account: 'nuevo@test.com',
+      ip: subject.ip,
+    });
+    expect(block?.status).toBe(HttpStatus.TOO_MANY_REQUESTS);
+  });
+
+  it('resets the counters on success', async () => {
+    await failAndWait();
+    await failAndWait();
+    await service.reserve(options, subject);
+    await service.recordSuccess(options, subject);
+
+    await fail();
+    await fail();
+    expect(await service.check(options, subject)).toBeNull();
+  });
+
+  it('counts attempts in progress against the limits', async () => {
+    // Intentos simultáneos: ninguno terminó cuando llega el siguiente
+    for (let i = 0; i < options.maxAccountFailures; i++) {
+      expect(await service.reserve(options, subject)).toBeNull();
+    }
+    expect(await service.reserve(options, subject)).toEqual({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+      retryAfterMs: options.baseDelayMs,
+    });
+
+    // Un intento que no llega a fallar devuelve su lugar
+    await service.release(options, subject);
+    expect(await service.reserve(options, subject)).toBeNull();
+
+    // Si todos fallan, la cuenta queda bloqueada
+    expect(await service.recordFailure(options, subject)).toBe(true);
+    expect((await service.check(options, subject))?.status).toBe(
+      HttpStatus.LOCKED,
+    );
+  });
+
+  it('counts concurrent attempts from one IP across accounts', async () => {
+    const attempts = Array.from({ length: options.maxIpFailures + 3 }, (_, i) =>
+      service.reserve(options, {
+        account: `user${i}@test.com`,
+        ip: subject.ip,
+      }),
+    );
+
+    const blocks = await Promise.all(attempts);
+    expect(blocks.filter((block) => block === null)).toHaveLength(
+      options.maxIpFailures,
+    );
+  });
+});
@@ -0,0 +1,229 @@
+import { HttpException, HttpStatus, Inject, Injectable } from '@nestjs/common';
+import { BruteForceOptions } from '../decorators/brute-force.decorator';
+import { BRUTE_FORCE_STORE } from './brute-force-store.interface';
+import type { BruteForceStore } from './brute-force-store.interface';
+
+/**
+ * Quién hace el intento: la cuenta atacada y la IP del cliente
+ */
+export interface AttemptSubject {
+  account?: string;
+  ip: string;
+}
+
+/**
+ * Motivo por el que se rechaza un intento antes de procesarlo
+ */
+export interface BruteForceBlock {
+  /** 423 (cuenta bloqueada) o 429 (demasiados intentos) */
+  status: HttpStatus.LOCKED | HttpStatus.TOO_MANY_REQUESTS;
+  /** Tiempo hasta que se puede volver a intentar (cabecera Retry-After) */
+  retryAfterMs: number;
+}
+
+/**
+ * Respuesta HTTP para un intento rechazado (423 o 429)
+ */
+export function bruteForceException(block: BruteForceBlock): HttpException {
+  const seconds = Math.ceil(block.retryAfterMs / 1000);
+
+  if (block.status === HttpStatus.LOCKED) {
+    const minutes = Math.ceil(seconds / 60);
+    return new HttpException(
+      `Cuenta bloqueada temporalmente por demasiados intentos fallidos. Intente nuevamente en ${minutes} minuto(s).`,
+      HttpStatus.LOCKED,
+    );
+  }
+  return new HttpException(
+    `Demasiados intentos. Intente nuevamente en ${seconds} segundo(s).`,
+    HttpStatus.TOO_MANY_REQUESTS,
+  );
+}
+
+/**
+ * BruteForceService - Contadores de intentos fallidos
+ *
+ * REGLAS (los límites vienen de @BruteForceProtection):
+ * 1. Espera progresiva: tras los primeros fallos de una cuenta, el
+ *    siguiente intento debe esperar 1s, 2s, 4s... (429 si llega antes)
+ * 2. Bloqueo: al llegar a maxAccountFailures la cuenta queda bloqueada
+ *    durante lockoutMs (423), aunque luego se envíe la contraseña correcta
+ * 3. Por IP: al llegar a maxIpFailures (sumando todas las cuentas) la IP
+ *    se rechaza con 429 hasta que expire la ventana
+ * 4. Un intento exitoso reinicia los contadores de la cuenta y de la IP
+ *
+ * Los intentos se reservan ANTES de procesarlos (reserve) y después se
+ * confirman como fallo (recordFailure), como éxito (recordSuccess) o se
+ * devuelven (release).
+ *
+ * SEGURIDAD: Las cuentas se identifican por el texto recibido (p. ej. el
+ * email), exista o no: un email inexistente se bloquea igual que uno
+ * registrado, así que la respuesta no revela qué cuentas existen.
+ */
+@Injectable()
+export class BruteForceService {
+  constructor(
+    @Inject(BRUTE_FORCE_STORE) private readonly store: BruteForceStore,
+  ) {}
+
+  /**
+   * Indica si el intento debe rechazarse sin procesarlo (no reserva nada:
+   * para las rutas con checkOnly)
+   */
+  async check(
+    options: BruteForceOptions,
+    subject: AttemptSubject,
+  ): Promise<BruteForceBlock | null> {
+    const keys = this.keys(options, subject);
+
+    const lock = await this.store.get(keys.lock);
+    if (lock) {
+      return { status: HttpStatus.LOCKED, retryAfterMs: lock.ttlMs };
+    }
+
+    const ipFailures = await this.store.get(keys.ip);
+    if (ipFailures && ipFailures.value >= options.maxIpFailures) {
+      return {
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        retryAfterMs: ipFailures.ttlMs,
+      };
+    }
+
+    const delay = await this.store.get(keys.delay);
+    if (delay) {
+      return {
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        retryAfterMs: delay.ttlMs,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Reserva un intento antes de procesarlo
+   *
+   * ALGORITMO:
+   * 1. Rechaza lo mismo que check (bloqueo, límite de la IP, espera)
+   * 2. Cuenta el intento como fallo de la cuenta y de la IP (increment es
+   *    atómico)
+   * 3. Si con él se supera un límite, lo devuelve y rechaza con 429
+   *
+   * SEGURIDAD: Si los fallos se contaran al terminar, varias peticiones
+   * simultáneas pasarían la comprobación antes de que se registre el
+   * primero y superarían los límites. Así, cada intento en curso ocupa uno
+   * de los fallos permitidos.
+   *
+   * @returns El motivo del rechazo, o null si el intento puede seguir
+   */
+  async reserve(
+    options: BruteForceOptions,
+    subject: AttemptSubject,
+  ): Promise<BruteForceBlock | null> {
+    const block = await this.check(options, subject);
+    if (block) {
+      return block;
+    }
+
+    const keys = this.keys(options, subject);
+    const ip = await this.store.increment(keys.ip, options.windowMs);
+    const account = await this.store.increment(keys.account, options.windowMs);
+    if (
+      ip.value > options.maxIpFailures ||
+      account.value > options.maxAccountFailures
+    ) {
+      await this.release(options, subject);
+      return {
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        retryAfterMs: options.baseDelayMs,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Devuelve un intento reservado que no llegó a fallar (p. ej. un error
+   * de validación o del servidor)
+   */
+  async release(
+    options: BruteForceOptions,
+    subject: AttemptSubject,
+  ): Promise<void> {
+    const keys = this.keys(options, subject);
+    await this.store.decrement(keys.ip);
+    await this.store.decrement(keys.account);
+  }
+
+  /**
+   * Confirma como fallido un intento reservado: aplica la espera o el bloqueo
+   *
+   * @returns true si este fallo bloqueó la cuenta
+   */
+  async recordFailure(
+    options: BruteForceOptions,
+    subject: AttemptSubject,
+  ): Promise<boolean> {
+    const keys = this.keys(options, subject);
+
+    // El contador ya incluye este intento (y los que sigan en curso); si un
+    // éxito simultáneo lo reinició, el fallo se vuelve a contar
+    const failures =
+      (await this.store.get(keys.account)) ??
+      (await this.store.increment(keys.account, options.windowMs));
+
+    if (failures.value >= options.maxAccountFailures) {
+      await this.store.set(keys.lock, 1, options.lockoutMs);
+      await this.store.delete(keys.account, keys.delay);
+      return true;
+    }
+
+    const delayMs = this.delayFor(options, failures.value);
+    if (delayMs > 0) {
+      await this.store.set(keys.delay, 1, delayMs);
+    }
+    return false;
+  }
+
+  /**
+   * Registra un intento exitoso: reinicia los contadores
+   */
+  async recordSuccess(
+    options: BruteForceOptions,
+    subject: AttemptSubject,
+  ): Promise<void> {
+    const keys = this.keys(options, subject);
+    await this.store.delete(keys.account, keys.delay, keys.ip);
+  }
+
+  /**
+   * Espera exigida después del fallo número `failures`
+   *
+   * EJEMPLO (freeFailures 2, baseDelayMs 1000):
+   * fallos 1-2 → 0s, fallo 3 → 1s, fallo 4 → 2s, fallo 5 → 4s...
+   */
+  private delayFor(options: BruteForceOptions, failures: number): number {
+    const penalized = failures - options.freeFailures;
+    if (penalized <= 0) {
+      return 0;
+    }
+    return Math.min(
+      options.baseDelayMs * 2 ** (penalized - 1),
+      options.maxDelayMs,
+    );
+  }
+
+  /**
+   * Claves del store para una ruta, una cuenta y una IP
+   */
+  private keys(options: BruteForceOptions, subject: AttemptSubject) {
+    const account = `${options.scope}:account:${
+      subject.account?.trim().toLowerCase() || `ip:${subject.ip}`
+    }`;
+    return {
+      account: `bf:${account}:failures`,
+      delay: `bf:${account}:delay`,
+      lock: `bf:${account}:lock`,
+      ip: `bf:${options.scope}:ip:${subject.ip}:failures`,
+    };
+  }
+}
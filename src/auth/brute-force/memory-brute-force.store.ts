@@ -0,0 +1,99 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { CLOCK } from '../interfaces/clock.interface';
+import type { Clock } from '../interfaces/clock.interface';
+import { BruteForceStore, StoredCounter } from './brute-force-store.interface';
+
+/**
+ * Cantidad de claves a partir de la cual se purgan las expiradas
+ */
+const PURGE_THRESHOLD = 10_000;
+
+interface Entry {
+  value: number;
+  /** Milisegundos desde epoch */
+  expiresAt: number;
+}
+
+/**
+ * MemoryBruteForceStore - Contadores en memoria del proceso
+ *
+ * LIMITACIONES:
+ * - Se pierden al reiniciar la aplicación
+ * - No se comparten entre instancias: con varias réplicas detrás de un
+ *   balanceador, usar una implementación sobre Redis
+ */
+@Injectable()
+export class MemoryBruteForceStore implements BruteForceStore {
+  private readonly entries = new Map<string, Entry>();
+
+  constructor(@Inject(CLOCK) private readonly clock: Clock) {}
+
+  increment(key: string, ttlMs: number): Promise<StoredCounter> {
+    const now = this.now();
+    const entry = this.live(key, now) ?? { value: 0, expiresAt: now + ttlMs };
+    entry.value += 1;
+    this.write(key, entry, now);
+    return Promise.resolve({
+      value: entry.value,
+      ttlMs: entry.expiresAt - now,
+    });
+  }
+
+  decrement(key: string): Promise<void> {
+    const entry = this.live(key, this.now());
+    if (entry && entry.value > 0) {
+      entry.value -= 1;
+    }
+    return Promise.resolve();
+  }
+
+  get(key: string): Promise<StoredCounter | null> {
+    const now = this.now();
+    const entry = this.live(key, now);
+    return Promise.resolve(
+      entry ? { value: entry.value, ttlMs: entry.expiresAt - now } : null,
+    );
+  }
+
+  set(key: string, value: number, ttlMs: number): Promise<void> {
+    const now = this.now();
+    this.write(key, { value, expiresAt: now + ttlMs }, now);
+    return Promise.resolve();
+  }
+
+  delete(...keys: string[]): Promise<void> {
+    keys.forEach((key) => this.entries.delete(key));
+    return Promise.resolve();
+  }
+
+  private now(): number {
+    return this.clock.now().getTime();
+  }
+
+  /**
+   * Entrada vigente (las expiradas se eliminan al leerlas)
+   */
+  private live(key: string, now: number): Entry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Guarda una entrada; si el mapa crece demasiado (p. ej. un ataque con
+   * miles de emails distintos) purga las expiradas
+   */
+  private write(key: string, entry: Entry, now: number): void {
+    this.entries.set(key, entry);
+    if (this.entries.size > PURGE_THRESHOLD) {
+      for (const [storedKey, stored] of this.entries) {
+        if (stored.expiresAt <= now) {
+          this.entries.delete(storedKey);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Request } from 'express';
+import type { MfaPendingRequest } from '../guards/mfa-pending.guard';
+
+/**
+ * Límites de intentos fallidos de una ruta
+ */
+export interface BruteForceOptions {
+  /** Nombre de la ruta en las claves del store (separa los contadores) */
+  scope: string;
+  /**
+   * Obtiene la cuenta atacada a partir de la petición (p. ej. el email).
+   * Si se omite, los contadores de cuenta usan la IP.
+   */
+  account?: (req: Request) => string | undefined;
+  /** Fallos de una misma cuenta que provocan el bloqueo (423) */
+  maxAccountFailures: number;
+  /** Fallos desde una misma IP que provocan el rechazo (429) */
+  maxIpFailures: number;
+  /** Ventana de los contadores: se reinician si no hay fallos en este tiempo */
+  windowMs: number;
+  /** Duración del bloqueo de la cuenta */
+  lockoutMs: number;
+  /** Fallos consecutivos permitidos sin espera */
+  freeFailures: number;
+  /** Espera tras el primer fallo "no gratuito"; se duplica con cada fallo */
+  baseDelayMs: number;
+  /** Espera máxima entre intentos */
+  maxDelayMs: number;
+  /**
+   * Solo rechaza los intentos de cuentas bloqueadas o IPs que superaron su
+   * límite: la respuesta no cuenta fallos ni reinicia los contadores (para
+   * rutas que comparten los contadores de otra, p. ej. el enlace mágico con
+   * los del login)
+   */
+  checkOnly?: boolean;
+}
+
+/**
+ * Valores por defecto (pensados para el login)
+ */
+export const DEFAULT_BRUTE_FORCE_OPTIONS: Omit<BruteForceOptions, 'scope'> = {
+  maxAccountFailures: 5,
+  maxIpFailures: 20,
+  windowMs: 15 * 60 * 1000,
+  lockoutMs: 15 * 60 * 1000,
+  freeFailures: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+};
+
+/**
+ * Límites del login: la cuenta es el email del body
+ *
+ * Los demás inicios de sesión (enlace mágico) consultan estos mismos
+ * contadores, así que una cuenta bloqueada lo está por cualquier vía.
+ */
+export const LOGIN_BRUTE_FORCE_OPTIONS: BruteForceOptions = {
+  ...DEFAULT_BRUTE_FORCE_OPTIONS,
+  scope: 'login',
+  account: (req) => {
+    const { email } = (req.body ?? {}) as { email?: unknown };
+    return typeof email === 'string' ? email : undefined;
+  },
+};
+
+/**
+ * Límites de POST /auth/2fa/verify: la cuenta es el usuario del mfa_token
+ *
+ * Así los códigos incorrectos se cuentan por cuenta aunque lleguen desde
+ * muchas IPs. El usuario sale del token ya verificado por MfaPendingGuard
+ * (firma y lista negra): con un token falsificado no se puede bloquear la
+ * cuenta de otro.
+ */
+export const TWO_FACTOR_BRUTE_FORCE_OPTIONS: BruteForceOptions = {
+  ...DEFAULT_BRUTE_FORCE_OPTIONS,
+  scope: '2fa',
+  account: (req) => {
+    const pending = (req as MfaPendingRequest).mfaPending;
+    return pending ? `user:${pending.sub}` : undefined;
+  },
+};
+
+/**
+ * Clave de metadatos donde @BruteForceProtection() guarda sus límites
+ */
+export const BRUTE_FORCE_KEY = 'bruteForce';
+
+/**
+ * @BruteForceProtection() - Limita los intentos fallidos de una ruta
+ *
+ * - Cuenta como fallo toda respuesta 401 (credenciales o códigos incorrectos)
+ * - Una respuesta exitosa reinicia los contadores (salvo con checkOnly)
+ * - Se usa junto a BruteForceInterceptor
+ *
+ * EJEMPLO:
+ * @UseInterceptors(BruteForceInterceptor)
+ * @BruteForceProtection({ scope: 'login', account: (req) => req.body?.email })
+ * @Post('login')
+ * login() { ... }
+ */
+export const BruteForceProtection = (
+  options: Pick<BruteForceOptions, 'scope'> & Partial<BruteForceOptions>,
+) =>
+  SetMetadata(BRUTE_FORCE_KEY, {
+    ...DEFAULT_BRUTE_FORCE_OPTIONS,
+    ...options,
+  } satisfies BruteForceOptions);
@@ -0,0 +1,30 @@
+import { SetMetadata } from '@nestjs/common';
+import {
+  PolicyHandler,
+  PolicyResourceResolverType,
+} from '../policies/policy-handler.interface';
+
+/**
+ * Claves de metadatos usadas por PoliciesGuard
+ */
+export const CHECK_POLICIES_KEY = 'check_policies';
+export const POLICY_RESOURCE_KEY = 'policy_resource';
+
+/**
+ * @CheckPolicies() - Políticas que deben cumplirse TODAS para acceder a la ruta
+ *
+ * EJEMPLO:
+ * @UseGuards(JwtAuthGuard, PoliciesGuard)
+ * @PolicyResource(UserResourceResolver)
+ * @CheckPolicies(canReadUser)
+ * @Get(':id')
+ * findOne(...) { ... }
+ */
+export const CheckPolicies = (...handlers: PolicyHandler[]) =>
+  SetMetadata(CHECK_POLICIES_KEY, handlers);
+
+/**
+ * @PolicyResource() - Indica cómo cargar el recurso que evalúan las políticas
+ */
+export const PolicyResource = (resolver: PolicyResourceResolverType) =>
+  SetMetadata(POLICY_RESOURCE_KEY, resolver);
@@ -0,0 +1,33 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { Request } from 'express';
+
+/**
+ * Datos del cliente HTTP con los que se registra una sesión
+ */
+export interface ClientInfo {
+  /** req.ip (detrás de un proxy hay que configurar "trust proxy") */
+  ip: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * IP y User-Agent de una petición
+ */
+export function clientInfoOf(req: Request): ClientInfo {
+  return {
+    ip: req.ip ?? null,
+    userAgent: req.headers['user-agent'] ?? null,
+  };
+}
+
+/**
+ * @ClientInfo() - Inyecta la IP y el User-Agent de la petición
+ *
+ * EJEMPLO:
+ * @Post('login')
+ * login(@Body() loginDto: LoginDto, @ClientInfo() client: ClientInfo) { ... }
+ */
+export const ClientInfo = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ClientInfo =>
+    clientInfoOf(ctx.switchToHttp().getRequest<Request>()),
+);
@@ -0,0 +1,22 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '../enums/role.enum';
+
+/**
+ * Clave de metadatos donde @Roles() guarda los roles requeridos
+ */
+export const ROLES_KEY = 'roles';
+
+/**
+ * @Roles() - Restringe una ruta (o un controlador completo) a ciertos roles
+ *
+ * - Basta con tener UNO de los roles indicados
+ * - Se usa junto a JwtAuthGuard y RolesGuard (en ese orden):
+ *
+ * EJEMPLO:
+ * @UseGuards(JwtAuthGuard, RolesGuard)
+ * @Roles(Role.Admin)
+ * @Get()
+ * findAll() { ... }
+ */
+export const Roles = (...roles: (Role | string)[]) =>
+  SetMetadata(ROLES_KEY, roles);
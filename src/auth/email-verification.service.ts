@@ -0,0 +1,216 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { MAILER } from '../mail/mailer.interface';
+import type { Mailer } from '../mail/mailer.interface';
+import {
+  ActionTokenPurpose,
+  ActionTokensService,
+} from './action-tokens.service';
+import { EMAIL_VERIFICATION_TTL_MS } from './auth.constants';
+import { AppConfig } from '../config/configuration';
+
+/**
+ * Tipos de token que confirma POST /auth/verify-email
+ * - email-verification: Email de una cuenta recién registrada
+ * - email-change: Nuevo email solicitado con PATCH /auth/email
+ */
+type EmailTokenType = 'email-verification' | 'email-change';
+
+const PURPOSE_BY_TYPE: Record<EmailTokenType, ActionTokenPurpose> = {
+  'email-verification': ActionTokenPurpose.EmailVerification,
+  'email-change': ActionTokenPurpose.EmailChange,
+};
+
+/**
+ * Contenido del token de verificación de email
+ */
+interface EmailVerificationPayload {
+  sub: number;
+  /** Email que se está verificando */
+  email: string;
+  typ: EmailTokenType;
+  /** Secreto de un solo uso (su hash se guarda en action_tokens) */
+  secret: string;
+}
+
+/**
+ * EmailVerificationService - Verificación de la dirección de email
+ *
+ * EL TOKEN:
+ * - Es un JWT firmado que liga el usuario con el email a verificar
+ * - Lleva un secreto de un solo uso registrado en action_tokens: el mismo
+ *   enlace no se puede usar dos veces
+ * - Expira a las 24 horas (tanto el JWT como el registro)
+ */
+@Injectable()
+export class EmailVerificationService {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+    private readonly actionTokensService: ActionTokensService,
+    @Inject(MAILER) private readonly mailer: Mailer,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  /**
+   * Envía (o reenvía) el enlace de verificación al email del usuario
+   *
+   * Los enlaces enviados anteriormente dejan de funcionar.
+   */
+  async sendVerification(user: User): Promise<void> {
+    const token = await this.issueToken(user, user.email, 'email-verification');
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Verifique su email',
+      text: [
+        `Hola ${user.username},`,
+        '',
+        'Para activar su cuenta abra el siguiente enlace (válido por 24 horas):',
+        `${this.config.get('appUrl', { infer: true })}/verify-email?token=${token}`,
+        '',
+        'Si usted no creó esta cuenta, ignore este mensaje.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Envía el enlace para confirmar un cambio de email a la NUEVA dirección
+   * y un aviso a la dirección actual
+   */
+  async sendEmailChangeVerification(
+    user: User,
+    newEmail: string,
+  ): Promise<void> {
+    const token = await this.issueToken(user, newEmail, 'email-change');
+
+    await this.mailer.send({
+      to: newEmail,
+      subject: 'Confirme su nuevo email',
+      text: [
+        `Hola ${user.username},`,
+        '',
+        'Para usar esta dirección en su cuenta abra el siguiente enlace (válido por 24 horas):',
+        `${this.config.get('appUrl', { infer: true })}/verify-email?token=${token}`,
+        '',
+        'Si usted no solicitó este cambio, ignore este mensaje.',
+      ].join('\n'),
+    });
+
+    // Aviso a la dirección actual: si el cambio no lo pidió el titular,
+    // al menos se entera antes de perder el acceso
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Solicitud de cambio de email',
+      text: [
+        `Hola ${user.username},`,
+        '',
+        `Se solicitó cambiar el email de su cuenta a ${newEmail}.`,
+        'Si no fue usted, cambie su contraseña inmediatamente.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Verifica el email con el token recibido por correo
+   *
+   * - email-verification: marca el email de la cuenta como verificado
+   * - email-change: reemplaza el email de la cuenta por el nuevo
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): Token inválido, expirado, ya usado o que ya
+   *   no corresponde al estado del usuario
+   * - ConflictException (409): El nuevo email fue registrado por otra cuenta
+   */
+  async verify(token: string): Promise<void> {
+    const payload = this.decode(token);
+
+    const actionToken = await this.actionTokensService.consume(
+      payload.secret,
+      PURPOSE_BY_TYPE[payload.typ],
+    );
+    const user = await this.usersService.findById(payload.sub);
+
+    if (
+      actionToken.userId !== payload.sub ||
+      actionToken.data?.email !== payload.email ||
+      !user
+    ) {
+      throw new BadRequestException('El enlace es inválido o ha expirado');
+    }
+
+    if (payload.typ === 'email-change') {
+      // Solo el último cambio solicitado puede confirmarse
+      if (user.pendingEmail !== payload.email) {
+        throw new BadRequestException('El enlace es inválido o ha expirado');
+      }
+      await this.usersService.confirmEmailChange(user.id, payload.email);
+      return;
+    }
+
+    if (user.email !== payload.email) {
+      throw new BadRequestException('El enlace es inválido o ha expirado');
+    }
+    await this.usersService.markEmailVerified(user.id);
+  }
+
+  /**
+   * Reenvía el enlace de verificación
+   *
+   * SEGURIDAD: No revela si el email existe ni si ya está verificado;
+   * el controlador responde siempre lo mismo.
+   */
+  async resend(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (user && user.isActive && !user.emailVerifiedAt) {
+      await this.sendVerification(user);
+    }
+  }
+
+  /**
+   * Emite el token firmado (anulando los enlaces pendientes del mismo tipo)
+   */
+  private async issueToken(
+    user: User,
+    email: string,
+    typ: EmailTokenType,
+  ): Promise<string> {
+    const purpose = PURPOSE_BY_TYPE[typ];
+    await this.actionTokensService.revokePending(user.id, purpose);
+
+    const secret = await this.actionTokensService.issue(
+      user.id,
+      purpose,
+      EMAIL_VERIFICATION_TTL_MS,
+      { email },
+    );
+
+    const payload: EmailVerificationPayload = {
+      sub: user.id,
+      email,
+      typ,
+      secret,
+    };
+    return this.jwtService.sign(payload, {
+      expiresIn: EMAIL_VERIFICATION_TTL_MS / 1000,
+    });
+  }
+
+  /**
+   * Verifica la firma y el tipo del token
+   */
+  private decode(token: string): EmailVerificationPayload {
+    try {
+      const payload = this.jwtService.verify<EmailVerificationPayload>(token);
+      if (payload.typ in PURPOSE_BY_TYPE && payload.secret) {
+        return payload;
+      }
+    } catch {
+      // Firma inválida o token expirado: mismo mensaje que el resto de casos
+    }
+    throw new BadRequestException('El enlace es inválido o ha expirado');
+  }
+}
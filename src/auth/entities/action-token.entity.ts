@@ -0,0 +1,66 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad ActionToken
+ * Token de un solo uso para confirmar una acción fuera de la sesión
+ * (verificar email, restablecer contraseña, etc.).
+ *
+ * - Se guarda solo el hash SHA-256 del token
+ * - Expira en expiresAt y deja de servir al marcar consumedAt
+ */
+@Entity('action_tokens')
+@Index('IDX_action_tokens_user_purpose', ['userId', 'purpose'])
+export class ActionToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Usuario al que pertenece el token.
+   */
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /**
+   * Acción que autoriza (ver ActionTokenPurpose).
+   */
+  @Column({ length: 40 })
+  purpose: string;
+
+  /**
+   * Hash SHA-256 (hex) del token entregado al usuario.
+   */
+  @Index('UQ_action_tokens_tokenHash', { unique: true })
+  @Column({ length: 64 })
+  tokenHash: string;
+
+  /**
+   * Datos asociados a la acción (p. ej. el email a verificar).
+   */
+  @Column({ type: 'simple-json', nullable: true })
+  data: Record<string, string> | null;
+
+  @Column({ type: 'datetime' })
+  expiresAt: Date;
+
+  /**
+   * Momento en que se usó (null = pendiente).
+   */
+  @Column({ type: 'datetime', nullable: true })
+  consumedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
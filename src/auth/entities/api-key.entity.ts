@@ -0,0 +1,73 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad ApiKey
+ * Credencial de larga duración que un usuario crea para sus scripts o
+ * procesos (cabecera X-API-Key). Actúa con los permisos de su dueño.
+ *
+ * FORMATO: ak_<prefix>_<secreto>
+ * - prefix: 12 caracteres hex, se guarda en claro para buscar la clave y
+ *   para que el usuario la reconozca en el listado
+ * - La clave completa solo se muestra al crearla
+ *
+ * SEGURIDAD: Se guarda solo el hash SHA-256 de la clave completa.
+ */
+@Entity('api_keys')
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Usuario dueño de la clave.
+   */
+  @Index('IDX_api_keys_userId')
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /**
+   * Nombre descriptivo elegido por el usuario (p. ej. "backup nocturno").
+   */
+  @Column({ length: 100 })
+  name: string;
+
+  /**
+   * Parte pública de la clave (después de "ak_").
+   */
+  @Index('UQ_api_keys_prefix', { unique: true })
+  @Column({ length: 16 })
+  prefix: string;
+
+  /**
+   * Hash SHA-256 (hex) de la clave completa.
+   */
+  @Column({ length: 64 })
+  keyHash: string;
+
+  /**
+   * Último uso (con resolución de API_KEY_LAST_USED_RESOLUTION_MS).
+   */
+  @Column({ type: 'datetime', nullable: true })
+  lastUsedAt: Date | null;
+
+  /**
+   * Fecha de revocación (null = vigente).
+   */
+  @Column({ type: 'datetime', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,52 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad RecoveryCode
+ * Código de recuperación de la autenticación en dos pasos: permite iniciar
+ * sesión una sola vez si el usuario perdió su app autenticadora.
+ *
+ * - Se guarda solo el hash SHA-256 del código
+ * - Deja de servir al marcar usedAt
+ */
+@Entity('recovery_codes')
+@Index('UQ_recovery_codes_user_codeHash', ['userId', 'codeHash'], {
+  unique: true,
+})
+export class RecoveryCode {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Usuario al que pertenece el código.
+   */
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /**
+   * Hash SHA-256 (hex) del código normalizado (sin guiones, en mayúsculas).
+   */
+  @Column({ length: 64 })
+  codeHash: string;
+
+  /**
+   * Momento en que se usó (null = disponible).
+   */
+  @Column({ type: 'datetime', nullable: true })
+  usedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,81 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad RefreshToken
+ * Representa un refresh token emitido a un usuario.
+ *
+ * ROTACIÓN:
+ * - Cada uso de un refresh token lo marca como usado (usedAt) y emite uno nuevo
+ *   dentro de la misma "familia" (familyId)
+ * - Todos los tokens que nacen de un mismo login comparten familyId
+ * - Si un token ya usado vuelve a aparecer, se asume que fue robado y se
+ *   revoca la familia completa (detección de reutilización)
+ *
+ * SEGURIDAD: El token NUNCA se guarda en texto plano, solo su hash SHA-256.
+ */
+@Entity('refresh_tokens')
+export class RefreshToken {
+  /**
+   * Identificador único (UUID).
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Familia de tokens a la que pertenece (una por inicio de sesión).
+   * - Se incluye en el access token como "sid" (session id).
+   */
+  @Index('IDX_refresh_tokens_familyId')
+  @Column({ length: 36 })
+  familyId: string;
+
+  /**
+   * Usuario dueño del token.
+   */
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /**
+   * Hash SHA-256 (hex) del token entregado al cliente.
+   */
+  @Index('UQ_refresh_tokens_tokenHash', { unique: true })
+  @Column({ length: 64 })
+  tokenHash: string;
+
+  /**
+   * Fecha de expiración del token.
+   */
+  @Column({ type: 'datetime' })
+  expiresAt: Date;
+
+  /**
+   * Fecha en que el token se canjeó por uno nuevo (null = aún no usado).
+   */
+  @Column({ type: 'datetime', nullable: true })
+  usedAt: Date | null;
+
+  /**
+   * Fecha de revocación (null = vigente).
+   */
+  @Column({ type: 'datetime', nullable: true })
+  revokedAt: Date | null;
+
+  /**
+   * Fecha de emisión.
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
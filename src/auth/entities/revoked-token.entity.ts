@@ -0,0 +1,44 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryColumn,
+} from 'typeorm';
+
+/**
+ * Entidad RevokedToken
+ * Lista negra de access tokens (JWT) revocados antes de su expiración.
+ *
+ * - La clave es el "jti" (JWT ID) del token, no el token completo
+ * - Solo hace falta guardar cada entrada hasta que el token expire:
+ *   después la firma ya no es válida de todas formas
+ */
+@Entity('revoked_tokens')
+export class RevokedToken {
+  /**
+   * Identificador único del token (claim "jti").
+   */
+  @PrimaryColumn({ length: 36 })
+  jti: string;
+
+  /**
+   * Usuario dueño del token.
+   */
+  @Column()
+  userId: number;
+
+  /**
+   * Expiración original del token (claim "exp").
+   * - Pasada esta fecha la entrada puede eliminarse
+   */
+  @Index('IDX_revoked_tokens_expiresAt')
+  @Column({ type: 'datetime' })
+  expiresAt: Date;
+
+  /**
+   * Momento de la revocación.
+   */
+  @CreateDateColumn()
+  revokedAt: Date;
+}
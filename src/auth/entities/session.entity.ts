@@ -0,0 +1,70 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad Session
+ * Sesión iniciada por un login (contraseña, 2FA o proveedor social) en un
+ * dispositivo. Es lo que el usuario ve en GET /auth/sessions.
+ *
+ * IDENTIFICADOR:
+ * - id = familyId de sus refresh tokens = claim "sid" de sus access tokens
+ * - Revocar la sesión revoca su familia de refresh tokens, y JwtStrategy
+ *   rechaza los access tokens de una sesión revocada
+ */
+@Entity('sessions')
+export class Session {
+  @PrimaryColumn({ length: 36 })
+  id: string;
+
+  /**
+   * Usuario dueño de la sesión.
+   */
+  @Index('IDX_sessions_userId')
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /**
+   * Cabecera User-Agent del login (recortada a 512 caracteres).
+   */
+  @Column({ type: 'varchar', length: 512, nullable: true })
+  userAgent: string | null;
+
+  /**
+   * IP desde la que se inició la sesión (IPv4 o IPv6).
+   */
+  @Column({ type: 'varchar', length: 45, nullable: true })
+  ip: string | null;
+
+  /**
+   * Descripción legible del dispositivo (p. ej. "Chrome en Windows").
+   */
+  @Column({ length: 100 })
+  deviceLabel: string;
+
+  /**
+   * Última actividad (con resolución de SESSION_LAST_SEEN_RESOLUTION_MS).
+   */
+  @Column({ type: 'datetime' })
+  lastSeenAt: Date;
+
+  /**
+   * Fecha de revocación (null = abierta).
+   */
+  @Column({ type: 'datetime', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,53 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Ceremonias de WebAuthn
+ * - registration: Crear una passkey (navigator.credentials.create)
+ * - authentication: Iniciar sesión con ella (navigator.credentials.get)
+ */
+export type WebAuthnCeremony = 'registration' | 'authentication';
+
+/**
+ * Entidad WebAuthnChallenge
+ * Desafío aleatorio que el autenticador debe firmar. Sirve una sola vez
+ * (se borra al usarlo) y expira en WEBAUTHN_CHALLENGE_TTL_MS.
+ *
+ * - Se guarda solo el hash SHA-256 del desafío
+ * - userId: Dueño en el registro; null al iniciar sesión (todavía no se
+ *   sabe quién es: lo dice la passkey)
+ */
+@Entity('webauthn_challenges')
+export class WebAuthnChallenge {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index('UQ_webauthn_challenges_challengeHash', { unique: true })
+  @Column({ length: 64 })
+  challengeHash: string;
+
+  @Column({ length: 20 })
+  ceremony: WebAuthnCeremony;
+
+  @Column({ type: 'int', nullable: true })
+  userId: number | null;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'userId' })
+  user: User | null;
+
+  @Index('IDX_webauthn_challenges_expiresAt')
+  @Column({ type: 'datetime' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,86 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad WebAuthnCredential
+ * Passkey registrada por un usuario (un usuario puede tener varias: el
+ * teléfono, el portátil, una llave de seguridad...).
+ *
+ * - Solo se guarda la clave PÚBLICA: la privada nunca sale del autenticador
+ * - signCount detecta autenticadores clonados (ver WebAuthnService)
+ */
+@Entity('webauthn_credentials')
+export class WebAuthnCredential {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Usuario dueño de la passkey.
+   */
+  @Index('IDX_webauthn_credentials_userId')
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /**
+   * Identificador que asignó el autenticador (base64url). Es el "id" que
+   * envía el navegador al iniciar sesión.
+   */
+  @Index('UQ_webauthn_credentials_credentialId', { unique: true })
+  @Column({ length: 255 })
+  credentialId: string;
+
+  /**
+   * Clave pública en formato SPKI DER (base64url).
+   */
+  @Column({ type: 'text' })
+  publicKey: string;
+
+  /**
+   * Algoritmo de firma (identificador COSE: -7 ES256, -8 EdDSA, -257 RS256).
+   */
+  @Column({ type: 'int' })
+  algorithm: number;
+
+  /**
+   * Último contador de firmas recibido (0 si el autenticador no lo usa).
+   */
+  @Column({ type: 'int', unsigned: true, default: 0 })
+  signCount: number;
+
+  /**
+   * Cómo se comunica el navegador con el autenticador ("internal", "usb",
+   * "hybrid"...). Se devuelve en allowCredentials/excludeCredentials.
+   */
+  @Column({ type: 'simple-json' })
+  transports: string[];
+
+  /**
+   * Nombre descriptivo (p. ej. "MacBook de trabajo").
+   */
+  @Column({ length: 100 })
+  name: string;
+
+  /**
+   * La passkey está sincronizada en la nube (flag BS del autenticador).
+   */
+  @Column({ default: false })
+  backedUp: boolean;
+
+  @Column({ type: 'datetime', nullable: true })
+  lastUsedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,20 @@
+/**
+ * Roles predefinidos del sistema
+ *
+ * - Admin: Administración de usuarios y acceso total
+ * - User: Rol por defecto de toda cuenta registrada
+ *
+ * ROLES PERSONALIZADOS:
+ * La columna users.roles acepta cualquier cadena (p. ej. 'soporte', 'auditor'),
+ * así que @Roles() también admite nombres que no estén en este enum.
+ */
+export enum Role {
+  Admin = 'admin',
+  User = 'user',
+}
+
+/**
+ * Formato de los nombres de rol: minúsculas, números, "_" y "-"
+ * (users.roles se guarda separado por comas: no pueden contener ",")
+ */
+export const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,49}$/;
@@ -1,17 +1,26 @@
 import { Injectable, ExecutionContext, UnauthorizedException } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 
+/**
+ * JwtAuthGuard - Exige un usuario autenticado (req.user: RequestUser)
+ *
+ * Acepta cualquiera de las dos credenciales de un usuario, en este orden:
+ * - 'jwt': access token de /auth/login (Authorization: Bearer ...)
+ * - 'api-key': API key personal (X-API-Key: ak_...)
+ *
+ * Las rutas que operan sobre la sesión usan SessionAuthGuard (solo 'jwt').
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
     canActivate(context: ExecutionContext) {
         return super.canActivate(context);
     }
 
-    handleRequest(err: any, user: any, info: any) {
-        // Si hay error o no hay usuario, lanzar excepción
+    handleRequest(err: any, user: any) {
+        // Si hay error o ninguna estrategia autenticó al usuario, lanzar excepción
         if (err || !user) {
             throw err || new UnauthorizedException('Token inválido o expirado');
         }
         return user;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,37 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import type { Request } from 'express';
+import { MfaPendingPayload, TwoFactorService } from '../two-factor.service';
+
+/**
+ * Petición de POST /auth/2fa/verify con el mfa_token ya verificado
+ */
+export interface MfaPendingRequest extends Request {
+  mfaPending?: MfaPendingPayload;
+}
+
+/**
+ * MfaPendingGuard - Verifica el mfa_token antes de contar intentos
+ *
+ * Los guards se ejecutan antes que los interceptores: cuando
+ * BruteForceInterceptor lee la cuenta (TWO_FACTOR_BRUTE_FORCE_OPTIONS),
+ * req.mfaPending ya viene de un token con firma válida y no revocado.
+ *
+ * Un token inválido responde 401 aquí mismo (sin contar el intento). Si
+ * falta el mfa_token, la petición sigue para que la validación del body
+ * responda 400.
+ */
+@Injectable()
+export class MfaPendingGuard implements CanActivate {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest<MfaPendingRequest>();
+    const { mfa_token } = (req.body ?? {}) as { mfa_token?: unknown };
+
+    if (typeof mfa_token === 'string' && mfa_token !== '') {
+      req.mfaPending =
+        await this.twoFactorService.verifyPendingToken(mfa_token);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import {
+  CHECK_POLICIES_KEY,
+  POLICY_RESOURCE_KEY,
+} from '../decorators/check-policies.decorator';
+import { Principal } from '../interfaces/jwt-payload.interface';
+import { PermissionRegistry } from '../policies/permission-registry.service';
+import {
+  PolicyHandler,
+  PolicyResourceResolverType,
+} from '../policies/policy-handler.interface';
+import { UserAbility } from '../policies/user-ability';
+
+/**
+ * PoliciesGuard - Evalúa las políticas de @CheckPolicies()
+ *
+ * FLUJO:
+ * 1. Construye el UserAbility de req.user (roles → permisos; en las
+ *    aplicaciones con client credentials, sus scopes son los permisos)
+ * 2. Si la ruta declara @PolicyResource(), carga el recurso objetivo
+ * 3. Ejecuta cada política; si alguna falla → 403 Forbidden
+ *
+ * Debe ejecutarse DESPUÉS de JwtAuthGuard, que es quien llena req.user.
+ */
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly moduleRef: ModuleRef,
+    private readonly permissionRegistry: PermissionRegistry,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const handlers =
+      this.reflector.getAllAndOverride<PolicyHandler[]>(
+        CHECK_POLICIES_KEY,
+        targets,
+      ) ?? [];
+    if (handlers.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<{
+      user?: Principal;
+      params: Record<string, string>;
+    }>();
+    if (!request.user) {
+      throw new ForbiddenException(
+        'No tiene permisos para acceder a este recurso',
+      );
+    }
+
+    const ability = new UserAbility(
+      request.user,
+      request.user.authMethod === 'client-credentials'
+        ? new Set(request.user.scopes)
+        : this.permissionRegistry.permissionsFor(request.user.roles),
+    );
+
+    // El resolver se busca en todo el contenedor: lo provee el módulo que
+    // declara la ruta, no el módulo de autenticación
+    const resolverType = this.reflector.getAllAndOverride<
+      PolicyResourceResolverType | undefined
+    >(POLICY_RESOURCE_KEY, targets);
+    const resource: unknown = resolverType
+      ? await this.moduleRef
+          .get(resolverType, { strict: false })
+          .resolve(request)
+      : null;
+
+    for (const handler of handlers) {
+      if (!(await handler(ability, resource))) {
+        throw new ForbiddenException(
+          'No tiene permisos para acceder a este recurso',
+        );
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,43 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '../enums/role.enum';
+import { RolesGuard } from './roles.guard';
+
+describe('RolesGuard', () => {
+  const reflector = new Reflector();
+  const guard = new RolesGuard(reflector);
+
+  const contextFor = (roles: string[] | undefined): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({ user: roles ? { roles } : undefined }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const requireRoles = (roles: string[] | undefined) =>
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(roles);
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('allows any authenticated user when no roles are required', () => {
+    requireRoles(undefined);
+    expect(guard.canActivate(contextFor([Role.User]))).toBe(true);
+  });
+
+  it('allows users holding one of the required roles', () => {
+    requireRoles([Role.Admin, 'soporte']);
+    expect(guard.canActivate(contextFor([Role.User, 'soporte']))).toBe(true);
+  });
+
+  it('rejects users without the required roles', () => {
+    requireRoles([Role.Admin]);
+    expect(() => guard.canActivate(contextFor([Role.User]))).toThrow(
+      ForbiddenException,
+    );
+    expect(() => guard.canActivate(contextFor(undefined))).toThrow(
+      ForbiddenException,
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { Principal } from '../interfaces/jwt-payload.interface';
+
+/**
+ * RolesGuard - Verifica que req.user tenga alguno de los roles de @Roles()
+ *
+ * - Debe ejecutarse DESPUÉS de JwtAuthGuard, que es quien llena req.user
+ * - Si la ruta no declara @Roles(), deja pasar a cualquier usuario autenticado
+ * - Las aplicaciones (client credentials) no tienen roles: se autorizan
+ *   con @CheckPolicies() y sus scopes
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    // Los roles del método tienen prioridad sobre los del controlador
+    const requiredRoles = this.reflector.getAllAndOverride<string[]>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest<{ user?: Principal }>();
+    const userRoles = user && 'roles' in user ? user.roles : [];
+
+    if (!requiredRoles.some((role) => userRoles.includes(role))) {
+      throw new ForbiddenException(
+        'No tiene permisos para acceder a este recurso',
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * ServiceAuthGuard - Como JwtAuthGuard, pero acepta también los tokens de
+ * client credentials de las aplicaciones (req.user: Principal)
+ *
+ * Estrategias, en este orden:
+ * - 'jwt': access token de un usuario
+ * - 'client-credentials': token de una aplicación (POST /oauth/token,
+ *   registrada por OAuthModule)
+ * - 'api-key': API key personal
+ *
+ * Solo para rutas que los procesos de backend necesitan y cuyas
+ * autorizaciones (PoliciesGuard) no dependen de que haya un usuario.
+ */
+@Injectable()
+export class ServiceAuthGuard extends AuthGuard([
+  'jwt',
+  'client-credentials',
+  'api-key',
+]) {
+  handleRequest<TUser>(err: unknown, user: TUser | false): TUser {
+    if (err || !user) {
+      throw err instanceof Error
+        ? err
+        : new UnauthorizedException('Token inválido o expirado');
+    }
+    return user;
+  }
+}
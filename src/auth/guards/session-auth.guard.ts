@@ -0,0 +1,22 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * SessionAuthGuard - Exige el access token de una sesión iniciada con
+ * /auth/login (req.user: AuthenticatedUser)
+ *
+ * Para las rutas que operan sobre la sesión o la seguridad de la cuenta
+ * (logout, contraseña, email, 2FA, API keys, consentimiento OAuth): una
+ * API key robada no debe servir para tomar el control de la cuenta.
+ */
+@Injectable()
+export class SessionAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser>(err: unknown, user: TUser | false): TUser {
+    if (err || !user) {
+      throw err instanceof Error
+        ? err
+        : new UnauthorizedException('Token inválido o expirado');
+    }
+    return user;
+  }
+}
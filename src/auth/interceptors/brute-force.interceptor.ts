@@ -0,0 +1,122 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import { catchError, concatMap, from, Observable, throwError } from 'rxjs';
+import {
+  BRUTE_FORCE_KEY,
+  BruteForceOptions,
+} from '../decorators/brute-force.decorator';
+import {
+  AttemptSubject,
+  bruteForceException,
+  BruteForceService,
+} from '../brute-force/brute-force.service';
+import { clientInfoOf } from '../decorators/client-info.decorator';
+import { AuditService } from '../../audit/audit.service';
+import { AuditAction } from '../../audit/enums/audit-action.enum';
+
+/**
+ * BruteForceInterceptor - Aplica los límites de @BruteForceProtection()
+ *
+ * 1. ANTES del handler: rechaza con 423/429 (y cabecera Retry-After) si la
+ *    cuenta está bloqueada, la IP superó su límite o no pasó la espera; si
+ *    no, reserva el intento (BruteForceService.reserve), así las peticiones
+ *    simultáneas no superan los límites
+ * 2. Si el handler responde 401: confirma el fallo (y si bloquea la
+ *    cuenta, lo registra en la auditoría)
+ * 3. Si el handler responde con éxito: reinicia los contadores
+ * 4. Cualquier otro error devuelve el intento reservado
+ *
+ * Con checkOnly solo se comprueba el paso 1, sin reservar.
+ *
+ * Es un interceptor (y no un guard) porque necesita conocer el resultado.
+ *
+ * NOTA: La IP es req.ip; detrás de un proxy hay que configurar
+ * "trust proxy" en Express para que sea la del cliente.
+ */
+@Injectable()
+export class BruteForceInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly bruteForceService: BruteForceService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const options = this.reflector.getAllAndOverride<BruteForceOptions>(
+      BRUTE_FORCE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!options) {
+      return next.handle();
+    }
+
+    const http = context.switchToHttp();
+    const req = http.getRequest<Request>();
+    const subject: AttemptSubject = {
+      account: options.account?.(req),
+      ip: req.ip ?? 'unknown',
+    };
+
+    const block = options.checkOnly
+      ? await this.bruteForceService.check(options, subject)
+      : await this.bruteForceService.reserve(options, subject);
+    if (block) {
+      http
+        .getResponse<Response>()
+        .setHeader('Retry-After', Math.ceil(block.retryAfterMs / 1000));
+      throw bruteForceException(block);
+    }
+    if (options.checkOnly) {
+      return next.handle();
+    }
+
+    return next.handle().pipe(
+      concatMap(async (body: unknown) => {
+        await this.bruteForceService.recordSuccess(options, subject);
+        return body;
+      }),
+      catchError((error: unknown) =>
+        from(
+          error instanceof UnauthorizedException
+            ? this.recordFailure(options, subject, req)
+            : this.bruteForceService.release(options, subject),
+        ).pipe(concatMap(() => throwError(() => error))),
+      ),
+    );
+  }
+
+  /**
+   * Cuenta el fallo y, si bloquea la cuenta, lo registra en la auditoría
+   */
+  private async recordFailure(
+    options: BruteForceOptions,
+    subject: AttemptSubject,
+    req: Request,
+  ): Promise<void> {
+    const locked = await this.bruteForceService.recordFailure(options, subject);
+    if (!locked) {
+      return;
+    }
+
+    await this.auditService.record({
+      action: AuditAction.AccountLocked,
+      outcome: 'failure',
+      client: clientInfoOf(req),
+      metadata: {
+        scope: options.scope,
+        account: subject.account ?? null,
+        lockoutSeconds: Math.ceil(options.lockoutMs / 1000),
+      },
+    });
+  }
+}
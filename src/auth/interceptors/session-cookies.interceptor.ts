@@ -0,0 +1,53 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { map, Observable } from 'rxjs';
+import {
+  SessionCookiesService,
+  SessionTokensBody,
+} from '../session-cookies.service';
+
+/**
+ * SessionCookiesInterceptor - Pasa a cookies los tokens de la respuesta
+ *
+ * Se aplica a las rutas que emiten tokens de sesión (login, refresh,
+ * cambio de contraseña...). En modo cookie, si la respuesta trae un
+ * access_token, lo guarda en cookies y lo quita del body (ver
+ * SessionCookiesService.issue). Las demás respuestas, como el mfa_token
+ * del login con 2FA, pasan sin cambios.
+ *
+ * EJEMPLO:
+ * @UseInterceptors(SessionCookiesInterceptor)
+ * @Post('login')
+ * login(...) { ... }
+ */
+@Injectable()
+export class SessionCookiesInterceptor implements NestInterceptor {
+  constructor(private readonly sessionCookiesService: SessionCookiesService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const res = context.switchToHttp().getResponse<Response>();
+
+    return next
+      .handle()
+      .pipe(
+        map((body: unknown) =>
+          hasAccessToken(body)
+            ? this.sessionCookiesService.issue(res, body)
+            : body,
+        ),
+      );
+  }
+}
+
+function hasAccessToken(body: unknown): body is SessionTokensBody {
+  return (
+    typeof body === 'object' &&
+    body !== null &&
+    typeof (body as { access_token?: unknown }).access_token === 'string'
+  );
+}
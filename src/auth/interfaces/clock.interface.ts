@@ -0,0 +1,25 @@
+/**
+ * Clock - Fuente de la hora actual
+ *
+ * Los servicios que dependen del tiempo (p. ej. los códigos TOTP, que cambian
+ * cada 30 segundos) lo reciben inyectado con el token CLOCK en lugar de
+ * llamar a Date.now(). Así las pruebas pueden fijar o adelantar la hora.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Token de inyección del Clock
+ *
+ * EJEMPLO:
+ * constructor(@Inject(CLOCK) private readonly clock: Clock) {}
+ */
+export const CLOCK = Symbol('CLOCK');
+
+/**
+ * Reloj del sistema (el que se usa fuera de las pruebas)
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
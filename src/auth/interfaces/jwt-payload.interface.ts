@@ -0,0 +1,81 @@
+/**
+ * Contenido (payload) de los access tokens emitidos por AuthService
+ */
+export interface JwtPayload {
+  /** Tipo de token: solo los 'access' sirven para autenticar peticiones */
+  typ: 'access';
+  /** ID del usuario (subject) */
+  sub: number;
+  email: string;
+  username: string;
+  /** Roles del usuario al momento de emitir el token */
+  roles: string[];
+  /** Sesión (familia de refresh tokens) a la que pertenece el token */
+  sid: string;
+  /** Identificador único del token, usado para revocarlo */
+  jti: string;
+  /** Issued At: segundos desde epoch */
+  iat: number;
+  /** Expiration: segundos desde epoch */
+  exp: number;
+}
+
+/**
+ * Usuario autenticado que JwtStrategy adjunta a la petición (req.user)
+ */
+export interface AuthenticatedUser {
+  /** Credencial usada: access token de una sesión iniciada con /auth/login */
+  authMethod: 'jwt';
+  userId: number;
+  email: string;
+  username: string;
+  /** Roles actuales del usuario (leídos de la base de datos) */
+  roles: string[];
+  sessionId: string;
+  jti: string;
+  /** Expiración del token actual (necesaria para revocarlo en el logout) */
+  expiresAt: Date;
+}
+
+/**
+ * Usuario autenticado con una API key personal (ApiKeyStrategy)
+ *
+ * No hay sesión ni token que revocar: las rutas que operan sobre la
+ * sesión (logout, cambio de contraseña, 2FA...) usan SessionAuthGuard y
+ * no aceptan API keys.
+ */
+export interface ApiKeyUser {
+  authMethod: 'api-key';
+  userId: number;
+  email: string;
+  username: string;
+  roles: string[];
+  /** API key con la que se autenticó la petición */
+  apiKeyId: string;
+}
+
+/**
+ * Usuario de la petición en las rutas con JwtAuthGuard
+ */
+export type RequestUser = AuthenticatedUser | ApiKeyUser;
+
+/**
+ * Aplicación autenticada con un token de client credentials
+ * (ver src/strategies/client-credentials.strategy.ts)
+ *
+ * No actúa en nombre de ningún usuario: sus scopes son permisos
+ * ("recurso:acción") que evalúa PoliciesGuard.
+ */
+export interface ServiceClient {
+  authMethod: 'client-credentials';
+  clientId: string;
+  /** Scopes del token que el cliente aún tiene autorizados */
+  scopes: string[];
+  jti: string;
+  expiresAt: Date;
+}
+
+/**
+ * Cualquier credencial que puede llegar a req.user
+ */
+export type Principal = RequestUser | ServiceClient;
@@ -0,0 +1,25 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { KeystoreService } from './keystore.service';
+
+/**
+ * JwksController - Publica las claves públicas de firma
+ *
+ * Otros servicios verifican los access tokens de este proyecto
+ * descargando este JWKS y eligiendo la clave por la cabecera "kid",
+ * sin compartir ningún secreto.
+ */
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly keystoreService: KeystoreService) {}
+
+  /**
+   * GET /.well-known/jwks.json
+   * Claves públicas vigentes (RFC 7517)
+   * Ruta PÚBLICA - los clientes pueden cachearla unos minutos
+   */
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  jwks() {
+    return this.keystoreService.jwks();
+  }
+}
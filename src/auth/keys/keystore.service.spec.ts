@@ -0,0 +1,108 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { KeystoreService } from './keystore.service';
+
+describe('KeystoreService', () => {
+  let dir: string;
+  const jwtService = new JwtService();
+
+  const writeKey = (file: string, key: KeyObject) =>
+    writeFileSync(
+      join(dir, file),
+      key.export({
+        format: 'pem',
+        type: key.type === 'private' ? 'pkcs8' : 'spki',
+      }),
+    );
+
+  const createKeystore = (jwt: Record<string, unknown>, env = 'development') =>
+    new KeystoreService(
+      new ConfigService({ env, jwt: { keysDir: dir, ...jwt } }),
+    );
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'keystore-'));
+
+    // Clave retirada (solo pública), RSA y EC P-256
+    writeKey(
+      '2024-07.pub.pem',
+      generateKeyPairSync('rsa', { modulusLength: 2048 }).publicKey,
+    );
+    writeKey(
+      '2025-01.pem',
+      generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey,
+    );
+    writeKey(
+      '2025-07.pem',
+      generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('signs with the newest private key and verifies by kid', () => {
+    const keystore = createKeystore({});
+    const token = jwtService.sign({ sub: 1 }, keystore.signOptions());
+
+    const key = keystore.verificationKeyFor(token);
+    expect(key).toMatchObject({ kid: '2025-07', alg: 'ES256' });
+    expect(
+      jwtService.verify(token, { secret: key!.publicKeyPem }),
+    ).toMatchObject({ sub: 1 });
+  });
+
+  it('signs with the configured kid while older keys keep verifying', () => {
+    const keystore = createKeystore({ signingKid: '2025-01' });
+
+    expect(keystore.signOptions()).toMatchObject({
+      keyid: '2025-01',
+      algorithm: 'RS256',
+    });
+    expect(
+      keystore.verificationKeyFor(
+        jwtService.sign({ sub: 1 }, createKeystore({}).signOptions()),
+      )?.kid,
+    ).toBe('2025-07');
+  });
+
+  it('publishes every public key in the JWKS', () => {
+    const { keys } = createKeystore({}).jwks();
+
+    expect(keys.map(({ kid, alg, kty }) => ({ kid, alg, kty }))).toEqual([
+      { kid: '2024-07', alg: 'RS256', kty: 'RSA' },
+      { kid: '2025-01', alg: 'RS256', kty: 'RSA' },
+      { kid: '2025-07', alg: 'ES256', kty: 'EC' },
+    ]);
+    expect(keys.every((key) => key.d === undefined)).toBe(true);
+  });
+
+  it('rejects tokens without a known kid', () => {
+    const keystore = createKeystore({});
+
+    expect(
+      keystore.verificationKeyFor(
+        jwtService.sign({ sub: 1 }, { secret: 'hmac', keyid: 'otro' }),
+      ),
+    ).toBeNull();
+    expect(keystore.verificationKeyFor('no-es-un-jwt')).toBeNull();
+  });
+
+  it('fails fast on invalid setups', () => {
+    expect(() => createKeystore({ signingKid: '2024-07' })).toThrow(
+      /JWT_SIGNING_KID/,
+    );
+
+    writeKey('ed.pem', generateKeyPairSync('ed25519').privateKey);
+    expect(() => createKeystore({})).toThrow(/no soportado/);
+
+    expect(() => createKeystore({ keysDir: undefined }, 'production')).toThrow(
+      /JWT_KEYS_DIR/,
+    );
+  });
+});
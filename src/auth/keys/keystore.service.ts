@@ -0,0 +1,248 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtSignOptions } from '@nestjs/jwt';
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  JsonWebKey,
+  KeyObject,
+  randomUUID,
+} from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { AppConfig } from '../../config/configuration';
+import { Environment } from '../../config/env.validation';
+
+/**
+ * Algoritmos de firma asimétrica soportados
+ * - RS256: RSA + SHA-256 (claves RSA de 2048 bits o más)
+ * - ES256: ECDSA P-256 + SHA-256 (claves más cortas, firmas más rápidas)
+ */
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+export const SIGNING_ALGORITHMS: SigningAlgorithm[] = ['RS256', 'ES256'];
+
+/**
+ * Clave del keystore
+ */
+export interface StoredKey {
+  /** Identificador (cabecera "kid" de los tokens) = nombre del archivo */
+  kid: string;
+  alg: SigningAlgorithm;
+  publicKey: KeyObject;
+  /** Clave pública en PEM (SPKI) para verificar */
+  publicKeyPem: string;
+  /** Clave privada en PEM (PKCS#8): solo las claves con parte privada firman */
+  privateKeyPem?: string;
+}
+
+/**
+ * Clave pública en formato JWK (RFC 7517), tal como se publica en el JWKS
+ */
+export interface PublicJwk extends JsonWebKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  use: 'sig';
+}
+
+/**
+ * KeystoreService - Claves asimétricas para firmar los access tokens
+ *
+ * DIRECTORIO (JWT_KEYS_DIR):
+ * - <kid>.pem      → clave PRIVADA (PKCS#8 o tradicional): firma y verifica
+ * - <kid>.pub.pem  → solo clave PÚBLICA: verifica tokens de una clave retirada
+ *
+ * ROTACIÓN:
+ * 1. Agregar la clave nueva y apuntar JWT_SIGNING_KID a ella
+ * 2. Dejar la anterior (o solo su .pub.pem) hasta que expiren sus tokens
+ * 3. Borrarla
+ * Sin JWT_SIGNING_KID firma la clave privada con el kid mayor en orden
+ * alfabético (p. ej. kids con fecha: "2025-01", "2025-07").
+ *
+ * Sin directorio (solo desarrollo y pruebas) se genera una clave RS256 en
+ * memoria: los access tokens dejan de valer al reiniciar, pero los refresh
+ * tokens no dependen de ella.
+ */
+@Injectable()
+export class KeystoreService {
+  private readonly logger = new Logger(KeystoreService.name);
+  private readonly keys = new Map<string, StoredKey>();
+  private readonly signingKid: string;
+
+  constructor(config: ConfigService<AppConfig, true>) {
+    const { keysDir, signingKid } = config.get('jwt', { infer: true });
+
+    if (keysDir) {
+      this.loadDirectory(keysDir);
+    } else if (config.get('env', { infer: true }) === Environment.Production) {
+      throw new Error('JWT_KEYS_DIR es obligatorio en producción');
+    } else {
+      this.addEphemeralKey();
+    }
+
+    this.signingKid = this.selectSigningKid(signingKid);
+  }
+
+  /**
+   * Opciones de JwtService.sign() para firmar con la clave activa
+   *
+   * EJEMPLO:
+   * this.jwtService.sign(payload, { ...this.keystoreService.signOptions() })
+   * → cabecera { "alg": "RS256", "kid": "2025-01", "typ": "JWT" }
+   */
+  signOptions(): Pick<JwtSignOptions, 'secret' | 'algorithm' | 'keyid'> {
+    const key = this.keys.get(this.signingKid)!;
+    return { secret: key.privateKeyPem, algorithm: key.alg, keyid: key.kid };
+  }
+
+  /**
+   * Clave pública para verificar un token según su cabecera "kid"
+   *
+   * @returns null si el token no tiene kid o el kid es desconocido
+   */
+  verificationKeyFor(token: string): StoredKey | null {
+    const kid = readKid(token);
+    return (kid && this.keys.get(kid)) || null;
+  }
+
+  /**
+   * Conjunto de claves públicas (JWKS) para GET /.well-known/jwks.json
+   */
+  jwks(): { keys: PublicJwk[] } {
+    return {
+      keys: [...this.keys.values()].map((key) => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      })),
+    };
+  }
+
+  // ==========================================
+  // MÉTODOS PRIVADOS
+  // ==========================================
+
+  /**
+   * Carga todas las claves .pem del directorio
+   */
+  private loadDirectory(dir: string): void {
+    if (!existsSync(dir)) {
+      throw new Error(`JWT_KEYS_DIR no existe: ${dir}`);
+    }
+
+    for (const file of readdirSync(dir).sort()) {
+      if (!file.endsWith('.pem')) {
+        continue;
+      }
+
+      const pem = readFileSync(join(dir, file), 'utf8');
+      if (file.endsWith('.pub.pem')) {
+        this.addKey(file.slice(0, -'.pub.pem'.length), createPublicKey(pem));
+      } else {
+        const privateKey = createPrivateKey(pem);
+        this.addKey(
+          file.slice(0, -'.pem'.length),
+          createPublicKey(privateKey),
+          privateKey,
+        );
+      }
+    }
+  }
+
+  /**
+   * Genera una clave RS256 temporal (desarrollo y pruebas)
+   */
+  private addEphemeralKey(): void {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    const kid = `ephemeral-${randomUUID()}`;
+    this.addKey(kid, publicKey, privateKey);
+
+    if (process.env.NODE_ENV !== Environment.Test) {
+      this.logger.warn(
+        `JWT_KEYS_DIR no está configurado: se firmará con una clave temporal (${kid})`,
+      );
+    }
+  }
+
+  private addKey(kid: string, publicKey: KeyObject, privateKey?: KeyObject) {
+    const privateKeyPem = privateKey
+      ?.export({ format: 'pem', type: 'pkcs8' })
+      .toString();
+
+    // <kid>.pem y <kid>.pub.pem juntos: la privada ya incluye la pública
+    const existing = this.keys.get(kid);
+    if (existing) {
+      existing.privateKeyPem ??= privateKeyPem;
+      return;
+    }
+
+    this.keys.set(kid, {
+      kid,
+      alg: algorithmFor(publicKey),
+      publicKey,
+      publicKeyPem: publicKey
+        .export({ format: 'pem', type: 'spki' })
+        .toString(),
+      privateKeyPem,
+    });
+  }
+
+  /**
+   * Elige la clave de firma (ver ROTACIÓN)
+   */
+  private selectSigningKid(configured?: string): string {
+    const signers = [...this.keys.values()]
+      .filter((key) => key.privateKeyPem)
+      .map((key) => key.kid)
+      .sort();
+
+    if (configured) {
+      if (!signers.includes(configured)) {
+        throw new Error(
+          `JWT_SIGNING_KID "${configured}" no corresponde a ninguna clave privada`,
+        );
+      }
+      return configured;
+    }
+    if (signers.length === 0) {
+      throw new Error('El keystore no contiene ninguna clave privada');
+    }
+    return signers[signers.length - 1];
+  }
+}
+
+/**
+ * Algoritmo JWT que corresponde al tipo de clave
+ */
+function algorithmFor(key: KeyObject): SigningAlgorithm {
+  if (key.asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+  if (
+    key.asymmetricKeyType === 'ec' &&
+    key.asymmetricKeyDetails?.namedCurve === 'prime256v1'
+  ) {
+    return 'ES256';
+  }
+  throw new Error(
+    `Tipo de clave no soportado (${key.asymmetricKeyType}): use RSA o EC P-256`,
+  );
+}
+
+/**
+ * Lee la cabecera "kid" de un JWT sin verificarlo
+ */
+function readKid(token: string): string | null {
+  try {
+    const header = JSON.parse(
+      Buffer.from(token.split('.')[0], 'base64url').toString('utf8'),
+    ) as { kid?: unknown };
+    return typeof header.kid === 'string' ? header.kid : null;
+  } catch {
+    return null;
+  }
+}
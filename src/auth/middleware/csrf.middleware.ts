@@ -0,0 +1,23 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import type { NextFunction, Request, Response } from 'express';
+import { SessionCookiesService } from '../session-cookies.service';
+
+/**
+ * CsrfMiddleware - Exige el token CSRF en modo cookie
+ *
+ * Es un middleware (y no un guard) para cubrir TODAS las rutas, incluidas
+ * las de otros módulos (usuarios, consentimiento OAuth...): cualquiera
+ * que acepte la cookie de sesión puede ser blanco de un ataque CSRF.
+ *
+ * Las reglas están en SessionCookiesService.assertCsrf; en modo header no
+ * comprueba nada.
+ */
+@Injectable()
+export class CsrfMiddleware implements NestMiddleware {
+  constructor(private readonly sessionCookiesService: SessionCookiesService) {}
+
+  use(req: Request, _res: Response, next: NextFunction): void {
+    this.sessionCookiesService.assertCsrf(req);
+    next();
+  }
+}
@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { Role } from '../enums/role.enum';
+import { Permission } from './permission.enum';
+
+/**
+ * PermissionRegistry - Qué permisos otorga cada rol
+ *
+ * - Trae registrados los permisos de los roles predefinidos
+ * - Otros módulos pueden otorgar permisos a roles personalizados con grant()
+ *
+ * EJEMPLO:
+ * permissionRegistry.grant('soporte', Permission.UsersManage);
+ */
+@Injectable()
+export class PermissionRegistry {
+  private readonly grants = new Map<string, Set<string>>([
+    [
+      Role.Admin,
+      new Set<string>([
+        Permission.UsersManage,
+        Permission.AuditRead,
+        Permission.WebhooksManage,
+        Permission.OAuthClientsManage,
+      ]),
+    ],
+    [Role.User, new Set<string>()],
+  ]);
+
+  /**
+   * Otorga uno o más permisos a un rol (predefinido o personalizado)
+   */
+  grant(role: string, ...permissions: (Permission | string)[]): void {
+    const granted = this.grants.get(role) ?? new Set<string>();
+    permissions.forEach((permission) => granted.add(permission));
+    this.grants.set(role, granted);
+  }
+
+  /**
+   * Permisos efectivos de un conjunto de roles (unión de todos)
+   */
+  permissionsFor(roles: string[]): Set<string> {
+    const permissions = new Set<string>();
+    for (const role of roles) {
+      this.grants
+        .get(role)
+        ?.forEach((permission) => permissions.add(permission));
+    }
+    return permissions;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Permisos predefinidos del sistema
+ *
+ * Un permiso es una acción sobre un tipo de recurso ("recurso:acción").
+ * Los roles otorgan permisos a través de PermissionRegistry; las políticas
+ * (@CheckPolicies) combinan esos permisos con atributos del recurso, por
+ * ejemplo "solo el dueño del registro o quien tenga users:manage".
+ *
+ * Igual que con los roles, se admiten permisos personalizados como cadenas.
+ */
+export enum Permission {
+  /** Leer, modificar y administrar cualquier usuario */
+  UsersManage = 'users:manage',
+  /** Consultar y exportar el registro de auditoría (GET /audit) */
+  AuditRead = 'audit:read',
+  /** Administrar las suscripciones de webhooks y sus entregas (/webhooks) */
+  WebhooksManage = 'webhooks:manage',
+  /** Registrar aplicaciones cliente de OAuth2 (POST /oauth/clients) */
+  OAuthClientsManage = 'oauth-clients:manage',
+}
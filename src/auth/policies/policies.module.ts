@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PermissionRegistry } from './permission-registry.service';
+import { PoliciesGuard } from '../guards/policies.guard';
+
+/**
+ * PoliciesModule - Registro de permisos y guard de políticas
+ *
+ * Lo importan los módulos cuyas rutas usan @CheckPolicies().
+ */
+@Module({
+  providers: [PermissionRegistry, PoliciesGuard],
+  exports: [PermissionRegistry, PoliciesGuard],
+})
+export class PoliciesModule {}
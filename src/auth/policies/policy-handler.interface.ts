@@ -0,0 +1,28 @@
+import { Type } from '@nestjs/common';
+import { UserAbility } from './user-ability';
+
+/**
+ * Política: decide si el usuario puede actuar sobre el recurso
+ *
+ * @param ability - Permisos del usuario autenticado
+ * @param resource - Recurso objetivo (lo carga el @PolicyResource() de la ruta;
+ *   null si no existe o la ruta no declara resolver)
+ */
+export type PolicyHandler<TResource = unknown> = (
+  ability: UserAbility,
+  resource: TResource | null,
+) => boolean | Promise<boolean>;
+
+/**
+ * Carga el recurso objetivo de una petición (p. ej. el usuario de /users/:id)
+ *
+ * Se implementa como proveedor inyectable del módulo que define la ruta y se
+ * asocia con @PolicyResource(MiResolver).
+ */
+export interface PolicyResourceResolver<TResource = unknown> {
+  resolve(request: {
+    params: Record<string, string>;
+  }): Promise<TResource | null>;
+}
+
+export type PolicyResourceResolverType = Type<PolicyResourceResolver>;
@@ -0,0 +1,31 @@
+import { Principal } from '../interfaces/jwt-payload.interface';
+import { Permission } from './permission.enum';
+
+/**
+ * UserAbility - Lo que el usuario de la petición puede hacer
+ *
+ * Es el objeto que reciben las políticas de @CheckPolicies():
+ * - can(permiso): ¿alguno de sus roles otorga ese permiso?
+ * - owns(userId): ¿el recurso le pertenece?
+ *
+ * Si quien llama es una aplicación (client credentials), can() consulta
+ * sus scopes y owns() siempre es false: no es dueña de ningún registro.
+ */
+export class UserAbility {
+  constructor(
+    readonly principal: Principal,
+    private readonly permissions: Set<string>,
+  ) {}
+
+  can(permission: Permission | string): boolean {
+    return this.permissions.has(permission);
+  }
+
+  owns(ownerId: number | null | undefined): boolean {
+    return (
+      ownerId != null &&
+      this.principal.authMethod !== 'client-credentials' &&
+      ownerId === this.principal.userId
+    );
+  }
+}
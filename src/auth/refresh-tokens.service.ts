@@ -0,0 +1,148 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
+import { randomBytes, randomUUID } from 'crypto';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { SessionsService } from './sessions.service';
+import { hashToken } from './utils/hash-token';
+import { REFRESH_TOKEN_TTL_MS } from './auth.constants';
+
+/**
+ * Resultado de emitir o rotar un refresh token
+ * - token: Valor en texto plano que se entrega al cliente (solo esta vez)
+ * - familyId: Familia (sesión) a la que pertenece
+ * - userId: Dueño del token
+ */
+export interface IssuedRefreshToken {
+  token: string;
+  familyId: string;
+  userId: number;
+}
+
+/**
+ * RefreshTokensService - Emisión, rotación y revocación de refresh tokens
+ *
+ * RESPONSABILIDADES:
+ * 1. Emitir refresh tokens aleatorios y guardar solo su hash
+ * 2. Rotar el token en cada uso (el anterior queda marcado como usado)
+ * 3. Detectar reutilización y revocar toda la familia
+ *
+ * Cada familia es una sesión (ver Session): revocar la familia también
+ * cierra la sesión en SessionsService.
+ */
+@Injectable()
+export class RefreshTokensService {
+  constructor(
+    @InjectRepository(RefreshToken)
+    private readonly refreshTokensRepository: Repository<RefreshToken>,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  /**
+   * Emite un nuevo refresh token
+   *
+   * @param userId - Usuario dueño del token
+   * @param familyId - Familia existente (rotación) o undefined para iniciar una nueva sesión
+   */
+  async issue(
+    userId: number,
+    familyId: string = randomUUID(),
+  ): Promise<IssuedRefreshToken> {
+    // 48 bytes aleatorios → 64 caracteres base64url, imposible de adivinar
+    const token = randomBytes(48).toString('base64url');
+
+    await this.refreshTokensRepository.save(
+      this.refreshTokensRepository.create({
+        userId,
+        familyId,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      }),
+    );
+
+    return { token, familyId, userId };
+  }
+
+  /**
+   * Canjea un refresh token por uno nuevo de la misma familia
+   *
+   * ALGORITMO:
+   * 1. Busca el token por su hash
+   * 2. Si ya fue usado o revocado → REUTILIZACIÓN: revoca la familia completa
+   * 3. Si expiró → rechaza
+   * 4. Lo marca como usado y emite el siguiente token de la familia
+   *
+   * EXCEPCIONES:
+   * - UnauthorizedException (401): Token desconocido, expirado, revocado o reutilizado
+   */
+  async rotate(token: string): Promise<IssuedRefreshToken> {
+    const stored = await this.refreshTokensRepository.findOne({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!stored) {
+      throw new UnauthorizedException('Refresh token inválido');
+    }
+
+    // SEGURIDAD: Un token usado solo puede volver a aparecer si alguien
+    // lo copió. No sabemos cuál de las dos copias es la legítima, así que
+    // cerramos la sesión completa.
+    if (stored.usedAt || stored.revokedAt) {
+      await this.revokeFamily(stored.familyId);
+      throw new UnauthorizedException(
+        'Refresh token reutilizado. La sesión fue revocada.',
+      );
+    }
+
+    if (stored.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token expirado');
+    }
+
+    // Marcamos como usado solo si nadie lo hizo antes (dos peticiones
+    // simultáneas con el mismo token: solo una puede ganar)
+    const result = await this.refreshTokensRepository.update(
+      { id: stored.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!result.affected) {
+      await this.revokeFamily(stored.familyId);
+      throw new UnauthorizedException(
+        'Refresh token reutilizado. La sesión fue revocada.',
+      );
+    }
+
+    return this.issue(stored.userId, stored.familyId);
+  }
+
+  /**
+   * Revoca todos los tokens vigentes de una familia (cierra esa sesión)
+   */
+  async revokeFamily(familyId: string): Promise<void> {
+    await this.refreshTokensRepository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    await this.sessionsService.revoke(familyId);
+  }
+
+  /**
+   * Revoca todos los refresh tokens vigentes del usuario (todas sus sesiones)
+   *
+   * @param userId - Usuario dueño de las sesiones
+   * @param exceptFamilyId - Sesión que se conserva (p. ej. la que pidió el cambio)
+   */
+  async revokeAllForUser(
+    userId: number,
+    exceptFamilyId?: string,
+  ): Promise<void> {
+    await this.refreshTokensRepository.update(
+      {
+        userId,
+        revokedAt: IsNull(),
+        ...(exceptFamilyId ? { familyId: Not(exceptFamilyId) } : {}),
+      },
+      { revokedAt: new Date() },
+    );
+    await this.sessionsService.revokeAllForUser(userId, exceptFamilyId);
+  }
+}
@@ -0,0 +1,212 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { CookieOptions, Request, Response } from 'express';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { AppConfig } from '../config/configuration';
+import {
+  ACCESS_TOKEN_COOKIE,
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  REFRESH_TOKEN_COOKIE,
+  REFRESH_TOKEN_TTL_MS,
+} from './auth.constants';
+import { readCookie } from './utils/cookies';
+
+/**
+ * Respuesta con tokens de sesión (login, refresh, cambio de contraseña...)
+ */
+export interface SessionTokensBody {
+  access_token: string;
+  refresh_token?: string;
+  token_type?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Métodos que no modifican datos: no necesitan token CSRF
+ */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * SessionCookiesService - Tokens de sesión en cookies (modo cookie)
+ *
+ * Con AUTH_TOKEN_TRANSPORT=cookie los tokens no llegan al JavaScript del
+ * frontend (un XSS no puede robarlos):
+ * - access_token: HttpOnly, viaja a toda la API
+ * - refresh_token: HttpOnly, solo viaja a POST /auth/refresh
+ * - csrf_token: legible, el frontend la repite en la cabecera X-CSRF-Token
+ *
+ * SEGURIDAD (double-submit):
+ * El navegador adjunta las cookies también a las peticiones que otro
+ * sitio le haga enviar (CSRF). Ese sitio no puede leer csrf_token ni
+ * poner cabeceras propias, así que una petición que modifica datos solo
+ * se acepta si la cabecera coincide con la cookie (ver CsrfMiddleware).
+ *
+ * En modo header (por defecto) no hace nada: los tokens van en el body y
+ * el cliente los envía en "Authorization: Bearer".
+ */
+@Injectable()
+export class SessionCookiesService {
+  constructor(private readonly config: ConfigService<AppConfig, true>) {}
+
+  /**
+   * Indica si los tokens viajan en cookies
+   */
+  get enabled(): boolean {
+    return this.config.get('session.transport', { infer: true }) === 'cookie';
+  }
+
+  /**
+   * Access token de la cookie (para JwtStrategy)
+   *
+   * @returns null en modo header o si no hay cookie
+   */
+  readAccessToken(req: Request): string | null {
+    if (!this.enabled) {
+      return null;
+    }
+    return readCookie(req.headers.cookie, ACCESS_TOKEN_COOKIE) ?? null;
+  }
+
+  /**
+   * Refresh token de la cookie (para POST /auth/refresh)
+   *
+   * @returns undefined en modo header o si no hay cookie
+   */
+  readRefreshToken(req: Request): string | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+    return readCookie(req.headers.cookie, REFRESH_TOKEN_COOKIE);
+  }
+
+  /**
+   * Guarda los tokens de la respuesta en cookies
+   *
+   * ALGORITMO:
+   * 1. access_token (y refresh_token si lo hay) → cookies HttpOnly
+   * 2. Nuevo token CSRF en su cookie
+   * 3. Quita los tokens del body y agrega csrf_token (para los frontends
+   *    en otro dominio, que no pueden leer las cookies de la API)
+   *
+   * @returns El body a enviar (el mismo en modo header)
+   *
+   * EJEMPLO:
+   * { message, access_token, refresh_token, token_type, expires_in, user }
+   * → { message, expires_in, user, csrf_token }
+   */
+  issue(res: Response, body: SessionTokensBody): Record<string, unknown> {
+    if (!this.enabled) {
+      return body;
+    }
+
+    const { access_token, refresh_token, ...rest } = body;
+    // "Bearer" ya no aplica: el cliente no envía la cabecera Authorization
+    delete rest.token_type;
+    const accessTtlMs =
+      this.config.get('jwt.accessTokenTtl', { infer: true }) * 1000;
+    res.cookie(
+      ACCESS_TOKEN_COOKIE,
+      access_token,
+      this.cookieOptions(ACCESS_TOKEN_COOKIE, accessTtlMs),
+    );
+    if (refresh_token) {
+      res.cookie(
+        REFRESH_TOKEN_COOKIE,
+        refresh_token,
+        this.cookieOptions(REFRESH_TOKEN_COOKIE, REFRESH_TOKEN_TTL_MS),
+      );
+    }
+
+    const csrfToken = randomBytes(32).toString('base64url');
+    res.cookie(
+      CSRF_COOKIE,
+      csrfToken,
+      this.cookieOptions(CSRF_COOKIE, REFRESH_TOKEN_TTL_MS),
+    );
+
+    return { ...rest, csrf_token: csrfToken };
+  }
+
+  /**
+   * Borra las cookies de sesión (logout)
+   */
+  clear(res: Response): void {
+    if (!this.enabled) {
+      return;
+    }
+    // Express ignora maxAge al borrar; path, dominio y flags deben coincidir
+    for (const name of [
+      ACCESS_TOKEN_COOKIE,
+      REFRESH_TOKEN_COOKIE,
+      CSRF_COOKIE,
+    ]) {
+      res.clearCookie(name, this.cookieOptions(name, 0));
+    }
+  }
+
+  /**
+   * Comprueba el token CSRF de una petición (double-submit)
+   *
+   * Solo se exige si la petición modifica datos y lleva cookies de
+   * sesión: sin ellas no hay credenciales que un sitio ajeno pueda usar
+   * (login, registro, clientes con "Authorization: Bearer").
+   *
+   * EXCEPCIONES:
+   * - ForbiddenException (403): Falta la cabecera o no coincide con la cookie
+   */
+  assertCsrf(req: Request): void {
+    if (!this.enabled || SAFE_METHODS.includes(req.method)) {
+      return;
+    }
+
+    const cookies = req.headers.cookie;
+    if (
+      !readCookie(cookies, ACCESS_TOKEN_COOKIE) &&
+      !readCookie(cookies, REFRESH_TOKEN_COOKIE)
+    ) {
+      return;
+    }
+
+    const expected = readCookie(cookies, CSRF_COOKIE);
+    const received = req.headers[CSRF_HEADER];
+    if (
+      !expected ||
+      typeof received !== 'string' ||
+      !safeEqual(received, expected)
+    ) {
+      throw new ForbiddenException('Token CSRF ausente o inválido');
+    }
+  }
+
+  /**
+   * Atributos de cada cookie
+   *
+   * - secure y sameSite según la configuración (AUTH_COOKIE_*)
+   * - refresh_token solo viaja a /auth/refresh: así no se expone en el
+   *   resto de peticiones
+   * - csrf_token no es HttpOnly: el frontend necesita leerla
+   */
+  private cookieOptions(name: string, maxAge: number): CookieOptions {
+    const { secure, sameSite, domain } = this.config.get('session.cookie', {
+      infer: true,
+    });
+    return {
+      httpOnly: name !== CSRF_COOKIE,
+      secure,
+      sameSite,
+      domain,
+      path: name === REFRESH_TOKEN_COOKIE ? '/auth/refresh' : '/',
+      maxAge,
+    };
+  }
+}
+
+/**
+ * Comparación en tiempo constante (no revela cuántos caracteres coinciden)
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { Session } from './entities/session.entity';
+import { ClientInfo } from './decorators/client-info.decorator';
+import { deviceLabel } from './utils/device-label';
+import {
+  REFRESH_TOKEN_TTL_MS,
+  SESSION_LAST_SEEN_RESOLUTION_MS,
+} from './auth.constants';
+
+/**
+ * SessionsService - Registro de las sesiones (dispositivos) de cada usuario
+ *
+ * RESPONSABILIDADES:
+ * 1. Registrar cada login con su dispositivo, IP y User-Agent
+ * 2. Registrar la última actividad de la sesión
+ * 3. Listar y revocar sesiones
+ *
+ * NOTA: La revocación la dispara RefreshTokensService: revocar una familia
+ * de refresh tokens (logout, reutilización detectada...) cierra su sesión.
+ */
+@Injectable()
+export class SessionsService {
+  constructor(
+    @InjectRepository(Session)
+    private readonly sessionsRepository: Repository<Session>,
+  ) {}
+
+  /**
+   * Registra una sesión nueva
+   *
+   * @param id - Familia de refresh tokens de la sesión (claim "sid")
+   */
+  async create(
+    id: string,
+    userId: number,
+    client: ClientInfo,
+  ): Promise<Session> {
+    const userAgent = client.userAgent?.slice(0, 512) ?? null;
+
+    return this.sessionsRepository.save(
+      this.sessionsRepository.create({
+        id,
+        userId,
+        userAgent,
+        ip: client.ip?.slice(0, 45) ?? null,
+        deviceLabel: deviceLabel(userAgent),
+        lastSeenAt: new Date(),
+      }),
+    );
+  }
+
+  /**
+   * Sesión abierta por su id, o null si no existe o fue revocada
+   */
+  findActive(id: string): Promise<Session | null> {
+    return this.sessionsRepository.findOne({
+      where: { id, revokedAt: IsNull() },
+    });
+  }
+
+  /**
+   * Sesiones abiertas del usuario, la más reciente primero
+   *
+   * Sin actividad durante REFRESH_TOKEN_TTL_MS su refresh token ya expiró:
+   * esas sesiones no pueden volver a usarse y no se muestran.
+   */
+  findActiveForUser(userId: number): Promise<Session[]> {
+    return this.sessionsRepository.find({
+      where: {
+        userId,
+        revokedAt: IsNull(),
+        lastSeenAt: MoreThan(new Date(Date.now() - REFRESH_TOKEN_TTL_MS)),
+      },
+      order: { lastSeenAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Registra actividad en la sesión
+   *
+   * @param lastSeenAt - Última actividad ya registrada: si se indica, solo
+   *   se escribe cuando pasó SESSION_LAST_SEEN_RESOLUTION_MS (como mucho
+   *   una escritura por minuto en las peticiones autenticadas)
+   */
+  async touch(id: string, lastSeenAt?: Date): Promise<void> {
+    const now = new Date();
+    if (
+      lastSeenAt &&
+      now.getTime() - lastSeenAt.getTime() < SESSION_LAST_SEEN_RESOLUTION_MS
+    ) {
+      return;
+    }
+    await this.sessionsRepository.update(id, { lastSeenAt: now });
+  }
+
+  /**
+   * Marca la sesión como revocada
+   */
+  async revoke(id: string): Promise<void> {
+    await this.sessionsRepository.update(
+      { id, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
+
+  /**
+   * Marca como revocadas todas las sesiones abiertas del usuario
+   *
+   * @param exceptId - Sesión que se conserva
+   */
+  async revokeAllForUser(userId: number, exceptId?: string): Promise<void> {
+    await this.sessionsRepository.update(
+      {
+        userId,
+        revokedAt: IsNull(),
+        ...(exceptId ? { id: Not(exceptId) } : {}),
+      },
+      { revokedAt: new Date() },
+    );
+  }
+}
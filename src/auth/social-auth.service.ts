@@ -0,0 +1,246 @@
+import {
+  HttpException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import type { CookieOptions } from 'express';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { AppConfig } from '../config/configuration';
+import { Environment } from '../config/env.validation';
+import { AuthService } from './auth.service';
+import { s256Challenge } from './utils/pkce';
+import { SOCIAL_LOGIN_STATE_EXPIRES_IN_SECONDS } from './auth.constants';
+import { SOCIAL_PROVIDERS } from '../strategies/social/social-provider.interface';
+import type { SocialProvider } from '../strategies/social/social-provider.interface';
+
+/**
+ * Contenido de la cookie firmada con el state del login social
+ */
+interface SocialStatePayload {
+  typ: 'social-state';
+  provider: string;
+  /** Valor enviado al proveedor, que debe volver idéntico en el callback */
+  state: string;
+  /** PKCE: nunca sale del servidor salvo en esta cookie httpOnly */
+  cv: string;
+}
+
+/**
+ * Parámetros con los que el proveedor vuelve al callback
+ */
+export interface SocialCallbackParams {
+  code?: string;
+  state?: string;
+  /** p. ej. "access_denied" si el usuario canceló */
+  error?: string;
+}
+
+/**
+ * Inicio de un login social: a dónde redirigir y la cookie a guardar
+ */
+export interface SocialLoginStart {
+  url: string;
+  stateCookie: string;
+}
+
+/**
+ * SocialAuthService - Flujo OAuth2 con los proveedores sociales
+ *
+ * FLUJO:
+ * 1. GET /auth/social/:provider → cookie firmada (state + code_verifier) y
+ *    redirección al proveedor
+ * 2. El usuario inicia sesión allí y el proveedor vuelve a
+ *    GET /auth/social/:provider/callback?code=...&state=...
+ * 3. Se comprueba el state contra la cookie, se obtiene el perfil y
+ *    AuthService vincula o crea la cuenta
+ * 4. Redirección al frontend con un código de un solo uso que canjea en
+ *    POST /auth/social/exchange por los tokens de siempre
+ *
+ * SEGURIDAD:
+ * - La cookie ata el flujo al navegador que lo inició: un atacante no
+ *   puede hacer que la víctima termine SU login (login CSRF)
+ * - Los tokens nunca viajan en la URL; solo el código de un minuto
+ */
+@Injectable()
+export class SocialAuthService {
+  constructor(
+    @Inject(SOCIAL_PROVIDERS) private readonly providers: SocialProvider[],
+    private readonly authService: AuthService,
+    private readonly jwtService: JwtService,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  /**
+   * Prepara la redirección al proveedor
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): Proveedor desconocido o sin configurar
+   */
+  start(providerName: string): SocialLoginStart {
+    const provider = this.providerFor(providerName);
+    const state = randomBytes(32).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+
+    // Firmada con el secreto HMAC, como los demás tokens internos
+    const stateCookie = this.jwtService.sign(
+      { typ: 'social-state', provider: provider.name, state, cv: codeVerifier },
+      { expiresIn: SOCIAL_LOGIN_STATE_EXPIRES_IN_SECONDS },
+    );
+
+    return {
+      url: provider.authorizationUrl({
+        redirectUri: this.callbackUrl(provider),
+        state,
+        codeChallenge: s256Challenge(codeVerifier),
+      }),
+      stateCookie,
+    };
+  }
+
+  /**
+   * Procesa el callback del proveedor
+   *
+   * @returns URL del frontend con ?code=... (éxito) o ?error=... (fallo)
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): Proveedor desconocido o sin configurar
+   *   (el resto de errores se informan al frontend en la redirección)
+   */
+  async callback(
+    providerName: string,
+    params: SocialCallbackParams,
+    stateCookie?: string,
+  ): Promise<string> {
+    const provider = this.providerFor(providerName);
+
+    try {
+      if (params.error || !params.code) {
+        throw new UnauthorizedException(
+          `Inicio de sesión con ${provider.name} cancelado`,
+        );
+      }
+
+      const codeVerifier = this.verifyState(
+        provider,
+        params.state,
+        stateCookie,
+      );
+      const profile = await provider.fetchProfile({
+        code: params.code,
+        redirectUri: this.callbackUrl(provider),
+        codeVerifier,
+      });
+      const loginCode = await this.authService.loginWithSocialProfile(profile);
+
+      return this.completeUrl({ code: loginCode });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        return this.completeUrl({
+          error: 'social_login_failed',
+          error_description: error.message,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Opciones de la cookie del state
+   *
+   * - httpOnly: el JavaScript de la página no puede leerla
+   * - sameSite lax: se envía en la navegación de vuelta desde el proveedor
+   * - path: solo viaja a /auth/social/*
+   */
+  stateCookieOptions(): CookieOptions {
+    return {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure:
+        this.config.get('env', { infer: true }) === Environment.Production,
+      path: '/auth/social',
+      maxAge: SOCIAL_LOGIN_STATE_EXPIRES_IN_SECONDS * 1000,
+    };
+  }
+
+  /**
+   * Comprueba el state del callback contra la cookie
+   *
+   * @returns El code_verifier guardado en la cookie
+   *
+   * EXCEPCIONES:
+   * - UnauthorizedException (401): Cookie ausente, expirada, de otro
+   *   proveedor o con otro state
+   */
+  private verifyState(
+    provider: SocialProvider,
+    state?: string,
+    stateCookie?: string,
+  ): string {
+    let payload: SocialStatePayload | undefined;
+    try {
+      payload = stateCookie
+        ? this.jwtService.verify<SocialStatePayload>(stateCookie)
+        : undefined;
+    } catch {
+      // Firma inválida o cookie expirada: mismo mensaje que el resto de casos
+    }
+
+    if (
+      !payload ||
+      payload.typ !== 'social-state' ||
+      payload.provider !== provider.name ||
+      !state ||
+      !safeEqual(state, payload.state)
+    ) {
+      throw new UnauthorizedException(
+        'El inicio de sesión expiró o no es válido. Inténtelo de nuevo.',
+      );
+    }
+    return payload.cv;
+  }
+
+  private providerFor(name: string): SocialProvider {
+    const provider = this.providers.find(
+      (candidate) => candidate.name === name,
+    );
+    if (!provider) {
+      throw new NotFoundException(
+        'Proveedor de inicio de sesión no disponible',
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * URL de callback registrada en el proveedor (pública, de este servicio)
+   */
+  private callbackUrl(provider: SocialProvider): string {
+    return `${this.config.get('oidc.issuer', { infer: true })}/auth/social/${provider.name}/callback`;
+  }
+
+  /**
+   * Página del frontend que termina el login
+   */
+  private completeUrl(params: Record<string, string>): string {
+    const url = new URL(
+      `${this.config.get('appUrl', { infer: true })}/auth/social/complete`,
+    );
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value);
+    }
+    return url.toString();
+  }
+}
+
+/**
+ * Compara dos textos en tiempo constante
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { RevokedToken } from './entities/revoked-token.entity';
+
+/**
+ * TokenRevocationService - Lista negra de access tokens por "jti"
+ *
+ * RESPONSABILIDADES:
+ * 1. Revocar un token concreto (logout)
+ * 2. Consultar si un token fue revocado (JwtStrategy)
+ * 3. Limpiar entradas de tokens que ya expiraron
+ */
+@Injectable()
+export class TokenRevocationService {
+  constructor(
+    @InjectRepository(RevokedToken)
+    private readonly revokedTokensRepository: Repository<RevokedToken>,
+  ) {}
+
+  /**
+   * Revoca un access token hasta su expiración
+   *
+   * @param jti - JWT ID del token
+   * @param userId - Dueño del token
+   * @param expiresAt - Expiración original del token
+   */
+  async revoke(jti: string, userId: number, expiresAt: Date): Promise<void> {
+    // upsert: revocar dos veces el mismo token no es un error
+    await this.revokedTokensRepository.upsert({ jti, userId, expiresAt }, [
+      'jti',
+    ]);
+
+    // Limpieza oportunista: las entradas expiradas ya no aportan nada
+    await this.revokedTokensRepository.delete({
+      expiresAt: LessThan(new Date()),
+    });
+  }
+
+  /**
+   * Indica si el token con ese jti está en la lista negra
+   */
+  isRevoked(jti: string): Promise<boolean> {
+    return this.revokedTokensRepository.exists({ where: { jti } });
+  }
+}
@@ -0,0 +1,355 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { randomBytes, randomUUID } from 'crypto';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { RecoveryCode } from './entities/recovery-code.entity';
+import { TokenRevocationService } from './token-revocation.service';
+import { CLOCK } from './interfaces/clock.interface';
+import type { Clock } from './interfaces/clock.interface';
+import { BRUTE_FORCE_STORE } from './brute-force/brute-force-store.interface';
+import type { BruteForceStore } from './brute-force/brute-force-store.interface';
+import { hashToken } from './utils/hash-token';
+import {
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from './utils/totp';
+import {
+  MFA_TOKEN_EXPIRES_IN_SECONDS,
+  MFA_TOKEN_MAX_FAILED_CODES,
+  RECOVERY_CODES_COUNT,
+} from './auth.constants';
+import { AppConfig } from '../config/configuration';
+
+/**
+ * Contenido del token "mfa pendiente" que emite el login
+ */
+export interface MfaPendingPayload {
+  typ: 'mfa-pending';
+  sub: number;
+  jti: string;
+  exp: number;
+}
+
+/**
+ * TwoFactorService - Autenticación en dos pasos con TOTP (RFC 6238)
+ *
+ * FLUJO DE ACTIVACIÓN:
+ * 1. enroll: genera el secreto y la URI otpauth:// (se muestra como QR)
+ * 2. confirm: el usuario envía un código de su app; si es correcto se activa
+ *    la 2FA y se entregan los códigos de recuperación (una sola vez)
+ *
+ * FLUJO DE LOGIN:
+ * 1. AuthService.login valida la contraseña y, si la cuenta tiene 2FA,
+ *    entrega un token "mfa pendiente" (5 minutos) en lugar de los tokens
+ * 2. completeLogin canjea ese token + un código TOTP o de recuperación
+ *
+ * SEGURIDAD:
+ * - Cada código TOTP sirve una sola vez (se guarda el último intervalo usado)
+ * - Los códigos de recuperación se guardan hasheados y son de un solo uso
+ * - El token "mfa pendiente" también es de un solo uso (lista negra por jti)
+ *   y se revoca tras MFA_TOKEN_MAX_FAILED_CODES códigos incorrectos
+ * - La hora se obtiene del Clock inyectado (las pruebas la controlan)
+ */
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    @InjectRepository(RecoveryCode)
+    private readonly recoveryCodesRepository: Repository<RecoveryCode>,
+    @Inject(CLOCK) private readonly clock: Clock,
+    private readonly config: ConfigService<AppConfig, true>,
+    @Inject(BRUTE_FORCE_STORE) private readonly store: BruteForceStore,
+  ) {}
+
+  /**
+   * Inicia la activación: genera un secreto nuevo (reemplaza uno pendiente)
+   *
+   * EXCEPCIONES:
+   * - ConflictException (409): La 2FA ya está activada
+   */
+  async enroll(userId: number) {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+    if (user.twoFactorEnabledAt) {
+      throw new ConflictException(
+        'La autenticación en dos pasos ya está activada',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.usersService.setTwoFactorSecret(user.id, secret);
+
+    return {
+      secret,
+      otpauth_uri: buildOtpauthUri(
+        secret,
+        user.email,
+        this.config.get('twoFactor.issuer', { infer: true }),
+      ),
+    };
+  }
+
+  /**
+   * Confirma la activación con un código de la app autenticadora
+   *
+   * @returns Códigos de recuperación en texto plano (no se vuelven a mostrar)
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): No hay activación pendiente o código inválido
+   * - ConflictException (409): La 2FA ya está activada
+   */
+  async confirm(userId: number, code: string): Promise<string[]> {
+    const user = await this.usersService.findTwoFactorState(userId);
+    if (user?.twoFactorEnabledAt) {
+      throw new ConflictException(
+        'La autenticación en dos pasos ya está activada',
+      );
+    }
+    if (!user?.twoFactorSecret) {
+      throw new BadRequestException(
+        'Primero inicie la activación con POST /auth/2fa/enroll',
+      );
+    }
+    if (!(await this.verifyTotpCode(user, code))) {
+      throw new BadRequestException('Código de verificación inválido');
+    }
+
+    await this.usersService.enableTwoFactor(user.id);
+    return this.regenerateRecoveryCodes(user.id);
+  }
+
+  /**
+   * Desactiva la 2FA (exige un código TOTP o de recuperación)
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): La 2FA no está activada
+   * - UnauthorizedException (401): Código inválido
+   */
+  async disable(userId: number, code: string): Promise<void> {
+    const user = await this.usersService.findTwoFactorState(userId);
+    if (!user?.twoFactorEnabledAt) {
+      throw new BadRequestException(
+        'La autenticación en dos pasos no está activada',
+      );
+    }
+    if (!(await this.verifyCode(user, code))) {
+      throw new UnauthorizedException('Código de verificación inválido');
+    }
+
+    await this.usersService.setTwoFactorSecret(user.id, null);
+    await this.recoveryCodesRepository.delete({ userId: user.id });
+  }
+
+  /**
+   * Emite el token "mfa pendiente" para un usuario que ya validó su contraseña
+   *
+   * NOTA: Su typ no es 'access', así que JwtStrategy lo rechaza en
+   * cualquier ruta protegida.
+   */
+  createPendingToken(user: User): string {
+    return this.jwtService.sign(
+      { typ: 'mfa-pending', sub: user.id },
+      { expiresIn: MFA_TOKEN_EXPIRES_IN_SECONDS, jwtid: randomUUID() },
+    );
+  }
+
+  /**
+   * Canjea el token "mfa pendiente" y el segundo factor
+   *
+   * @returns El usuario que completó el login
+   *
+   * EXCEPCIONES:
+   * - UnauthorizedException (401): Token inválido, expirado o ya usado,
+   *   o código incorrecto
+   *
+   * SEGURIDAD: Los códigos incorrectos se cuentan por token. Al llegar a
+   * MFA_TOKEN_MAX_FAILED_CODES el token se revoca: para seguir probando
+   * códigos hay que volver a enviar la contraseña (y pasar por los
+   * contadores del login).
+   */
+  async completeLogin(mfaToken: string, code: string): Promise<User> {
+    const payload = await this.verifyPendingToken(mfaToken);
+
+    const user = await this.usersService.findTwoFactorState(payload.sub);
+    if (!user || !user.isActive || !user.twoFactorEnabledAt) {
+      throw new UnauthorizedException(
+        'Token de verificación inválido o expirado',
+      );
+    }
+    if (!(await this.verifyCode(user, code))) {
+      await this.recordFailedCode(payload);
+      throw new UnauthorizedException('Código de verificación inválido');
+    }
+
+    await this.revokePendingToken(payload);
+
+    // Se vuelve a cargar sin las columnas select: false: el secreto TOTP
+    // no sale de este servicio
+    const account = await this.usersService.findById(user.id);
+    if (!account) {
+      throw new UnauthorizedException(
+        'Token de verificación inválido o expirado',
+      );
+    }
+    return account;
+  }
+
+  /**
+   * Verifica el token "mfa pendiente": firma, tipo, vigencia y lista negra
+   *
+   * EXCEPCIONES:
+   * - UnauthorizedException (401): Token inválido, expirado o ya usado
+   */
+  async verifyPendingToken(token: string): Promise<MfaPendingPayload> {
+    const payload = this.decodePendingToken(token);
+
+    if (await this.tokenRevocationService.isRevoked(payload.jti)) {
+      throw new UnauthorizedException(
+        'Token de verificación inválido o expirado',
+      );
+    }
+    return payload;
+  }
+
+  // ==========================================
+  // MÉTODOS PRIVADOS
+  // ==========================================
+
+  /**
+   * Cuenta un código incorrecto y revoca el token al llegar al límite
+   */
+  private async recordFailedCode(payload: MfaPendingPayload): Promise<void> {
+    const failures = await this.store.increment(
+      `mfa:${payload.jti}:failures`,
+      MFA_TOKEN_EXPIRES_IN_SECONDS * 1000,
+    );
+    if (failures.value >= MFA_TOKEN_MAX_FAILED_CODES) {
+      await this.revokePendingToken(payload);
+    }
+  }
+
+  /**
+   * Agrega el token "mfa pendiente" a la lista negra hasta que expire
+   */
+  private revokePendingToken(payload: MfaPendingPayload): Promise<void> {
+    return this.tokenRevocationService.revoke(
+      payload.jti,
+      payload.sub,
+      new Date(payload.exp * 1000),
+    );
+  }
+
+  /**
+   * Acepta un código TOTP de 6 dígitos o un código de recuperación
+   */
+  private verifyCode(user: User, code: string): Promise<boolean> {
+    return /^\d{6}$/.test(code)
+      ? this.verifyTotpCode(user, code)
+      : this.useRecoveryCode(user.id, code);
+  }
+
+  /**
+   * Verifica un código TOTP y marca su intervalo como usado
+   */
+  private async verifyTotpCode(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code, this.clock.now());
+    return (
+      step !== null &&
+      (await this.usersService.recordTwoFactorStep(user.id, step))
+    );
+  }
+
+  /**
+   * Canjea un código de recuperación (solo funciona una vez)
+   */
+  private async useRecoveryCode(
+    userId: number,
+    code: string,
+  ): Promise<boolean> {
+    const result = await this.recoveryCodesRepository.update(
+      {
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+        usedAt: IsNull(),
+      },
+      { usedAt: this.clock.now() },
+    );
+    return !!result.affected;
+  }
+
+  /**
+   * Reemplaza los códigos de recuperación del usuario por unos nuevos
+   */
+  private async regenerateRecoveryCodes(userId: number): Promise<string[]> {
+    await this.recoveryCodesRepository.delete({ userId });
+
+    const codes = Array.from({ length: RECOVERY_CODES_COUNT }, () =>
+      generateRecoveryCode(),
+    );
+    await this.recoveryCodesRepository.save(
+      codes.map((code) =>
+        this.recoveryCodesRepository.create({
+          userId,
+          codeHash: hashToken(normalizeRecoveryCode(code)),
+        }),
+      ),
+    );
+
+    return codes;
+  }
+
+  /**
+   * Verifica la firma y el tipo del token "mfa pendiente"
+   */
+  private decodePendingToken(token: string): MfaPendingPayload {
+    try {
+      const payload = this.jwtService.verify<MfaPendingPayload>(token);
+      if (payload.typ === 'mfa-pending' && payload.jti) {
+        return payload;
+      }
+    } catch {
+      // Firma inválida o token expirado: mismo mensaje que el resto de casos
+    }
+    throw new UnauthorizedException(
+      'Token de verificación inválido o expirado',
+    );
+  }
+}
+
+/**
+ * Código de recuperación legible: 10 caracteres Base32 (50 bits)
+ *
+ * EJEMPLO: "K7QXM-2RTPA"
+ */
+function generateRecoveryCode(): string {
+  const code = base32Encode(randomBytes(7)).slice(0, 10);
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Los códigos se comparan sin guiones ni espacios y en mayúsculas
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
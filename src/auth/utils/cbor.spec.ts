@@ -0,0 +1,65 @@
+import { decodeCbor, decodeCborPrefix } from './cbor';
+
+describe('cbor', () => {
+  const hex = (value: string) => Buffer.from(value, 'hex');
+
+  // Vectores del RFC 8949, apéndice A
+  it.each([
+    ['00', 0],
+    ['17', 23],
+    ['1818', 24],
+    ['1903e8', 1000],
+    ['1a000f4240', 1000000],
+    ['1b000000e8d4a51000', 1000000000000],
+    ['20', -1],
+    ['3903e7', -1000],
+    ['6449455446', 'IETF'],
+    ['f4', false],
+    ['f5', true],
+    ['f6', null],
+    ['f7', undefined],
+  ])('decodes %s', (encoded, expected) => {
+    expect(decodeCbor(hex(encoded))).toBe(expected);
+  });
+
+  it('decodes big integers as bigint', () => {
+    expect(decodeCbor(hex('1bffffffffffffffff'))).toBe(18446744073709551615n);
+    expect(decodeCbor(hex('3bffffffffffffffff'))).toBe(-18446744073709551616n);
+  });
+
+  it('decodes byte strings, arrays and maps', () => {
+    expect(decodeCbor(hex('4401020304'))).toEqual(hex('01020304'));
+    expect(decodeCbor(hex('8301820203820405'))).toEqual([1, [2, 3], [4, 5]]);
+    expect(decodeCbor(hex('a26161016162820203'))).toEqual(
+      new Map<unknown, unknown>([
+        ['a', 1],
+        ['b', [2, 3]],
+      ]),
+    );
+  });
+
+  it('reports how many bytes a prefix uses', () => {
+    expect(decodeCborPrefix(hex('ff1903e8ff'), 1)).toEqual({
+      value: 1000,
+      length: 3,
+    });
+  });
+
+  it.each([
+    ['trailing bytes', '0000'],
+    ['truncated data', '1903'],
+    ['lengths beyond the data', '5a00010000'],
+    ['indefinite lengths', '9fff'],
+    ['tags', 'c11a514b67b0'],
+    ['floats', 'f93c00'],
+    ['duplicate map keys', 'a2616101616102'],
+  ])('rejects %s', (_, encoded) => {
+    expect(() => decodeCbor(hex(encoded))).toThrow();
+  });
+
+  it('limits nesting depth', () => {
+    expect(() => decodeCbor(Buffer.alloc(100, 0x81))).toThrow(
+      'anidamiento demasiado profundo',
+    );
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Valor CBOR decodificado
+ *
+ * - Los mapas se devuelven como Map: en WebAuthn las claves suelen ser
+ *   números (claves COSE: 1, 3, -1...)
+ * - Las cadenas de bytes se devuelven como Buffer
+ */
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+/**
+ * Resultado de decodificar un valor al principio de un buffer
+ * - length: Bytes que ocupaba (lo que sigue puede ser otro dato)
+ */
+export interface CborPrefix {
+  value: CborValue;
+  length: number;
+}
+
+/**
+ * Anidamiento máximo admitido: los datos de WebAuthn no pasan de 3 o 4
+ * niveles, y un límite evita agotar la pila con datos maliciosos
+ */
+const MAX_DEPTH = 16;
+
+/**
+ * Decodifica un valor CBOR (RFC 8949) que ocupa TODO el buffer
+ *
+ * Solo admite lo que usa WebAuthn (CTAP2): enteros, cadenas, listas,
+ * mapas y los valores simples false/true/null/undefined. Las longitudes
+ * indefinidas, las etiquetas y los números con decimales se rechazan.
+ *
+ * EXCEPCIONES:
+ * - Error: Datos mal formados, no admitidos o sobrantes al final
+ *
+ * EJEMPLO:
+ * decodeCbor(Buffer.from('a26161016162820203', 'hex'))
+ * // Map { 'a' => 1, 'b' => [2, 3] }
+ */
+export function decodeCbor(data: Buffer): CborValue {
+  const { value, length } = decodeCborPrefix(data);
+  if (length !== data.length) {
+    throw new Error('CBOR: hay datos sobrantes después del valor');
+  }
+  return value;
+}
+
+/**
+ * Decodifica el valor CBOR que hay al principio del buffer
+ *
+ * Se usa cuando el valor va seguido de otros datos (p. ej. la clave
+ * pública dentro de los datos del autenticador).
+ */
+export function decodeCborPrefix(data: Buffer, offset = 0): CborPrefix {
+  const reader = new CborReader(data, offset);
+  const value = reader.read(0);
+  return { value, length: reader.offset - offset };
+}
+
+/**
+ * Lector secuencial: cada read() avanza el offset
+ */
+class CborReader {
+  constructor(
+    private readonly data: Buffer,
+    public offset: number,
+  ) {}
+
+  read(depth: number): CborValue {
+    if (depth > MAX_DEPTH) {
+      throw new Error('CBOR: anidamiento demasiado profundo');
+    }
+
+    const initial = this.bytes(1)[0];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      return this.simple(info);
+    }
+
+    const argument = this.argument(info);
+    switch (major) {
+      case 0:
+        return argument;
+      case 1:
+        return typeof argument === 'bigint' ? -1n - argument : -1 - argument;
+      case 2:
+        return Buffer.from(this.bytes(this.length(argument)));
+      case 3:
+        return this.bytes(this.length(argument)).toString('utf8');
+      case 4:
+        return Array.from({ length: this.length(argument) }, () =>
+          this.read(depth + 1),
+        );
+      case 5: {
+        const map = new Map<CborValue, CborValue>();
+        const entries = this.length(argument);
+        for (let i = 0; i < entries; i++) {
+          const key = this.read(depth + 1);
+          if (map.has(key)) {
+            throw new Error('CBOR: clave repetida en un mapa');
+          }
+          map.set(key, this.read(depth + 1));
+        }
+        return map;
+      }
+      default:
+        throw new Error('CBOR: las etiquetas no están admitidas');
+    }
+  }
+
+  /**
+   * Argumento de la cabecera: el propio valor (< 24) o 1, 2, 4 u 8 bytes
+   */
+  private argument(info: number): number | bigint {
+    if (info < 24) {
+      return info;
+    }
+    switch (info) {
+      case 24:
+        return this.bytes(1).readUInt8(0);
+      case 25:
+        return this.bytes(2).readUInt16BE(0);
+      case 26:
+        return this.bytes(4).readUInt32BE(0);
+      case 27: {
+        const value = this.bytes(8).readBigUInt64BE(0);
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+      }
+      default:
+        throw new Error('CBOR: las longitudes indefinidas no están admitidas');
+    }
+  }
+
+  /**
+   * Valores simples (tipo mayor 7)
+   */
+  private simple(info: number): CborValue {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      default:
+        throw new Error('CBOR: los números con decimales no están admitidos');
+    }
+  }
+
+  /**
+   * Una longitud debe caber en los datos que quedan
+   */
+  private length(argument: number | bigint): number {
+    if (
+      typeof argument === 'bigint' ||
+      argument > this.data.length - this.offset
+    ) {
+      throw new Error('CBOR: longitud fuera de los datos');
+    }
+    return argument;
+  }
+
+  private bytes(count: number): Buffer {
+    if (this.offset + count > this.data.length) {
+      throw new Error('CBOR: datos truncados');
+    }
+    const slice = this.data.subarray(this.offset, this.offset + count);
+    this.offset += count;
+    return slice;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Lee una cookie de la cabecera "Cookie" de la petición
+ *
+ * EJEMPLO:
+ * readCookie('a=1; social_login_state=eyJ...', 'social_login_state') → 'eyJ...'
+ *
+ * @returns undefined si la cookie no está
+ */
+export function readCookie(
+  header: string | undefined,
+  name: string,
+): string | undefined {
+  for (const pair of (header ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
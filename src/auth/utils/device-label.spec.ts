@@ -0,0 +1,36 @@
+import { deviceLabel } from './device-label';
+
+describe('deviceLabel', () => {
+  it('recognizes common browsers and operating systems', () => {
+    expect(
+      deviceLabel(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
+      ),
+    ).toBe('Chrome en Windows');
+    expect(
+      deviceLabel(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0',
+      ),
+    ).toBe('Edge en Windows');
+    expect(
+      deviceLabel(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+      ),
+    ).toBe('Safari en iPhone');
+    expect(
+      deviceLabel(
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36',
+      ),
+    ).toBe('Chrome en Android');
+    expect(
+      deviceLabel(
+        'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:127.0) Gecko/20100101 Firefox/127.0',
+      ),
+    ).toBe('Firefox en Linux');
+  });
+
+  it('falls back to the client name for scripts', () => {
+    expect(deviceLabel('curl/8.5.0')).toBe('curl');
+    expect(deviceLabel(undefined)).toBe('Dispositivo desconocido');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Navegadores reconocidos, en orden: Edge y Opera también anuncian
+ * "Chrome", y Chrome también anuncia "Safari"
+ */
+const BROWSERS: [RegExp, string][] = [
+  [/\bEdg(e|A|iOS)?\//, 'Edge'],
+  [/\bOPR\//, 'Opera'],
+  [/\b(Firefox|FxiOS)\//, 'Firefox'],
+  [/\b(Chrome|CriOS)\//, 'Chrome'],
+  [/\bSafari\//, 'Safari'],
+];
+
+/**
+ * Sistemas operativos reconocidos, en orden: Android también anuncia
+ * "Linux" y iOS "like Mac OS X"
+ */
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/\bWindows\b/, 'Windows'],
+  [/\biPhone\b/, 'iPhone'],
+  [/\biPad\b/, 'iPad'],
+  [/\bAndroid\b/, 'Android'],
+  [/\bCrOS\b/, 'ChromeOS'],
+  [/\bMac OS X\b/, 'macOS'],
+  [/\bLinux\b/, 'Linux'],
+];
+
+/**
+ * Descripción legible del dispositivo de una sesión a partir de su
+ * User-Agent (p. ej. "Chrome en Windows")
+ *
+ * Solo sirve para que el usuario reconozca sus sesiones: el User-Agent lo
+ * elige el cliente y NUNCA debe usarse para decisiones de seguridad.
+ */
+export function deviceLabel(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return 'Dispositivo desconocido';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) =>
+    pattern.test(userAgent),
+  )?.[1];
+
+  if (browser && os) {
+    return `${browser} en ${os}`;
+  }
+  // Scripts y clientes HTTP (curl, Postman...): su nombre es lo más útil
+  return browser ?? os ?? userAgent.split(/[/\s]/)[0].slice(0, 100);
+}
@@ -0,0 +1,11 @@
+import { createHash } from 'crypto';
+
+/**
+ * Hash SHA-256 (hex) de un token aleatorio
+ *
+ * - Los tokens que generamos tienen alta entropía: no necesitan bcrypt
+ * - Un hash determinístico permite buscarlos por índice en la base de datos
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,22 @@
+import { isS256Challenge, s256Challenge, verifyPkce } from './pkce';
+
+describe('pkce', () => {
+  // Vector de prueba del RFC 7636, apéndice B
+  const verifier = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+  const challenge = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM';
+
+  it('matches the RFC 7636 S256 vector', () => {
+    expect(s256Challenge(verifier)).toBe(challenge);
+    expect(isS256Challenge(challenge)).toBe(true);
+    expect(verifyPkce(verifier, challenge)).toBe(true);
+  });
+
+  it('rejects a different verifier', () => {
+    expect(verifyPkce(`${verifier.slice(0, -1)}A`, challenge)).toBe(false);
+  });
+
+  it('rejects malformed verifiers and plain challenges', () => {
+    expect(verifyPkce('corto', s256Challenge('corto'))).toBe(false);
+    expect(isS256Challenge(verifier.slice(0, 20))).toBe(false);
+  });
+});
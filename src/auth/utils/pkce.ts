@@ -0,0 +1,49 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Formato del code_verifier (RFC 7636, sección 4.1):
+ * 43 a 128 caracteres [A-Z] [a-z] [0-9] - . _ ~
+ */
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+/**
+ * Formato del code_challenge S256: SHA-256 en base64url (43 caracteres)
+ */
+const S256_CHALLENGE_PATTERN = /^[A-Za-z0-9\-_]{43}$/;
+
+/**
+ * Calcula el code_challenge S256 de un code_verifier
+ *
+ * EJEMPLO (vector del RFC 7636, apéndice B):
+ * s256Challenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')
+ * → 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+ */
+export function s256Challenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Indica si el texto tiene el formato de un code_challenge S256
+ */
+export function isS256Challenge(codeChallenge: string): boolean {
+  return S256_CHALLENGE_PATTERN.test(codeChallenge);
+}
+
+/**
+ * Comprueba un code_verifier contra el code_challenge guardado
+ *
+ * ALGORITMO:
+ * 1. Rechaza verificadores mal formados (demasiado cortos = adivinables)
+ * 2. Compara BASE64URL(SHA256(verifier)) con el challenge en tiempo constante
+ */
+export function verifyPkce(
+  codeVerifier: string,
+  codeChallenge: string,
+): boolean {
+  if (!CODE_VERIFIER_PATTERN.test(codeVerifier)) {
+    return false;
+  }
+  const expected = Buffer.from(s256Challenge(codeVerifier));
+  const actual = Buffer.from(codeChallenge);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,51 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  hotp,
+  totpStep,
+  verifyTotp,
+} from './totp';
+
+describe('totp', () => {
+  // Secreto de los vectores de prueba del RFC 6238 (SHA-1)
+  const rfcSecret = Buffer.from('12345678901234567890');
+  const secret = base32Encode(rfcSecret);
+
+  it('round-trips Base32', () => {
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(secret.toLowerCase())).toEqual(rfcSecret);
+  });
+
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+  ])('matches the RFC 6238 vector at %i s', (seconds, expected) => {
+    expect(hotp(rfcSecret, totpStep(new Date(seconds * 1000)), 8)).toBe(
+      expected,
+    );
+  });
+
+  it('accepts codes from adjacent steps only', () => {
+    const now = new Date(1_700_000_000_000);
+    const previous = generateTotp(secret, new Date(now.getTime() - 30_000));
+    const stale = generateTotp(secret, new Date(now.getTime() - 60_000));
+
+    expect(verifyTotp(secret, generateTotp(secret, now), now)).toBe(
+      totpStep(now),
+    );
+    expect(verifyTotp(secret, previous, now)).toBe(totpStep(now) - 1);
+    expect(verifyTotp(secret, stale, now)).toBeNull();
+    expect(verifyTotp(secret, 'abcdef', now)).toBeNull();
+  });
+
+  it('builds an otpauth URI', () => {
+    expect(buildOtpauthUri(secret, 'juan@test.com', 'Auth Taller')).toBe(
+      `otpauth://totp/Auth%20Taller:juan%40test.com?secret=${secret}` +
+        '&issuer=Auth+Taller&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import { createHmac, randomBytes } from 'crypto';
+
+// ============================================
+// TOTP (RFC 6238) - Códigos de un solo uso basados en tiempo
+// ============================================
+//
+// Es el algoritmo de Google Authenticator, Authy, 1Password, etc.:
+// 1. Servidor y app comparten un secreto (se intercambia con un código QR)
+// 2. Ambos calculan HMAC-SHA1(secreto, floor(tiempo / 30s))
+// 3. Del HMAC se extraen 6 dígitos (truncamiento dinámico, RFC 4226)
+//
+// Las funciones reciben la hora como parámetro (no llaman a Date.now()):
+// se pueden probar con los vectores del RFC sin depender del reloj.
+
+/** Duración de cada código (segundos) */
+export const TOTP_STEP_SECONDS = 30;
+
+/** Cantidad de dígitos del código */
+export const TOTP_DIGITS = 6;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Codifica bytes en Base32 (RFC 4648, sin relleno "="), el formato que
+ * esperan las apps autenticadoras
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decodifica Base32 (ignora mayúsculas/minúsculas, espacios y relleno)
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Carácter Base32 inválido: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Genera un secreto aleatorio de 160 bits (el tamaño que recomienda el RFC
+ * para HMAC-SHA1) codificado en Base32
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Número de intervalo de 30 segundos que corresponde a una hora
+ */
+export function totpStep(time: Date): number {
+  return Math.floor(time.getTime() / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * Calcula el código de un intervalo concreto (HOTP, RFC 4226)
+ */
+export function hotp(
+  secret: Buffer,
+  counter: number,
+  digits = TOTP_DIGITS,
+): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', secret).update(message).digest();
+
+  // Truncamiento dinámico: los 4 bits bajos del último byte indican
+  // de dónde tomar 31 bits del HMAC
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Código TOTP vigente en un momento dado
+ *
+ * @param secret - Secreto en Base32
+ * @param time - Hora para la que se calcula el código
+ */
+export function generateTotp(secret: string, time: Date): string {
+  return hotp(base32Decode(secret), totpStep(time));
+}
+
+/**
+ * Verifica un código TOTP
+ *
+ * Se aceptan también el intervalo anterior y el siguiente (window = 1):
+ * tolera relojes desfasados y el tiempo que tarda el usuario en escribir.
+ *
+ * @returns El intervalo que coincidió (para impedir reutilizar el código)
+ *          o null si el código no es válido
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  time: Date,
+  window = 1,
+): number | null {
+  if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = totpStep(time);
+
+  for (let step = current - window; step <= current + window; step++) {
+    if (hotp(key, step) === code) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * URI otpauth:// que las apps autenticadoras leen desde un código QR
+ *
+ * EJEMPLO:
+ * otpauth://totp/Auth%20Taller:juan%40test.com?secret=JBSW...&issuer=Auth%20Taller&algorithm=SHA1&digits=6&period=30
+ */
+export function buildOtpauthUri(
+  secret: string,
+  accountName: string,
+  issuer: string,
+): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,211 @@
+import { createHash, generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { CborValue } from './cbor';
+import {
+  CoseAlgorithm,
+  coseToPublicKey,
+  parseAttestationObject,
+  parseAuthenticatorData,
+  parseClientData,
+  rpIdHash,
+  verifyWebAuthnSignature,
+} from './webauthn';
+
+describe('webauthn', () => {
+  const jwkBytes = (key: KeyObject, field: 'x' | 'y' | 'n' | 'e') =>
+    Buffer.from(key.export({ format: 'jwk' })[field] as string, 'base64url');
+
+  const es256 = () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+    const cose = new Map<CborValue, CborValue>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, jwkBytes(publicKey, 'x')],
+      [-3, jwkBytes(publicKey, 'y')],
+    ]);
+    return { privateKey, cose };
+  };
+
+  // COSE { 1: 2, 3: -7, -1: 1, -2: x, -3: y } con x e y de 32 bytes
+  const coseKeyBytes = Buffer.concat([
+    Buffer.from('a5010203262001215820', 'hex'),
+    Buffer.alloc(32, 1),
+    Buffer.from('225820', 'hex'),
+    Buffer.alloc(32, 2),
+  ]);
+
+  const authData = (flags: number, signCount: number, ...rest: Buffer[]) => {
+    const header = Buffer.alloc(37);
+    rpIdHash('localhost').copy(header);
+    header[32] = flags;
+    header.writeUInt32BE(signCount, 33);
+    return Buffer.concat([header, ...rest]);
+  };
+
+  describe('parseAuthenticatorData', () => {
+    it('reads the header and flags', () => {
+      const parsed = parseAuthenticatorData(authData(0x1d, 42));
+
+      expect(parsed.rpIdHash).toEqual(rpIdHash('localhost'));
+      expect(parsed.signCount).toBe(42);
+      expect(parsed.flags).toEqual({
+        userPresent: true,
+        userVerified: true,
+        backupEligible: true,
+        backedUp: true,
+      });
+      expect(parsed.attestedCredential).toBeUndefined();
+    });
+
+    it('reads the attested credential', () => {
+      const credentialId = Buffer.from('credencial');
+      const idLength = Buffer.from([0, credentialId.length]);
+      const parsed = parseAuthenticatorData(
+        authData(
+          0x45,
+          0,
+          Buffer.alloc(16),
+          idLength,
+          credentialId,
+          coseKeyBytes,
+        ),
+      );
+
+      expect(parsed.attestedCredential?.credentialId).toEqual(credentialId);
+      expect(parsed.attestedCredential?.publicKey.get(3)).toBe(-7);
+    });
+
+    it('rejects truncated data and trailing bytes', () => {
+      expect(() => parseAuthenticatorData(Buffer.alloc(36))).toThrow();
+      expect(() =>
+        parseAuthenticatorData(authData(0x45, 0, Buffer.alloc(16))),
+      ).toThrow();
+      expect(() =>
+        parseAuthenticatorData(authData(0x05, 0, Buffer.from([0]))),
+      ).toThrow('bytes sobrantes');
+    });
+  });
+
+  describe('parseClientData', () => {
+    it('reads type, challenge and origin', () => {
+      const clientData = {
+        type: 'webauthn.get',
+        challenge: 'abc',
+        origin: 'http://localhost:5173',
+      };
+      expect(parseClientData(Buffer.from(JSON.stringify(clientData)))).toEqual(
+        clientData,
+      );
+    });
+
+    it('rejects incomplete or invalid JSON', () => {
+      expect(() => parseClientData(Buffer.from('{'))).toThrow();
+      expect(() =>
+        parseClientData(Buffer.from('{"type":"webauthn.get"}')),
+      ).toThrow('incompleto');
+      expect(() => parseClientData(Buffer.from('null'))).toThrow();
+    });
+  });
+
+  describe('parseAttestationObject', () => {
+    it('rejects objects without fmt, attStmt and authData', () => {
+      // { "fmt": "none" }
+      expect(() =>
+        parseAttestationObject(Buffer.from('a163666d74646e6f6e65', 'hex')),
+      ).toThrow('incompleto');
+    });
+  });
+
+  describe('coseToPublicKey', () => {
+    it('rejects unsupported algorithms and curves', () => {
+      const { cose } = es256();
+      expect(() => coseToPublicKey(new Map([...cose, [3, -35]]))).toThrow(
+        'Algoritmo no admitido',
+      );
+      expect(() => coseToPublicKey(new Map([...cose, [-1, 2]]))).toThrow(
+        'Curva no admitida',
+      );
+      expect(() =>
+        coseToPublicKey(new Map([...cose, [-3, Buffer.alloc(0)]])),
+      ).toThrow('incompleta');
+    });
+  });
+
+  describe('verifyWebAuthnSignature', () => {
+    const clientDataJSON = Buffer.from('{"type":"webauthn.get"}');
+    const data = authData(0x05, 1);
+    const signed = Buffer.concat([
+      data,
+      createHash('sha256').update(clientDataJSON).digest(),
+    ]);
+
+    it.each([
+      ['ES256', () => es256(), 'sha256'],
+      [
+        'EdDSA',
+        () => {
+          const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+          return {
+            privateKey,
+            cose: new Map<CborValue, CborValue>([
+              [1, 1],
+              [3, -8],
+              [-1, 6],
+              [-2, jwkBytes(publicKey, 'x')],
+            ]),
+          };
+        },
+        null,
+      ],
+      [
+        'RS256',
+        () => {
+          const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+            modulusLength: 2048,
+          });
+          return {
+            privateKey,
+            cose: new Map<CborValue, CborValue>([
+              [1, 3],
+              [3, -257],
+              [-1, jwkBytes(publicKey, 'n')],
+              [-2, jwkBytes(publicKey, 'e')],
+            ]),
+          };
+        },
+        'sha256',
+      ],
+    ])('verifies %s signatures', (_, generate, digest) => {
+      const { privateKey, cose } = generate();
+      const publicKey = coseToPublicKey(cose);
+      const signature = sign(digest, signed, privateKey);
+
+      expect(CoseAlgorithm[publicKey.algorithm]).toBe(_);
+      expect(
+        verifyWebAuthnSignature(publicKey, data, clientDataJSON, signature),
+      ).toBe(true);
+      expect(
+        verifyWebAuthnSignature(
+          publicKey,
+          authData(0x05, 2),
+          clientDataJSON,
+          signature,
+        ),
+      ).toBe(false);
+    });
+
+    it('returns false for malformed signatures', () => {
+      const publicKey = coseToPublicKey(es256().cose);
+      expect(
+        verifyWebAuthnSignature(
+          publicKey,
+          data,
+          clientDataJSON,
+          Buffer.from('no es DER'),
+        ),
+      ).toBe(false);
+    });
+  });
+});
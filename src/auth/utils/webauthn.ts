@@ -0,0 +1,303 @@
+import { createHash, createPublicKey, KeyObject, verify } from 'crypto';
+import type { JsonWebKey } from 'crypto';
+import { CborValue, decodeCbor, decodeCborPrefix } from './cbor';
+
+/**
+ * Algoritmos de firma admitidos (identificadores COSE, RFC 9053)
+ *
+ * Se ofrecen en este orden al registrar una passkey: el autenticador
+ * elige el primero que soporte.
+ */
+export enum CoseAlgorithm {
+  ES256 = -7,
+  EdDSA = -8,
+  RS256 = -257,
+}
+
+export const SUPPORTED_COSE_ALGORITHMS = [
+  CoseAlgorithm.ES256,
+  CoseAlgorithm.EdDSA,
+  CoseAlgorithm.RS256,
+];
+
+/**
+ * Banderas de los datos del autenticador (byte 32)
+ */
+export interface AuthenticatorFlags {
+  /** UP: el usuario tocó el autenticador */
+  userPresent: boolean;
+  /** UV: el autenticador verificó al usuario (PIN, huella, rostro...) */
+  userVerified: boolean;
+  /** BE: la credencial puede sincronizarse (p. ej. llavero en la nube) */
+  backupEligible: boolean;
+  /** BS: la credencial está sincronizada */
+  backedUp: boolean;
+}
+
+/**
+ * Credencial nueva incluida en los datos del autenticador (solo al
+ * registrarla)
+ */
+export interface AttestedCredential {
+  aaguid: Buffer;
+  credentialId: Buffer;
+  /** Clave pública en formato COSE (ver coseToPublicKey) */
+  publicKey: Map<CborValue, CborValue>;
+}
+
+/**
+ * Datos del autenticador (WebAuthn, sección 6.1)
+ *
+ * FORMATO:
+ * rpIdHash (32) | flags (1) | signCount (4) | [credencial] | [extensiones]
+ */
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: AuthenticatorFlags;
+  signCount: number;
+  attestedCredential?: AttestedCredential;
+}
+
+/**
+ * Datos del navegador firmados junto con los del autenticador
+ * (clientDataJSON, WebAuthn sección 5.8.1)
+ */
+export interface ClientData {
+  /** "webauthn.create" al registrar, "webauthn.get" al iniciar sesión */
+  type: string;
+  /** Desafío emitido por el servidor, en base64url */
+  challenge: string;
+  /** Origen de la página que llamó a la API (https://app.ejemplo.com) */
+  origin: string;
+}
+
+/**
+ * Objeto de atestación que devuelve el registro
+ */
+export interface AttestationObject {
+  fmt: string;
+  attStmt: Map<CborValue, CborValue>;
+  authData: Buffer;
+}
+
+/**
+ * Clave pública de una credencial, lista para verificar firmas
+ */
+export interface CredentialPublicKey {
+  algorithm: CoseAlgorithm;
+  key: KeyObject;
+}
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+const FLAG_EXTENSION_DATA = 0x80;
+
+/** rpIdHash + flags + signCount */
+const AUTHENTICATOR_DATA_MIN_LENGTH = 37;
+
+/** Claves de los mapas COSE (RFC 9052, sección 7 y RFC 9053) */
+const COSE_KTY = 1;
+const COSE_ALG = 3;
+const COSE_CRV = -1;
+const COSE_X = -2;
+const COSE_Y = -3;
+const COSE_RSA_N = -1;
+const COSE_RSA_E = -2;
+
+const COSE_KTY_OKP = 1;
+const COSE_KTY_EC2 = 2;
+const COSE_KTY_RSA = 3;
+const COSE_CRV_P256 = 1;
+const COSE_CRV_ED25519 = 6;
+
+/**
+ * Hash del rpId que el autenticador incluye en sus datos
+ *
+ * EJEMPLO: rpIdHash('app.ejemplo.com') === authData.rpIdHash
+ */
+export function rpIdHash(rpId: string): Buffer {
+  return createHash('sha256').update(rpId).digest();
+}
+
+/**
+ * Lee los datos del autenticador
+ *
+ * EXCEPCIONES:
+ * - Error: Datos truncados, clave pública mal formada o bytes sobrantes
+ */
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < AUTHENTICATOR_DATA_MIN_LENGTH) {
+    throw new Error('Datos del autenticador demasiado cortos');
+  }
+
+  const flags = data[32];
+  const result: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: {
+      userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+      userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+      backupEligible: (flags & FLAG_BACKUP_ELIGIBLE) !== 0,
+      backedUp: (flags & FLAG_BACKED_UP) !== 0,
+    },
+    signCount: data.readUInt32BE(33),
+  };
+
+  let offset = AUTHENTICATOR_DATA_MIN_LENGTH;
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    if (data.length < offset + 18) {
+      throw new Error('Datos de la credencial truncados');
+    }
+    const aaguid = data.subarray(offset, offset + 16);
+    const idLength = data.readUInt16BE(offset + 16);
+    offset += 18;
+    if (data.length < offset + idLength) {
+      throw new Error('Datos de la credencial truncados');
+    }
+    const credentialId = data.subarray(offset, offset + idLength);
+    offset += idLength;
+
+    const { value: publicKey, length } = decodeCborPrefix(data, offset);
+    if (!(publicKey instanceof Map)) {
+      throw new Error('La clave pública no es un mapa COSE');
+    }
+    offset += length;
+    result.attestedCredential = { aaguid, credentialId, publicKey };
+  }
+
+  // Las extensiones no se usan, pero hay que saltarlas para comprobar
+  // que no sobra nada
+  if (flags & FLAG_EXTENSION_DATA) {
+    offset += decodeCborPrefix(data, offset).length;
+  }
+  if (offset !== data.length) {
+    throw new Error('Datos del autenticador con bytes sobrantes');
+  }
+
+  return result;
+}
+
+/**
+ * Lee el clientDataJSON enviado por el navegador
+ *
+ * EXCEPCIONES:
+ * - Error: No es JSON o le faltan type, challenge u origin
+ */
+export function parseClientData(clientDataJSON: Buffer): ClientData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(clientDataJSON.toString('utf8'));
+  } catch {
+    throw new Error('clientDataJSON no es JSON');
+  }
+
+  const { type, challenge, origin } = (parsed ?? {}) as Record<string, unknown>;
+  if (
+    typeof type !== 'string' ||
+    typeof challenge !== 'string' ||
+    typeof origin !== 'string'
+  ) {
+    throw new Error('clientDataJSON incompleto');
+  }
+  return { type, challenge, origin };
+}
+
+/**
+ * Lee el attestationObject del registro
+ *
+ * EXCEPCIONES:
+ * - Error: CBOR inválido o sin fmt, attStmt y authData
+ */
+export function parseAttestationObject(data: Buffer): AttestationObject {
+  const decoded = decodeCbor(data);
+  if (!(decoded instanceof Map)) {
+    throw new Error('attestationObject no es un mapa');
+  }
+
+  const fmt = decoded.get('fmt');
+  const attStmt = decoded.get('attStmt');
+  const authData = decoded.get('authData');
+  if (
+    typeof fmt !== 'string' ||
+    !(attStmt instanceof Map) ||
+    !Buffer.isBuffer(authData)
+  ) {
+    throw new Error('attestationObject incompleto');
+  }
+  return { fmt, attStmt, authData };
+}
+
+/**
+ * Convierte una clave pública COSE en una clave de Node
+ *
+ * Admite EC2 P-256 (ES256), OKP Ed25519 (EdDSA) y RSA (RS256): los que
+ * usan los autenticadores de plataforma y las llaves de seguridad.
+ *
+ * EXCEPCIONES:
+ * - Error: Algoritmo o curva no admitidos, o parámetros que faltan
+ */
+export function coseToPublicKey(
+  cose: Map<CborValue, CborValue>,
+): CredentialPublicKey {
+  const kty = cose.get(COSE_KTY);
+  const alg = cose.get(COSE_ALG);
+  const bytes = (label: number): string => {
+    const value = cose.get(label);
+    if (!Buffer.isBuffer(value) || value.length === 0) {
+      throw new Error('Clave COSE incompleta');
+    }
+    return value.toString('base64url');
+  };
+
+  let jwk: JsonWebKey;
+  if (kty === COSE_KTY_EC2 && alg === CoseAlgorithm.ES256) {
+    if (cose.get(COSE_CRV) !== COSE_CRV_P256) {
+      throw new Error('Curva no admitida');
+    }
+    jwk = { kty: 'EC', crv: 'P-256', x: bytes(COSE_X), y: bytes(COSE_Y) };
+  } else if (kty === COSE_KTY_OKP && alg === CoseAlgorithm.EdDSA) {
+    if (cose.get(COSE_CRV) !== COSE_CRV_ED25519) {
+      throw new Error('Curva no admitida');
+    }
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: bytes(COSE_X) };
+  } else if (kty === COSE_KTY_RSA && alg === CoseAlgorithm.RS256) {
+    jwk = { kty: 'RSA', n: bytes(COSE_RSA_N), e: bytes(COSE_RSA_E) };
+  } else {
+    throw new Error('Algoritmo no admitido');
+  }
+
+  return {
+    algorithm: alg as CoseAlgorithm,
+    key: createPublicKey({ key: jwk, format: 'jwk' }),
+  };
+}
+
+/**
+ * Comprueba la firma de una autenticación
+ *
+ * El autenticador firma authenticatorData || SHA-256(clientDataJSON).
+ * ES256 y RS256 usan SHA-256 (la firma ECDSA llega en DER, el formato
+ * que espera Node); EdDSA firma los datos tal cual.
+ *
+ * @returns false si la firma no corresponde (nunca lanza)
+ */
+export function verifyWebAuthnSignature(
+  publicKey: CredentialPublicKey,
+  authenticatorData: Buffer,
+  clientDataJSON: Buffer,
+  signature: Buffer,
+): boolean {
+  const signed = Buffer.concat([
+    authenticatorData,
+    createHash('sha256').update(clientDataJSON).digest(),
+  ]);
+  const digest = publicKey.algorithm === CoseAlgorithm.EdDSA ? null : 'sha256';
+
+  try {
+    return verify(digest, signed, publicKey.key, signature);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { AuthService } from './auth.service';
+import { WebAuthnService } from './webauthn.service';
+import { WebAuthnCredential } from './entities/webauthn-credential.entity';
+import { SessionAuthGuard } from './guards/session-auth.guard';
+import { AuthenticatedUser } from './interfaces/jwt-payload.interface';
+import { BruteForceInterceptor } from './interceptors/brute-force.interceptor';
+import { SessionCookiesInterceptor } from './interceptors/session-cookies.interceptor';
+import { BruteForceProtection } from './decorators/brute-force.decorator';
+import { ClientInfo } from './decorators/client-info.decorator';
+import { deviceLabel } from './utils/device-label';
+import { WebAuthnRegistrationDto } from '../users/dto/webauthn-registration.dto';
+import { WebAuthnAuthenticationDto } from '../users/dto/webauthn-authentication.dto';
+import { AuditInterceptor } from '../audit/interceptors/audit.interceptor';
+import { Audited } from '../audit/decorators/audited.decorator';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+
+/**
+ * WebAuthnController - Passkeys
+ *
+ * FLUJO (cada ceremonia son dos peticiones):
+ * 1. POST .../options → opciones con un desafío de un solo uso
+ * 2. El frontend las pasa a navigator.credentials.create() o .get()
+ * 3. POST con el resultado (PublicKeyCredential.toJSON())
+ *
+ * Registrar, listar y eliminar passkeys exige una sesión
+ * (SessionAuthGuard): con una API key no se pueden gestionar.
+ */
+@UseInterceptors(AuditInterceptor)
+@Controller('auth/webauthn')
+export class WebAuthnController {
+  constructor(
+    private readonly webAuthnService: WebAuthnService,
+    private readonly authService: AuthService,
+  ) {}
+
+  /**
+   * POST /auth/webauthn/register/options
+   * Opciones para navigator.credentials.create()
+   */
+  @UseGuards(SessionAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @Post('register/options')
+  registrationOptions(@Req() req: Request & { user: AuthenticatedUser }) {
+    return this.webAuthnService.registrationOptions(req.user.userId);
+  }
+
+  /**
+   * POST /auth/webauthn/register
+   * Verifica y guarda la passkey creada por el navegador
+   */
+  @UseGuards(SessionAuthGuard)
+  @Audited({ action: AuditAction.PasskeyRegister, target: 'passkey' })
+  @Post('register')
+  async register(
+    @Req() req: Request & { user: AuthenticatedUser },
+    @Body() registration: WebAuthnRegistrationDto,
+    @ClientInfo() client: ClientInfo,
+  ) {
+    const credential = await this.webAuthnService.verifyRegistration(
+      req.user.userId,
+      registration,
+      registration.name ?? deviceLabel(client.userAgent),
+    );
+    return toResponse(credential);
+  }
+
+  /**
+   * GET /auth/webauthn/credentials
+   * Passkeys del usuario (sin la clave pública)
+   */
+  @UseGuards(SessionAuthGuard)
+  @Get('credentials')
+  async list(@Req() req: Request & { user: AuthenticatedUser }) {
+    const credentials = await this.webAuthnService.findAll(req.user.userId);
+    return credentials.map(toResponse);
+  }
+
+  /**
+   * DELETE /auth/webauthn/credentials/:id
+   * Elimina una passkey
+   */
+  @UseGuards(SessionAuthGuard)
+  @Audited({ action: AuditAction.PasskeyDelete, target: 'passkey' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete('credentials/:id')
+  async remove(
+    @Req() req: Request & { user: AuthenticatedUser },
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.webAuthnService.remove(req.user.userId, id);
+  }
+
+  /**
+   * POST /auth/webauthn/login/options
+   * Opciones para navigator.credentials.get()
+   * Ruta PÚBLICA
+   */
+  @HttpCode(HttpStatus.OK)
+  @Post('login/options')
+  authenticationOptions() {
+    return this.webAuthnService.authenticationOptions();
+  }
+
+  /**
+   * POST /auth/webauthn/login
+   * Inicia sesión con la firma de la passkey: misma respuesta que
+   * POST /auth/login (sin pedir el código 2FA)
+   * Ruta PÚBLICA - las firmas rechazadas se limitan por IP
+   */
+  @UseInterceptors(BruteForceInterceptor, SessionCookiesInterceptor)
+  @BruteForceProtection({ scope: 'passkey' })
+  @HttpCode(HttpStatus.OK)
+  @Post('login')
+  login(
+    @Body() assertion: WebAuthnAuthenticationDto,
+    @ClientInfo() client: ClientInfo,
+  ) {
+    return this.authService.loginWithPasskey(assertion, client);
+  }
+}
+
+/**
+ * Datos públicos de una passkey
+ */
+function toResponse(credential: WebAuthnCredential) {
+  return {
+    id: credential.id,
+    name: credential.name,
+    transports: credential.transports,
+    backed_up: credential.backedUp,
+    last_used_at: credential.lastUsedAt,
+    created_at: credential.createdAt,
+  };
+}
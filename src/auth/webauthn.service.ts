@@ -0,0 +1,524 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { createPublicKey, randomBytes, timingSafeEqual } from 'crypto';
+import { AppConfig } from '../config/configuration';
+import { UsersService } from '../users/users.service';
+import { WebAuthnRegistrationDto } from '../users/dto/webauthn-registration.dto';
+import { WebAuthnAuthenticationDto } from '../users/dto/webauthn-authentication.dto';
+import { WebAuthnCredential } from './entities/webauthn-credential.entity';
+import {
+  WebAuthnCeremony,
+  WebAuthnChallenge,
+} from './entities/webauthn-challenge.entity';
+import { CLOCK } from './interfaces/clock.interface';
+import type { Clock } from './interfaces/clock.interface';
+import { hashToken } from './utils/hash-token';
+import {
+  AuthenticatorData,
+  ClientData,
+  coseToPublicKey,
+  CredentialPublicKey,
+  parseAttestationObject,
+  parseAuthenticatorData,
+  parseClientData,
+  rpIdHash,
+  SUPPORTED_COSE_ALGORITHMS,
+  verifyWebAuthnSignature,
+} from './utils/webauthn';
+import {
+  MAX_PASSKEYS_PER_USER,
+  WEBAUTHN_CHALLENGE_TTL_MS,
+} from './auth.constants';
+
+/**
+ * Mensaje de las passkeys que no superan la verificación del registro
+ * (el motivo concreto solo va al log)
+ */
+const INVALID_REGISTRATION_MESSAGE = 'No se pudo verificar la passkey';
+
+/**
+ * Mensaje genérico de los inicios de sesión con passkey rechazados
+ */
+const INVALID_ASSERTION_MESSAGE = 'Passkey inválida';
+
+/**
+ * Identificador del usuario dentro de la passkey (user.id de WebAuthn)
+ *
+ * Es opaco para el autenticador; no incluye el email ni el username, que
+ * pueden cambiar.
+ */
+function userHandle(userId: number): string {
+  return Buffer.from(String(userId)).toString('base64url');
+}
+
+/**
+ * WebAuthnService - Passkeys (WebAuthn nivel 2)
+ *
+ * RESPONSABILIDADES:
+ * 1. Emitir los desafíos de registro y de inicio de sesión (un solo uso)
+ * 2. Verificar el registro con atestación "none" y guardar la clave
+ *    pública, el contador de firmas y los transports
+ * 3. Verificar la firma de un inicio de sesión y devolver el usuario (la
+ *    sesión la emite AuthService.loginWithPasskey)
+ * 4. Listar y eliminar las passkeys de un usuario
+ *
+ * Todo se verifica con el módulo crypto de Node: CBOR y claves COSE en
+ * src/auth/utils/webauthn.ts.
+ *
+ * SEGURIDAD:
+ * - El origen de clientDataJSON debe ser uno de WEBAUTHN_ORIGINS y el
+ *   rpIdHash el de WEBAUTHN_RP_ID: una passkey no sirve en un sitio de
+ *   phishing, ni aunque el usuario caiga en él
+ * - Se exige verificación del usuario (PIN o biometría): la passkey
+ *   reemplaza a la contraseña Y al segundo factor
+ */
+@Injectable()
+export class WebAuthnService {
+  private readonly logger = new Logger(WebAuthnService.name);
+  private readonly options: AppConfig['webauthn'];
+
+  constructor(
+    @InjectRepository(WebAuthnCredential)
+    private readonly credentialsRepository: Repository<WebAuthnCredential>,
+    @InjectRepository(WebAuthnChallenge)
+    private readonly challengesRepository: Repository<WebAuthnChallenge>,
+    private readonly usersService: UsersService,
+    @Inject(CLOCK) private readonly clock: Clock,
+    config: ConfigService<AppConfig, true>,
+  ) {
+    this.options = config.get('webauthn', { infer: true });
+  }
+
+  // ==========================================
+  // REGISTRO
+  // ==========================================
+
+  /**
+   * Opciones para navigator.credentials.create()
+   *
+   * - residentKey "required": la passkey guarda el usuario, así el login
+   *   no necesita que escriba su email
+   * - excludeCredentials: el navegador no registra dos veces el mismo
+   *   autenticador
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): El usuario ya no existe
+   * - BadRequestException (400): Ya tiene MAX_PASSKEYS_PER_USER passkeys
+   */
+  async registrationOptions(userId: number) {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+
+    const credentials = await this.credentialsRepository.find({
+      where: { userId },
+    });
+    if (credentials.length >= MAX_PASSKEYS_PER_USER) {
+      throw new BadRequestException(
+        `No puede tener más de ${MAX_PASSKEYS_PER_USER} passkeys. Elimine alguna que ya no use.`,
+      );
+    }
+
+    return {
+      challenge: await this.createChallenge('registration', userId),
+      rp: { id: this.options.rpId, name: this.options.rpName },
+      user: {
+        id: userHandle(user.id),
+        name: user.email,
+        displayName: user.username,
+      },
+      pubKeyCredParams: SUPPORTED_COSE_ALGORITHMS.map((alg) => ({
+        type: 'public-key',
+        alg,
+      })),
+      timeout: WEBAUTHN_CHALLENGE_TTL_MS,
+      attestation: 'none',
+      excludeCredentials: credentials.map((credential) => ({
+        type: 'public-key',
+        id: credential.credentialId,
+        transports: credential.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        requireResidentKey: true,
+        userVerification: 'required',
+      },
+    };
+  }
+
+  /**
+   * Verifica el registro de una passkey y la guarda
+   *
+   * ALGORITMO (WebAuthn, sección 7.1):
+   * 1. clientDataJSON: tipo "webauthn.create", origen permitido y un
+   *    desafío de registro vigente de ESTE usuario (se gasta aunque la
+   *    verificación falle después)
+   * 2. attestationObject con formato "none": no se pide al autenticador
+   *    que demuestre su fabricante, solo se confía en la clave
+   * 3. Datos del autenticador: rpIdHash, usuario presente y verificado, y
+   *    la credencial con el mismo id que informa el navegador
+   * 4. Clave pública con un algoritmo admitido
+   * 5. Guarda la passkey (409 si ya estaba registrada)
+   *
+   * @param name - Nombre para el listado (p. ej. el dispositivo)
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): Desafío inválido o expirado, o datos que
+   *   no superan la verificación
+   * - ConflictException (409): La passkey ya está registrada
+   */
+  async verifyRegistration(
+    userId: number,
+    registration: WebAuthnRegistrationDto,
+    name: string,
+  ): Promise<WebAuthnCredential> {
+    const { response } = registration;
+    const clientDataJSON = Buffer.from(response.clientDataJSON, 'base64url');
+
+    // PASO 1: Datos del navegador y desafío
+    const clientData = this.readClientData(
+      clientDataJSON,
+      'webauthn.create',
+      () => new BadRequestException(INVALID_REGISTRATION_MESSAGE),
+    );
+    await this.consumeChallenge(clientData.challenge, 'registration', userId);
+
+    let authData: AuthenticatorData;
+    let publicKey: CredentialPublicKey;
+    try {
+      // PASO 2: Atestación "none"
+      const attestation = parseAttestationObject(
+        Buffer.from(response.attestationObject, 'base64url'),
+      );
+      if (attestation.fmt !== 'none' || attestation.attStmt.size > 0) {
+        throw new Error(
+          `Formato de atestación no admitido: ${attestation.fmt}`,
+        );
+      }
+
+      // PASO 3: Datos del autenticador
+      authData = parseAuthenticatorData(attestation.authData);
+      this.assertAuthenticatorData(authData);
+      const credential = authData.attestedCredential;
+      if (!credential) {
+        throw new Error('La respuesta no incluye la credencial');
+      }
+      if (credential.credentialId.toString('base64url') !== registration.id) {
+        throw new Error('El id no coincide con el de la credencial');
+      }
+
+      // PASO 4: Clave pública
+      publicKey = coseToPublicKey(credential.publicKey);
+    } catch (error) {
+      this.logger.warn(`Registro de passkey rechazado: ${describe(error)}`);
+      throw new BadRequestException(INVALID_REGISTRATION_MESSAGE);
+    }
+
+    // PASO 5: Guardar
+    const exists = await this.credentialsRepository.exists({
+      where: { credentialId: registration.id },
+    });
+    if (exists) {
+      throw new ConflictException('La passkey ya está registrada');
+    }
+
+    return this.credentialsRepository.save(
+      this.credentialsRepository.create({
+        userId,
+        credentialId: registration.id,
+        publicKey: publicKey.key
+          .export({ format: 'der', type: 'spki' })
+          .toString('base64url'),
+        algorithm: publicKey.algorithm,
+        signCount: authData.signCount,
+        transports: response.transports ?? [],
+        name,
+        backedUp: authData.flags.backedUp,
+      }),
+    );
+  }
+
+  // ==========================================
+  // INICIO DE SESIÓN
+  // ==========================================
+
+  /**
+   * Opciones para navigator.credentials.get()
+   *
+   * allowCredentials va vacío: el navegador ofrece las passkeys que tenga
+   * para este sitio, y la respuesta no revela si un email está registrado.
+   */
+  async authenticationOptions() {
+    return {
+      challenge: await this.createChallenge('authentication', null),
+      rpId: this.options.rpId,
+      timeout: WEBAUTHN_CHALLENGE_TTL_MS,
+      userVerification: 'required',
+      allowCredentials: [],
+    };
+  }
+
+  /**
+   * Verifica la firma de un inicio de sesión
+   *
+   * ALGORITMO (WebAuthn, sección 7.2):
+   * 1. clientDataJSON: tipo "webauthn.get", origen permitido y un desafío
+   *    de inicio de sesión vigente (se gasta aunque la firma falle)
+   * 2. Busca la passkey por su id; si el navegador envía userHandle debe
+   *    ser el de su dueño
+   * 3. Datos del autenticador: rpIdHash, usuario presente y verificado
+   * 4. Firma de authenticatorData || SHA-256(clientDataJSON) con la clave
+   *    pública guardada
+   * 5. Contador de firmas: si el autenticador lo usa, debe crecer. Si no
+   *    crece, hay otra copia de la clave (autenticador clonado)
+   * 6. Guarda el contador y la fecha de uso
+   *
+   * @returns El id del dueño de la passkey
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): Desafío inválido, expirado o ya usado
+   * - UnauthorizedException (401): Passkey desconocida, firma inválida o
+   *   contador que no crece (mensaje genérico; el motivo va al log)
+   */
+  async verifyAuthentication(
+    assertion: WebAuthnAuthenticationDto,
+  ): Promise<number> {
+    const { response } = assertion;
+    const clientDataJSON = Buffer.from(response.clientDataJSON, 'base64url');
+    const reject = (reason: string) => {
+      this.logger.warn(`Inicio de sesión con passkey rechazado: ${reason}`);
+      return new UnauthorizedException(INVALID_ASSERTION_MESSAGE);
+    };
+
+    // PASO 1: Datos del navegador y desafío
+    const clientData = this.readClientData(
+      clientDataJSON,
+      'webauthn.get',
+      () => new UnauthorizedException(INVALID_ASSERTION_MESSAGE),
+    );
+    await this.consumeChallenge(clientData.challenge, 'authentication', null);
+
+    // PASO 2: Passkey y dueño
+    const credential = await this.credentialsRepository.findOne({
+      where: { credentialId: assertion.id },
+    });
+    if (!credential) {
+      throw reject('passkey desconocida');
+    }
+    if (
+      response.userHandle !== undefined &&
+      response.userHandle !== userHandle(credential.userId)
+    ) {
+      throw reject('userHandle de otro usuario');
+    }
+
+    // PASOS 3 y 4: Datos del autenticador y firma
+    const authenticatorData = Buffer.from(
+      response.authenticatorData,
+      'base64url',
+    );
+    let authData: AuthenticatorData;
+    try {
+      authData = parseAuthenticatorData(authenticatorData);
+      this.assertAuthenticatorData(authData);
+    } catch (error) {
+      throw reject(describe(error));
+    }
+
+    const publicKey: CredentialPublicKey = {
+      algorithm: credential.algorithm,
+      key: createPublicKey({
+        key: Buffer.from(credential.publicKey, 'base64url'),
+        format: 'der',
+        type: 'spki',
+      }),
+    };
+    const signature = Buffer.from(response.signature, 'base64url');
+    if (
+      !verifyWebAuthnSignature(
+        publicKey,
+        authenticatorData,
+        clientDataJSON,
+        signature,
+      )
+    ) {
+      throw reject('firma inválida');
+    }
+
+    // PASO 5: Contador de firmas
+    const { signCount } = authData;
+    if (
+      (signCount > 0 || credential.signCount > 0) &&
+      signCount <= credential.signCount
+    ) {
+      throw reject(
+        `el contador no creció (${signCount} <= ${credential.signCount}): posible autenticador clonado`,
+      );
+    }
+
+    // PASO 6: Actualización condicional: dos peticiones con la misma
+    // firma no pueden avanzar el contador las dos
+    const updated = await this.credentialsRepository.update(
+      { id: credential.id, signCount: credential.signCount },
+      {
+        signCount,
+        backedUp: authData.flags.backedUp,
+        lastUsedAt: this.clock.now(),
+      },
+    );
+    if (!updated.affected) {
+      throw reject('uso simultáneo de la passkey');
+    }
+
+    return credential.userId;
+  }
+
+  // ==========================================
+  // GESTIÓN DE PASSKEYS
+  // ==========================================
+
+  /**
+   * Passkeys del usuario, de la más nueva a la más antigua
+   */
+  findAll(userId: number): Promise<WebAuthnCredential[]> {
+    return this.credentialsRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Elimina una passkey: deja de servir para iniciar sesión
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): No existe o es de otro usuario
+   */
+  async remove(userId: number, id: string): Promise<void> {
+    const result = await this.credentialsRepository.delete({ id, userId });
+    if (!result.affected) {
+      throw new NotFoundException('Passkey no encontrada');
+    }
+  }
+
+  // ==========================================
+  // MÉTODOS PRIVADOS
+  // ==========================================
+
+  /**
+   * Emite un desafío de 32 bytes aleatorios (base64url) y guarda su hash
+   *
+   * De paso borra los desafíos expirados: no sirven para nada.
+   */
+  private async createChallenge(
+    ceremony: WebAuthnCeremony,
+    userId: number | null,
+  ): Promise<string> {
+    const now = this.clock.now();
+    await this.challengesRepository.delete({ expiresAt: LessThan(now) });
+
+    const challenge = randomBytes(32).toString('base64url');
+    await this.challengesRepository.save(
+      this.challengesRepository.create({
+        challengeHash: hashToken(challenge),
+        ceremony,
+        userId,
+        expiresAt: new Date(now.getTime() + WEBAUTHN_CHALLENGE_TTL_MS),
+      }),
+    );
+    return challenge;
+  }
+
+  /**
+   * Gasta un desafío (solo funciona una vez)
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): Inexistente, de otra ceremonia o de otro
+   *   usuario, expirado o ya usado
+   */
+  private async consumeChallenge(
+    challenge: string,
+    ceremony: WebAuthnCeremony,
+    userId: number | null,
+  ): Promise<void> {
+    const stored = await this.challengesRepository.findOne({
+      where: { challengeHash: hashToken(challenge), ceremony },
+    });
+
+    // El borrado condicional hace que, con dos peticiones a la vez, solo
+    // una gaste el desafío
+    const deleted = stored
+      ? await this.challengesRepository.delete({ id: stored.id })
+      : null;
+    if (
+      !stored ||
+      !deleted?.affected ||
+      stored.userId !== userId ||
+      stored.expiresAt.getTime() <= this.clock.now().getTime()
+    ) {
+      throw new BadRequestException(
+        'El desafío es inválido o ha expirado. Solicite uno nuevo.',
+      );
+    }
+  }
+
+  /**
+   * Lee clientDataJSON y comprueba el tipo de ceremonia y el origen
+   *
+   * @param invalid - Excepción para los datos que no superan la
+   *   comprobación (400 en el registro, 401 en el inicio de sesión)
+   */
+  private readClientData(
+    clientDataJSON: Buffer,
+    type: 'webauthn.create' | 'webauthn.get',
+    invalid: () => Error,
+  ): ClientData {
+    let clientData: ClientData;
+    try {
+      clientData = parseClientData(clientDataJSON);
+    } catch (error) {
+      this.logger.warn(`clientDataJSON rechazado: ${describe(error)}`);
+      throw invalid();
+    }
+
+    if (clientData.type !== type) {
+      this.logger.warn(`clientDataJSON de tipo ${clientData.type}`);
+      throw invalid();
+    }
+    if (!this.options.origins.includes(clientData.origin)) {
+      this.logger.warn(`Origen no permitido: ${clientData.origin}`);
+      throw invalid();
+    }
+    return clientData;
+  }
+
+  /**
+   * rpIdHash de este sitio y usuario presente y verificado
+   */
+  private assertAuthenticatorData(authData: AuthenticatorData): void {
+    const expected = rpIdHash(this.options.rpId);
+    if (!timingSafeEqual(authData.rpIdHash, expected)) {
+      throw new Error('rpIdHash de otro sitio');
+    }
+    if (!authData.flags.userPresent || !authData.flags.userVerified) {
+      throw new Error('Usuario no presente o no verificado');
+    }
+  }
+}
+
+/**
+ * Motivo legible de un error de verificación (solo para el log)
+ */
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,19 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Clave de metadatos que marca los DTOs excluidos de la validación global
+ */
+export const SKIP_VALIDATION_KEY = 'skip_validation';
+
+/**
+ * @SkipValidation() - Excluye un DTO de AppValidationPipe
+ *
+ * Solo para los parámetros de protocolos que definen su propio formato de
+ * error y exigen ignorar los campos desconocidos (p. ej. OAuth2, RFC 6749).
+ * El servicio que los recibe debe validarlos uno a uno.
+ *
+ * EJEMPLO:
+ * @SkipValidation()
+ * export class TokenRequestDto { ... }
+ */
+export const SkipValidation = () => SetMetadata(SKIP_VALIDATION_KEY, true);
@@ -0,0 +1,167 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { OAuthError } from '../../oauth/oauth.errors';
+import {
+  ErrorResponse,
+  FieldError,
+  RuleViolation,
+} from '../interfaces/error-response.interface';
+import { getRequestId } from '../middleware/request-id.middleware';
+import { resolveLocale, translate } from '../i18n/i18n';
+
+/**
+ * Mensaje de los errores inesperados: el detalle real solo va al log
+ */
+const INTERNAL_ERROR_MESSAGE = 'Error interno del servidor';
+
+/**
+ * Datos del error antes de traducirlo y completarlo
+ */
+interface ErrorDetails {
+  statusCode: number;
+  code: string;
+  message: string;
+  fieldErrors?: FieldError[];
+  violations?: RuleViolation[];
+}
+
+/**
+ * Código estable para un estado HTTP: el nombre de la constante de
+ * HttpStatus (401 → UNAUTHORIZED, 409 → CONFLICT, 423 → LOCKED...)
+ */
+function codeForStatus(status: HttpStatus): string {
+  if (status === HttpStatus.INTERNAL_SERVER_ERROR) {
+    return 'INTERNAL_ERROR';
+  }
+  return (HttpStatus as Record<number, string | undefined>)[status] ?? 'ERROR';
+}
+
+/**
+ * Extrae estado, código y mensaje de cualquier excepción
+ *
+ * - HttpException con texto: new NotFoundException('Usuario no encontrado')
+ * - HttpException con objeto: { message, code?, field_errors?, violations? }
+ *   (p. ej. los de AppValidationPipe)
+ * - Cualquier otra cosa: 500 con un mensaje genérico
+ */
+function describe(exception: unknown): ErrorDetails {
+  if (!(exception instanceof HttpException)) {
+    return {
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      code: codeForStatus(HttpStatus.INTERNAL_SERVER_ERROR),
+      message: INTERNAL_ERROR_MESSAGE,
+    };
+  }
+
+  const statusCode = exception.getStatus();
+  const body = exception.getResponse();
+  if (typeof body === 'string') {
+    return { statusCode, code: codeForStatus(statusCode), message: body };
+  }
+
+  const { message, code, field_errors, violations } = body as {
+    message?: unknown;
+    code?: unknown;
+    field_errors?: FieldError[];
+    violations?: RuleViolation[];
+  };
+  return {
+    statusCode,
+    code: typeof code === 'string' ? code : codeForStatus(statusCode),
+    // Los pipes de NestJS pueden enviar una lista de mensajes
+    message: Array.isArray(message)
+      ? message.join('. ')
+      : typeof message === 'string'
+        ? message
+        : exception.message,
+    fieldErrors: field_errors,
+    violations,
+  };
+}
+
+/**
+ * AllExceptionsFilter - Convierte TODAS las excepciones en ErrorResponse
+ * (registrado con APP_FILTER en AppModule)
+ *
+ * ALGORITMO:
+ * 1. Los OAuthError se responden tal cual: los clientes OAuth2 esperan
+ *    { error, error_description } (RFC 6749, sección 5.2)
+ * 2. Deduce estado, código y mensaje de la excepción
+ * 3. Traduce mensajes al idioma de Accept-Language (ver src/common/i18n/)
+ * 4. Añade request_id, timestamp y path
+ *
+ * SEGURIDAD:
+ * - Los errores inesperados (500) nunca exponen su mensaje ni su stack
+ *   trace: se registran en el log con el request_id para poder encontrarlos
+ * - path no incluye la query string (puede llevar códigos o tokens)
+ *
+ * EJEMPLO:
+ * throw new ConflictException('El email ya está registrado');
+ * // 409 { "statusCode": 409, "code": "CONFLICT",
+ * //       "message": "El email ya está registrado", "request_id": "...", ... }
+ */
+@Catch()
+export class AllExceptionsFilter implements ExceptionFilter {
+  private readonly logger = new Logger('ExceptionsHandler');
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const ctx = host.switchToHttp();
+    const req = ctx.getRequest<Request>();
+    const res = ctx.getResponse<Response>();
+    const requestId = getRequestId(req) ?? randomUUID();
+
+    if (exception instanceof OAuthError) {
+      res.status(exception.getStatus()).json(exception.getResponse());
+      return;
+    }
+
+    const { statusCode, code, message, fieldErrors, violations } =
+      describe(exception);
+
+    if (statusCode >= 500) {
+      this.logger.error(
+        `[${requestId}] ${req.method} ${req.path}`,
+        exception instanceof Error ? exception.stack : String(exception),
+      );
+    }
+
+    // La respuesta ya empezó a enviarse (p. ej. un stream): solo queda cortarla
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    const locale = resolveLocale(req.headers['accept-language']);
+    const body: ErrorResponse = {
+      statusCode,
+      code,
+      message: translate(message, locale),
+      ...(fieldErrors && {
+        field_errors: fieldErrors.map(({ field, messages }) => ({
+          field,
+          messages: messages.map((text) => translate(text, locale)),
+        })),
+      }),
+      ...(violations && {
+        violations: violations.map(({ rule, message }) => ({
+          rule,
+          message: translate(message, locale),
+        })),
+      }),
+      request_id: requestId,
+      timestamp: new Date().toISOString(),
+      path: req.path,
+    };
+
+    res.setHeader('Content-Language', locale);
+    res.status(statusCode).json(body);
+  }
+}
@@ -0,0 +1,287 @@
+import type { MessageCatalog } from '../i18n';
+
+/**
+ * Inglés: traducciones de los mensajes de la aplicación
+ *
+ * Los mensajes por defecto de NestJS ya están en inglés y no necesitan
+ * entrada. Un mensaje que falte aquí se responde en español.
+ */
+export const en: MessageCatalog = {
+  // ==========================================
+  // ERRORES GENÉRICOS (AllExceptionsFilter)
+  // ==========================================
+  'Los datos enviados no son válidos': 'The submitted data is not valid',
+  'Campo no permitido': 'Field not allowed',
+  'Error interno del servidor': 'Internal server error',
+
+  // ==========================================
+  // AUTENTICACIÓN Y SESIONES
+  // ==========================================
+  'Credenciales inválidas': 'Invalid credentials',
+  'Usuario desactivado. Contacte al administrador.':
+    'User deactivated. Please contact the administrator.',
+  'Debe verificar su email antes de iniciar sesión':
+    'You must verify your email before signing in',
+  'Debe restablecer su contraseña antes de iniciar sesión. Use "¿Olvidó su contraseña?" para elegir una nueva.':
+    'You must reset your password before signing in. Use "Forgot your password?" to choose a new one.',
+  'Token inválido o expirado': 'Invalid or expired token',
+  'Token revocado': 'Token revoked',
+  'Sesión revocada': 'Session revoked',
+  'Sesión no encontrada': 'Session not found',
+  'Refresh token inválido': 'Invalid refresh token',
+  'Refresh token expirado': 'Refresh token expired',
+  'Refresh token reutilizado. La sesión fue revocada.':
+    'Refresh token reused. The session was revoked.',
+  'Token CSRF ausente o inválido': 'Missing or invalid CSRF token',
+  'API key inválida o revocada': 'Invalid or revoked API key',
+  'API key no encontrada': 'API key not found',
+  'No puede tener más de {max} API keys vigentes. Revoque alguna que ya no use.':
+    'You cannot have more than {max} active API keys. Revoke one you no longer use.',
+  'No tiene permisos para acceder a este recurso':
+    'You do not have permission to access this resource',
+  'Contraseña actual incorrecta': 'Current password is incorrect',
+  'El enlace es inválido o ha expirado': 'The link is invalid or has expired',
+  'Token de verificación inválido o expirado':
+    'Invalid or expired verification token',
+  'El nuevo email es igual al actual':
+    'The new email is the same as the current one',
+  'Cuenta bloqueada temporalmente por demasiados intentos fallidos. Intente nuevamente en {minutes} minuto(s).':
+    'Account temporarily locked after too many failed attempts. Try again in {minutes} minute(s).',
+  'Demasiados intentos. Intente nuevamente en {seconds} segundo(s).':
+    'Too many attempts. Try again in {seconds} second(s).',
+  'Abra el enlace en el mismo navegador en el que lo solicitó':
+    'Open the link in the same browser you requested it from',
+
+  // ==========================================
+  // POLÍTICA DE CONTRASEÑAS
+  // ==========================================
+  'La contraseña no cumple la política de seguridad':
+    'The password does not meet the security policy',
+  'La contraseña debe tener al menos {min} caracteres':
+    'The password must be at least {min} characters long',
+  'La contraseña no puede exceder {max} caracteres':
+    'The password cannot exceed {max} characters',
+  'La contraseña debe incluir una letra minúscula':
+    'The password must include a lowercase letter',
+  'La contraseña debe incluir una letra mayúscula':
+    'The password must include an uppercase letter',
+  'La contraseña debe incluir un número': 'The password must include a number',
+  'La contraseña debe incluir un símbolo (p. ej. ! # % -)':
+    'The password must include a symbol (e.g. ! # % -)',
+  'La contraseña es demasiado común': 'The password is too common',
+  'La contraseña no puede contener su nombre de usuario ni su email':
+    'The password cannot contain your username or email',
+  'No puede repetir su contraseña actual':
+    'You cannot reuse your current password',
+  'No puede repetir ninguna de sus últimas {count} contraseñas':
+    'You cannot reuse any of your last {count} passwords',
+  'La contraseña es demasiado fácil de adivinar':
+    'The password is too easy to guess',
+
+  // ==========================================
+  // DOS PASOS (2FA)
+  // ==========================================
+  'Código de verificación inválido': 'Invalid verification code',
+  'El inicio de sesión expiró o no es válido. Inténtelo de nuevo.':
+    'The sign-in attempt expired or is not valid. Please try again.',
+  'La autenticación en dos pasos ya está activada':
+    'Two-step verification is already enabled',
+  'La autenticación en dos pasos no está activada':
+    'Two-step verification is not enabled',
+  'Primero inicie la activación con POST /auth/2fa/enroll':
+    'Start the enrollment first with POST /auth/2fa/enroll',
+
+  // ==========================================
+  // PASSKEYS (WEBAUTHN)
+  // ==========================================
+  'No se pudo verificar la passkey': 'The passkey could not be verified',
+  'Passkey inválida': 'Invalid passkey',
+  'La passkey ya está registrada': 'The passkey is already registered',
+  'Passkey no encontrada': 'Passkey not found',
+  'No puede tener más de {max} passkeys. Elimine alguna que ya no use.':
+    'You cannot have more than {max} passkeys. Remove one you no longer use.',
+  'El desafío es inválido o ha expirado. Solicite uno nuevo.':
+    'The challenge is invalid or has expired. Request a new one.',
+
+  // ==========================================
+  // INICIO DE SESIÓN SOCIAL
+  // ==========================================
+  'Proveedor de inicio de sesión no disponible':
+    'Sign-in provider not available',
+  'La cuenta externa ya está vinculada':
+    'The external account is already linked',
+  'Ya existe una cuenta con ese email pendiente de verificación. Verifique su email e inicie sesión con su contraseña.':
+    'An account with that email is pending verification. Verify your email and sign in with your password.',
+  'Inicio de sesión con {provider} cancelado':
+    'Sign-in with {provider} was cancelled',
+  'No se pudo iniciar sesión con {provider}':
+    'Could not sign in with {provider}',
+  'Su cuenta de {provider} no tiene un email verificado':
+    'Your {provider} account does not have a verified email',
+
+  // ==========================================
+  // USUARIOS
+  // ==========================================
+  'Usuario no encontrado': 'User not found',
+  'El email ya está registrado': 'The email is already registered',
+  'El nombre de usuario ya está en uso': 'The username is already taken',
+  'El email o nombre de usuario ya está registrado':
+    'The email or username is already registered',
+  'No puede realizar esta acción sobre su propia cuenta':
+    'You cannot perform this action on your own account',
+  'Use cursor u offset, no ambos': 'Use cursor or offset, not both',
+  'Cursor inválido: use el next_cursor de la respuesta anterior, con el mismo orden':
+    'Invalid cursor: use the next_cursor from the previous response, with the same order',
+  'Cursor inválido: use el next_cursor de la respuesta anterior':
+    'Invalid cursor: use the next_cursor from the previous response',
+  'Cursor inválido': 'Invalid cursor',
+
+  // ==========================================
+  // CLIENTES OAUTH
+  // ==========================================
+  'Debe registrar al menos una redirect_uri':
+    'You must register at least one redirect_uri',
+  'Debe asignar al menos un scope con el formato recurso:acción':
+    'You must assign at least one scope in the resource:action format',
+  'Las redirect_uris solo se usan con authorization_code':
+    'redirect_uris are only used with authorization_code',
+  'Los scopes solo se asignan con client_credentials':
+    'Scopes are only assigned with client_credentials',
+  'client_credentials requiere un cliente confidencial':
+    'client_credentials requires a confidential client',
+  'redirect_uri inválida: {uri}': 'Invalid redirect_uri: {uri}',
+
+  // ==========================================
+  // WEBHOOKS
+  // ==========================================
+  'Webhook no encontrado': 'Webhook not found',
+  'Entrega no encontrada': 'Delivery not found',
+  'El webhook está desactivado: reactívelo antes de reenviar la entrega':
+    'The webhook is disabled: reactivate it before replaying the delivery',
+
+  // ==========================================
+  // VALIDACIÓN DE DATOS (DTOs)
+  // ==========================================
+  'Debe proporcionar un email válido': 'You must provide a valid email',
+  'El email no puede exceder 100 caracteres':
+    'The email cannot exceed 100 characters',
+  'El nombre de usuario debe ser una cadena de texto':
+    'The username must be a string',
+  'El nombre de usuario debe tener al menos 3 caracteres':
+    'The username must be at least 3 characters long',
+  'El nombre de usuario no puede exceder 50 caracteres':
+    'The username cannot exceed 50 characters',
+  'El nombre de usuario no puede contener espacios':
+    'The username cannot contain spaces',
+  'El username solo puede contener letras, números, guiones y guiones bajos':
+    'The username can only contain letters, numbers, hyphens and underscores',
+  'La contraseña debe ser una cadena de texto': 'The password must be a string',
+  'La contraseña es obligatoria': 'The password is required',
+  'La contraseña actual debe ser una cadena de texto':
+    'The current password must be a string',
+  'La contraseña actual es obligatoria': 'The current password is required',
+  'El token debe ser una cadena de texto': 'The token must be a string',
+  'El token es obligatorio': 'The token is required',
+  'El nonce debe ser una cadena de texto': 'The nonce must be a string',
+  'El nonce es obligatorio': 'The nonce is required',
+  'El token de verificación debe ser una cadena de texto':
+    'The verification token must be a string',
+  'El token de verificación es obligatorio':
+    'The verification token is required',
+  'El refresh token debe ser una cadena de texto':
+    'The refresh token must be a string',
+  'El refresh token es obligatorio': 'The refresh token is required',
+  'El código debe ser una cadena de texto': 'The code must be a string',
+  'El código es obligatorio': 'The code is required',
+  'El código no puede exceder 20 caracteres':
+    'The code cannot exceed 20 characters',
+  'El nombre debe ser una cadena de texto': 'The name must be a string',
+  'El nombre es obligatorio': 'The name is required',
+  'El nombre no puede exceder 100 caracteres':
+    'The name cannot exceed 100 characters',
+  'roles debe ser una lista': 'roles must be a list',
+  'El usuario debe tener al menos un rol':
+    'The user must have at least one role',
+  'No puede asignar más de 20 roles': 'You cannot assign more than 20 roles',
+  'Cada rol debe empezar con una letra y contener solo minúsculas, números, "_" o "-"':
+    'Each role must start with a letter and contain only lowercase letters, numbers, "_" or "-"',
+  'limit debe ser un número entero': 'limit must be an integer',
+  'limit debe ser al menos 1': 'limit must be at least 1',
+  'limit no puede exceder {max}': 'limit cannot exceed {max}',
+  'offset debe ser un número entero': 'offset must be an integer',
+  'offset no puede ser negativo': 'offset cannot be negative',
+  'cursor debe ser una cadena de texto': 'cursor must be a string',
+  'isActive debe ser true o false': 'isActive must be true or false',
+  'createdFrom debe ser una fecha ISO 8601':
+    'createdFrom must be an ISO 8601 date',
+  'createdTo debe ser una fecha ISO 8601': 'createdTo must be an ISO 8601 date',
+  'sort admite: {values}': 'sort accepts: {values}',
+  'order admite: asc, desc': 'order accepts: asc, desc',
+  'search debe ser una cadena de texto': 'search must be a string',
+  'search no puede exceder 100 caracteres':
+    'search cannot exceed 100 characters',
+  'redirect_uris debe ser una lista de URLs':
+    'redirect_uris must be a list of URLs',
+  'No puede registrar más de 10 redirect_uris':
+    'You cannot register more than 10 redirect_uris',
+  'Cada redirect_uri debe ser una URL': 'Each redirect_uri must be a URL',
+  'grant_types debe ser una lista': 'grant_types must be a list',
+  'Debe habilitar al menos un grant_type':
+    'You must enable at least one grant_type',
+  'grant_types admitidos: {values}': 'Supported grant_types: {values}',
+  'scopes debe ser una lista': 'scopes must be a list',
+  'No puede registrar más de 20 scopes':
+    'You cannot register more than 20 scopes',
+  'Cada scope debe tener el formato recurso:acción':
+    'Each scope must use the resource:action format',
+  'confidential debe ser true o false': 'confidential must be true or false',
+  'action admite: {values}': 'action accepts: {values}',
+  'outcome admite: success, failure': 'outcome accepts: success, failure',
+  'actorType admite: user, client, anonymous':
+    'actorType accepts: user, client, anonymous',
+  'actorId debe ser una cadena de texto': 'actorId must be a string',
+  'actorId no puede exceder 100 caracteres':
+    'actorId cannot exceed 100 characters',
+  'targetType debe ser una cadena de texto': 'targetType must be a string',
+  'targetType no puede exceder 20 caracteres':
+    'targetType cannot exceed 20 characters',
+  'targetId debe ser una cadena de texto': 'targetId must be a string',
+  'targetId no puede exceder 100 caracteres':
+    'targetId cannot exceed 100 characters',
+  'ip debe ser una cadena de texto': 'ip must be a string',
+  'ip no puede exceder 45 caracteres': 'ip cannot exceed 45 characters',
+  'url debe ser una URL http(s)': 'url must be an http(s) URL',
+  'url no puede exceder 500 caracteres': 'url cannot exceed 500 characters',
+  'events debe ser una lista': 'events must be a list',
+  'Debe suscribirse al menos a un evento':
+    'You must subscribe to at least one event',
+  'events admite: {values}': 'events accepts: {values}',
+  'description debe ser una cadena de texto': 'description must be a string',
+  'description no puede exceder 100 caracteres':
+    'description cannot exceed 100 characters',
+  'status admite: {values}': 'status accepts: {values}',
+  'id debe estar en base64url': 'id must be base64url encoded',
+  'id no puede exceder 255 caracteres': 'id cannot exceed 255 characters',
+  'rawId debe ser una cadena de texto': 'rawId must be a string',
+  'type debe ser "public-key"': 'type must be "public-key"',
+  'response es obligatorio': 'response is required',
+  'response debe ser un objeto': 'response must be an object',
+  'authenticatorAttachment debe ser una cadena de texto':
+    'authenticatorAttachment must be a string',
+  'clientExtensionResults debe ser un objeto':
+    'clientExtensionResults must be an object',
+  'clientDataJSON debe estar en base64url':
+    'clientDataJSON must be base64url encoded',
+  'attestationObject debe estar en base64url':
+    'attestationObject must be base64url encoded',
+  'authenticatorData debe estar en base64url':
+    'authenticatorData must be base64url encoded',
+  'signature debe estar en base64url': 'signature must be base64url encoded',
+  'userHandle debe estar en base64url': 'userHandle must be base64url encoded',
+  'transports debe ser una lista': 'transports must be a list',
+  'transports no puede tener más de 10 valores':
+    'transports cannot have more than 10 values',
+  'Cada transport debe ser un texto': 'Each transport must be a string',
+  'Cada transport no puede exceder 20 caracteres':
+    'Each transport cannot exceed 20 characters',
+};
@@ -0,0 +1,23 @@
+import type { MessageCatalog } from '../i18n';
+
+/**
+ * Español: los mensajes de la aplicación ya están en español; aquí solo
+ * se traducen los mensajes por defecto de NestJS y Express
+ */
+export const es: MessageCatalog = {
+  'Bad Request': 'Petición inválida',
+  Unauthorized: 'No autenticado',
+  'Forbidden resource': 'No tiene permisos para acceder a este recurso',
+  Forbidden: 'No tiene permisos para acceder a este recurso',
+  'Not Found': 'Recurso no encontrado',
+  'Cannot {method} {path}': 'Ruta no encontrada: {method} {path}',
+  Conflict: 'Conflicto con el estado actual del recurso',
+  'Too Many Requests': 'Demasiadas peticiones',
+  'Internal Server Error': 'Error interno del servidor',
+  'Internal server error': 'Error interno del servidor',
+  'request entity too large': 'El cuerpo de la petición es demasiado grande',
+  'Validation failed (numeric string is expected)':
+    'El parámetro debe ser un número',
+  'Validation failed (uuid is expected)':
+    'El parámetro debe ser un UUID válido',
+};
@@ -0,0 +1,49 @@
+import { resolveLocale, translate } from './i18n';
+
+describe('i18n', () => {
+  describe('resolveLocale', () => {
+    it('picks the preferred supported language by weight', () => {
+      expect(resolveLocale('en-US,en;q=0.9,es;q=0.8')).toBe('en');
+      expect(resolveLocale('fr-FR, en;q=0.5, es;q=0.8')).toBe('es');
+      expect(resolveLocale('fr-FR, en;q=0.8')).toBe('en');
+      expect(resolveLocale('EN')).toBe('en');
+    });
+
+    it('falls back to Spanish', () => {
+      expect(resolveLocale(undefined)).toBe('es');
+      expect(resolveLocale('')).toBe('es');
+      expect(resolveLocale('fr, de;q=0.5')).toBe('es');
+      expect(resolveLocale('en;q=0')).toBe('es');
+    });
+  });
+
+  describe('translate', () => {
+    it('translates catalog messages', () => {
+      expect(translate('Usuario no encontrado', 'en')).toBe('User not found');
+      expect(translate('Forbidden resource', 'es')).toBe(
+        'No tiene permisos para acceder a este recurso',
+      );
+    });
+
+    it('fills in the values of template messages', () => {
+      expect(
+        translate(
+          'Demasiados intentos. Intente nuevamente en 30 segundo(s).',
+          'en',
+        ),
+      ).toBe('Too many attempts. Try again in 30 second(s).');
+      expect(translate('Cannot GET /no-existe', 'es')).toBe(
+        'Ruta no encontrada: GET /no-existe',
+      );
+    });
+
+    it('returns untranslated messages unchanged', () => {
+      expect(translate('Mensaje sin traducción', 'en')).toBe(
+        'Mensaje sin traducción',
+      );
+      expect(translate('Usuario no encontrado', 'es')).toBe(
+        'Usuario no encontrado',
+      );
+    });
+  });
+});
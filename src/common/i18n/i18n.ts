@@ -0,0 +1,134 @@
+import { en } from './catalogs/en';
+import { es } from './catalogs/es';
+
+/**
+ * Idiomas en los que la API puede responder sus mensajes de error
+ */
+export const SUPPORTED_LOCALES = ['es', 'en'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+/**
+ * Idioma de los mensajes en el código fuente (y el de la respuesta cuando
+ * el cliente no pide otro)
+ */
+export const DEFAULT_LOCALE: Locale = 'es';
+
+/**
+ * MessageCatalog - Traducciones de un idioma, indexadas por el mensaje
+ * original (al estilo gettext)
+ *
+ * Las claves pueden llevar marcadores {nombre} para los mensajes con datos
+ * variables; la traducción los repite donde corresponda.
+ *
+ * EJEMPLO:
+ * { 'Usuario no encontrado': 'User not found',
+ *   'Intente nuevamente en {seconds} segundo(s).': 'Try again in {seconds} second(s).' }
+ */
+export type MessageCatalog = Record<string, string>;
+
+interface CompiledCatalog {
+  exact: Map<string, string>;
+  templates: { pattern: RegExp; names: string[]; translation: string }[];
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+function compile(catalog: MessageCatalog): CompiledCatalog {
+  const compiled: CompiledCatalog = { exact: new Map(), templates: [] };
+
+  for (const [message, translation] of Object.entries(catalog)) {
+    const names = [...message.matchAll(PLACEHOLDER)].map((match) => match[1]);
+    if (names.length === 0) {
+      compiled.exact.set(message, translation);
+      continue;
+    }
+    // 'Intente en {seconds} segundo(s).' → /^Intente en (.+?) segundo\(s\)\.$/
+    const source = message
+      .split(PLACEHOLDER)
+      .map((part, index) =>
+        index % 2 === 1 ? '(.+?)' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+      )
+      .join('');
+    compiled.templates.push({
+      pattern: new RegExp(`^${source}$`),
+      names,
+      translation,
+    });
+  }
+  return compiled;
+}
+
+const CATALOGS: Record<Locale, CompiledCatalog> = {
+  es: compile(es),
+  en: compile(en),
+};
+
+/**
+ * Elige el idioma de la respuesta a partir de la cabecera Accept-Language
+ *
+ * ALGORITMO:
+ * 1. Ordena los idiomas pedidos por su peso q (1 si no lo indica)
+ * 2. Devuelve el primero soportado, comparando solo el idioma principal
+ *    ("en-US" → "en")
+ * 3. Sin cabecera o sin ninguno soportado: DEFAULT_LOCALE
+ *
+ * EJEMPLO:
+ * resolveLocale('fr-FR, en;q=0.8, es;q=0.5')  // 'en'
+ */
+export function resolveLocale(acceptLanguage: string | undefined): Locale {
+  if (!acceptLanguage) {
+    return DEFAULT_LOCALE;
+  }
+
+  const requested = acceptLanguage
+    .split(',')
+    .map((entry) => {
+      const [tag, ...params] = entry.trim().split(';');
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith('q='));
+      return {
+        language: tag.trim().split('-')[0].toLowerCase(),
+        weight: q ? Number(q.slice(2)) : 1,
+      };
+    })
+    .filter(({ weight }) => weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  const match = requested.find(({ language }) =>
+    (SUPPORTED_LOCALES as readonly string[]).includes(language),
+  );
+  return (match?.language as Locale | undefined) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Traduce un mensaje al idioma indicado
+ *
+ * Los mensajes sin traducción se devuelven tal cual: añadir una entrada al
+ * catálogo (src/common/i18n/catalogs/) basta para localizar un mensaje
+ * nuevo, sin tocar el código que lo lanza.
+ *
+ * EJEMPLO:
+ * translate('Demasiados intentos. Intente nuevamente en 30 segundo(s).', 'en')
+ * // 'Too many attempts. Try again in 30 second(s).'
+ */
+export function translate(message: string, locale: Locale): string {
+  const catalog = CATALOGS[locale];
+
+  const exact = catalog.exact.get(message);
+  if (exact !== undefined) {
+    return exact;
+  }
+
+  for (const { pattern, names, translation } of catalog.templates) {
+    const match = pattern.exec(message);
+    if (match) {
+      return translation.replace(PLACEHOLDER, (placeholder, name: string) => {
+        const index = names.indexOf(name);
+        return index === -1 ? placeholder : match[index + 1];
+      });
+    }
+  }
+  return message;
+}
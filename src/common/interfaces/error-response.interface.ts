@@ -0,0 +1,54 @@
+/**
+ * Error de validación de un campo del body o de la query string
+ */
+export interface FieldError {
+  /** Ruta del campo ("email", "address.city"...) */
+  field: string;
+  messages: string[];
+}
+
+/**
+ * Regla de negocio incumplida (p. ej. de la política de contraseñas)
+ */
+export interface RuleViolation {
+  /** Identificador estable de la regla ("min_length", "common"...) */
+  rule: string;
+  message: string;
+}
+
+/**
+ * ErrorResponse - Forma única de todas las respuestas de error de la API
+ * (AllExceptionsFilter). Las únicas excepciones son los endpoints OAuth2,
+ * que responden con el formato del RFC 6749: { error, error_description }
+ *
+ * EJEMPLO:
+ * {
+ *   "statusCode": 400,
+ *   "code": "VALIDATION_ERROR",
+ *   "message": "Los datos enviados no son válidos",
+ *   "field_errors": [
+ *     { "field": "email", "messages": ["Debe proporcionar un email válido"] }
+ *   ],
+ *   "request_id": "0f5c2d6e-3a8b-4d9e-9c1f-7b2a4e6d8c10",
+ *   "timestamp": "2025-10-18T12:00:00.000Z",
+ *   "path": "/auth/register"
+ * }
+ */
+export interface ErrorResponse {
+  statusCode: number;
+  /**
+   * Código estable para los clientes: el nombre del estado HTTP
+   * (UNAUTHORIZED, CONFLICT...) o uno propio (VALIDATION_ERROR)
+   */
+  code: string;
+  /** Mensaje para mostrar, en el idioma pedido con Accept-Language */
+  message: string;
+  /** Solo en los errores de validación */
+  field_errors?: FieldError[];
+  /** Reglas incumplidas, cuando el error las detalla */
+  violations?: RuleViolation[];
+  /** Mismo valor que la cabecera X-Request-Id, para buscar en los logs */
+  request_id: string;
+  timestamp: string;
+  path: string;
+}
@@ -0,0 +1,49 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import type { NextFunction, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+
+/**
+ * Cabecera con el identificador de la petición (entrada y salida)
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * Identificadores aceptados del cliente o de un proxy: sin espacios ni
+ * caracteres de control, para poder copiarlos sin riesgo a logs y cabeceras
+ */
+const REQUEST_ID_FORMAT = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Identificador de la petición asignado por RequestIdMiddleware
+ *
+ * @returns undefined si la petición no pasó por el middleware
+ */
+export function getRequestId(req: Request): string | undefined {
+  return (req as Request & { requestId?: string }).requestId;
+}
+
+/**
+ * RequestIdMiddleware - Asigna un identificador a cada petición
+ *
+ * ALGORITMO:
+ * 1. Reutiliza el X-Request-Id entrante si tiene un formato válido (así
+ *    un balanceador o el frontend pueden correlacionar sus propios logs)
+ * 2. Si no, genera un UUID
+ * 3. Lo guarda en la petición y lo devuelve en la cabecera de la respuesta
+ *
+ * Las respuestas de error lo incluyen como request_id (AllExceptionsFilter).
+ */
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  use(req: Request, res: Response, next: NextFunction): void {
+    const incoming = req.headers[REQUEST_ID_HEADER.toLowerCase()];
+    const requestId =
+      typeof incoming === 'string' && REQUEST_ID_FORMAT.test(incoming)
+        ? incoming
+        : randomUUID();
+
+    (req as Request & { requestId?: string }).requestId = requestId;
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    next();
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  ArgumentMetadata,
+  BadRequestException,
+  Injectable,
+  ValidationError,
+  ValidationPipe,
+} from '@nestjs/common';
+import { SKIP_VALIDATION_KEY } from '../decorators/skip-validation.decorator';
+import { FieldError } from '../interfaces/error-response.interface';
+
+/**
+ * Código de error de las respuestas 400 por datos inválidos
+ */
+export const VALIDATION_ERROR_CODE = 'VALIDATION_ERROR';
+
+/**
+ * Mensaje para los campos que el DTO no declara (forbidNonWhitelisted)
+ */
+const FORBIDDEN_FIELD_MESSAGE = 'Campo no permitido';
+
+/**
+ * Convierte los errores de class-validator en una lista plana por campo
+ *
+ * Los DTOs anidados (@ValidateNested) informan sus campos con la ruta
+ * completa: "address.city", "items.0.quantity"
+ */
+export function toFieldErrors(
+  errors: ValidationError[],
+  parentPath = '',
+): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = parentPath
+      ? `${parentPath}.${error.property}`
+      : error.property;
+    const constraints = error.constraints ?? {};
+    const messages = Object.entries(constraints).map(([name, message]) =>
+      name === 'whitelistValidation' ? FORBIDDEN_FIELD_MESSAGE : message,
+    );
+
+    return [
+      ...(messages.length > 0 ? [{ field, messages }] : []),
+      ...toFieldErrors(error.children ?? [], field),
+    ];
+  });
+}
+
+/**
+ * AppValidationPipe - Validación global de body, query y parámetros
+ * (registrado con APP_PIPE en AppModule)
+ *
+ * OPCIONES:
+ * - whitelist + forbidNonWhitelisted: 400 si llegan campos que el DTO no
+ *   declara (p. ej. "roles" en POST /auth/register)
+ * - transform: Los controladores reciben instancias del DTO, y la query
+ *   string se convierte a sus tipos (limit → número...)
+ *
+ * Los DTOs marcados con @SkipValidation() pasan sin tocar.
+ *
+ * RESPUESTA (ver AllExceptionsFilter):
+ * 400 { "code": "VALIDATION_ERROR", "field_errors": [{ "field": "email", ... }] }
+ */
+@Injectable()
+export class AppValidationPipe extends ValidationPipe {
+  constructor() {
+    super({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: (errors) =>
+        new BadRequestException({
+          code: VALIDATION_ERROR_CODE,
+          message: 'Los datos enviados no son válidos',
+          field_errors: toFieldErrors(errors),
+        }),
+    });
+  }
+
+  protected toValidate(metadata: ArgumentMetadata): boolean {
+    const { metatype } = metadata;
+    if (metatype && Reflect.getMetadata(SKIP_VALIDATION_KEY, metatype)) {
+      return false;
+    }
+    return super.toValidate(metadata);
+  }
+}
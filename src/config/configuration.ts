@@ -0,0 +1,238 @@
+import { Environment, validateEnvironment } from './env.validation';
+
+/**
+ * URL del frontend en desarrollo y pruebas (Vite)
+ */
+const DEV_FRONTEND_URL = 'http://localhost:5173';
+
+/**
+ * Credenciales de la aplicación registrada en un proveedor social
+ */
+export interface SocialProviderCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * Reglas configurables de la política de contraseñas
+ */
+export interface PasswordPolicyConfig {
+  minLength: number;
+  maxLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  /** Contraseñas anteriores que no se pueden repetir (además de la actual) */
+  historySize: number;
+  /** Fortaleza mínima estimada (0-4, ver estimatePasswordStrength) */
+  minStrength: number;
+}
+
+/**
+ * Cómo recibe el frontend los tokens de sesión
+ * - header: en el body; el cliente los envía en "Authorization: Bearer"
+ * - cookie: en cookies HttpOnly, con protección CSRF (ver SessionCookiesService)
+ */
+export type TokenTransport = 'header' | 'cookie';
+
+/**
+ * Cómo se envían los correos
+ * - console: se muestran en el log (desarrollo)
+ * - file: se guardan como .eml en mail.fileDir
+ */
+export type MailTransport = 'console' | 'file';
+
+/**
+ * AppConfig - Configuración tipada de la aplicación
+ *
+ * Se lee con ConfigService<AppConfig, true>:
+ *
+ * EJEMPLO:
+ * constructor(private readonly config: ConfigService<AppConfig, true>) {}
+ * const secret = this.config.get('jwt.secret', { infer: true });
+ */
+export interface AppConfig {
+  env: Environment;
+  port: number;
+  /** URL del frontend (enlaces de los correos) */
+  appUrl: string;
+  /** Emails que se registran con rol de administrador (en minúsculas) */
+  adminEmails: string[];
+  mail: {
+    transport: MailTransport;
+    /** Directorio de los .eml (solo con transport 'file') */
+    fileDir: string;
+  };
+  cors: {
+    origins: string[];
+  };
+  jwt: {
+    /**
+     * Clave HMAC de los tokens internos (verificación de email, mfa
+     * pendiente). Los access tokens se firman con el keystore.
+     */
+    secret: string;
+    /** Duración de los access tokens en segundos */
+    accessTokenTtl: number;
+    /** Directorio del keystore (ver KeystoreService) */
+    keysDir?: string;
+    /** kid de la clave de firma activa */
+    signingKid?: string;
+  };
+  session: {
+    transport: TokenTransport;
+    /** Atributos de las cookies (solo en modo cookie) */
+    cookie: {
+      secure: boolean;
+      sameSite: 'strict' | 'lax' | 'none';
+      /** Dominio padre si la API y el frontend están en subdominios */
+      domain?: string;
+    };
+  };
+  twoFactor: {
+    /** Nombre con el que la app autenticadora muestra la cuenta */
+    issuer: string;
+  };
+  /** Passkeys (ver WebAuthnService) */
+  webauthn: {
+    /** Dominio al que quedan ligadas las passkeys (p. ej. ejemplo.com) */
+    rpId: string;
+    /** Nombre que el navegador muestra al crear la passkey */
+    rpName: string;
+    /** Orígenes desde los que el frontend llama a la API de WebAuthn */
+    origins: string[];
+  };
+  social: {
+    /** Login con Google (solo si hay credenciales) */
+    google?: SocialProviderCredentials;
+    /** Login con GitHub (solo si hay credenciales) */
+    github?: SocialProviderCredentials;
+  };
+  /** Reglas de las contraseñas nuevas (ver PasswordPolicyService) */
+  passwordPolicy: PasswordPolicyConfig;
+  oidc: {
+    /**
+     * Identificador de este servicio como proveedor de identidad: claim
+     * "iss" de los ID tokens y base de las URLs del documento discovery
+     */
+    issuer: string;
+  };
+  /** Entregas de webhooks (ver WebhookDispatcher) */
+  webhooks: {
+    maxAttempts: number;
+    retryBaseDelaySeconds: number;
+    timeoutSeconds: number;
+    /** 0 = sin reintentos automáticos (solo el primer intento) */
+    dispatchIntervalSeconds: number;
+  };
+}
+
+/**
+ * Construye la configuración a partir de las variables de entorno
+ *
+ * Las variables salen de process.env y de los archivos .env del perfil
+ * (ver AppModule). Si algo es inválido lanza un error y la aplicación
+ * no arranca.
+ */
+export function configuration(): AppConfig {
+  const env = validateEnvironment(process.env);
+  const appUrl = env.APP_URL ?? DEV_FRONTEND_URL;
+
+  return {
+    env: env.NODE_ENV,
+    port: env.PORT,
+    appUrl,
+    adminEmails: (env.ADMIN_EMAILS ?? '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean),
+    mail: {
+      transport: env.MAIL_TRANSPORT as MailTransport,
+      fileDir: env.MAIL_FILE_DIR,
+    },
+    cors: {
+      origins: (env.CORS_ORIGINS ?? appUrl)
+        .split(',')
+        .map((origin) => origin.trim())
+        .filter(Boolean),
+    },
+    jwt: {
+      secret: env.JWT_SECRET,
+      accessTokenTtl: env.JWT_ACCESS_TOKEN_TTL,
+      keysDir: env.JWT_KEYS_DIR,
+      signingKid: env.JWT_SIGNING_KID,
+    },
+    session: {
+      transport: env.AUTH_TOKEN_TRANSPORT as TokenTransport,
+      cookie: {
+        secure: env.AUTH_COOKIE_SECURE === 'true',
+        sameSite: env.AUTH_COOKIE_SAMESITE as 'strict' | 'lax' | 'none',
+        domain: env.AUTH_COOKIE_DOMAIN || undefined,
+      },
+    },
+    twoFactor: {
+      issuer: env.TWO_FACTOR_ISSUER ?? 'Auth Taller',
+    },
+    webauthn: {
+      rpId: env.WEBAUTHN_RP_ID ?? new URL(appUrl).hostname,
+      rpName: env.WEBAUTHN_RP_NAME ?? 'Auth Taller',
+      origins: (env.WEBAUTHN_ORIGINS ?? new URL(appUrl).origin)
+        .split(',')
+        .map((origin) => origin.trim())
+        .filter(Boolean),
+    },
+    social: {
+      google: socialCredentials(env.GOOGLE_CLIENT_ID, env.GOOGLE_CLIENT_SECRET),
+      github: socialCredentials(env.GITHUB_CLIENT_ID, env.GITHUB_CLIENT_SECRET),
+    },
+    passwordPolicy: {
+      minLength: env.PASSWORD_MIN_LENGTH,
+      maxLength: env.PASSWORD_MAX_LENGTH,
+      requireLowercase: env.PASSWORD_REQUIRE_LOWERCASE === 'true',
+      requireUppercase: env.PASSWORD_REQUIRE_UPPERCASE === 'true',
+      requireDigit: env.PASSWORD_REQUIRE_DIGIT === 'true',
+      requireSymbol: env.PASSWORD_REQUIRE_SYMBOL === 'true',
+      historySize: env.PASSWORD_HISTORY_SIZE,
+      minStrength: env.PASSWORD_MIN_STRENGTH,
+    },
+    oidc: {
+      // Sin barra final: las URLs se arman como `${issuer}/oauth/token`
+      issuer: (env.OIDC_ISSUER ?? `http://localhost:${env.PORT}`).replace(
+        /\/+$/,
+        '',
+      ),
+    },
+    webhooks: {
+      maxAttempts: env.WEBHOOK_MAX_ATTEMPTS,
+      retryBaseDelaySeconds: env.WEBHOOK_RETRY_BASE_DELAY_SECONDS,
+      timeoutSeconds: env.WEBHOOK_TIMEOUT_SECONDS,
+      dispatchIntervalSeconds: env.WEBHOOK_DISPATCH_INTERVAL_SECONDS,
+    },
+  };
+}
+
+/**
+ * Credenciales de un proveedor social, o undefined si no está configurado
+ */
+function socialCredentials(
+  clientId?: string,
+  clientSecret?: string,
+): SocialProviderCredentials | undefined {
+  return clientId && clientSecret ? { clientId, clientSecret } : undefined;
+}
+
+/**
+ * Archivos .env del perfil actual, de mayor a menor prioridad
+ *
+ * EJEMPLO (NODE_ENV=production):
+ * .env.production.local → .env.production → .env
+ *
+ * Las variables ya definidas en el entorno del proceso tienen prioridad
+ * sobre cualquier archivo.
+ */
+export function envFilePaths(
+  nodeEnv = process.env.NODE_ENV ?? Environment.Development,
+): string[] {
+  return [`.env.${nodeEnv}.local`, `.env.${nodeEnv}`, '.env'];
+}
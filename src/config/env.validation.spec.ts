@@ -0,0 +1,64 @@
+import { Environment, validateEnvironment } from './env.validation';
+
+describe('validateEnvironment', () => {
+  const strongSecret = 'k3J9x-Q2m7V8p1ZrT4n6W0s5YbLcHdFe';
+
+  it('applies defaults and converts types', () => {
+    const env = validateEnvironment({ JWT_SECRET: strongSecret, PORT: '8080' });
+
+    expect(env).toMatchObject({
+      NODE_ENV: Environment.Development,
+      PORT: 8080,
+      JWT_ACCESS_TOKEN_TTL: 900,
+      MAIL_TRANSPORT: 'console',
+      MAIL_FILE_DIR: '.tmp/mail',
+    });
+  });
+
+  it('rejects an unknown mail transport', () => {
+    expect(() =>
+      validateEnvironment({ JWT_SECRET: strongSecret, MAIL_TRANSPORT: 'smtp' }),
+    ).toThrow(/MAIL_TRANSPORT/);
+  });
+
+  it('fails fast when the secret is missing', () => {
+    expect(() => validateEnvironment({})).toThrow(/JWT_SECRET es obligatorio/);
+  });
+
+  it.each([
+    ['too short', 'corto'],
+    ['a known placeholder', 'mi_clave_secreta_muy_segura_2024'],
+    ['low entropy', 'a'.repeat(40)],
+  ])('rejects a secret that is %s', (_, secret) => {
+    expect(() => validateEnvironment({ JWT_SECRET: secret })).toThrow(
+      /JWT_SECRET/,
+    );
+  });
+
+  it('requires Secure for SameSite=None session cookies', () => {
+    expect(() =>
+      validateEnvironment({
+        JWT_SECRET: strongSecret,
+        AUTH_TOKEN_TRANSPORT: 'cookie',
+        AUTH_COOKIE_SAMESITE: 'none',
+        AUTH_COOKIE_SECURE: 'false',
+      }),
+    ).toThrow(/AUTH_COOKIE_SECURE=true/);
+    expect(() =>
+      validateEnvironment({
+        JWT_SECRET: strongSecret,
+        AUTH_TOKEN_TRANSPORT: 'body',
+      }),
+    ).toThrow(/AUTH_TOKEN_TRANSPORT/);
+  });
+
+  it('reports every production requirement at once', () => {
+    expect(() =>
+      validateEnvironment({
+        NODE_ENV: 'production',
+        JWT_SECRET: strongSecret,
+        DB_SYNCHRONIZE: 'true',
+      }),
+    ).toThrow(/CORS_ORIGINS[\s\S]*APP_URL[\s\S]*OIDC_ISSUER[\s\S]*migraciones/);
+  });
+});
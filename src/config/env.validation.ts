@@ -0,0 +1,347 @@
+import 'reflect-metadata';
+import { plainToInstance } from 'class-transformer';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  Min,
+  MinLength,
+  validateSync,
+} from 'class-validator';
+
+/**
+ * Perfiles de ejecución (variable NODE_ENV)
+ */
+export enum Environment {
+  Development = 'development',
+  Test = 'test',
+  Production = 'production',
+}
+
+/**
+ * Longitud mínima de los secretos de firma
+ */
+export const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Secretos conocidos (ejemplos de documentación, valores por defecto
+ * antiguos...) que se rechazan aunque sean largos
+ */
+const KNOWN_WEAK_SECRETS = [
+  'mi_clave_secreta_muy_segura_2024',
+  'changeme',
+  'secret',
+  'your-secret-key',
+  'your_jwt_secret',
+];
+
+/**
+ * Variables de entorno reconocidas y sus reglas
+ *
+ * Los valores por defecto se aplican cuando la variable no está definida.
+ */
+export class EnvironmentVariables {
+  @IsEnum(Environment, {
+    message: `NODE_ENV debe ser uno de: ${Object.values(Environment).join(', ')}`,
+  })
+  NODE_ENV: Environment = Environment.Development;
+
+  @IsInt({ message: 'PORT debe ser un número entero' })
+  @Min(1, { message: 'PORT debe estar entre 1 y 65535' })
+  @Max(65535, { message: 'PORT debe estar entre 1 y 65535' })
+  PORT: number = 3000;
+
+  @IsString({ message: 'JWT_SECRET es obligatorio' })
+  @MinLength(MIN_SECRET_LENGTH, {
+    message: `JWT_SECRET debe tener al menos ${MIN_SECRET_LENGTH} caracteres`,
+  })
+  JWT_SECRET: string;
+
+  /** Duración de los access tokens en segundos */
+  @IsInt({
+    message: 'JWT_ACCESS_TOKEN_TTL debe ser un número entero (segundos)',
+  })
+  @Min(60, { message: 'JWT_ACCESS_TOKEN_TTL debe ser de al menos 60 segundos' })
+  @Max(24 * 60 * 60, {
+    message: 'JWT_ACCESS_TOKEN_TTL no puede superar 86400 segundos (24 horas)',
+  })
+  JWT_ACCESS_TOKEN_TTL: number = 15 * 60;
+
+  /** Directorio con las claves de firma de los access tokens (.pem) */
+  @IsOptional()
+  @IsString()
+  JWT_KEYS_DIR?: string;
+
+  /** kid de la clave que firma (por defecto el mayor en orden alfabético) */
+  @IsOptional()
+  @IsString()
+  JWT_SIGNING_KID?: string;
+
+  /** Tokens de sesión en el body ('header') o en cookies HttpOnly ('cookie') */
+  @IsIn(['header', 'cookie'], {
+    message: "AUTH_TOKEN_TRANSPORT debe ser 'header' o 'cookie'",
+  })
+  AUTH_TOKEN_TRANSPORT: string = 'header';
+
+  @IsIn(['true', 'false'], {
+    message: "AUTH_COOKIE_SECURE debe ser 'true' o 'false'",
+  })
+  AUTH_COOKIE_SECURE: string = 'true';
+
+  @IsIn(['strict', 'lax', 'none'], {
+    message: "AUTH_COOKIE_SAMESITE debe ser 'strict', 'lax' o 'none'",
+  })
+  AUTH_COOKIE_SAMESITE: string = 'strict';
+
+  @IsOptional()
+  @IsString()
+  AUTH_COOKIE_DOMAIN?: string;
+
+  /** Orígenes permitidos por CORS, separados por comas */
+  @IsOptional()
+  @IsString()
+  CORS_ORIGINS?: string;
+
+  @IsOptional()
+  @IsString()
+  APP_URL?: string;
+
+  @IsOptional()
+  @IsString()
+  TWO_FACTOR_ISSUER?: string;
+
+  /** Emails (separados por comas) que se registran como administradores */
+  @IsOptional()
+  @IsString()
+  ADMIN_EMAILS?: string;
+
+  /** Correo: 'console' (log) o 'file' (archivos .eml en MAIL_FILE_DIR) */
+  @IsIn(['console', 'file'], {
+    message: "MAIL_TRANSPORT debe ser 'console' o 'file'",
+  })
+  MAIL_TRANSPORT: string = 'console';
+
+  @IsString({ message: 'MAIL_FILE_DIR debe ser una ruta' })
+  MAIL_FILE_DIR: string = '.tmp/mail';
+
+  /** Passkeys: dominio (por defecto el de APP_URL), nombre y orígenes */
+  @IsOptional()
+  @IsString()
+  WEBAUTHN_RP_ID?: string;
+
+  @IsOptional()
+  @IsString()
+  WEBAUTHN_RP_NAME?: string;
+
+  /** Separados por comas (por defecto el origen de APP_URL) */
+  @IsOptional()
+  @IsString()
+  WEBAUTHN_ORIGINS?: string;
+
+  /** URL pública de este servicio como proveedor de identidad (claim "iss") */
+  @IsOptional()
+  @IsUrl(
+    { require_tld: false, protocols: ['http', 'https'] },
+    { message: 'OIDC_ISSUER debe ser una URL http(s)' },
+  )
+  OIDC_ISSUER?: string;
+
+  /** Credenciales de login social (ver src/strategies/social/) */
+  @IsOptional()
+  @IsString()
+  GOOGLE_CLIENT_ID?: string;
+
+  @IsOptional()
+  @IsString()
+  GOOGLE_CLIENT_SECRET?: string;
+
+  @IsOptional()
+  @IsString()
+  GITHUB_CLIENT_ID?: string;
+
+  @IsOptional()
+  @IsString()
+  GITHUB_CLIENT_SECRET?: string;
+
+  // ==========================================
+  // POLÍTICA DE CONTRASEÑAS (ver PasswordPolicyService)
+  // ==========================================
+
+  @IsInt({ message: 'PASSWORD_MIN_LENGTH debe ser un número entero' })
+  @Min(6, { message: 'PASSWORD_MIN_LENGTH debe ser de al menos 6' })
+  PASSWORD_MIN_LENGTH: number = 8;
+
+  /** bcrypt solo usa los primeros 72 bytes: más no aporta seguridad */
+  @IsInt({ message: 'PASSWORD_MAX_LENGTH debe ser un número entero' })
+  @Max(255, { message: 'PASSWORD_MAX_LENGTH no puede superar 255' })
+  PASSWORD_MAX_LENGTH: number = 72;
+
+  @IsIn(['true', 'false'], {
+    message: "PASSWORD_REQUIRE_LOWERCASE debe ser 'true' o 'false'",
+  })
+  PASSWORD_REQUIRE_LOWERCASE: string = 'true';
+
+  @IsIn(['true', 'false'], {
+    message: "PASSWORD_REQUIRE_UPPERCASE debe ser 'true' o 'false'",
+  })
+  PASSWORD_REQUIRE_UPPERCASE: string = 'true';
+
+  @IsIn(['true', 'false'], {
+    message: "PASSWORD_REQUIRE_DIGIT debe ser 'true' o 'false'",
+  })
+  PASSWORD_REQUIRE_DIGIT: string = 'true';
+
+  @IsIn(['true', 'false'], {
+    message: "PASSWORD_REQUIRE_SYMBOL debe ser 'true' o 'false'",
+  })
+  PASSWORD_REQUIRE_SYMBOL: string = 'false';
+
+  /** Contraseñas anteriores que no se pueden repetir (0 = sin historial) */
+  @IsInt({ message: 'PASSWORD_HISTORY_SIZE debe ser un número entero' })
+  @Min(0, { message: 'PASSWORD_HISTORY_SIZE no puede ser negativo' })
+  @Max(24, { message: 'PASSWORD_HISTORY_SIZE no puede superar 24' })
+  PASSWORD_HISTORY_SIZE: number = 5;
+
+  /** Fortaleza mínima estimada, de 0 (muy débil) a 4 (muy fuerte) */
+  @IsInt({ message: 'PASSWORD_MIN_STRENGTH debe ser un número entero' })
+  @Min(0, { message: 'PASSWORD_MIN_STRENGTH debe estar entre 0 y 4' })
+  @Max(4, { message: 'PASSWORD_MIN_STRENGTH debe estar entre 0 y 4' })
+  PASSWORD_MIN_STRENGTH: number = 1;
+
+  /** Intentos de cada entrega de webhook antes de darla por fallida */
+  @IsInt({ message: 'WEBHOOK_MAX_ATTEMPTS debe ser un número entero' })
+  @Min(1, { message: 'WEBHOOK_MAX_ATTEMPTS debe estar entre 1 y 20' })
+  @Max(20, { message: 'WEBHOOK_MAX_ATTEMPTS debe estar entre 1 y 20' })
+  WEBHOOK_MAX_ATTEMPTS: number = 8;
+
+  /** Espera antes del primer reintento; se duplica en cada uno */
+  @IsInt({
+    message: 'WEBHOOK_RETRY_BASE_DELAY_SECONDS debe ser un número entero',
+  })
+  @Min(1, { message: 'WEBHOOK_RETRY_BASE_DELAY_SECONDS debe ser al menos 1' })
+  WEBHOOK_RETRY_BASE_DELAY_SECONDS: number = 30;
+
+  /** Tiempo máximo de respuesta del receptor */
+  @IsInt({ message: 'WEBHOOK_TIMEOUT_SECONDS debe ser un número entero' })
+  @Min(1, { message: 'WEBHOOK_TIMEOUT_SECONDS debe estar entre 1 y 60' })
+  @Max(60, { message: 'WEBHOOK_TIMEOUT_SECONDS debe estar entre 1 y 60' })
+  WEBHOOK_TIMEOUT_SECONDS: number = 10;
+
+  /** Cada cuánto se buscan reintentos pendientes (0 = nunca) */
+  @IsInt({
+    message: 'WEBHOOK_DISPATCH_INTERVAL_SECONDS debe ser un número entero',
+  })
+  @Min(0, {
+    message: 'WEBHOOK_DISPATCH_INTERVAL_SECONDS no puede ser negativo',
+  })
+  WEBHOOK_DISPATCH_INTERVAL_SECONDS: number = 15;
+
+  @IsOptional()
+  @IsIn(['mysql', 'sqljs'], { message: "DB_TYPE debe ser 'mysql' o 'sqljs'" })
+  DB_TYPE?: string;
+
+  @IsOptional()
+  @IsIn(['true', 'false'], {
+    message: "DB_SYNCHRONIZE debe ser 'true' o 'false'",
+  })
+  DB_SYNCHRONIZE?: string;
+}
+
+/**
+ * Indica si un secreto es adivinable aunque cumpla la longitud mínima
+ */
+function isWeakSecret(secret: string): boolean {
+  return (
+    KNOWN_WEAK_SECRETS.includes(secret.toLowerCase()) ||
+    new Set(secret).size < 10
+  );
+}
+
+/**
+ * Valida las variables de entorno al arrancar
+ *
+ * ALGORITMO:
+ * 1. Convierte los textos a sus tipos (PORT "3000" → 3000) y aplica los
+ *    valores por defecto
+ * 2. Aplica las reglas de EnvironmentVariables
+ * 3. Reglas adicionales: secretos débiles y exigencias de producción
+ *
+ * @returns Las variables ya convertidas
+ *
+ * EXCEPCIONES:
+ * - Error: Con TODOS los problemas encontrados; la aplicación no arranca
+ */
+export function validateEnvironment(
+  config: Record<string, unknown>,
+): EnvironmentVariables {
+  const env = plainToInstance(EnvironmentVariables, config, {
+    enableImplicitConversion: true,
+    exposeDefaultValues: true,
+  });
+
+  const problems = validateSync(env).flatMap((error) =>
+    Object.values(error.constraints ?? {}),
+  );
+
+  if (typeof env.JWT_SECRET === 'string' && isWeakSecret(env.JWT_SECRET)) {
+    problems.push(
+      'JWT_SECRET es demasiado débil: genere uno aleatorio (p. ej. openssl rand -base64 48)',
+    );
+  }
+
+  // Un proveedor social a medio configurar fallaría recién en el callback
+  const socialCredentials = [
+    ['GOOGLE', env.GOOGLE_CLIENT_ID, env.GOOGLE_CLIENT_SECRET],
+    ['GITHUB', env.GITHUB_CLIENT_ID, env.GITHUB_CLIENT_SECRET],
+  ] as const;
+  for (const [provider, clientId, clientSecret] of socialCredentials) {
+    if (Boolean(clientId) !== Boolean(clientSecret)) {
+      problems.push(
+        `${provider}_CLIENT_ID y ${provider}_CLIENT_SECRET deben definirse juntos`,
+      );
+    }
+  }
+
+  if (env.PASSWORD_MIN_LENGTH > env.PASSWORD_MAX_LENGTH) {
+    problems.push(
+      'PASSWORD_MIN_LENGTH no puede ser mayor que PASSWORD_MAX_LENGTH',
+    );
+  }
+
+  // Los navegadores descartan las cookies SameSite=None sin Secure
+  if (
+    env.AUTH_COOKIE_SAMESITE === 'none' &&
+    env.AUTH_COOKIE_SECURE !== 'true'
+  ) {
+    problems.push("AUTH_COOKIE_SAMESITE='none' exige AUTH_COOKIE_SECURE=true");
+  }
+
+  if (env.NODE_ENV === Environment.Production) {
+    if (!env.CORS_ORIGINS) {
+      problems.push('CORS_ORIGINS es obligatorio en producción');
+    }
+    if (!env.APP_URL) {
+      problems.push('APP_URL es obligatorio en producción');
+    }
+    if (!env.JWT_KEYS_DIR) {
+      problems.push('JWT_KEYS_DIR es obligatorio en producción');
+    }
+    if (!env.OIDC_ISSUER) {
+      problems.push('OIDC_ISSUER es obligatorio en producción');
+    }
+    if (env.DB_SYNCHRONIZE === 'true' || env.DB_TYPE === 'sqljs') {
+      problems.push(
+        'En producción el esquema se gestiona con migraciones (DB_SYNCHRONIZE y sqljs no están permitidos)',
+      );
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Configuración inválida:\n- ${problems.join('\n- ')}`);
+  }
+  return env;
+}
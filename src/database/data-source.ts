@@ -0,0 +1,12 @@
+import { DataSource } from 'typeorm';
+import { buildDataSourceOptions } from './database.config';
+
+/**
+ * DataSource usado por el CLI de TypeORM para generar y ejecutar migraciones
+ *
+ * EJEMPLOS:
+ * npm run migration:run
+ * npm run migration:revert
+ * npm run migration:generate -- src/database/migrations/NombreMigracion
+ */
+export default new DataSource(buildDataSourceOptions());
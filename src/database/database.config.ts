@@ -0,0 +1,50 @@
+import { join } from 'path';
+import { DataSourceOptions } from 'typeorm';
+
+// ============================================
+// CONFIGURACIÓN DE LA BASE DE DATOS
+// ============================================
+
+/**
+ * Construye las opciones de conexión de TypeORM a partir de variables de entorno
+ *
+ * VARIABLES SOPORTADAS:
+ * - DB_TYPE: 'mysql' (por defecto) o 'sqljs' (SQLite en memoria, sin servidor)
+ * - DB_HOST, DB_PORT, DB_USERNAME, DB_PASSWORD, DB_DATABASE: conexión MySQL
+ * - DB_SYNCHRONIZE: 'true' para sincronizar el esquema con las entidades
+ *   (solo desarrollo; en producción se usan migraciones)
+ * - DB_MIGRATIONS_RUN: 'false' para NO ejecutar migraciones al arrancar
+ * - DB_LOGGING: 'true' para imprimir las consultas SQL
+ *
+ * Se usa desde AppModule (TypeOrmModule.forRootAsync) y desde data-source.ts
+ * (CLI de TypeORM), así ambos comparten exactamente la misma configuración.
+ */
+export function buildDataSourceOptions(
+  env: NodeJS.ProcessEnv = process.env,
+): DataSourceOptions {
+  // SQLite en memoria: usado por las pruebas, no necesita servidor MySQL.
+  // El esquema se crea a partir de las entidades en cada arranque.
+  if (env.DB_TYPE === 'sqljs') {
+    return {
+      type: 'sqljs',
+      synchronize: true,
+      logging: env.DB_LOGGING === 'true',
+    };
+  }
+
+  return {
+    type: 'mysql',
+    host: env.DB_HOST ?? 'localhost',
+    port: parseInt(env.DB_PORT ?? '3306', 10),
+    username: env.DB_USERNAME ?? 'root',
+    password: env.DB_PASSWORD ?? '',
+    database: env.DB_DATABASE ?? 'auth_taller',
+    synchronize: env.DB_SYNCHRONIZE === 'true',
+    logging: env.DB_LOGGING === 'true',
+    // Las entidades se registran con autoLoadEntities en AppModule; el CLI
+    // (data-source.ts) las encuentra con este patrón
+    entities: [join(__dirname, '..', '**', '*.entity.{ts,js}')],
+    migrations: [join(__dirname, 'migrations', '*.{ts,js}')],
+    migrationsRun: env.DB_MIGRATIONS_RUN !== 'false',
+  };
+}
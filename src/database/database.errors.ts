@@ -0,0 +1,17 @@
+import { QueryFailedError } from 'typeorm';
+
+/**
+ * Detecta si un error de TypeORM corresponde a una violación de índice único
+ * - MySQL: código ER_DUP_ENTRY
+ * - SQLite: mensaje "UNIQUE constraint failed"
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  if (!(error instanceof QueryFailedError)) {
+    return false;
+  }
+  const driverError = error.driverError as { code?: string } | undefined;
+  return (
+    driverError?.code === 'ER_DUP_ENTRY' ||
+    error.message.includes('UNIQUE constraint failed')
+  );
+}
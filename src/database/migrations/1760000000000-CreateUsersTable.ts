@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Crea la tabla 'users' que antes se simulaba con un array en memoria
+ */
+export class CreateUsersTable1760000000000 implements MigrationInterface {
+  name = 'CreateUsersTable1760000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'users',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          { name: 'username', type: 'varchar', length: '50' },
+          { name: 'email', type: 'varchar', length: '100' },
+          { name: 'password', type: 'varchar', length: '255' },
+          { name: 'isActive', type: 'boolean', default: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+          {
+            name: 'updatedAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+            onUpdate: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        uniques: [
+          { name: 'UQ_users_username', columnNames: ['username'] },
+          { name: 'UQ_users_email', columnNames: ['email'] },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('users');
+  }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Crea la tabla 'refresh_tokens' (refresh tokens hasheados y rotativos)
+ */
+export class CreateRefreshTokensTable1760000001000 implements MigrationInterface {
+  name = 'CreateRefreshTokensTable1760000001000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'refresh_tokens',
+        columns: [
+          { name: 'id', type: 'varchar', length: '36', isPrimary: true },
+          { name: 'familyId', type: 'varchar', length: '36' },
+          { name: 'userId', type: 'int' },
+          { name: 'tokenHash', type: 'varchar', length: '64' },
+          { name: 'expiresAt', type: 'datetime' },
+          { name: 'usedAt', type: 'datetime', isNullable: true },
+          { name: 'revokedAt', type: 'datetime', isNullable: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          { name: 'IDX_refresh_tokens_familyId', columnNames: ['familyId'] },
+          {
+            name: 'UQ_refresh_tokens_tokenHash',
+            columnNames: ['tokenHash'],
+            isUnique: true,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['userId'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('refresh_tokens');
+  }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn } from 'typeorm';
+
+/**
+ * Revocación de access tokens:
+ * - Columna users.tokensValidAfter ("cerrar sesión en todos los dispositivos")
+ * - Tabla 'revoked_tokens' (lista negra por jti)
+ */
+export class AddTokenRevocation1760000002000 implements MigrationInterface {
+  name = 'AddTokenRevocation1760000002000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'tokensValidAfter',
+        type: 'datetime',
+        isNullable: true,
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'revoked_tokens',
+        columns: [
+          { name: 'jti', type: 'varchar', length: '36', isPrimary: true },
+          { name: 'userId', type: 'int' },
+          { name: 'expiresAt', type: 'datetime' },
+          {
+            name: 'revokedAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          { name: 'IDX_revoked_tokens_expiresAt', columnNames: ['expiresAt'] },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('revoked_tokens');
+    await queryRunner.dropColumn('users', 'tokensValidAfter');
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Agrega la columna users.roles (roles separados por comas)
+ * Los usuarios existentes reciben el rol 'user'.
+ */
+export class AddUserRoles1760000003000 implements MigrationInterface {
+  name = 'AddUserRoles1760000003000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // MySQL no admite DEFAULT en columnas TEXT: se crea nula, se rellena
+    // y luego se marca como obligatoria
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({ name: 'roles', type: 'text', isNullable: true }),
+    );
+    await queryRunner.query(`UPDATE users SET roles = 'user'`);
+    await queryRunner.changeColumn(
+      'users',
+      'roles',
+      new TableColumn({ name: 'roles', type: 'text', isNullable: false }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('users', 'roles');
+  }
+}
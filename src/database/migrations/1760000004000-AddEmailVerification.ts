@@ -0,0 +1,67 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn } from 'typeorm';
+
+/**
+ * Verificación de email:
+ * - Columna users.emailVerifiedAt (las cuentas existentes se dan por verificadas)
+ * - Tabla 'action_tokens' (tokens de un solo uso)
+ */
+export class AddEmailVerification1760000004000 implements MigrationInterface {
+  name = 'AddEmailVerification1760000004000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'emailVerifiedAt',
+        type: 'datetime',
+        isNullable: true,
+      }),
+    );
+    await queryRunner.query(`UPDATE users SET emailVerifiedAt = createdAt`);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'action_tokens',
+        columns: [
+          { name: 'id', type: 'varchar', length: '36', isPrimary: true },
+          { name: 'userId', type: 'int' },
+          { name: 'purpose', type: 'varchar', length: '40' },
+          { name: 'tokenHash', type: 'varchar', length: '64' },
+          { name: 'data', type: 'text', isNullable: true },
+          { name: 'expiresAt', type: 'datetime' },
+          { name: 'consumedAt', type: 'datetime', isNullable: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          {
+            name: 'IDX_action_tokens_user_purpose',
+            columnNames: ['userId', 'purpose'],
+          },
+          {
+            name: 'UQ_action_tokens_tokenHash',
+            columnNames: ['tokenHash'],
+            isUnique: true,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['userId'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('action_tokens');
+    await queryRunner.dropColumn('users', 'emailVerifiedAt');
+  }
+}
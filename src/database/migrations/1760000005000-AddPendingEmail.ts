@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Cambio de email: columna users.pendingEmail (nuevo email aún sin verificar)
+ */
+export class AddPendingEmail1760000005000 implements MigrationInterface {
+  name = 'AddPendingEmail1760000005000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'pendingEmail',
+        type: 'varchar',
+        length: '100',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('users', 'pendingEmail');
+  }
+}
@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn } from 'typeorm';
+
+/**
+ * Autenticación en dos pasos (TOTP):
+ * - Columnas users.twoFactorSecret, twoFactorEnabledAt y twoFactorLastUsedStep
+ * - Tabla 'recovery_codes' (códigos de recuperación hasheados)
+ */
+export class AddTwoFactorAuth1760000006000 implements MigrationInterface {
+  name = 'AddTwoFactorAuth1760000006000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('users', [
+      new TableColumn({
+        name: 'twoFactorSecret',
+        type: 'varchar',
+        length: '64',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'twoFactorEnabledAt',
+        type: 'datetime',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'twoFactorLastUsedStep',
+        type: 'int',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'recovery_codes',
+        columns: [
+          { name: 'id', type: 'varchar', length: '36', isPrimary: true },
+          { name: 'userId', type: 'int' },
+          { name: 'codeHash', type: 'varchar', length: '64' },
+          { name: 'usedAt', type: 'datetime', isNullable: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          {
+            name: 'UQ_recovery_codes_user_codeHash',
+            columnNames: ['userId', 'codeHash'],
+            isUnique: true,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['userId'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('recovery_codes');
+    await queryRunner.dropColumn('users', 'twoFactorLastUsedStep');
+    await queryRunner.dropColumn('users', 'twoFactorEnabledAt');
+    await queryRunner.dropColumn('users', 'twoFactorSecret');
+  }
+}
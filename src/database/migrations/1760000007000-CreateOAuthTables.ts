@@ -0,0 +1,83 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Servidor de autorización OAuth2 / OpenID Connect:
+ * - Tabla 'oauth_clients' (aplicaciones registradas)
+ * - Tabla 'oauth_authorization_codes' (códigos de un solo uso con PKCE)
+ */
+export class CreateOAuthTables1760000007000 implements MigrationInterface {
+  name = 'CreateOAuthTables1760000007000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'oauth_clients',
+        columns: [
+          { name: 'id', type: 'varchar', length: '36', isPrimary: true },
+          { name: 'clientId', type: 'varchar', length: '64' },
+          {
+            name: 'clientSecretHash',
+            type: 'varchar',
+            length: '64',
+            isNullable: true,
+          },
+          { name: 'name', type: 'varchar', length: '100' },
+          { name: 'redirectUris', type: 'text' },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        uniques: [
+          { name: 'UQ_oauth_clients_clientId', columnNames: ['clientId'] },
+        ],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'oauth_authorization_codes',
+        columns: [
+          { name: 'id', type: 'varchar', length: '36', isPrimary: true },
+          { name: 'codeHash', type: 'varchar', length: '64' },
+          { name: 'clientId', type: 'varchar', length: '64' },
+          { name: 'userId', type: 'int' },
+          { name: 'redirectUri', type: 'text' },
+          { name: 'scope', type: 'varchar', length: '255' },
+          { name: 'codeChallenge', type: 'varchar', length: '128' },
+          { name: 'nonce', type: 'varchar', length: '255', isNullable: true },
+          { name: 'expiresAt', type: 'datetime' },
+          { name: 'consumedAt', type: 'datetime', isNullable: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          {
+            name: 'UQ_oauth_authorization_codes_codeHash',
+            columnNames: ['codeHash'],
+            isUnique: true,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['userId'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('oauth_authorization_codes');
+    await queryRunner.dropTable('oauth_clients');
+  }
+}
@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Login social: tabla 'user_identities' (cuentas externas vinculadas)
+ */
+export class CreateUserIdentities1760000008000 implements MigrationInterface {
+  name = 'CreateUserIdentities1760000008000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'user_identities',
+        columns: [
+          { name: 'id', type: 'varchar', length: '36', isPrimary: true },
+          { name: 'userId', type: 'int' },
+          { name: 'provider', type: 'varchar', length: '32' },
+          { name: 'subject', type: 'varchar', length: '255' },
+          { name: 'email', type: 'varchar', length: '100', isNullable: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          {
+            name: 'UQ_user_identities_provider_subject',
+            columnNames: ['provider', 'subject'],
+            isUnique: true,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['userId'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('user_identities');
+  }
+}
@@ -0,0 +1,73 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn } from 'typeorm';
+
+/**
+ * Credenciales para llamadas entre servicios:
+ * - Columnas oauth_clients.grantTypes y oauth_clients.scopes (client
+ *   credentials). Los clientes existentes quedan con authorization_code
+ * - Tabla 'api_keys' (API keys personales)
+ */
+export class AddClientCredentialsAndApiKeys1760000009000 implements MigrationInterface {
+  name = 'AddClientCredentialsAndApiKeys1760000009000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // MySQL no admite DEFAULT en columnas TEXT: se crean nulas, se
+    // rellenan y luego se marcan como obligatorias
+    await queryRunner.addColumns('oauth_clients', [
+      new TableColumn({ name: 'grantTypes', type: 'text', isNullable: true }),
+      new TableColumn({ name: 'scopes', type: 'text', isNullable: true }),
+    ]);
+    await queryRunner.query(
+      `UPDATE oauth_clients SET grantTypes = '["authorization_code"]', scopes = '[]'`,
+    );
+    for (const name of ['grantTypes', 'scopes']) {
+      await queryRunner.changeColumn(
+        'oauth_clients',
+        name,
+        new TableColumn({ name, type: 'text', isNullable: false }),
+      );
+    }
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'api_keys',
+        columns: [
+          { name: 'id', type: 'varchar', length: '36', isPrimary: true },
+          { name: 'userId', type: 'int' },
+          { name: 'name', type: 'varchar', length: '100' },
+          { name: 'prefix', type: 'varchar', length: '16' },
+          { name: 'keyHash', type: 'varchar', length: '64' },
+          { name: 'lastUsedAt', type: 'datetime', isNullable: true },
+          { name: 'revokedAt', type: 'datetime', isNullable: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          { name: 'IDX_api_keys_userId', columnNames: ['userId'] },
+          {
+            name: 'UQ_api_keys_prefix',
+            columnNames: ['prefix'],
+            isUnique: true,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['userId'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('api_keys');
+    await queryRunner.dropColumn('oauth_clients', 'scopes');
+    await queryRunner.dropColumn('oauth_clients', 'grantTypes');
+  }
+}
@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Tabla 'sessions' (sesiones por dispositivo)
+ *
+ * Las sesiones abiertas antes de esta migración (familias con refresh
+ * tokens vigentes) se registran como "Dispositivo desconocido": sin su
+ * fila, JwtStrategy rechazaría sus access tokens.
+ */
+export class CreateSessions1760000010000 implements MigrationInterface {
+  name = 'CreateSessions1760000010000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'sessions',
+        columns: [
+          { name: 'id', type: 'varchar', length: '36', isPrimary: true },
+          { name: 'userId', type: 'int' },
+          {
+            name: 'userAgent',
+            type: 'varchar',
+            length: '512',
+            isNullable: true,
+          },
+          { name: 'ip', type: 'varchar', length: '45', isNullable: true },
+          { name: 'deviceLabel', type: 'varchar', length: '100' },
+          { name: 'lastSeenAt', type: 'datetime' },
+          { name: 'revokedAt', type: 'datetime', isNullable: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [{ name: 'IDX_sessions_userId', columnNames: ['userId'] }],
+        foreignKeys: [
+          {
+            columnNames: ['userId'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+    );
+
+    await queryRunner.query(
+      `INSERT INTO sessions (id, userId, deviceLabel, lastSeenAt, createdAt)
+       SELECT familyId, userId, 'Dispositivo desconocido', MAX(createdAt), MIN(createdAt)
+       FROM refresh_tokens
+       WHERE revokedAt IS NULL AND usedAt IS NULL AND expiresAt > CURRENT_TIMESTAMP
+       GROUP BY familyId, userId`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('sessions');
+  }
+}
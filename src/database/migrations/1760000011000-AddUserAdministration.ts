@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Administración de usuarios:
+ * - users.passwordResetRequiredAt (restablecimiento exigido por un admin)
+ * - users.deletedAt (soft delete)
+ */
+export class AddUserAdministration1760000011000 implements MigrationInterface {
+  name = 'AddUserAdministration1760000011000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('users', [
+      new TableColumn({
+        name: 'passwordResetRequiredAt',
+        type: 'datetime',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'deletedAt',
+        type: 'datetime',
+        precision: 6,
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('users', 'deletedAt');
+    await queryRunner.dropColumn('users', 'passwordResetRequiredAt');
+  }
+}
@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Tabla 'password_history' (contraseñas anteriores que no se pueden
+ * repetir). Empieza vacía: la contraseña actual de cada usuario ya se
+ * compara directamente con users.password.
+ */
+export class CreatePasswordHistory1760000012000 implements MigrationInterface {
+  name = 'CreatePasswordHistory1760000012000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'password_history',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          { name: 'userId', type: 'int' },
+          { name: 'passwordHash', type: 'varchar', length: '60' },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          { name: 'IDX_password_history_userId', columnNames: ['userId'] },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['userId'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('password_history');
+  }
+}
@@ -0,0 +1,90 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Tabla 'audit_events' (registro de auditoría)
+ *
+ * Sin claves foráneas: los eventos se conservan aunque se borre el
+ * usuario o la aplicación que mencionan. Los triggers impiden modificar o
+ * borrar eventos incluso con acceso directo a la base de datos (para
+ * depurar eventos antiguos hay que eliminar antes el trigger, lo que
+ * requiere el privilegio TRIGGER).
+ */
+export class CreateAuditEvents1760000013000 implements MigrationInterface {
+  name = 'CreateAuditEvents1760000013000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'audit_events',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          { name: 'action', type: 'varchar', length: '50' },
+          { name: 'outcome', type: 'varchar', length: '10' },
+          { name: 'actorType', type: 'varchar', length: '20' },
+          { name: 'actorId', type: 'varchar', length: '100', isNullable: true },
+          {
+            name: 'targetType',
+            type: 'varchar',
+            length: '20',
+            isNullable: true,
+          },
+          {
+            name: 'targetId',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+          },
+          { name: 'ip', type: 'varchar', length: '45', isNullable: true },
+          {
+            name: 'userAgent',
+            type: 'varchar',
+            length: '512',
+            isNullable: true,
+          },
+          { name: 'metadata', type: 'text', isNullable: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          { name: 'IDX_audit_events_action', columnNames: ['action'] },
+          {
+            name: 'IDX_audit_events_actor',
+            columnNames: ['actorType', 'actorId'],
+          },
+          {
+            name: 'IDX_audit_events_target',
+            columnNames: ['targetType', 'targetId'],
+          },
+          { name: 'IDX_audit_events_createdAt', columnNames: ['createdAt'] },
+        ],
+      }),
+    );
+
+    await queryRunner.query(
+      `CREATE TRIGGER audit_events_no_update BEFORE UPDATE ON audit_events
+       FOR EACH ROW SIGNAL SQLSTATE '45000'
+       SET MESSAGE_TEXT = 'audit_events solo admite INSERT'`,
+    );
+    await queryRunner.query(
+      `CREATE TRIGGER audit_events_no_delete BEFORE DELETE ON audit_events
+       FOR EACH ROW SIGNAL SQLSTATE '45000'
+       SET MESSAGE_TEXT = 'audit_events solo admite INSERT'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TRIGGER audit_events_no_delete');
+    await queryRunner.query('DROP TRIGGER audit_events_no_update');
+    await queryRunner.dropTable('audit_events');
+  }
+}
@@ -0,0 +1,111 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Tablas 'webhook_subscriptions' y 'webhook_deliveries' (webhooks de los
+ * eventos de dominio)
+ *
+ * Borrar una suscripción borra su registro de entregas (CASCADE).
+ */
+export class CreateWebhooks1760000014000 implements MigrationInterface {
+  name = 'CreateWebhooks1760000014000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_subscriptions',
+        columns: [
+          { name: 'id', type: 'varchar', length: '36', isPrimary: true },
+          { name: 'url', type: 'varchar', length: '500' },
+          { name: 'events', type: 'text' },
+          {
+            name: 'description',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+          },
+          { name: 'secret', type: 'varchar', length: '64' },
+          { name: 'isActive', type: 'boolean', default: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+          {
+            name: 'updatedAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+            onUpdate: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_deliveries',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          { name: 'subscriptionId', type: 'varchar', length: '36' },
+          { name: 'eventId', type: 'varchar', length: '36' },
+          { name: 'eventType', type: 'varchar', length: '50' },
+          { name: 'payload', type: 'text' },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '10',
+            default: "'pending'",
+          },
+          { name: 'attempts', type: 'int', default: 0 },
+          { name: 'nextAttemptAt', type: 'datetime', isNullable: true },
+          { name: 'lastAttemptAt', type: 'datetime', isNullable: true },
+          { name: 'responseStatus', type: 'int', isNullable: true },
+          {
+            name: 'lastError',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+          },
+          { name: 'deliveredAt', type: 'datetime', isNullable: true },
+          { name: 'replayOfId', type: 'int', isNullable: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          {
+            name: 'IDX_webhook_deliveries_due',
+            columnNames: ['status', 'nextAttemptAt'],
+          },
+          {
+            name: 'IDX_webhook_deliveries_subscriptionId',
+            columnNames: ['subscriptionId'],
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['subscriptionId'],
+            referencedTableName: 'webhook_subscriptions',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('webhook_deliveries');
+    await queryRunner.dropTable('webhook_subscriptions');
+  }
+}
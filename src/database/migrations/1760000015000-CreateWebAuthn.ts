@@ -0,0 +1,103 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Tablas 'webauthn_credentials' (passkeys de cada usuario) y
+ * 'webauthn_challenges' (desafíos de un solo uso)
+ */
+export class CreateWebAuthn1760000015000 implements MigrationInterface {
+  name = 'CreateWebAuthn1760000015000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'webauthn_credentials',
+        columns: [
+          { name: 'id', type: 'varchar', length: '36', isPrimary: true },
+          { name: 'userId', type: 'int' },
+          { name: 'credentialId', type: 'varchar', length: '255' },
+          { name: 'publicKey', type: 'text' },
+          { name: 'algorithm', type: 'int' },
+          { name: 'signCount', type: 'int', unsigned: true, default: 0 },
+          { name: 'transports', type: 'text' },
+          { name: 'name', type: 'varchar', length: '100' },
+          { name: 'backedUp', type: 'boolean', default: false },
+          { name: 'lastUsedAt', type: 'datetime', isNullable: true },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          {
+            name: 'IDX_webauthn_credentials_userId',
+            columnNames: ['userId'],
+          },
+          {
+            name: 'UQ_webauthn_credentials_credentialId',
+            columnNames: ['credentialId'],
+            isUnique: true,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['userId'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'webauthn_challenges',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          { name: 'challengeHash', type: 'varchar', length: '64' },
+          { name: 'ceremony', type: 'varchar', length: '20' },
+          { name: 'userId', type: 'int', isNullable: true },
+          { name: 'expiresAt', type: 'datetime' },
+          {
+            name: 'createdAt',
+            type: 'datetime',
+            precision: 6,
+            default: 'CURRENT_TIMESTAMP(6)',
+          },
+        ],
+        indices: [
+          {
+            name: 'UQ_webauthn_challenges_challengeHash',
+            columnNames: ['challengeHash'],
+            isUnique: true,
+          },
+          {
+            name: 'IDX_webauthn_challenges_expiresAt',
+            columnNames: ['expiresAt'],
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['userId'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('webauthn_challenges');
+    await queryRunner.dropTable('webauthn_credentials');
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Respuesta paginada estándar
+ * - items: Elementos de esta página
+ * - total: Elementos que cumplen los filtros (en todas las páginas)
+ * - next_cursor: Cursor de la página siguiente (null = no hay más)
+ */
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  next_cursor: string | null;
+}
+
+/**
+ * Codifica la posición de una página (paginación por cursor)
+ *
+ * El cursor es opaco para el cliente: solo debe devolverlo tal cual. No
+ * está firmado; quien lo manipule solo cambia desde dónde lee, con los
+ * mismos filtros y permisos.
+ */
+export function encodeCursor(position: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decodifica un cursor de encodeCursor
+ *
+ * @returns La posición, o null si el cursor no es válido
+ */
+export function decodeCursor(cursor: string): Record<string, unknown> | null {
+  try {
+    const position: unknown = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    return typeof position === 'object' &&
+      position !== null &&
+      !Array.isArray(position)
+      ? (position as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Escapa los comodines de LIKE (% y _) para buscar el texto literal
+ *
+ * Usa "!" como carácter de escape: la consulta debe incluir ESCAPE '!'
+ * (la barra invertida se interpreta distinto en MySQL y en SQLite)
+ */
+export function escapeLike(term: string): string {
+  return term.replace(/[!%_]/g, '!$&');
+}
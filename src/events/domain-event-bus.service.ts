@@ -0,0 +1,82 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { DomainEventType } from './enums/domain-event-type.enum';
+import {
+  ALL_EVENTS,
+  DomainEvent,
+  DomainEventHandler,
+} from './interfaces/domain-event.interface';
+
+/**
+ * DomainEventBus - Emisor interno de eventos de dominio
+ *
+ * Desacopla a quien produce un cambio (AuthService, UsersService) de
+ * quien reacciona a él (los webhooks, o cualquier módulo futuro): el
+ * productor no sabe quién escucha.
+ *
+ * ALGORITMO de publish():
+ * 1. Asigna id y fecha al evento
+ * 2. Llama a los handlers del tipo y a los de ALL_EVENTS, en orden de
+ *    suscripción, esperando a cada uno
+ * 3. El error de un handler se registra en el log y no se propaga: el
+ *    cambio ya está guardado y la petición no debe fallar por un efecto
+ *    secundario (igual que AuditService.record)
+ *
+ * Los handlers deben ser rápidos (p. ej. encolar una entrega): el trabajo
+ * lento (HTTP hacia otros sistemas) va en segundo plano.
+ *
+ * EJEMPLO:
+ * eventBus.subscribe(DomainEventType.UserRegistered, (event) => ...);
+ * await eventBus.publish(DomainEventType.UserRegistered, { user: userSnapshot(user) });
+ */
+@Injectable()
+export class DomainEventBus {
+  private readonly logger = new Logger(DomainEventBus.name);
+  private readonly handlers = new Map<string, Set<DomainEventHandler>>();
+
+  /**
+   * Registra un handler para un tipo de evento (o ALL_EVENTS)
+   *
+   * @returns Función que cancela la suscripción
+   */
+  subscribe(
+    type: DomainEventType | typeof ALL_EVENTS,
+    handler: DomainEventHandler,
+  ): () => void {
+    const handlers = this.handlers.get(type) ?? new Set<DomainEventHandler>();
+    handlers.add(handler);
+    this.handlers.set(type, handlers);
+
+    return () => handlers.delete(handler);
+  }
+
+  /**
+   * Publica un evento y espera a que todos sus handlers terminen
+   *
+   * @returns El evento publicado (con su id)
+   */
+  async publish<T>(type: DomainEventType, data: T): Promise<DomainEvent<T>> {
+    const event: DomainEvent<T> = {
+      id: randomUUID(),
+      type,
+      occurredAt: new Date(),
+      data,
+    };
+
+    const handlers = [
+      ...(this.handlers.get(type) ?? []),
+      ...(this.handlers.get(ALL_EVENTS) ?? []),
+    ];
+    for (const handler of handlers) {
+      try {
+        await handler(event);
+      } catch (error) {
+        this.logger.error(
+          `Handler del evento ${type} (${event.id}) falló`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      }
+    }
+    return event;
+  }
+}
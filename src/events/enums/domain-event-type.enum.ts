@@ -0,0 +1,21 @@
+/**
+ * Eventos de dominio del ciclo de vida de los usuarios
+ *
+ * Se publican en DomainEventBus DESPUÉS de aplicar el cambio. Los valores
+ * forman parte del contrato de los webhooks (campo "type" del payload y
+ * lista "events" de cada suscripción): se pueden añadir, no renombrar.
+ */
+export enum DomainEventType {
+  /** Cuenta creada por el propio usuario (registro o primer login social) */
+  UserRegistered = 'user.registered',
+  /** Cuenta creada por un administrador (POST /users) */
+  UserCreated = 'user.created',
+  UserEmailVerified = 'user.email_verified',
+  /** Email confirmado por el usuario o cambiado por un administrador */
+  UserEmailChanged = 'user.email_changed',
+  UserUsernameChanged = 'user.username_changed',
+  UserRolesChanged = 'user.roles_changed',
+  UserDeactivated = 'user.deactivated',
+  UserReactivated = 'user.reactivated',
+  UserDeleted = 'user.deleted',
+}
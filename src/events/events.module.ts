@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DomainEventBus } from './domain-event-bus.service';
+
+/**
+ * EventsModule - Bus de eventos de dominio
+ *
+ * Lo importan los módulos que publican (AuthModule, UsersModule) y los que
+ * se suscriben (WebhooksModule). Es una única instancia para toda la
+ * aplicación: un evento publicado en uno llega a los handlers de otro.
+ */
+@Module({
+  providers: [DomainEventBus],
+  exports: [DomainEventBus],
+})
+export class EventsModule {}
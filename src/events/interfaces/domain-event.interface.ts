@@ -0,0 +1,26 @@
+import { DomainEventType } from '../enums/domain-event-type.enum';
+
+/**
+ * Evento de dominio publicado en DomainEventBus
+ *
+ * - id: UUID único; los receptores de webhooks lo usan para descartar
+ *   duplicados (un reintento o un reenvío manual llevan el mismo id)
+ * - data: Datos del evento (ver UserEventData)
+ */
+export interface DomainEvent<T = unknown> {
+  id: string;
+  type: DomainEventType;
+  occurredAt: Date;
+  data: T;
+}
+
+/**
+ * Función que reacciona a un evento. Puede ser asíncrona: publish() espera
+ * a que termine.
+ */
+export type DomainEventHandler = (event: DomainEvent) => void | Promise<void>;
+
+/**
+ * Suscripción a todos los eventos (p. ej. los webhooks)
+ */
+export const ALL_EVENTS = '*';
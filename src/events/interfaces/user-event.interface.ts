@@ -0,0 +1,53 @@
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Datos del usuario incluidos en los eventos
+ *
+ * Solo campos que otro sistema necesita para sincronizarse: nunca el
+ * password, secretos de 2FA ni marcas internas de tokens.
+ */
+export interface UserSnapshot {
+  id: number;
+  username: string;
+  email: string;
+  roles: string[];
+  isActive: boolean;
+  emailVerified: boolean;
+}
+
+/**
+ * Campo "data" de los eventos user.*
+ *
+ * - previous: Valores anteriores de los campos que cambiaron
+ *   (user.email_changed, user.username_changed, user.roles_changed)
+ * - method: Cómo se registró la cuenta (user.registered)
+ *
+ * EJEMPLO (user.email_changed):
+ * { "user": { "id": 7, "email": "nuevo@test.com", ... },
+ *   "previous": { "email": "juan@test.com" } }
+ */
+export interface UserEventData {
+  user: UserSnapshot;
+  previous?: Partial<Pick<UserSnapshot, 'username' | 'email' | 'roles'>>;
+  method?: 'password' | 'social';
+  provider?: string;
+}
+
+/**
+ * Copia de los campos publicables del usuario
+ */
+export function userSnapshot(
+  user: Pick<
+    User,
+    'id' | 'username' | 'email' | 'roles' | 'isActive' | 'emailVerifiedAt'
+  >,
+): UserSnapshot {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    roles: [...user.roles],
+    isActive: user.isActive,
+    emailVerified: user.emailVerifiedAt !== null,
+  };
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from '../config/configuration';
+import { MAILER } from './mailer.interface';
+import { ConsoleMailer } from './transports/console.mailer';
+import { FileMailer } from './transports/file.mailer';
+
+/**
+ * MailModule - Provee el Mailer configurado por variables de entorno
+ *
+ * VARIABLES (ver AppConfig.mail):
+ * - MAIL_TRANSPORT: 'console' (por defecto) o 'file'
+ * - MAIL_FILE_DIR: Directorio de los .eml cuando MAIL_TRANSPORT=file
+ */
+@Module({
+  providers: [
+    {
+      provide: MAILER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService<AppConfig, true>) => {
+        const { transport, fileDir } = config.get('mail', { infer: true });
+        return transport === 'file'
+          ? new FileMailer(fileDir)
+          : new ConsoleMailer();
+      },
+    },
+  ],
+  exports: [MAILER],
+})
+export class MailModule {}
@@ -0,0 +1,32 @@
+/**
+ * Mensaje de correo a enviar
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  /** Cuerpo en texto plano (siempre presente) */
+  text: string;
+  /** Cuerpo HTML opcional */
+  html?: string;
+}
+
+/**
+ * Mailer - Abstracción para el envío de correos
+ *
+ * Los servicios dependen de esta interfaz (inyectada con el token MAILER),
+ * nunca de un transporte concreto. Así se puede:
+ * - Usar la consola o archivos en desarrollo (ver MAIL_TRANSPORT)
+ * - Conectar un proveedor real (SMTP, SES...) sin tocar la lógica
+ * - Reemplazarlo por un doble en las pruebas
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Token de inyección del Mailer
+ *
+ * EJEMPLO:
+ * constructor(@Inject(MAILER) private readonly mailer: Mailer) {}
+ */
+export const MAILER = Symbol('MAILER');
@@ -0,0 +1,19 @@
+import { Logger } from '@nestjs/common';
+import { Mailer, MailMessage } from '../mailer.interface';
+
+/**
+ * ConsoleMailer - Imprime los correos en el log en lugar de enviarlos
+ *
+ * Transporte por defecto en desarrollo: los enlaces de verificación
+ * aparecen directamente en la terminal.
+ */
+export class ConsoleMailer implements Mailer {
+  private readonly logger = new Logger('Mail');
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `Para: ${message.to}\nAsunto: ${message.subject}\n\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
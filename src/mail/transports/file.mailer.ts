@@ -0,0 +1,29 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Mailer, MailMessage } from '../mailer.interface';
+
+/**
+ * FileMailer - Guarda cada correo como un archivo .eml en un directorio
+ *
+ * Útil para pruebas manuales: los archivos se pueden abrir con cualquier
+ * cliente de correo o inspeccionar desde scripts.
+ */
+export class FileMailer implements Mailer {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`;
+    const content = [
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+
+    await writeFile(join(this.directory, fileName), content, 'utf8');
+  }
+}
@@ -1,15 +1,18 @@
 import { NestFactory } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { AppModule } from './app.module';
+import { AppConfig } from './config/configuration';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
+  const config = app.get<ConfigService<AppConfig, true>>(ConfigService);
 
-  // Habilitar CORS para el frontend
+  // Habilitar CORS para el frontend (CORS_ORIGINS, por defecto APP_URL)
   app.enableCors({
-    origin: 'http://localhost:5173',  // URL del frontend (Vite)
+    origin: config.get('cors.origins', { infer: true }),
     credentials: true,
   });
 
-  await app.listen(3000);
+  await app.listen(config.get('port', { infer: true }));
 }
-bootstrap();
\ No newline at end of file
+bootstrap();
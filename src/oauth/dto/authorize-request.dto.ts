@@ -0,0 +1,46 @@
+import { SkipValidation } from '../../common/decorators/skip-validation.decorator';
+
+/**
+ * AuthorizeRequestDto - Parámetros de /oauth/authorize
+ *
+ * GET los recibe en la query (redirección desde el cliente) y POST en el
+ * body (aprobación desde el frontend).
+ *
+ * NOTA: No lleva decoradores de class-validator. OAuthService los valida
+ * uno a uno porque cada error debe informarse con su código OAuth
+ * (invalid_request, invalid_scope...) y, según el caso, redirigiendo.
+ * @SkipValidation la excluye de AppValidationPipe, que además rechazaría
+ * los parámetros desconocidos (el RFC 6749 pide ignorarlos).
+ *
+ * EJEMPLO:
+ * /oauth/authorize?response_type=code&client_id=3f2a...
+ *   &redirect_uri=https%3A%2F%2Fapp.example.com%2Fcallback
+ *   &scope=openid%20profile%20email&state=xyz&nonce=n-0S6
+ *   &code_challenge=E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM
+ *   &code_challenge_method=S256
+ */
+@SkipValidation()
+export class AuthorizeRequestDto {
+  /** Solo se admite "code" */
+  response_type?: string;
+
+  client_id?: string;
+
+  /** Debe coincidir exactamente con una URI registrada del cliente */
+  redirect_uri?: string;
+
+  /** Scopes separados por espacios; por defecto "openid" */
+  scope?: string;
+
+  /** Valor opaco del cliente (anti-CSRF), se devuelve tal cual */
+  state?: string;
+
+  /** Se copia en el ID token para que el cliente detecte repeticiones */
+  nonce?: string;
+
+  /** PKCE: BASE64URL(SHA256(code_verifier)) */
+  code_challenge?: string;
+
+  /** Solo se admite "S256" */
+  code_challenge_method?: string;
+}
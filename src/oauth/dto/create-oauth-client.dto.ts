@@ -0,0 +1,84 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import {
+  CLIENT_SCOPE_PATTERN,
+  SUPPORTED_GRANT_TYPES,
+} from '../oauth.constants';
+
+/**
+ * CreateOAuthClientDto - Body de POST /oauth/clients
+ *
+ * EJEMPLO DE BODY (aplicación que inicia sesión con sus usuarios):
+ * {
+ *   "name": "Portal de clientes",
+ *   "redirect_uris": ["https://portal.example.com/callback"],
+ *   "confidential": true
+ * }
+ *
+ * EJEMPLO DE BODY (proceso de backend, client credentials):
+ * {
+ *   "name": "Sincronización nocturna",
+ *   "grant_types": ["client_credentials"],
+ *   "scopes": ["users:manage"]
+ * }
+ */
+export class CreateOAuthClientDto {
+  /**
+   * Nombre visible en la pantalla de consentimiento
+   */
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  @MaxLength(100, { message: 'El nombre no puede exceder 100 caracteres' })
+  name: string;
+
+  /**
+   * URIs de retorno permitidas (URLs absolutas, https salvo localhost)
+   * Obligatorias con authorization_code
+   */
+  @IsOptional()
+  @IsArray({ message: 'redirect_uris debe ser una lista de URLs' })
+  @ArrayMaxSize(10, { message: 'No puede registrar más de 10 redirect_uris' })
+  @IsString({ each: true, message: 'Cada redirect_uri debe ser una URL' })
+  redirect_uris?: string[];
+
+  /**
+   * Flujos habilitados (por defecto: ["authorization_code"])
+   */
+  @IsOptional()
+  @IsArray({ message: 'grant_types debe ser una lista' })
+  @ArrayNotEmpty({ message: 'Debe habilitar al menos un grant_type' })
+  @IsIn(SUPPORTED_GRANT_TYPES, {
+    each: true,
+    message: `grant_types admitidos: ${SUPPORTED_GRANT_TYPES.join(', ')}`,
+  })
+  grant_types?: string[];
+
+  /**
+   * Permisos que podrá pedir con client credentials ("recurso:acción")
+   */
+  @IsOptional()
+  @IsArray({ message: 'scopes debe ser una lista' })
+  @ArrayMaxSize(20, { message: 'No puede registrar más de 20 scopes' })
+  @Matches(CLIENT_SCOPE_PATTERN, {
+    each: true,
+    message: 'Cada scope debe tener el formato recurso:acción',
+  })
+  scopes?: string[];
+
+  /**
+   * true (por defecto): backend con secreto; false: SPA o app móvil
+   */
+  @IsOptional()
+  @IsBoolean({ message: 'confidential debe ser true o false' })
+  confidential?: boolean;
+}
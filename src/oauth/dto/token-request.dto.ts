@@ -0,0 +1,38 @@
+import { SkipValidation } from '../../common/decorators/skip-validation.decorator';
+
+/**
+ * TokenRequestDto - Body de POST /oauth/token
+ * (application/x-www-form-urlencoded, como exige OAuth2; también se acepta JSON)
+ *
+ * NOTA: Sin decoradores de class-validator y fuera de la validación global
+ * (@SkipValidation) por el mismo motivo que AuthorizeRequestDto: los
+ * errores deben tener el formato OAuth.
+ *
+ * EJEMPLO (authorization_code):
+ * grant_type=authorization_code&code=SplxlOBeZQQYbYS6WxSbIA
+ *   &redirect_uri=https%3A%2F%2Fapp.example.com%2Fcallback
+ *   &client_id=3f2a...&code_verifier=dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk
+ *
+ * EJEMPLO (client_credentials, con cabecera Basic):
+ * grant_type=client_credentials&scope=users%3Amanage
+ */
+@SkipValidation()
+export class TokenRequestDto {
+  /** "authorization_code" o "client_credentials" */
+  grant_type?: string;
+
+  /** client_credentials: scopes pedidos (por defecto, todos los asignados) */
+  scope?: string;
+
+  code?: string;
+
+  /** El mismo redirect_uri usado en /oauth/authorize */
+  redirect_uri?: string;
+
+  /** PKCE: el valor secreto a partir del cual se calculó el code_challenge */
+  code_verifier?: string;
+
+  /** Autenticación client_secret_post (alternativa a la cabecera Basic) */
+  client_id?: string;
+  client_secret?: string;
+}
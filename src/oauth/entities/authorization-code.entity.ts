@@ -0,0 +1,84 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad AuthorizationCode
+ * Código de autorización emitido por /oauth/authorize y canjeado una sola
+ * vez en /oauth/token.
+ *
+ * - Se guarda solo el hash SHA-256 del código
+ * - Guarda todo lo que el canje debe volver a comprobar: cliente,
+ *   redirect_uri y el code_challenge de PKCE
+ */
+@Entity('oauth_authorization_codes')
+@Index('UQ_oauth_authorization_codes_codeHash', ['codeHash'], { unique: true })
+export class AuthorizationCode {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Hash SHA-256 (hex) del código entregado al cliente.
+   */
+  @Column({ length: 64 })
+  codeHash: string;
+
+  /**
+   * client_id del cliente que pidió la autorización.
+   */
+  @Column({ length: 64 })
+  clientId: string;
+
+  /**
+   * Usuario que autorizó al cliente.
+   */
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /**
+   * redirect_uri de la autorización (el canje debe repetir el mismo).
+   */
+  @Column({ type: 'text' })
+  redirectUri: string;
+
+  /**
+   * Scopes concedidos, separados por espacios ("openid profile email").
+   */
+  @Column({ length: 255 })
+  scope: string;
+
+  /**
+   * PKCE: BASE64URL(SHA256(code_verifier)).
+   */
+  @Column({ length: 128 })
+  codeChallenge: string;
+
+  /**
+   * Valor "nonce" del cliente; se copia en el ID token (anti-replay).
+   */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  nonce: string | null;
+
+  @Column({ type: 'datetime' })
+  expiresAt: Date;
+
+  /**
+   * Momento en que se canjeó (null = disponible).
+   */
+  @Column({ type: 'datetime', nullable: true })
+  consumedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,65 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import type { OAuthGrantType } from '../oauth.constants';
+
+/**
+ * Entidad OAuthClient
+ * Aplicación registrada que puede usar este servicio como proveedor de
+ * identidad (flujo authorization code + PKCE) o, si es un proceso de
+ * backend, obtener tokens propios (client credentials).
+ *
+ * - Confidencial: tiene secreto (backend que puede guardarlo)
+ * - Pública: sin secreto (SPA, app móvil); PKCE es su única protección
+ */
+@Entity('oauth_clients')
+@Unique('UQ_oauth_clients_clientId', ['clientId'])
+export class OAuthClient {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Identificador público ("client_id"), viaja en las URLs
+   */
+  @Column({ length: 64 })
+  clientId: string;
+
+  /**
+   * Hash SHA-256 (hex) del "client_secret"; null en los clientes públicos.
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  clientSecretHash: string | null;
+
+  /**
+   * Nombre que se muestra al usuario en la pantalla de consentimiento.
+   */
+  @Column({ length: 100 })
+  name: string;
+
+  /**
+   * URIs de retorno permitidas. El redirect_uri de cada petición debe
+   * coincidir EXACTAMENTE con una de ellas.
+   */
+  @Column({ type: 'simple-json' })
+  redirectUris: string[];
+
+  /**
+   * Flujos habilitados (ver SUPPORTED_GRANT_TYPES).
+   */
+  @Column({ type: 'simple-json' })
+  grantTypes: OAuthGrantType[];
+
+  /**
+   * Permisos que puede pedir con client credentials (vacío si no usa ese
+   * flujo). Quitar uno invalida al instante los tokens que lo incluían.
+   */
+  @Column({ type: 'simple-json' })
+  scopes: string[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,18 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * OAuthAccessGuard - Exige un access token emitido por /oauth/token
+ * (ver src/strategies/oauth-access.strategy.ts)
+ */
+@Injectable()
+export class OAuthAccessGuard extends AuthGuard('oauth-access') {
+  handleRequest<TUser>(err: unknown, user: TUser | false): TUser {
+    if (err || !user) {
+      throw err instanceof Error
+        ? err
+        : new UnauthorizedException('Token inválido o expirado');
+    }
+    return user;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Contenido (payload) de los access tokens emitidos en /oauth/token
+ *
+ * Son distintos de los access tokens de /auth/login (typ 'access'):
+ * una aplicación de terceros NO debe poder llamar a las rutas propias del
+ * proyecto (cambiar la contraseña, desactivar la 2FA...) con ellos.
+ */
+export interface OAuthAccessTokenPayload {
+  /** Tipo de token: solo 'oauth-access' sirve en /oauth/userinfo */
+  typ: 'oauth-access';
+  /** ID del usuario que autorizó al cliente */
+  sub: number;
+  /** Cliente al que se emitió el token */
+  client_id: string;
+  /** Scopes concedidos, separados por espacios */
+  scope: string;
+  /** Identificador único del token, usado para revocarlo */
+  jti: string;
+  /** Issued At: segundos desde epoch */
+  iat: number;
+  /** Expiration: segundos desde epoch */
+  exp: number;
+}
+
+/**
+ * Contenido (payload) de los tokens de client credentials
+ *
+ * El sujeto es la propia aplicación: no hay usuario detrás.
+ */
+export interface ClientAccessTokenPayload {
+  /** Tipo de token: solo 'client-access' sirve con ServiceAuthGuard */
+  typ: 'client-access';
+  /** client_id de la aplicación (subject) */
+  sub: string;
+  client_id: string;
+  /** Permisos concedidos, separados por espacios */
+  scope: string;
+  jti: string;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Usuario y cliente que OAuthAccessStrategy adjunta a la petición (req.user)
+ */
+export interface OAuthPrincipal {
+  userId: number;
+  clientId: string;
+  scopes: string[];
+  jti: string;
+  expiresAt: Date;
+}
+
+/**
+ * Respuesta de POST /oauth/token (RFC 6749, sección 5.1)
+ */
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  /** Segundos hasta que expira el access token */
+  expires_in: number;
+  scope: string;
+  /** Solo si se concedió el scope "openid" */
+  id_token?: string;
+}
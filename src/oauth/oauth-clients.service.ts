@@ -0,0 +1,209 @@
+import { BadRequestException, HttpStatus, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { CreateOAuthClientDto } from './dto/create-oauth-client.dto';
+import { OAuthError } from './oauth.errors';
+import { hashToken } from '../auth/utils/hash-token';
+import {
+  CLIENT_SCOPE_PATTERN,
+  OAuthGrantType,
+  SUPPORTED_GRANT_TYPES,
+} from './oauth.constants';
+
+/**
+ * Hosts que pueden usar http:// en una redirect_uri (desarrollo local,
+ * apps nativas con servidor loopback - RFC 8252)
+ */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Resultado de registrar un cliente
+ * - clientSecret: Solo se entrega esta vez (se guarda hasheado);
+ *   undefined en los clientes públicos
+ */
+export interface RegisteredOAuthClient {
+  client: OAuthClient;
+  clientSecret?: string;
+}
+
+/**
+ * Credenciales presentadas por un cliente en /oauth/token
+ */
+export interface ClientCredentials {
+  clientId?: string;
+  clientSecret?: string;
+}
+
+/**
+ * OAuthClientsService - Registro y autenticación de clientes OAuth2
+ *
+ * RESPONSABILIDADES:
+ * 1. Registrar aplicaciones con sus flujos, redirect_uris y scopes permitidos
+ * 2. Buscar clientes por client_id
+ * 3. Autenticar clientes confidenciales (client_secret)
+ */
+@Injectable()
+export class OAuthClientsService {
+  constructor(
+    @InjectRepository(OAuthClient)
+    private readonly clientsRepository: Repository<OAuthClient>,
+  ) {}
+
+  /**
+   * Registra un cliente nuevo
+   *
+   * REGLAS:
+   * - authorization_code (por defecto): al menos una redirect_uri válida
+   * - client_credentials: cliente confidencial y al menos un scope; sin
+   *   secreto cualquiera podría pedir tokens en su nombre
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): Algún grant_type, redirect_uri o scope no
+   *   es válido
+   */
+  async register(dto: CreateOAuthClientDto): Promise<RegisteredOAuthClient> {
+    const grantTypes = [...new Set(dto.grant_types ?? ['authorization_code'])];
+    if (grantTypes.length === 0 || !grantTypes.every(isSupportedGrantType)) {
+      throw new BadRequestException(
+        `grant_types admitidos: ${SUPPORTED_GRANT_TYPES.join(', ')}`,
+      );
+    }
+
+    const redirectUris = [...new Set(dto.redirect_uris ?? [])];
+    if (grantTypes.includes('authorization_code')) {
+      if (redirectUris.length === 0) {
+        throw new BadRequestException(
+          'Debe registrar al menos una redirect_uri',
+        );
+      }
+      redirectUris.forEach(assertValidRedirectUri);
+    } else if (redirectUris.length > 0) {
+      throw new BadRequestException(
+        'Las redirect_uris solo se usan con authorization_code',
+      );
+    }
+
+    const scopes = [...new Set(dto.scopes ?? [])];
+    if (grantTypes.includes('client_credentials')) {
+      if (dto.confidential === false) {
+        throw new BadRequestException(
+          'client_credentials requiere un cliente confidencial',
+        );
+      }
+      if (
+        scopes.length === 0 ||
+        !scopes.every((scope) => CLIENT_SCOPE_PATTERN.test(scope))
+      ) {
+        throw new BadRequestException(
+          'Debe asignar al menos un scope con el formato recurso:acción',
+        );
+      }
+    } else if (scopes.length > 0) {
+      throw new BadRequestException(
+        'Los scopes solo se asignan con client_credentials',
+      );
+    }
+
+    // Confidencial por defecto: solo se crean clientes públicos a propósito
+    const clientSecret =
+      dto.confidential === false
+        ? undefined
+        : randomBytes(32).toString('base64url');
+
+    const client = await this.clientsRepository.save(
+      this.clientsRepository.create({
+        clientId: randomBytes(16).toString('hex'),
+        clientSecretHash: clientSecret ? hashToken(clientSecret) : null,
+        name: dto.name,
+        redirectUris,
+        grantTypes,
+        scopes,
+      }),
+    );
+
+    return { client, clientSecret };
+  }
+
+  /**
+   * Busca un cliente por su client_id
+   */
+  findByClientId(clientId: string): Promise<OAuthClient | null> {
+    return this.clientsRepository.findOne({ where: { clientId } });
+  }
+
+  /**
+   * Identifica al cliente que llama a /oauth/token
+   *
+   * ALGORITMO:
+   * 1. Busca el cliente por client_id
+   * 2. Si es confidencial, exige su client_secret (comparación en tiempo constante)
+   * 3. Si es público no hay secreto que comprobar: lo protege PKCE
+   *
+   * EXCEPCIONES:
+   * - OAuthError invalid_client (401): Cliente desconocido o secreto incorrecto
+   */
+  async authenticate({
+    clientId,
+    clientSecret,
+  }: ClientCredentials): Promise<OAuthClient> {
+    const client = clientId ? await this.findByClientId(clientId) : null;
+
+    if (
+      !client ||
+      (client.clientSecretHash !== null &&
+        !secretMatches(clientSecret, client.clientSecretHash))
+    ) {
+      throw new OAuthError(
+        'invalid_client',
+        'Autenticación del cliente fallida',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+    return client;
+  }
+}
+
+/**
+ * Compara un secreto con su hash guardado en tiempo constante
+ */
+function secretMatches(
+  secret: string | undefined,
+  storedHash: string,
+): boolean {
+  if (!secret) {
+    return false;
+  }
+  return timingSafeEqual(
+    Buffer.from(hashToken(secret)),
+    Buffer.from(storedHash),
+  );
+}
+
+function isSupportedGrantType(value: string): value is OAuthGrantType {
+  return (SUPPORTED_GRANT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Valida una redirect_uri al registrarla
+ *
+ * - URL absoluta sin fragmento (#): el código viaja en la query
+ * - https obligatorio, salvo http hacia loopback
+ */
+function assertValidRedirectUri(uri: string): void {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new BadRequestException(`redirect_uri inválida: ${uri}`);
+  }
+
+  const isLoopback =
+    url.protocol === 'http:' && LOOPBACK_HOSTS.includes(url.hostname);
+  if ((url.protocol !== 'https:' && !isLoopback) || url.hash) {
+    throw new BadRequestException(
+      `redirect_uri inválida: ${uri} (use https y no incluya fragmento)`,
+    );
+  }
+}
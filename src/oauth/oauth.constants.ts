@@ -0,0 +1,52 @@
+// ============================================
+// CONSTANTES DEL SERVIDOR DE AUTORIZACIÓN
+// ============================================
+
+// NOTA: El issuer (URL pública del proveedor) se configura con la variable
+// OIDC_ISSUER (ver src/config/configuration.ts)
+
+/**
+ * Vigencia de los códigos de autorización (en milisegundos): 1 minuto
+ * - El cliente los canjea inmediatamente tras la redirección
+ * - Cuanto menos duren, menos sirve un código interceptado
+ */
+export const AUTHORIZATION_CODE_TTL_MS = 60 * 1000;
+
+/**
+ * Vigencia de los ID tokens (en segundos): 1 hora
+ */
+export const ID_TOKEN_EXPIRES_IN_SECONDS = 60 * 60;
+
+/**
+ * Scopes que entiende este proveedor
+ * - openid: Obligatorio para recibir un ID token
+ * - profile: Claims "username" y "preferred_username"
+ * - email: Claims "email" y "email_verified"
+ */
+export const SUPPORTED_SCOPES = ['openid', 'profile', 'email'];
+
+/**
+ * Flujos (grant types) que puede tener habilitados un cliente
+ * - authorization_code: Una aplicación actúa en nombre de un usuario
+ *   (con su consentimiento, PKCE obligatorio)
+ * - client_credentials: Un proceso de backend actúa en nombre propio,
+ *   con los scopes que se le asignaron al registrarlo
+ */
+export const SUPPORTED_GRANT_TYPES = [
+  'authorization_code',
+  'client_credentials',
+] as const;
+
+export type OAuthGrantType = (typeof SUPPORTED_GRANT_TYPES)[number];
+
+/**
+ * Formato de los scopes de client credentials: son permisos
+ * ("recurso:acción", ver src/auth/policies/permission.enum.ts)
+ */
+export const CLIENT_SCOPE_PATTERN = /^[a-z][a-z0-9-]*:[a-z][a-z0-9-]*$/;
+
+/**
+ * Ruta del frontend donde el usuario inicia sesión y aprueba al cliente
+ * (relativa a APP_URL). Recibe los mismos parámetros que /oauth/authorize.
+ */
+export const CONSENT_PATH = '/oauth/consent';
@@ -0,0 +1,139 @@
+// ============================================
+// IMPORTACIONES
+// ============================================
+
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Redirect,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { OAuthService } from './oauth.service';
+import { OAuthClientsService } from './oauth-clients.service';
+import { OAuthRedirectError } from './oauth.errors';
+import { AuthorizeRequestDto } from './dto/authorize-request.dto';
+import { TokenRequestDto } from './dto/token-request.dto';
+import { CreateOAuthClientDto } from './dto/create-oauth-client.dto';
+import { OAuthAccessGuard } from './guards/oauth-access.guard';
+import { parseBasicCredentials } from './utils/basic-auth';
+import { OAuthPrincipal } from './interfaces/oauth-token.interface';
+import { SessionAuthGuard } from '../auth/guards/session-auth.guard';
+import { ServiceAuthGuard } from '../auth/guards/service-auth.guard';
+import { PoliciesGuard } from '../auth/guards/policies.guard';
+import { CheckPolicies } from '../auth/decorators/check-policies.decorator';
+import { canManageOAuthClients } from './policies/oauth-clients.policies';
+import { AuthenticatedUser } from '../auth/interfaces/jwt-payload.interface';
+
+// ============================================
+// CONTROLADOR OAUTH2 / OPENID CONNECT
+// ============================================
+
+@Controller('oauth')
+export class OAuthController {
+  constructor(
+    private readonly oauthService: OAuthService,
+    private readonly oauthClientsService: OAuthClientsService,
+  ) {}
+
+  /**
+   * GET /oauth/authorize
+   * Inicio del flujo: el navegador llega aquí desde la aplicación cliente
+   * Ruta PÚBLICA - redirige (302) a la pantalla de consentimiento del
+   * frontend, o a la redirect_uri del cliente con ?error=... si la
+   * petición es inválida
+   */
+  @Get('authorize')
+  @Redirect()
+  async startAuthorization(@Query() query: AuthorizeRequestDto) {
+    try {
+      return { url: await this.oauthService.consentUrl(query) };
+    } catch (error) {
+      if (error instanceof OAuthRedirectError) {
+        return { url: this.oauthService.errorRedirectUrl(error) };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * POST /oauth/authorize
+   * El usuario aprobó al cliente en el frontend: emite el código
+   * Ruta PROTEGIDA - requiere la sesión del usuario (una API key no puede
+   * autorizar aplicaciones en su nombre)
+   *
+   * RESPUESTA: { "redirect_to": "https://app.example.com/callback?code=...&state=..." }
+   * El frontend navega a esa URL para devolver el control al cliente.
+   */
+  @UseGuards(SessionAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @Post('authorize')
+  async approveAuthorization(
+    @Req() req: Request & { user: AuthenticatedUser },
+    @Body() body: AuthorizeRequestDto,
+  ) {
+    return { redirect_to: await this.oauthService.authorize(req.user, body) };
+  }
+
+  /**
+   * POST /oauth/token
+   * Canje del código de autorización por tokens, o token propio de una
+   * aplicación con grant_type=client_credentials
+   * Ruta PÚBLICA - el cliente se autentica con Basic o client_secret en el body
+   * (los clientes públicos solo envían client_id y dependen de PKCE)
+   */
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  @Header('Pragma', 'no-cache')
+  @Post('token')
+  token(
+    @Body() body: TokenRequestDto,
+    @Headers('authorization') authorization?: string,
+  ) {
+    return this.oauthService.token(body, parseBasicCredentials(authorization));
+  }
+
+  /**
+   * GET /oauth/userinfo
+   * Claims del usuario según los scopes concedidos
+   * Ruta PROTEGIDA - requiere un access token emitido por /oauth/token
+   */
+  @UseGuards(OAuthAccessGuard)
+  @Get('userinfo')
+  userInfo(@Req() req: Request & { user: OAuthPrincipal }) {
+    return this.oauthService.userInfo(req.user);
+  }
+
+  /**
+   * POST /oauth/clients
+   * Registra una aplicación cliente
+   * Ruta PROTEGIDA - requiere el permiso oauth-clients:manage
+   *
+   * RESPUESTA: el client_secret solo se muestra esta vez
+   */
+  @UseGuards(ServiceAuthGuard, PoliciesGuard)
+  @CheckPolicies(canManageOAuthClients)
+  @Post('clients')
+  async registerClient(@Body() createOAuthClientDto: CreateOAuthClientDto) {
+    const { client, clientSecret } =
+      await this.oauthClientsService.register(createOAuthClientDto);
+
+    return {
+      client_id: client.clientId,
+      client_secret: clientSecret,
+      name: client.name,
+      grant_types: client.grantTypes,
+      redirect_uris: client.redirectUris,
+      scope: client.scopes.join(' ') || undefined,
+      token_endpoint_auth_method: clientSecret ? 'client_secret_basic' : 'none',
+    };
+  }
+}
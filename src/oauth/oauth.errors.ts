@@ -0,0 +1,51 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Códigos de error estándar de OAuth2 (RFC 6749, sección 4.1.2.1 y 5.2)
+ */
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'invalid_scope'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type'
+  | 'unsupported_response_type'
+  | 'access_denied';
+
+/**
+ * OAuthError - Error con el formato que esperan los clientes OAuth2
+ *
+ * RESPUESTA:
+ * { "error": "invalid_grant", "error_description": "..." }
+ *
+ * EJEMPLO:
+ * throw new OAuthError('invalid_client', 'Cliente desconocido', HttpStatus.UNAUTHORIZED);
+ */
+export class OAuthError extends HttpException {
+  constructor(
+    readonly error: OAuthErrorCode,
+    readonly description: string,
+    status: HttpStatus = HttpStatus.BAD_REQUEST,
+  ) {
+    super({ error, error_description: description }, status);
+  }
+}
+
+/**
+ * OAuthRedirectError - Error de autorización que se informa al cliente
+ * redirigiendo a su redirect_uri (ya validado) con ?error=...&state=...
+ *
+ * Los errores de client_id o redirect_uri NUNCA se redirigen: se usaría
+ * la aplicación como redirector abierto hacia URLs no registradas.
+ */
+export class OAuthRedirectError extends OAuthError {
+  constructor(
+    error: OAuthErrorCode,
+    description: string,
+    readonly redirectUri: string,
+    readonly state?: string,
+  ) {
+    super(error, description);
+  }
+}
@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { PassportModule } from '@nestjs/passport';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+import { PoliciesModule } from '../auth/policies/policies.module';
+import { OAuthAccessStrategy } from '../strategies/oauth-access.strategy';
+import { ClientCredentialsStrategy } from '../strategies/client-credentials.strategy';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { AuthorizationCode } from './entities/authorization-code.entity';
+import { OAuthClientsService } from './oauth-clients.service';
+import { OAuthService } from './oauth.service';
+import { OAuthController } from './oauth.controller';
+import { OidcDiscoveryController } from './oidc-discovery.controller';
+
+/**
+ * OAuthModule - Este servicio como proveedor de identidad (OAuth2 + OIDC)
+ * para las demás aplicaciones. Firma con el keystore de AuthModule.
+ */
+@Module({
+  imports: [
+    AuthModule,
+    UsersModule,
+    PoliciesModule,
+    PassportModule,
+    TypeOrmModule.forFeature([OAuthClient, AuthorizationCode]),
+  ],
+  controllers: [OAuthController, OidcDiscoveryController],
+  providers: [
+    OAuthClientsService,
+    OAuthService,
+    OAuthAccessStrategy,
+    ClientCredentialsStrategy,
+  ],
+})
+export class OAuthModule {}
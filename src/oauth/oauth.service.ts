@@ -0,0 +1,531 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { randomBytes, randomUUID } from 'crypto';
+import { AppConfig } from '../config/configuration';
+import { KeystoreService } from '../auth/keys/keystore.service';
+import { hashToken } from '../auth/utils/hash-token';
+import { AuthenticatedUser } from '../auth/interfaces/jwt-payload.interface';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { AuthorizationCode } from './entities/authorization-code.entity';
+import { OAuthClient } from './entities/oauth-client.entity';
+import {
+  ClientCredentials,
+  OAuthClientsService,
+} from './oauth-clients.service';
+import { AuthorizeRequestDto } from './dto/authorize-request.dto';
+import { TokenRequestDto } from './dto/token-request.dto';
+import { OAuthError, OAuthErrorCode, OAuthRedirectError } from './oauth.errors';
+import {
+  AUTHORIZATION_CODE_TTL_MS,
+  CONSENT_PATH,
+  ID_TOKEN_EXPIRES_IN_SECONDS,
+  SUPPORTED_SCOPES,
+} from './oauth.constants';
+import { isS256Challenge, verifyPkce } from '../auth/utils/pkce';
+import {
+  OAuthPrincipal,
+  OAuthTokenResponse,
+} from './interfaces/oauth-token.interface';
+
+/**
+ * Petición de autorización ya validada
+ */
+export interface ValidatedAuthorizationRequest {
+  client: OAuthClient;
+  redirectUri: string;
+  scopes: string[];
+  state?: string;
+  nonce?: string;
+  codeChallenge: string;
+}
+
+/**
+ * OAuthService - Servidor de autorización OAuth2 / OpenID Connect
+ *
+ * FLUJO AUTHORIZATION CODE + PKCE:
+ * 1. El cliente genera un code_verifier secreto y redirige al navegador a
+ *    GET /oauth/authorize con su SHA-256 (code_challenge)
+ * 2. Validamos cliente y redirect_uri y enviamos al usuario a la pantalla
+ *    de consentimiento del frontend
+ * 3. El frontend (con la sesión del usuario) aprueba con POST /oauth/authorize
+ *    y recibe la URL de retorno con un código de un solo uso
+ * 4. El cliente canjea el código + code_verifier en POST /oauth/token y
+ *    recibe un access token y un ID token
+ *
+ * Un código interceptado no sirve sin el code_verifier, que nunca viajó
+ * por el navegador.
+ */
+@Injectable()
+export class OAuthService {
+  constructor(
+    private readonly oauthClientsService: OAuthClientsService,
+    @InjectRepository(AuthorizationCode)
+    private readonly codesRepository: Repository<AuthorizationCode>,
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+    private readonly keystoreService: KeystoreService,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  // ==========================================
+  // AUTORIZACIÓN
+  // ==========================================
+
+  /**
+   * Valida los parámetros de /oauth/authorize
+   *
+   * ALGORITMO:
+   * 1. client_id y redirect_uri: si fallan, error directo (400), NUNCA
+   *    redirección a una URL no registrada
+   * 2. response_type, scope y PKCE: si fallan, el error se informa al
+   *    cliente redirigiendo a su redirect_uri (OAuthRedirectError)
+   *
+   * EXCEPCIONES:
+   * - OAuthError (400): Cliente desconocido o redirect_uri no registrada
+   * - OAuthRedirectError (400): El resto de parámetros inválidos
+   */
+  async validateAuthorizationRequest(
+    params: AuthorizeRequestDto,
+  ): Promise<ValidatedAuthorizationRequest> {
+    const clientId = asString(params.client_id);
+    const client = clientId
+      ? await this.oauthClientsService.findByClientId(clientId)
+      : null;
+    if (!client) {
+      throw new OAuthError('invalid_request', 'Cliente desconocido');
+    }
+    if (!client.grantTypes.includes('authorization_code')) {
+      throw new OAuthError(
+        'unauthorized_client',
+        'El cliente no tiene habilitado el flujo authorization_code',
+      );
+    }
+
+    // Sin redirect_uri solo se acepta si el cliente registró una única URI
+    const redirectUri =
+      asString(params.redirect_uri) ??
+      (client.redirectUris.length === 1 ? client.redirectUris[0] : undefined);
+    if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+      throw new OAuthError(
+        'invalid_request',
+        'La redirect_uri no está registrada para este cliente',
+      );
+    }
+
+    // A partir de aquí la redirect_uri es de confianza
+    const state = asString(params.state);
+    const fail = (error: OAuthErrorCode, description: string) =>
+      new OAuthRedirectError(error, description, redirectUri, state);
+
+    if (asString(params.response_type) !== 'code') {
+      throw fail(
+        'unsupported_response_type',
+        'Solo se admite response_type=code',
+      );
+    }
+
+    const scopes = parseScopes(asString(params.scope) ?? 'openid');
+    if (!scopes.every((scope) => SUPPORTED_SCOPES.includes(scope))) {
+      throw fail(
+        'invalid_scope',
+        `Scopes admitidos: ${SUPPORTED_SCOPES.join(' ')}`,
+      );
+    }
+
+    // PKCE obligatorio para todos los clientes y solo con S256
+    // ("plain" enviaría el verificador en claro por el navegador)
+    const codeChallenge = asString(params.code_challenge);
+    if (
+      !codeChallenge ||
+      asString(params.code_challenge_method) !== 'S256' ||
+      !isS256Challenge(codeChallenge)
+    ) {
+      throw fail(
+        'invalid_request',
+        'PKCE es obligatorio: envíe code_challenge con code_challenge_method=S256',
+      );
+    }
+
+    return {
+      client,
+      redirectUri,
+      scopes,
+      state,
+      nonce: asString(params.nonce),
+      codeChallenge,
+    };
+  }
+
+  /**
+   * URL de la pantalla de consentimiento del frontend (GET /oauth/authorize)
+   *
+   * Reenvía los parámetros ya normalizados y el nombre del cliente para
+   * que el usuario sepa a quién está dando acceso.
+   */
+  async consentUrl(params: AuthorizeRequestDto): Promise<string> {
+    const request = await this.validateAuthorizationRequest(params);
+
+    return buildUrl(
+      `${this.config.get('appUrl', { infer: true })}${CONSENT_PATH}`,
+      {
+        response_type: 'code',
+        client_id: request.client.clientId,
+        client_name: request.client.name,
+        redirect_uri: request.redirectUri,
+        scope: request.scopes.join(' '),
+        state: request.state,
+        nonce: request.nonce,
+        code_challenge: request.codeChallenge,
+        code_challenge_method: 'S256',
+      },
+    );
+  }
+
+  /**
+   * Emite un código de autorización (el usuario aprobó al cliente)
+   *
+   * @param user - Usuario autenticado en el frontend
+   * @param params - Los mismos parámetros de GET /oauth/authorize
+   * @returns URL de retorno del cliente con ?code=...&state=...
+   *
+   * SEGURIDAD:
+   * - El código es aleatorio (256 bits) y se guarda solo su hash
+   * - Dura AUTHORIZATION_CODE_TTL_MS y se canjea una sola vez
+   */
+  async authorize(
+    user: AuthenticatedUser,
+    params: AuthorizeRequestDto,
+  ): Promise<string> {
+    const request = await this.validateAuthorizationRequest(params);
+    const code = randomBytes(32).toString('base64url');
+
+    await this.codesRepository.save(
+      this.codesRepository.create({
+        codeHash: hashToken(code),
+        clientId: request.client.clientId,
+        userId: user.userId,
+        redirectUri: request.redirectUri,
+        scope: request.scopes.join(' '),
+        codeChallenge: request.codeChallenge,
+        nonce: request.nonce ?? null,
+        expiresAt: new Date(Date.now() + AUTHORIZATION_CODE_TTL_MS),
+      }),
+    );
+
+    return buildUrl(request.redirectUri, { code, state: request.state });
+  }
+
+  /**
+   * URL de retorno del cliente con el error (?error=...&state=...)
+   */
+  errorRedirectUrl(error: OAuthRedirectError): string {
+    return buildUrl(error.redirectUri, {
+      error: error.error,
+      error_description: error.description,
+      state: error.state,
+    });
+  }
+
+  // ==========================================
+  // EMISIÓN DE TOKENS
+  // ==========================================
+
+  /**
+   * POST /oauth/token: emite tokens según el grant_type
+   *
+   * - authorization_code: canje del código (ver exchangeCode)
+   * - client_credentials: token propio de la aplicación (ver clientCredentials)
+   *
+   * EXCEPCIONES:
+   * - OAuthError unsupported_grant_type (400)
+   * - Las de cada flujo
+   */
+  token(
+    body: TokenRequestDto,
+    basicCredentials?: ClientCredentials,
+  ): Promise<OAuthTokenResponse> {
+    const credentials = basicCredentials ?? {
+      clientId: asString(body.client_id),
+      clientSecret: asString(body.client_secret),
+    };
+
+    switch (asString(body.grant_type)) {
+      case 'authorization_code':
+        return this.exchangeCode(body, credentials);
+      case 'client_credentials':
+        return this.clientCredentials(body, credentials);
+      default:
+        throw new OAuthError(
+          'unsupported_grant_type',
+          'grant_type admitidos: authorization_code, client_credentials',
+        );
+    }
+  }
+
+  /**
+   * Canjea un código de autorización por tokens
+   *
+   * ALGORITMO:
+   * 1. Autentica al cliente (secreto si es confidencial)
+   * 2. Consume el código: del mismo cliente, vigente y sin usar
+   * 3. Comprueba redirect_uri y PKCE (code_verifier)
+   * 4. Emite el access token y, con scope openid, el ID token
+   *
+   * El código se consume ANTES de comprobar el code_verifier: un atacante
+   * con un código robado tiene un único intento.
+   *
+   * EXCEPCIONES:
+   * - OAuthError invalid_client (401)
+   * - OAuthError invalid_grant (400): Código inválido, expirado, usado,
+   *   de otro cliente, redirect_uri distinta o code_verifier incorrecto
+   */
+  private async exchangeCode(
+    body: TokenRequestDto,
+    credentials: ClientCredentials,
+  ): Promise<OAuthTokenResponse> {
+    const client = await this.oauthClientsService.authenticate(credentials);
+
+    const invalidGrant = () =>
+      new OAuthError(
+        'invalid_grant',
+        'El código de autorización es inválido o ha expirado',
+      );
+
+    const code = asString(body.code);
+    const stored = code
+      ? await this.codesRepository.findOne({
+          where: { codeHash: hashToken(code) },
+        })
+      : null;
+    if (
+      !stored ||
+      stored.clientId !== client.clientId ||
+      stored.consumedAt ||
+      stored.expiresAt.getTime() <= Date.now()
+    ) {
+      throw invalidGrant();
+    }
+
+    // Actualización condicional: dos canjes simultáneos no pueden tener
+    // éxito ambos
+    const result = await this.codesRepository.update(
+      { id: stored.id, consumedAt: IsNull() },
+      { consumedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw invalidGrant();
+    }
+
+    const codeVerifier = asString(body.code_verifier);
+    if (
+      asString(body.redirect_uri) !== stored.redirectUri ||
+      !codeVerifier ||
+      !verifyPkce(codeVerifier, stored.codeChallenge)
+    ) {
+      throw invalidGrant();
+    }
+
+    const user = await this.usersService.findById(stored.userId);
+    if (!user || !user.isActive) {
+      throw invalidGrant();
+    }
+
+    const scopes = parseScopes(stored.scope);
+    const expiresIn = this.config.get('jwt.accessTokenTtl', { infer: true });
+
+    return {
+      access_token: this.signAccessToken(user, client, stored.scope),
+      token_type: 'Bearer',
+      expires_in: expiresIn,
+      scope: stored.scope,
+      ...(scopes.includes('openid') && {
+        id_token: this.signIdToken(user, client, scopes, stored),
+      }),
+    };
+  }
+
+  /**
+   * Emite un token para la propia aplicación (procesos de backend)
+   *
+   * ALGORITMO:
+   * 1. Autentica al cliente: siempre confidencial en este flujo
+   * 2. El cliente debe tener habilitado client_credentials
+   * 3. Scopes: los pedidos (deben estar entre los asignados) o, si no pide
+   *    ninguno, todos los asignados
+   * 4. Emite solo un access token: sin refresh token (el cliente puede
+   *    pedir otro cuando quiera) ni ID token (no hay usuario)
+   *
+   * EXCEPCIONES:
+   * - OAuthError invalid_client (401)
+   * - OAuthError unauthorized_client (400): Flujo no habilitado
+   * - OAuthError invalid_scope (400): Pide scopes que no tiene asignados
+   */
+  private async clientCredentials(
+    body: TokenRequestDto,
+    credentials: ClientCredentials,
+  ): Promise<OAuthTokenResponse> {
+    const client = await this.oauthClientsService.authenticate(credentials);
+    if (
+      client.clientSecretHash === null ||
+      !client.grantTypes.includes('client_credentials')
+    ) {
+      throw new OAuthError(
+        'unauthorized_client',
+        'El cliente no tiene habilitado el flujo client_credentials',
+      );
+    }
+
+    const requested = asString(body.scope);
+    const scopes = requested ? parseScopes(requested) : client.scopes;
+    if (!scopes.every((scope) => client.scopes.includes(scope))) {
+      throw new OAuthError(
+        'invalid_scope',
+        `Scopes asignados al cliente: ${client.scopes.join(' ')}`,
+      );
+    }
+
+    const scope = scopes.join(' ');
+    return {
+      access_token: this.jwtService.sign(
+        {
+          typ: 'client-access',
+          sub: client.clientId,
+          client_id: client.clientId,
+          scope,
+        },
+        { jwtid: randomUUID(), ...this.keystoreService.signOptions() },
+      ),
+      token_type: 'Bearer',
+      expires_in: this.config.get('jwt.accessTokenTtl', { infer: true }),
+      scope,
+    };
+  }
+
+  // ==========================================
+  // USERINFO
+  // ==========================================
+
+  /**
+   * Claims del usuario para GET /oauth/userinfo, según los scopes del token
+   *
+   * EXCEPCIONES:
+   * - UnauthorizedException (401): El usuario ya no existe
+   */
+  async userInfo(principal: OAuthPrincipal): Promise<Record<string, unknown>> {
+    const user = await this.usersService.findById(principal.userId);
+    if (!user) {
+      throw new UnauthorizedException('Token inválido o expirado');
+    }
+    return this.claimsFor(user, principal.scopes);
+  }
+
+  // ==========================================
+  // MÉTODOS PRIVADOS
+  // ==========================================
+
+  /**
+   * Claims de identidad según los scopes concedidos
+   *
+   * - Siempre: sub (como texto, lo exige OpenID Connect)
+   * - email: email, email_verified
+   * - profile: username (el mismo claim de los access tokens de
+   *   /auth/login) y su equivalente estándar preferred_username
+   */
+  private claimsFor(user: User, scopes: string[]): Record<string, unknown> {
+    return {
+      sub: String(user.id),
+      ...(scopes.includes('email') && {
+        email: user.email,
+        email_verified: user.emailVerifiedAt !== null,
+      }),
+      ...(scopes.includes('profile') && {
+        username: user.username,
+        preferred_username: user.username,
+      }),
+    };
+  }
+
+  /**
+   * Firma el access token del cliente (typ 'oauth-access')
+   *
+   * Usa la clave del keystore: las APIs de las otras aplicaciones lo
+   * verifican con /.well-known/jwks.json.
+   */
+  private signAccessToken(
+    user: User,
+    client: OAuthClient,
+    scope: string,
+  ): string {
+    return this.jwtService.sign(
+      { typ: 'oauth-access', sub: user.id, client_id: client.clientId, scope },
+      { jwtid: randomUUID(), ...this.keystoreService.signOptions() },
+    );
+  }
+
+  /**
+   * Firma el ID token: quién es el usuario, para qué cliente (aud) y
+   * quién lo afirma (iss)
+   *
+   * Siempre lleva sub, email y username (los claims del access token de
+   * /auth/login), aunque solo se pida el scope openid. Los scopes email y
+   * profile agregan email_verified y preferred_username.
+   */
+  private signIdToken(
+    user: User,
+    client: OAuthClient,
+    scopes: string[],
+    code: AuthorizationCode,
+  ): string {
+    return this.jwtService.sign(
+      {
+        ...this.claimsFor(user, scopes),
+        email: user.email,
+        username: user.username,
+        // Momento en que el usuario aprobó la autorización
+        auth_time: Math.floor(code.createdAt.getTime() / 1000),
+        ...(code.nonce && { nonce: code.nonce }),
+      },
+      {
+        ...this.keystoreService.signOptions(),
+        issuer: this.config.get('oidc.issuer', { infer: true }),
+        audience: client.clientId,
+        expiresIn: ID_TOKEN_EXPIRES_IN_SECONDS,
+      },
+    );
+  }
+}
+
+/**
+ * Lee un parámetro de texto (una query repetida llega como array: se ignora)
+ */
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * "openid  profile openid" → ['openid', 'profile']
+ */
+function parseScopes(scope: string): string[] {
+  return [...new Set(scope.split(' ').filter(Boolean))];
+}
+
+/**
+ * Agrega parámetros a una URL conservando los que ya tenía
+ * (omite los undefined)
+ */
+function buildUrl(
+  base: string,
+  params: Record<string, string | undefined>,
+): string {
+  const url = new URL(base);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(name, value);
+    }
+  }
+  return url.toString();
+}
@@ -0,0 +1,59 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from '../config/configuration';
+import { SIGNING_ALGORITHMS } from '../auth/keys/keystore.service';
+import { SUPPORTED_GRANT_TYPES, SUPPORTED_SCOPES } from './oauth.constants';
+
+/**
+ * OidcDiscoveryController - Documento de descubrimiento de OpenID Connect
+ *
+ * Las librerías cliente (openid-client, oidc-client-ts...) solo necesitan
+ * el issuer: leen este documento y de ahí sacan los endpoints y el JWKS.
+ */
+@Controller('.well-known')
+export class OidcDiscoveryController {
+  constructor(private readonly config: ConfigService<AppConfig, true>) {}
+
+  /**
+   * GET /.well-known/openid-configuration
+   * Metadatos del proveedor (OpenID Connect Discovery 1.0)
+   * Ruta PÚBLICA - cacheable
+   */
+  @Get('openid-configuration')
+  @Header('Cache-Control', 'public, max-age=300')
+  configuration() {
+    const issuer = this.config.get('oidc.issuer', { infer: true });
+
+    return {
+      issuer,
+      authorization_endpoint: `${issuer}/oauth/authorize`,
+      token_endpoint: `${issuer}/oauth/token`,
+      userinfo_endpoint: `${issuer}/oauth/userinfo`,
+      jwks_uri: `${issuer}/.well-known/jwks.json`,
+      response_types_supported: ['code'],
+      grant_types_supported: SUPPORTED_GRANT_TYPES,
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: SIGNING_ALGORITHMS,
+      scopes_supported: SUPPORTED_SCOPES,
+      token_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+        'none',
+      ],
+      code_challenge_methods_supported: ['S256'],
+      claims_supported: [
+        'sub',
+        'iss',
+        'aud',
+        'exp',
+        'iat',
+        'auth_time',
+        'nonce',
+        'email',
+        'email_verified',
+        'username',
+        'preferred_username',
+      ],
+    };
+  }
+}
@@ -0,0 +1,10 @@
+import { Permission } from '../../auth/policies/permission.enum';
+import { PolicyHandler } from '../../auth/policies/policy-handler.interface';
+
+/**
+ * Registrar aplicaciones cliente: administradores, o aplicaciones con el
+ * scope oauth-clients:manage. Un cliente puede pedir en nombre de los
+ * usuarios sus datos, por eso no basta con users:manage.
+ */
+export const canManageOAuthClients: PolicyHandler = (ability) =>
+  ability.can(Permission.OAuthClientsManage);
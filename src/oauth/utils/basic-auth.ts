@@ -0,0 +1,34 @@
+import { ClientCredentials } from '../oauth-clients.service';
+
+/**
+ * Lee las credenciales de la cabecera "Authorization: Basic ..."
+ * (client_secret_basic, RFC 6749 sección 2.3.1)
+ *
+ * El client_id y el secreto van codificados como form-urlencoded antes
+ * del base64.
+ *
+ * @returns undefined si la cabecera no es de tipo Basic o está mal formada
+ */
+export function parseBasicCredentials(
+  authorization?: string,
+): ClientCredentials | undefined {
+  const match = /^Basic\s+(\S+)$/i.exec(authorization ?? '');
+  if (!match) {
+    return undefined;
+  }
+
+  const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator < 0) {
+    return undefined;
+  }
+
+  try {
+    return {
+      clientId: decodeURIComponent(decoded.slice(0, separator)),
+      clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+    };
+  } catch {
+    return undefined;
+  }
+}
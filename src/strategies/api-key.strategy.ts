@@ -0,0 +1,60 @@
+// ============================================
+// IMPORTACIONES NECESARIAS
+// ============================================
+
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import type { Request } from 'express';
+// passport-custom: estrategia cuyo único paso es nuestro validate(req)
+import { Strategy } from 'passport-custom';
+import { ApiKeysService } from '../auth/api-keys.service';
+import { API_KEY_HEADER } from '../auth/auth.constants';
+import { ApiKeyUser } from '../auth/interfaces/jwt-payload.interface';
+
+// ============================================
+// ESTRATEGIA 'api-key'
+// ============================================
+
+// Autentica las peticiones que traen una API key personal:
+//
+//   X-API-Key: ak_3f2a9c1b7d4e_kQ7v...
+//
+// Convive con JwtStrategy en el mismo guard (JwtAuthGuard prueba 'jwt' y
+// luego 'api-key'): cada ruta protegida acepta cualquiera de las dos
+// credenciales y el controlador recibe al usuario igual en ambos casos.
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(private readonly apiKeysService: ApiKeysService) {
+    super();
+  }
+
+  async validate(req: Request): Promise<ApiKeyUser | null> {
+    // PASO 1: Sin cabecera no hay nada que validar: null deja que el
+    // guard pruebe otra estrategia o responda 401
+    const key = req.headers[API_KEY_HEADER];
+    if (typeof key !== 'string') {
+      return null;
+    }
+
+    // PASO 2: La clave existe, coincide y no fue revocada
+    const apiKey = await this.apiKeysService.authenticate(key);
+
+    // PASO 3: El dueño sigue activo y no tiene un cambio de contraseña
+    // pendiente, igual que en JwtStrategy (desactivarlo o exigirle el
+    // cambio corta también sus claves; si fue borrado, la relación llega
+    // vacía)
+    if (!apiKey?.user?.isActive || apiKey.user.passwordResetRequiredAt) {
+      throw new UnauthorizedException('API key inválida o revocada');
+    }
+
+    // Datos actuales del dueño, igual que JwtStrategy
+    return {
+      authMethod: 'api-key',
+      userId: apiKey.user.id,
+      email: apiKey.user.email,
+      username: apiKey.user.username,
+      roles: apiKey.user.roles,
+      apiKeyId: apiKey.id,
+    };
+  }
+}
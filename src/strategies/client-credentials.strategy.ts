@@ -0,0 +1,88 @@
+// ============================================
+// IMPORTACIONES NECESARIAS
+// ============================================
+
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import {
+  KeystoreService,
+  SIGNING_ALGORITHMS,
+} from '../auth/keys/keystore.service';
+import { TokenRevocationService } from '../auth/token-revocation.service';
+import { ServiceClient } from '../auth/interfaces/jwt-payload.interface';
+import { OAuthClientsService } from '../oauth/oauth-clients.service';
+import { ClientAccessTokenPayload } from '../oauth/interfaces/oauth-token.interface';
+
+// ============================================
+// ESTRATEGIA 'client-credentials'
+// ============================================
+
+// Valida los tokens que /oauth/token entrega con
+// grant_type=client_credentials a los procesos de backend. Misma
+// verificación de firma que JwtStrategy, pero el sujeto es una
+// aplicación y no un usuario:
+//
+//   ServiceAuthGuard → ['jwt', 'client-credentials', 'api-key']
+//
+// Solo las rutas con ServiceAuthGuard aceptan estos tokens.
+@Injectable()
+export class ClientCredentialsStrategy extends PassportStrategy(
+  Strategy,
+  'client-credentials',
+) {
+  constructor(
+    private readonly oauthClientsService: OAuthClientsService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    keystoreService: KeystoreService,
+  ) {
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      ignoreExpiration: false,
+      // Clave pública según la cabecera "kid" (ver JwtStrategy)
+      secretOrKeyProvider: (_request, rawJwtToken: string, done) => {
+        const key = keystoreService.verificationKeyFor(rawJwtToken);
+        if (!key) {
+          return done(new UnauthorizedException('Token inválido o expirado'));
+        }
+        done(null, key.publicKeyPem);
+      },
+      algorithms: SIGNING_ALGORITHMS,
+    });
+  }
+
+  async validate(
+    payload: ClientAccessTokenPayload,
+  ): Promise<ServiceClient | null> {
+    // PASO 1: ¿Es un token de client credentials? Si no, null deja que
+    // el guard pruebe la siguiente estrategia
+    if (payload.typ !== 'client-access' || !payload.jti) {
+      return null;
+    }
+
+    // PASO 2: ¿Fue revocado?
+    if (await this.tokenRevocationService.isRevoked(payload.jti)) {
+      throw new UnauthorizedException('Token revocado');
+    }
+
+    // PASO 3: ¿El cliente sigue registrado y con el flujo habilitado?
+    const client = await this.oauthClientsService.findByClientId(
+      payload.client_id,
+    );
+    if (!client || !client.grantTypes.includes('client_credentials')) {
+      throw new UnauthorizedException('Token inválido o expirado');
+    }
+
+    // Scopes actuales: los del token que el cliente aún tiene asignados
+    // (como los roles en JwtStrategy, quitar uno tiene efecto inmediato)
+    return {
+      authMethod: 'client-credentials',
+      clientId: client.clientId,
+      scopes: payload.scope
+        .split(' ')
+        .filter((scope) => client.scopes.includes(scope)),
+      jti: payload.jti,
+      expiresAt: new Date(payload.exp * 1000),
+    };
+  }
+}
@@ -0,0 +1,93 @@
+// ============================================
+// IMPORTACIONES NECESARIAS
+// ============================================
+
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import {
+  KeystoreService,
+  SIGNING_ALGORITHMS,
+} from '../auth/keys/keystore.service';
+import { UsersService } from '../users/users.service';
+import { TokenRevocationService } from '../auth/token-revocation.service';
+import {
+  OAuthAccessTokenPayload,
+  OAuthPrincipal,
+} from '../oauth/interfaces/oauth-token.interface';
+
+// ============================================
+// ESTRATEGIA 'oauth-access'
+// ============================================
+
+// Valida los access tokens que /oauth/token entrega a las aplicaciones
+// cliente. Es la misma verificación que JwtStrategy (firma por "kid",
+// lista cerrada de algoritmos, usuario activo, lista negra) pero acepta
+// SOLO tokens typ 'oauth-access' y se registra con otro nombre:
+//
+//   JwtAuthGuard      → AuthGuard(['jwt', 'api-key']) → rutas propias (/auth/*, /users)
+//   OAuthAccessGuard  → AuthGuard('oauth-access')     → /oauth/userinfo
+//
+// Así un token entregado a un tercero nunca sirve en las rutas propias.
+@Injectable()
+export class OAuthAccessStrategy extends PassportStrategy(
+  Strategy,
+  'oauth-access',
+) {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    keystoreService: KeystoreService,
+  ) {
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      ignoreExpiration: false,
+      // Clave pública según la cabecera "kid" (ver JwtStrategy)
+      secretOrKeyProvider: (_request, rawJwtToken: string, done) => {
+        const key = keystoreService.verificationKeyFor(rawJwtToken);
+        if (!key) {
+          return done(new UnauthorizedException('Token inválido o expirado'));
+        }
+        done(null, key.publicKeyPem);
+      },
+      algorithms: SIGNING_ALGORITHMS,
+    });
+  }
+
+  // Mismos pasos que JwtStrategy.validate, con el tipo 'oauth-access'
+  async validate(payload: OAuthAccessTokenPayload): Promise<OAuthPrincipal> {
+    // PASO 1: ¿Es un access token de OAuth?
+    if (payload.typ !== 'oauth-access' || !payload.jti) {
+      throw new UnauthorizedException('Token inválido o expirado');
+    }
+
+    // PASO 2: ¿Fue revocado?
+    if (await this.tokenRevocationService.isRevoked(payload.jti)) {
+      throw new UnauthorizedException('Token revocado');
+    }
+
+    // PASO 3: ¿El usuario sigue existiendo, está activo y sin un cambio
+    // de contraseña pendiente?
+    const user = await this.usersService.findById(payload.sub);
+    if (!user || !user.isActive || user.passwordResetRequiredAt) {
+      throw new UnauthorizedException('Token inválido o expirado');
+    }
+
+    // PASO 4: "Cerrar sesión en todos lados" también invalida los
+    // tokens entregados a las aplicaciones cliente
+    if (
+      user.tokensValidAfter &&
+      payload.iat * 1000 < user.tokensValidAfter.getTime()
+    ) {
+      throw new UnauthorizedException('Token revocado');
+    }
+
+    return {
+      userId: payload.sub,
+      clientId: payload.client_id,
+      scopes: payload.scope.split(' '),
+      jti: payload.jti,
+      expiresAt: new Date(payload.exp * 1000),
+    };
+  }
+}
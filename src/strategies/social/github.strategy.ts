@@ -0,0 +1,64 @@
+import {
+  OAuth2ProviderStrategy,
+  OAuth2ProviderOptions,
+} from './oauth2-provider.strategy';
+import { SocialProfile } from './social-provider.interface';
+
+/**
+ * Respuesta de GET /user
+ */
+interface GitHubUser {
+  id: number;
+  login: string;
+}
+
+/**
+ * Elemento de GET /user/emails
+ */
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+/**
+ * GitHubStrategy - Login con una cuenta de GitHub
+ *
+ * Credenciales: https://github.com/settings/developers (OAuth Apps)
+ * (callback URL: <OIDC_ISSUER>/auth/social/github/callback)
+ *
+ * NOTA: GET /user solo trae el email si el usuario lo hizo público, y sin
+ * indicar si está verificado; por eso se consulta GET /user/emails.
+ */
+export class GitHubStrategy extends OAuth2ProviderStrategy {
+  readonly name = 'github';
+  protected readonly scopes = ['read:user', 'user:email'];
+
+  constructor(options: OAuth2ProviderOptions) {
+    super(options, {
+      authorizationUrl: 'https://github.com/login/oauth/authorize',
+      tokenUrl: 'https://github.com/login/oauth/access_token',
+      userInfoUrl: 'https://api.github.com/user',
+    });
+  }
+
+  protected async loadProfile(accessToken: string): Promise<SocialProfile> {
+    const user = await this.getJson<GitHubUser>(
+      this.endpoints.userInfoUrl,
+      accessToken,
+    );
+    const emails = await this.getJson<GitHubEmail[]>(
+      `${this.endpoints.userInfoUrl}/emails`,
+      accessToken,
+    );
+    const primary = emails.find((email) => email.primary);
+
+    return {
+      provider: this.name,
+      subject: String(user.id),
+      email: primary?.email,
+      emailVerified: primary?.verified === true,
+      username: user.login,
+    };
+  }
+}
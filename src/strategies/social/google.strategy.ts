@@ -0,0 +1,49 @@
+import {
+  OAuth2ProviderStrategy,
+  OAuth2ProviderOptions,
+} from './oauth2-provider.strategy';
+import { SocialProfile } from './social-provider.interface';
+
+/**
+ * Respuesta del endpoint userinfo de Google (OpenID Connect)
+ */
+interface GoogleUserInfo {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+}
+
+/**
+ * GoogleStrategy - Login con una cuenta de Google
+ *
+ * Credenciales: https://console.cloud.google.com/apis/credentials
+ * (redirect URI: <OIDC_ISSUER>/auth/social/google/callback)
+ */
+export class GoogleStrategy extends OAuth2ProviderStrategy {
+  readonly name = 'google';
+  protected readonly scopes = ['openid', 'email', 'profile'];
+
+  constructor(options: OAuth2ProviderOptions) {
+    super(options, {
+      authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenUrl: 'https://oauth2.googleapis.com/token',
+      userInfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo',
+    });
+  }
+
+  protected async loadProfile(accessToken: string): Promise<SocialProfile> {
+    const info = await this.getJson<GoogleUserInfo>(
+      this.endpoints.userInfoUrl,
+      accessToken,
+    );
+
+    return {
+      provider: this.name,
+      subject: info.sub,
+      email: info.email,
+      emailVerified: info.email_verified === true,
+      // Google no tiene username: se sugiere la parte local del email
+      username: info.email?.split('@')[0],
+    };
+  }
+}
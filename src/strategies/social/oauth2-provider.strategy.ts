@@ -0,0 +1,168 @@
+import { UnauthorizedException } from '@nestjs/common';
+import {
+  AuthorizationUrlParams,
+  CodeExchangeParams,
+  SocialProfile,
+  SocialProvider,
+} from './social-provider.interface';
+
+/**
+ * Tiempo máximo de espera de cada llamada al proveedor
+ */
+const PROVIDER_TIMEOUT_MS = 10_000;
+
+/**
+ * Endpoints OAuth2 de un proveedor
+ */
+export interface OAuth2Endpoints {
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+}
+
+/**
+ * Credenciales de la aplicación registrada en el proveedor y, de forma
+ * opcional, endpoints propios (servidor de pruebas, GitHub Enterprise...)
+ */
+export interface OAuth2ProviderOptions extends Partial<OAuth2Endpoints> {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * OAuth2ProviderStrategy - Base de los proveedores de login social
+ *
+ * Implementa la parte común del flujo authorization code + PKCE:
+ * 1. authorizationUrl(): a dónde enviar al navegador
+ * 2. fetchProfile(): canjea el código por un access token del proveedor
+ *    y, con él, pide el perfil (loadProfile, propio de cada proveedor)
+ *
+ * NOTA: No usa passport-oauth2. Passport guarda el state en la sesión del
+ * servidor (express-session) y este proyecto no tiene sesiones: el state y
+ * el code_verifier viajan en una cookie firmada (ver SocialAuthService).
+ *
+ * EJEMPLO (nuevo proveedor):
+ * class GitLabStrategy extends OAuth2ProviderStrategy {
+ *   readonly name = 'gitlab';
+ *   protected readonly scopes = ['read_user'];
+ *   protected async loadProfile(accessToken: string) { ... }
+ * }
+ */
+export abstract class OAuth2ProviderStrategy implements SocialProvider {
+  abstract readonly name: string;
+  protected abstract readonly scopes: string[];
+  protected readonly endpoints: OAuth2Endpoints;
+
+  constructor(
+    protected readonly options: OAuth2ProviderOptions,
+    defaults: OAuth2Endpoints,
+  ) {
+    this.endpoints = {
+      authorizationUrl: options.authorizationUrl ?? defaults.authorizationUrl,
+      tokenUrl: options.tokenUrl ?? defaults.tokenUrl,
+      userInfoUrl: options.userInfoUrl ?? defaults.userInfoUrl,
+    };
+  }
+
+  /**
+   * Perfil del usuario a partir del access token del proveedor
+   */
+  protected abstract loadProfile(accessToken: string): Promise<SocialProfile>;
+
+  authorizationUrl({
+    redirectUri,
+    state,
+    codeChallenge,
+  }: AuthorizationUrlParams): string {
+    const url = new URL(this.endpoints.authorizationUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.options.clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('scope', this.scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+  }
+
+  async fetchProfile(params: CodeExchangeParams): Promise<SocialProfile> {
+    const accessToken = await this.exchangeCode(params);
+    return this.loadProfile(accessToken);
+  }
+
+  /**
+   * GET autenticado a la API del proveedor
+   *
+   * EXCEPCIONES:
+   * - UnauthorizedException (401): Respuesta con error o sin conexión
+   */
+  protected async getJson<T>(url: string, accessToken: string): Promise<T> {
+    const response = await this.request(url, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/json',
+        // GitHub rechaza las peticiones sin User-Agent
+        'User-Agent': 'auth-taller',
+      },
+    });
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Canjea el código en el token endpoint (RFC 6749, sección 4.1.3)
+   */
+  private async exchangeCode({
+    code,
+    redirectUri,
+    codeVerifier,
+  }: CodeExchangeParams): Promise<string> {
+    const response = await this.request(this.endpoints.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        // GitHub responde en form-urlencoded si no se pide JSON
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: this.options.clientId,
+        client_secret: this.options.clientSecret,
+        code_verifier: codeVerifier,
+      }),
+    });
+
+    // Algunos proveedores (GitHub) responden 200 con { "error": "..." }
+    const body = (await response.json()) as { access_token?: unknown };
+    if (typeof body.access_token !== 'string') {
+      throw this.failure();
+    }
+    return body.access_token;
+  }
+
+  /**
+   * fetch con tiempo límite; cualquier fallo se informa como 401
+   */
+  private async request(url: string, init: RequestInit): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+      });
+    } catch {
+      throw this.failure();
+    }
+    if (!response.ok) {
+      throw this.failure();
+    }
+    return response;
+  }
+
+  private failure(): UnauthorizedException {
+    return new UnauthorizedException(
+      `No se pudo iniciar sesión con ${this.name}`,
+    );
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Token de inyección de los proveedores de login social habilitados
+ *
+ * En las pruebas se reemplaza por proveedores que apuntan a un servidor
+ * OAuth2 local (ver test/utils/mock-oauth-server.ts).
+ */
+export const SOCIAL_PROVIDERS = Symbol('SOCIAL_PROVIDERS');
+
+/**
+ * Identidad del usuario según el proveedor externo
+ */
+export interface SocialProfile {
+  /** Nombre del proveedor ('google', 'github'...) */
+  provider: string;
+  /** ID estable del usuario en el proveedor (nunca el email, que cambia) */
+  subject: string;
+  email?: string;
+  /** Solo un email verificado por el proveedor permite vincular cuentas */
+  emailVerified: boolean;
+  /** Sugerencia de username para las cuentas nuevas */
+  username?: string;
+}
+
+/**
+ * Parámetros para construir la URL de autorización del proveedor
+ */
+export interface AuthorizationUrlParams {
+  redirectUri: string;
+  state: string;
+  /** PKCE: BASE64URL(SHA256(code_verifier)) */
+  codeChallenge: string;
+}
+
+/**
+ * Parámetros del canje del código recibido en el callback
+ */
+export interface CodeExchangeParams {
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+}
+
+/**
+ * SocialProvider - Proveedor externo de identidad (Google, GitHub...)
+ *
+ * Cada proveedor solo sabe hablar con su API; guardar el estado del flujo,
+ * vincular cuentas y emitir los tokens es trabajo de SocialAuthService y
+ * AuthService.
+ */
+export interface SocialProvider {
+  readonly name: string;
+
+  /** URL a la que se redirige el navegador para iniciar sesión */
+  authorizationUrl(params: AuthorizationUrlParams): string;
+
+  /**
+   * Canjea el código y obtiene el perfil del usuario
+   *
+   * EXCEPCIONES:
+   * - UnauthorizedException (401): El proveedor rechazó el código o no respondió
+   */
+  fetchProfile(params: CodeExchangeParams): Promise<SocialProfile>;
+}
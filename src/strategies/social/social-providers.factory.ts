@@ -0,0 +1,26 @@
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from '../../config/configuration';
+import { GitHubStrategy } from './github.strategy';
+import { GoogleStrategy } from './google.strategy';
+import { SocialProvider } from './social-provider.interface';
+
+/**
+ * Crea los proveedores sociales que tienen credenciales configuradas
+ * (GOOGLE_CLIENT_ID/SECRET, GITHUB_CLIENT_ID/SECRET)
+ *
+ * Sin credenciales el proveedor no existe y /auth/social/<nombre> responde 404.
+ */
+export function createSocialProviders(
+  config: ConfigService<AppConfig, true>,
+): SocialProvider[] {
+  const { google, github } = config.get('social', { infer: true });
+  const providers: SocialProvider[] = [];
+
+  if (google) {
+    providers.push(new GoogleStrategy(google));
+  }
+  if (github) {
+    providers.push(new GitHubStrategy(github));
+  }
+  return providers;
+}
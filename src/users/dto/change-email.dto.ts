@@ -0,0 +1,26 @@
+import { IsEmail, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * ChangeEmailDto - Body de PATCH /auth/email
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "password": "miPassword123",
+ *   "newEmail": "juan.nuevo@test.com"
+ * }
+ */
+export class ChangeEmailDto {
+  /**
+   * Contraseña actual (confirma que quien cambia el email es el titular)
+   */
+  @IsString({ message: 'La contraseña debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'La contraseña es obligatoria' })
+  password: string;
+
+  /**
+   * Nuevo email; no reemplaza al actual hasta que se verifique
+   */
+  @IsEmail({}, { message: 'Debe proporcionar un email válido' })
+  @MaxLength(100, { message: 'El email no puede exceder 100 caracteres' })
+  newEmail: string;
+}
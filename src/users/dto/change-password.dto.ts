@@ -0,0 +1,27 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * ChangePasswordDto - Body de PATCH /auth/password
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "currentPassword": "miPassword123",
+ *   "newPassword": "miNuevoPassword456"
+ * }
+ */
+export class ChangePasswordDto {
+  /**
+   * Contraseña actual (confirma que quien cambia la contraseña es el titular)
+   */
+  @IsString({ message: 'La contraseña actual debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'La contraseña actual es obligatoria' })
+  currentPassword: string;
+
+  /**
+   * Nueva contraseña (la longitud y demás reglas las aplica
+   * PasswordPolicyService, igual que en el registro)
+   */
+  @IsString({ message: 'La contraseña debe ser una cadena de texto' })
+  @MaxLength(255, { message: 'La contraseña no puede exceder 255 caracteres' })
+  newPassword: string;
+}
@@ -0,0 +1,32 @@
+import { IsEmail, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * CheckPasswordDto - Body de POST /auth/password-strength
+ *
+ * username y email son opcionales: con ellos también se comprueba que la
+ * contraseña no los contenga (igual que al registrarse).
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "password": "miPassword123",
+ *   "username": "juanperez",
+ *   "email": "juan@test.com"
+ * }
+ */
+export class CheckPasswordDto {
+  @IsString({ message: 'La contraseña debe ser una cadena de texto' })
+  @MaxLength(255, { message: 'La contraseña no puede exceder 255 caracteres' })
+  password: string;
+
+  @IsOptional()
+  @IsString({ message: 'El nombre de usuario debe ser una cadena de texto' })
+  @MaxLength(50, {
+    message: 'El nombre de usuario no puede exceder 50 caracteres',
+  })
+  username?: string;
+
+  @IsOptional()
+  @IsEmail({}, { message: 'Debe proporcionar un email válido' })
+  @MaxLength(100, { message: 'El email no puede exceder 100 caracteres' })
+  email?: string;
+}
@@ -0,0 +1,19 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * CreateApiKeyDto - Body de POST /auth/api-keys
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "name": "Backup nocturno"
+ * }
+ */
+export class CreateApiKeyDto {
+  /**
+   * Para reconocer la clave en el listado (dónde o para qué se usa)
+   */
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  @MaxLength(100, { message: 'El nombre no puede exceder 100 caracteres' })
+  name: string;
+}
@@ -1 +1,59 @@
-export class CreateUserDto {}
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEmail,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ROLE_NAME_PATTERN } from '../../auth/enums/role.enum';
+
+/**
+ * CreateUserDto - Body de POST /users (solo administradores)
+ *
+ * Mismas reglas que RegisterDto, más los roles iniciales. La cuenta se
+ * crea con el email ya verificado: lo aporta un administrador.
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "username": "soporte1",
+ *   "email": "soporte1@empresa.com",
+ *   "password": "claveInicial123",
+ *   "roles": ["user", "soporte"]
+ * }
+ */
+export class CreateUserDto {
+  @IsString({ message: 'El nombre de usuario debe ser una cadena de texto' })
+  @MinLength(3, {
+    message: 'El nombre de usuario debe tener al menos 3 caracteres',
+  })
+  @MaxLength(50, {
+    message: 'El nombre de usuario no puede exceder 50 caracteres',
+  })
+  username: string;
+
+  @IsEmail({}, { message: 'Debe proporcionar un email válido' })
+  @MaxLength(100, { message: 'El email no puede exceder 100 caracteres' })
+  email: string;
+
+  @IsString({ message: 'La contraseña debe ser una cadena de texto' })
+  @MaxLength(255, {
+    message: 'La contraseña no puede exceder 255 caracteres',
+  })
+  password: string;
+
+  /**
+   * Roles iniciales (por defecto ["user"])
+   */
+  @IsOptional()
+  @IsArray({ message: 'roles debe ser una lista' })
+  @ArrayMaxSize(20, { message: 'No puede asignar más de 20 roles' })
+  @Matches(ROLE_NAME_PATTERN, {
+    each: true,
+    message:
+      'Cada rol debe empezar con una letra y contener solo minúsculas, números, "_" o "-"',
+  })
+  roles?: string[];
+}
@@ -0,0 +1,27 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DisableTwoFactorDto - Body de POST /auth/2fa/disable
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "password": "miPassword123",
+ *   "code": "123456"
+ * }
+ */
+export class DisableTwoFactorDto {
+  /**
+   * Contraseña actual
+   */
+  @IsString({ message: 'La contraseña debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'La contraseña es obligatoria' })
+  password: string;
+
+  /**
+   * Código TOTP de 6 dígitos o código de recuperación
+   */
+  @IsString({ message: 'El código debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El código es obligatorio' })
+  @MaxLength(20, { message: 'El código no puede exceder 20 caracteres' })
+  code: string;
+}
@@ -0,0 +1,15 @@
+import { IsEmail, MaxLength } from 'class-validator';
+
+/**
+ * ForgotPasswordDto - Body de POST /auth/forgot-password
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "email": "juan@test.com"
+ * }
+ */
+export class ForgotPasswordDto {
+  @IsEmail({}, { message: 'Debe proporcionar un email válido' })
+  @MaxLength(100, { message: 'El email no puede exceder 100 caracteres' })
+  email: string;
+}
@@ -0,0 +1,98 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Campos por los que se puede ordenar GET /users
+ */
+export const USER_SORT_FIELDS = ['username', 'email', 'createdAt'] as const;
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+/**
+ * Tamaño máximo de página
+ */
+export const MAX_USERS_PAGE_SIZE = 100;
+
+/**
+ * ListUsersQueryDto - Query string de GET /users
+ *
+ * PAGINACIÓN (una de las dos, no ambas):
+ * - cursor: El next_cursor de la respuesta anterior (recomendado: estable
+ *   aunque se creen o borren usuarios mientras se recorre el listado)
+ * - offset: Cantidad de usuarios a saltar (para ir a una página concreta)
+ *
+ * EJEMPLO:
+ * GET /users?search=juan&isActive=true&sort=username&order=desc&limit=50
+ * GET /users?createdFrom=2024-01-01&createdTo=2024-12-31T23:59:59Z
+ */
+export class ListUsersQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit debe ser un número entero' })
+  @Min(1, { message: 'limit debe ser al menos 1' })
+  @Max(MAX_USERS_PAGE_SIZE, {
+    message: `limit no puede exceder ${MAX_USERS_PAGE_SIZE}`,
+  })
+  limit: number = 20;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'offset debe ser un número entero' })
+  @Min(0, { message: 'offset no puede ser negativo' })
+  offset?: number;
+
+  @IsOptional()
+  @IsString({ message: 'cursor debe ser una cadena de texto' })
+  @MaxLength(500, { message: 'Cursor inválido' })
+  cursor?: string;
+
+  /**
+   * Solo usuarios activos (true) o desactivados (false)
+   */
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean({ message: 'isActive debe ser true o false' })
+  isActive?: boolean;
+
+  /**
+   * Rango de fechas de creación (inclusive), en formato ISO 8601
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'createdFrom debe ser una fecha ISO 8601' })
+  createdFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'createdTo debe ser una fecha ISO 8601' })
+  createdTo?: Date;
+
+  @IsOptional()
+  @IsIn(USER_SORT_FIELDS, {
+    message: `sort admite: ${USER_SORT_FIELDS.join(', ')}`,
+  })
+  sort: UserSortField = 'createdAt';
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'], { message: 'order admite: asc, desc' })
+  order: 'asc' | 'desc' = 'asc';
+
+  /**
+   * Texto a buscar en username o email (sin distinguir mayúsculas)
+   */
+  @IsOptional()
+  @IsString({ message: 'search debe ser una cadena de texto' })
+  @MaxLength(100, { message: 'search no puede exceder 100 caracteres' })
+  search?: string;
+}
@@ -0,0 +1,21 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+/**
+ * RefreshTokenDto - Body de POST /auth/refresh
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "refresh_token": "q1w2e3r4t5..."
+ * }
+ *
+ * En modo cookie el body va vacío: el refresh token llega en su cookie
+ */
+export class RefreshTokenDto {
+  /**
+   * Refresh token recibido en el login o en el último refresh
+   */
+  @IsOptional()
+  @IsString({ message: 'El refresh token debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El refresh token es obligatorio' })
+  refresh_token?: string;
+}
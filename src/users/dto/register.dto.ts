@@ -121,20 +121,13 @@ export class RegisterDto {
         message: 'La contraseña debe ser una cadena de texto'
     })
 
-    // @MinLength(6): Valida que tenga mínimo 6 caracteres
-    // - "123" → Error (muy corta, insegura)
-    // - "123456" → ✓ Válido (pero débil)
-    // - "miPassword123" → ✓ Válido (más segura)
-    // 
-    // NOTA DE SEGURIDAD:
-    // - 6 caracteres es el MÍNIMO para este taller
-    // - En producción, considera:
-    //   • Mínimo 8-12 caracteres
-    //   • Validar complejidad (mayúsculas, números, símbolos)
-    //   • Usar decoradores personalizados para validación de fuerza
-    @MinLength(6, {
-        message: 'La contraseña debe tener al menos 6 caracteres'
-    })
+    // SIN @MinLength: la longitud mínima y el resto de reglas (mayúsculas,
+    // números, contraseñas comunes, que no contenga el username...) son
+    // configurables y las aplica PasswordPolicyService en AuthService.register
+    // - "123" → 400 PASSWORD_POLICY_VIOLATION (min_length, uppercase, common...)
+    // - "miPassword123" → ✓ Válido
+    // Así el registro, el restablecimiento y el cambio de contraseña
+    // comparten exactamente las mismas reglas (ver .env.example, PASSWORD_*)
 
     // @MaxLength(255): Valida que no exceda 255 caracteres
     // - Aunque el hash será de tamaño fijo, limitamos el input
@@ -158,10 +151,10 @@ export class RegisterDto {
     // {
     //   "username": "ju",
     //   "email": "no-es-email",
-    //   "password": "123"
+    //   "password": "miPassword123"
     // }
     //
-    // NestJS valida AUTOMÁTICAMENTE (gracias a ValidationPipe en main.ts):
+    // NestJS valida AUTOMÁTICAMENTE (gracias a AppValidationPipe, registrado en AppModule):
     // 
     // 1. Verifica @IsString() en username → ✓ Pass (es string)
     // 2. Verifica @MinLength(3) en username → ✗ FAIL
@@ -170,19 +163,20 @@ export class RegisterDto {
     // 3. Verifica @IsEmail() en email → ✗ FAIL
     //    → Retorna: "Debe proporcionar un email válido"
     // 
-    // 4. Verifica @MinLength(6) en password → ✗ FAIL
-    //    → Retorna: "La contraseña debe tener al menos 6 caracteres"
+    // 4. Verifica @IsString() y @MaxLength(255) en password → ✓ Pass
+    //    (la política de contraseñas se comprueba después, en AuthService)
     //
     // RESPUESTA HTTP:
     // Status: 400 Bad Request
-    // Body: {
+    // Body (ver ErrorResponse en src/common/interfaces/): {
     //   "statusCode": 400,
-    //   "message": [
-    //     "El nombre de usuario debe tener al menos 3 caracteres",
-    //     "Debe proporcionar un email válido",
-    //     "La contraseña debe tener al menos 6 caracteres"
+    //   "code": "VALIDATION_ERROR",
+    //   "message": "Los datos enviados no son válidos",
+    //   "field_errors": [
+    //     { "field": "username", "messages": ["El nombre de usuario debe tener al menos 3 caracteres"] },
+    //     { "field": "email", "messages": ["Debe proporcionar un email válido"] }
     //   ],
-    //   "error": "Bad Request"
+    //   "request_id": "...", "timestamp": "...", "path": "/auth/register"
     // }
     //
     // Si TODAS las validaciones pasan:
@@ -212,19 +206,10 @@ export class RegisterDto {
      * })
      */
 
-    /**
-     * Validar complejidad de la contraseña:
-     * 
-     * @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, {
-     *   message: 'La contraseña debe contener al menos una mayúscula, una minúscula y un número'
-     * })
-     */
-
     /**
      * Agregar campo de confirmación de contraseña:
      * 
      * @IsString()
-     * @MinLength(6)
      * passwordConfirm: string;
      * 
      * // Luego validar en AuthService que password === passwordConfirm
@@ -0,0 +1,15 @@
+import { IsEmail, MaxLength } from 'class-validator';
+
+/**
+ * RequestMagicLinkDto - Body de POST /auth/magic-link
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "email": "juan@test.com"
+ * }
+ */
+export class RequestMagicLinkDto {
+  @IsEmail({}, { message: 'Debe proporcionar un email válido' })
+  @MaxLength(100, { message: 'El email no puede exceder 100 caracteres' })
+  email: string;
+}
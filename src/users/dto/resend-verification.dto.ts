@@ -0,0 +1,15 @@
+import { IsEmail, MaxLength } from 'class-validator';
+
+/**
+ * ResendVerificationDto - Body de POST /auth/resend-verification
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "email": "juan@test.com"
+ * }
+ */
+export class ResendVerificationDto {
+  @IsEmail({}, { message: 'Debe proporcionar un email válido' })
+  @MaxLength(100, { message: 'El email no puede exceder 100 caracteres' })
+  email: string;
+}
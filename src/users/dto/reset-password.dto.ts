@@ -0,0 +1,27 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * ResetPasswordDto - Body de POST /auth/reset-password
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "token": "q1w2e3r4t5...",
+ *   "password": "miNuevoPassword123"
+ * }
+ */
+export class ResetPasswordDto {
+  /**
+   * Token recibido en el enlace del correo
+   */
+  @IsString({ message: 'El token debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El token es obligatorio' })
+  token: string;
+
+  /**
+   * Nueva contraseña (la longitud y demás reglas las aplica
+   * PasswordPolicyService, igual que en el registro)
+   */
+  @IsString({ message: 'La contraseña debe ser una cadena de texto' })
+  @MaxLength(255, { message: 'La contraseña no puede exceder 255 caracteres' })
+  password: string;
+}
@@ -0,0 +1,25 @@
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, Matches } from 'class-validator';
+import { ROLE_NAME_PATTERN } from '../../auth/enums/role.enum';
+
+/**
+ * SetUserRolesDto - Body de PUT /users/:id/roles (solo administradores)
+ *
+ * Reemplaza la lista completa de roles del usuario. El cambio tiene efecto
+ * inmediato: JwtStrategy lee los roles de la base de datos en cada petición.
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "roles": ["user", "admin"]
+ * }
+ */
+export class SetUserRolesDto {
+  @IsArray({ message: 'roles debe ser una lista' })
+  @ArrayNotEmpty({ message: 'El usuario debe tener al menos un rol' })
+  @ArrayMaxSize(20, { message: 'No puede asignar más de 20 roles' })
+  @Matches(ROLE_NAME_PATTERN, {
+    each: true,
+    message:
+      'Cada rol debe empezar con una letra y contener solo minúsculas, números, "_" o "-"',
+  })
+  roles: string[];
+}
@@ -0,0 +1,18 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * SocialLoginExchangeDto - Body de POST /auth/social/exchange
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "code": "Xk2p9vQ..."
+ * }
+ */
+export class SocialLoginExchangeDto {
+  /**
+   * Código recibido en la redirección a /auth/social/complete del frontend
+   */
+  @IsString({ message: 'El código debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El código es obligatorio' })
+  code: string;
+}
@@ -0,0 +1,19 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * TwoFactorCodeDto - Body de POST /auth/2fa/confirm
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "code": "123456"
+ * }
+ */
+export class TwoFactorCodeDto {
+  /**
+   * Código de 6 dígitos generado por la app autenticadora
+   */
+  @IsString({ message: 'El código debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El código es obligatorio' })
+  @MaxLength(20, { message: 'El código no puede exceder 20 caracteres' })
+  code: string;
+}
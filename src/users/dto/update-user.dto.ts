@@ -1,4 +1,18 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { PartialType, PickType } from '@nestjs/mapped-types';
 import { CreateUserDto } from './create-user.dto';
 
-export class UpdateUserDto extends PartialType(CreateUserDto) {}
+/**
+ * UpdateUserDto - Body de PATCH /users/:id (solo administradores)
+ *
+ * username y/o email, con las mismas reglas que CreateUserDto. La
+ * contraseña y los roles tienen sus propias rutas
+ * (POST /users/:id/force-password-reset y PUT /users/:id/roles).
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "email": "nuevo@empresa.com"
+ * }
+ */
+export class UpdateUserDto extends PartialType(
+  PickType(CreateUserDto, ['username', 'email'] as const),
+) {}
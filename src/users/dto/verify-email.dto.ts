@@ -0,0 +1,18 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * VerifyEmailDto - Body de POST /auth/verify-email
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "token": "eyJhbGciOiJIUzI1NiIs..."
+ * }
+ */
+export class VerifyEmailDto {
+  /**
+   * Token recibido en el enlace del correo de verificación
+   */
+  @IsString({ message: 'El token debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El token es obligatorio' })
+  token: string;
+}
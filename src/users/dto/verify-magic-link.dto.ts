@@ -0,0 +1,26 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * VerifyMagicLinkDto - Body de POST /auth/magic-link/verify
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "token": "Xk2p9vQ...",
+ *   "nonce": "c3Rh8Lm..."
+ * }
+ */
+export class VerifyMagicLinkDto {
+  /**
+   * Token del enlace recibido por correo
+   */
+  @IsString({ message: 'El token debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El token es obligatorio' })
+  token: string;
+
+  /**
+   * Nonce que devolvió POST /auth/magic-link a este navegador
+   */
+  @IsString({ message: 'El nonce debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El nonce es obligatorio' })
+  nonce: string;
+}
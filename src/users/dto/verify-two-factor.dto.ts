@@ -0,0 +1,29 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * VerifyTwoFactorDto - Body de POST /auth/2fa/verify
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "mfa_token": "eyJhbGciOiJIUzI1NiIs...",
+ *   "code": "123456"
+ * }
+ */
+export class VerifyTwoFactorDto {
+  /**
+   * Token "mfa pendiente" recibido en POST /auth/login
+   */
+  @IsString({
+    message: 'El token de verificación debe ser una cadena de texto',
+  })
+  @IsNotEmpty({ message: 'El token de verificación es obligatorio' })
+  mfa_token: string;
+
+  /**
+   * Código TOTP de 6 dígitos o código de recuperación ("K7QXM-2RTPA")
+   */
+  @IsString({ message: 'El código debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El código es obligatorio' })
+  @MaxLength(20, { message: 'El código no puede exceder 20 caracteres' })
+  code: string;
+}
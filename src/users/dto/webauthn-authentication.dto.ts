@@ -0,0 +1,84 @@
+import { Type } from 'class-transformer';
+import {
+  IsDefined,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { BASE64URL_PATTERN } from './webauthn-registration.dto';
+
+/**
+ * Respuesta del autenticador al iniciar sesión (la firma del desafío)
+ */
+export class WebAuthnAssertionResponseDto {
+  @Matches(BASE64URL_PATTERN, {
+    message: 'clientDataJSON debe estar en base64url',
+  })
+  clientDataJSON: string;
+
+  @Matches(BASE64URL_PATTERN, {
+    message: 'authenticatorData debe estar en base64url',
+  })
+  authenticatorData: string;
+
+  @Matches(BASE64URL_PATTERN, { message: 'signature debe estar en base64url' })
+  signature: string;
+
+  /**
+   * Usuario al que pertenece la passkey (lo envían las passkeys
+   * "descubribles", las que no necesitan que el usuario escriba su email)
+   */
+  @IsOptional()
+  @Matches(BASE64URL_PATTERN, { message: 'userHandle debe estar en base64url' })
+  userHandle?: string;
+}
+
+/**
+ * WebAuthnAuthenticationDto - Body de POST /auth/webauthn/login
+ *
+ * Es el resultado de navigator.credentials.get() serializado con
+ * PublicKeyCredential.toJSON() (binarios en base64url).
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "id": "hY9cG2v...",
+ *   "rawId": "hY9cG2v...",
+ *   "type": "public-key",
+ *   "response": {
+ *     "clientDataJSON": "eyJ0eXBlIjoi...",
+ *     "authenticatorData": "SZYN5YgOjGh0...",
+ *     "signature": "MEUCIQDx...",
+ *     "userHandle": "MQ"
+ *   }
+ * }
+ */
+export class WebAuthnAuthenticationDto {
+  @Matches(BASE64URL_PATTERN, { message: 'id debe estar en base64url' })
+  @MaxLength(255, { message: 'id no puede exceder 255 caracteres' })
+  id: string;
+
+  @IsOptional()
+  @IsString({ message: 'rawId debe ser una cadena de texto' })
+  rawId?: string;
+
+  @IsIn(['public-key'], { message: 'type debe ser "public-key"' })
+  type: string;
+
+  @IsDefined({ message: 'response es obligatorio' })
+  @IsObject({ message: 'response debe ser un objeto' })
+  @ValidateNested()
+  @Type(() => WebAuthnAssertionResponseDto)
+  response: WebAuthnAssertionResponseDto;
+
+  @IsOptional()
+  @IsString({ message: 'authenticatorAttachment debe ser una cadena de texto' })
+  authenticatorAttachment?: string;
+
+  @IsOptional()
+  @IsObject({ message: 'clientExtensionResults debe ser un objeto' })
+  clientExtensionResults?: Record<string, unknown>;
+}
@@ -0,0 +1,101 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDefined,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+
+/**
+ * Formato de los datos binarios de WebAuthn: base64url sin relleno
+ */
+export const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Respuesta del autenticador al crear la passkey
+ */
+export class WebAuthnAttestationResponseDto {
+  @Matches(BASE64URL_PATTERN, {
+    message: 'clientDataJSON debe estar en base64url',
+  })
+  clientDataJSON: string;
+
+  @Matches(BASE64URL_PATTERN, {
+    message: 'attestationObject debe estar en base64url',
+  })
+  attestationObject: string;
+
+  /**
+   * response.getTransports() del navegador ("internal", "hybrid"...)
+   */
+  @IsOptional()
+  @IsArray({ message: 'transports debe ser una lista' })
+  @ArrayMaxSize(10, { message: 'transports no puede tener más de 10 valores' })
+  @IsString({ each: true, message: 'Cada transport debe ser un texto' })
+  @MaxLength(20, {
+    each: true,
+    message: 'Cada transport no puede exceder 20 caracteres',
+  })
+  transports?: string[];
+}
+
+/**
+ * WebAuthnRegistrationDto - Body de POST /auth/webauthn/register
+ *
+ * Es el resultado de navigator.credentials.create() serializado con
+ * PublicKeyCredential.toJSON() (binarios en base64url), más un nombre
+ * opcional para reconocer la passkey en el listado.
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "id": "hY9cG2v...",
+ *   "rawId": "hY9cG2v...",
+ *   "type": "public-key",
+ *   "response": {
+ *     "clientDataJSON": "eyJ0eXBlIjoi...",
+ *     "attestationObject": "o2NmbXRkbm9uZ...",
+ *     "transports": ["internal", "hybrid"]
+ *   },
+ *   "name": "MacBook de trabajo"
+ * }
+ */
+export class WebAuthnRegistrationDto {
+  @Matches(BASE64URL_PATTERN, { message: 'id debe estar en base64url' })
+  @MaxLength(255, { message: 'id no puede exceder 255 caracteres' })
+  id: string;
+
+  @IsOptional()
+  @IsString({ message: 'rawId debe ser una cadena de texto' })
+  rawId?: string;
+
+  @IsIn(['public-key'], { message: 'type debe ser "public-key"' })
+  type: string;
+
+  @IsDefined({ message: 'response es obligatorio' })
+  @IsObject({ message: 'response debe ser un objeto' })
+  @ValidateNested()
+  @Type(() => WebAuthnAttestationResponseDto)
+  response: WebAuthnAttestationResponseDto;
+
+  @IsOptional()
+  @IsString({ message: 'authenticatorAttachment debe ser una cadena de texto' })
+  authenticatorAttachment?: string;
+
+  @IsOptional()
+  @IsObject({ message: 'clientExtensionResults debe ser un objeto' })
+  clientExtensionResults?: Record<string, unknown>;
+
+  /**
+   * Nombre de la passkey (por defecto, el dispositivo del User-Agent)
+   */
+  @IsOptional()
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  @MaxLength(100, { message: 'El nombre no puede exceder 100 caracteres' })
+  name?: string;
+}
@@ -0,0 +1,47 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Entidad PasswordHistory
+ * Contraseña que un usuario usó antes: mientras esté en el historial no
+ * puede volver a elegirla (ver PasswordPolicyService).
+ *
+ * - Se guarda el mismo hash bcrypt que tenía users.password
+ * - Solo se conservan las PASSWORD_HISTORY_SIZE más recientes por usuario
+ */
+@Entity('password_history')
+@Index('IDX_password_history_userId', ['userId'])
+export class PasswordHistory {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Usuario al que perteneció la contraseña.
+   */
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /**
+   * Hash bcrypt de la contraseña anterior.
+   */
+  @Column({ length: 60 })
+  passwordHash: string;
+
+  /**
+   * Momento en que dejó de ser la contraseña vigente.
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
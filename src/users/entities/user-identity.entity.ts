@@ -0,0 +1,58 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Entidad UserIdentity
+ * Cuenta externa (Google, GitHub...) vinculada a un usuario. Un usuario
+ * puede tener varias, una por proveedor y cuenta.
+ *
+ * - Se identifica por (provider, subject): el ID estable del proveedor,
+ *   no el email, que el usuario puede cambiar allí
+ */
+@Entity('user_identities')
+@Index('UQ_user_identities_provider_subject', ['provider', 'subject'], {
+  unique: true,
+})
+export class UserIdentity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Usuario al que pertenece la identidad.
+   */
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /**
+   * Nombre del proveedor ('google', 'github').
+   */
+  @Column({ length: 32 })
+  provider: string;
+
+  /**
+   * ID del usuario en el proveedor (claim "sub", id de GitHub...).
+   */
+  @Column({ length: 255 })
+  subject: string;
+
+  /**
+   * Email informado por el proveedor al vincular (solo informativo).
+   */
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  email: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
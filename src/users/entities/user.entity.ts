@@ -1,34 +1,50 @@
+import {
+    Column,
+    CreateDateColumn,
+    DeleteDateColumn,
+    Entity,
+    PrimaryGeneratedColumn,
+    Unique,
+    UpdateDateColumn,
+} from 'typeorm';
+
 /**
  * Entidad User (Usuario)
  * Representa a un usuario en el sistema.
- * Aunque en este taller usamos un array en memoria simulando una DB,
- * esta clase define la estructura de datos que tendría una tabla 'users'.
+ * Se persiste en la tabla 'users' mediante TypeORM (MySQL en desarrollo y
+ * producción, SQLite en memoria durante las pruebas).
  */
+@Entity('users')
+@Unique('UQ_users_username', ['username'])
+@Unique('UQ_users_email', ['email'])
 export class User {
     /**
      * Identificador único del usuario (Primary Key).
      * - Tipo: number (entero)
-     * - Características: Único, Autoincremental (gestionado por el servicio).
+     * - Características: Único, Autoincremental (gestionado por la base de datos).
      * - Uso: Se usa para relacionar al usuario y buscarlo eficientemente.
      */
+    @PrimaryGeneratedColumn()
     id: number;
 
     /**
      * Nombre de usuario (username).
      * - Tipo: string (cadena de texto)
-     * - Características: Obligatorio, Único.
+     * - Características: Obligatorio, Único (índice UQ_users_username).
      * - Uso: Para mostrar en la interfaz y como identificador alternativo.
      * - Ejemplo: "juanperez", "maria123"
      */
+    @Column({ length: 50 })
     username: string;
 
     /**
      * Correo electrónico del usuario.
      * - Tipo: string (cadena de texto)
-     * - Características: Obligatorio, Único (Unique Key).
+     * - Características: Obligatorio, Único (índice UQ_users_email).
      * - Uso: Sirve como identificador principal para el inicio de sesión (Login).
      *   No dos usuarios pueden tener el mismo email.
      */
+    @Column({ length: 100 })
     email: string;
 
     /**
@@ -38,6 +54,7 @@ export class User {
      * - IMPORTANTE: Se almacena ENCRIPTADA (Hasheada) con bcrypt.
      *   NUNCA se debe guardar en texto plano por seguridad.
      */
+    @Column()
     password: string;
 
     /**
@@ -47,21 +64,110 @@ export class User {
      * - Uso: Permite desactivar usuarios sin eliminarlos.
      *   Si es false, el usuario no podrá iniciar sesión.
      */
+    @Column({ default: true })
     isActive: boolean;
 
+    /**
+     * Fecha en que el usuario confirmó su email.
+     * - Tipo: Date | null
+     * - Características: null mientras la cuenta no esté verificada.
+     * - Uso: Las cuentas sin verificar no pueden iniciar sesión.
+     */
+    @Column({ type: 'datetime', nullable: true })
+    emailVerifiedAt: Date | null;
+
+    /**
+     * Nuevo email pendiente de confirmación.
+     * - Tipo: string | null
+     * - Uso: PATCH /auth/email lo guarda aquí; el email real solo cambia
+     *   cuando el usuario abre el enlace enviado a la nueva dirección.
+     */
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    pendingEmail: string | null;
+
+    /**
+     * Secreto TOTP de la autenticación en dos pasos (Base32).
+     * - Tipo: string | null
+     * - Características: select: false, NUNCA se carga ni se expone salvo
+     *   que se pida explícitamente (UsersService.findTwoFactorState).
+     * - Uso: Se guarda al iniciar el enrolamiento; solo protege el login
+     *   cuando twoFactorEnabledAt tiene fecha.
+     */
+    @Column({ type: 'varchar', length: 64, nullable: true, select: false })
+    twoFactorSecret: string | null;
+
+    /**
+     * Fecha en que se activó la autenticación en dos pasos.
+     * - Tipo: Date | null
+     * - Uso: Si tiene fecha, el login exige un código TOTP o de recuperación.
+     */
+    @Column({ type: 'datetime', nullable: true })
+    twoFactorEnabledAt: Date | null;
+
+    /**
+     * Último intervalo TOTP aceptado.
+     * - Tipo: number | null
+     * - Características: select: false.
+     * - Uso: Impide reutilizar un código ya usado dentro de sus 30 segundos.
+     */
+    @Column({ type: 'int', nullable: true, select: false })
+    twoFactorLastUsedStep: number | null;
+
+    /**
+     * Roles del usuario.
+     * - Tipo: string[] (guardado como texto separado por comas)
+     * - Características: Obligatorio, valor por defecto: ['user'].
+     * - Uso: RolesGuard los compara con los roles exigidos por @Roles().
+     *   Además de 'admin' y 'user' se admiten roles personalizados.
+     */
+    @Column({ type: 'simple-array' })
+    roles: string[];
+
+    /**
+     * Marca de tiempo de "cerrar sesión en todos los dispositivos".
+     * - Tipo: Date | null
+     * - Uso: Todo access token emitido ANTES de esta fecha (claim "iat") se
+     *   rechaza en JwtStrategy, aunque su firma siga siendo válida.
+     */
+    @Column({ type: 'datetime', nullable: true })
+    tokensValidAfter: Date | null;
+
+    /**
+     * Fecha en que un administrador exigió restablecer la contraseña.
+     * - Tipo: Date | null (null = no hay restablecimiento pendiente)
+     * - Uso: Mientras esté marcada no se puede iniciar sesión ni renovar
+     *   tokens; se borra al cambiar la contraseña (p. ej. con
+     *   /auth/reset-password).
+     */
+    @Column({ type: 'datetime', nullable: true })
+    passwordResetRequiredAt: Date | null;
+
     /**
      * Fecha de creación del registro.
      * - Tipo: Date (fecha y hora)
-     * - Características: Obligatorio, valor por defecto: fecha actual.
+     * - Características: Obligatorio, la asigna TypeORM al insertar.
      * - Uso: Auditoría para saber cuándo se registró el usuario.
      */
+    @CreateDateColumn()
     createdAt: Date;
 
     /**
      * Fecha de última actualización del registro.
      * - Tipo: Date (fecha y hora)
-     * - Características: Obligatorio.
+     * - Características: Obligatorio, TypeORM la actualiza en cada save().
      * - Uso: Auditoría para saber cuándo se modificó por última vez el usuario.
      */
+    @UpdateDateColumn()
     updatedAt: Date;
-}
\ No newline at end of file
+
+    /**
+     * Fecha de borrado (soft delete).
+     * - Tipo: Date | null (null = cuenta vigente)
+     * - Características: TypeORM excluye automáticamente los registros
+     *   borrados de find(), findOne()... (la cuenta deja de existir para la
+     *   aplicación, pero la fila se conserva).
+     * - Uso: DELETE /users/:id. El email y el username siguen ocupados.
+     */
+    @DeleteDateColumn()
+    deletedAt: Date | null;
+}
@@ -0,0 +1,262 @@
+/**
+ * Contraseñas más usadas (filtraciones públicas, en inglés y español),
+ * en minúsculas
+ *
+ * Se incluyen en el código para no depender de un servicio externo: la
+ * comprobación funciona sin conexión y la contraseña nunca sale del
+ * servidor. PasswordPolicyService también las detecta con mayúsculas,
+ * sustituciones típicas (p@ssw0rd) o números y símbolos al final
+ * (Password2024!).
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  // Secuencias y teclados
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '0123456789',
+  '987654321',
+  '654321',
+  '111111',
+  '000000',
+  '121212',
+  '123123',
+  '112233',
+  '666666',
+  '696969',
+  '777777',
+  '888888',
+  '131313',
+  '159753',
+  '147258369',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  'q1w2e3r4',
+  'qwerty',
+  'qwertyuiop',
+  'qwerty123',
+  'qwertz',
+  'azerty',
+  'asdfgh',
+  'asdfghjkl',
+  'zxcvbn',
+  'zxcvbnm',
+  'qazwsx',
+  'qweasd',
+  'qweasdzxc',
+  '1qaz2wsx',
+  'abc123',
+  'abcdef',
+  'abcdefg',
+  'abcd1234',
+  'aaaaaa',
+  'a1b2c3',
+  'aa123456',
+  'asd123',
+  'qwe123',
+  'zaq12wsx',
+  // Contraseñas "de siempre"
+  'password',
+  'passw0rd',
+  'password1',
+  'password12',
+  'password123',
+  'pass',
+  'pass123',
+  'passpass',
+  'secret',
+  'changeme',
+  'default',
+  'letmein',
+  'welcome',
+  'welcome1',
+  'login',
+  'admin',
+  'admin123',
+  'administrator',
+  'root',
+  'toor',
+  'master',
+  'guest',
+  'test',
+  'test123',
+  'testing',
+  'user',
+  'access',
+  'trustno1',
+  'iloveyou',
+  'loveme',
+  'lovely',
+  'love',
+  'sunshine',
+  'princess',
+  'monkey',
+  'dragon',
+  'shadow',
+  'superman',
+  'batman',
+  'spiderman',
+  'starwars',
+  'pokemon',
+  'naruto',
+  'freedom',
+  'whatever',
+  'hello',
+  'hello123',
+  'hunter',
+  'hunter2',
+  'ninja',
+  'mustang',
+  'ferrari',
+  'harley',
+  'jordan',
+  'jordan23',
+  'michael',
+  'jennifer',
+  'jessica',
+  'charlie',
+  'daniel',
+  'thomas',
+  'robert',
+  'matrix',
+  'killer',
+  'cheese',
+  'cookie',
+  'chocolate',
+  'computer',
+  'internet',
+  'samsung',
+  'apple',
+  'google',
+  'facebook',
+  'linkedin',
+  'twitter',
+  'youtube',
+  'microsoft',
+  'windows',
+  'summer',
+  'winter',
+  'spring',
+  'autumn',
+  'flower',
+  'orange',
+  'banana',
+  'purple',
+  'silver',
+  'golden',
+  'ginger',
+  'tigger',
+  'buster',
+  'soccer',
+  'football',
+  'baseball',
+  'basketball',
+  'hockey',
+  'liverpool',
+  'chelsea',
+  'arsenal',
+  'yankees',
+  'maggie',
+  'pepper',
+  'secret123',
+  'qwerty1',
+  'zxcvbnm1',
+  'abc12345',
+  'p@ssword',
+  // Español
+  'contraseña',
+  'contrasena',
+  'contrasenia',
+  'clave',
+  'clave123',
+  'miclave',
+  'micontraseña',
+  'micontrasena',
+  'secreto',
+  'usuario',
+  'usuario123',
+  'administrador',
+  'bienvenido',
+  'bienvenida',
+  'hola',
+  'hola123',
+  'hola1234',
+  'holahola',
+  'holamundo',
+  'teamo',
+  'teamo123',
+  'tequiero',
+  'tequieromucho',
+  'amor',
+  'amorcito',
+  'miamor',
+  'mivida',
+  'corazon',
+  'cariño',
+  'carino',
+  'princesa',
+  'bonita',
+  'hermosa',
+  'estrella',
+  'mariposa',
+  'angel',
+  'angelito',
+  'familia',
+  'mama',
+  'papa',
+  'mamita',
+  'papito',
+  'chiquita',
+  'gatito',
+  'perrito',
+  'tesoro',
+  'dios',
+  'jesus',
+  'jesucristo',
+  'diosesamor',
+  'futbol',
+  'barcelona',
+  'realmadrid',
+  'madrid',
+  'atletico',
+  'boca',
+  'bocajuniors',
+  'river',
+  'riverplate',
+  'america',
+  'chivas',
+  'cruzazul',
+  'pumas',
+  'messi',
+  'maradona',
+  'ronaldo',
+  'mexico',
+  'argentina',
+  'colombia',
+  'venezuela',
+  'chile',
+  'peru',
+  'españa',
+  'espana',
+  'uruguay',
+  'ecuador',
+  'bolivia',
+  'paraguay',
+  'guatemala',
+  'honduras',
+  'nicaragua',
+  'panama',
+  'cuba',
+  'sistemas',
+  'informatica',
+  'soporte',
+  'escuela',
+  'colegio',
+  'universidad',
+  'qwerty12',
+  'abcd123',
+  'asdasd',
+  'asdf1234',
+  'asdfasdf',
+]);
@@ -0,0 +1,120 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken, TypeOrmModule } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { buildDataSourceOptions } from '../../database/database.config';
+import { PasswordPolicyConfig } from '../../config/configuration';
+import { User } from '../entities/user.entity';
+import { UserIdentity } from '../entities/user-identity.entity';
+import { PasswordHistory } from '../entities/password-history.entity';
+import { PasswordPolicyService } from './password-policy.service';
+
+describe('PasswordPolicyService', () => {
+  let moduleRef: TestingModule;
+  let service: PasswordPolicyService;
+  let usersRepository: Repository<User>;
+
+  const policy: PasswordPolicyConfig = {
+    minLength: 8,
+    maxLength: 72,
+    requireLowercase: true,
+    requireUppercase: true,
+    requireDigit: true,
+    requireSymbol: true,
+    historySize: 2,
+    minStrength: 2,
+  };
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        TypeOrmModule.forRoot({
+          ...buildDataSourceOptions(),
+          entities: [User, UserIdentity, PasswordHistory],
+        }),
+        TypeOrmModule.forFeature([User, PasswordHistory]),
+      ],
+      providers: [
+        PasswordPolicyService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ passwordPolicy: policy }),
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PasswordPolicyService);
+    usersRepository = moduleRef.get(getRepositoryToken(User));
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  const rules = async (password: string, context = {}) =>
+    (await service.check(password, context)).violations.map(({ rule }) => rule);
+
+  it('reports every broken rule at once', async () => {
+    expect(await rules('abc')).toEqual([
+      'min_length',
+      'uppercase',
+      'digit',
+      'symbol',
+      'strength',
+    ]);
+    expect(await rules('Password1!')).toEqual(['common', 'strength']);
+    expect(await rules('tren-Nube-cactus-42')).toEqual([]);
+  });
+
+  it('rejects passwords that contain the username or the email', async () => {
+    expect(
+      await rules('Juanperez-tren-42', {
+        username: 'juanperez',
+        email: 'jp@test.com',
+      }),
+    ).toContain('personal_info');
+    expect(
+      await rules('Nube-perezjuan-42', { email: 'perezjuan@test.com' }),
+    ).toContain('personal_info');
+  });
+
+  it('rejects the current password and the remembered ones', async () => {
+    const hash = (password: string) => bcrypt.hash(password, 4);
+    const user = await usersRepository.save(
+      usersRepository.create({
+        username: 'juanperez',
+        email: 'juan@test.com',
+        roles: ['user'],
+        password: await hash('Actual-tren-42'),
+      }),
+    );
+    const context = { userId: user.id };
+
+    for (const old of ['Vieja-nube-1!', 'Media-luna-2!', 'Reciente-sol-3!']) {
+      await service.remember(user.id, await hash(old));
+    }
+
+    expect(await rules('Actual-tren-42', context)).toEqual(['reused']);
+    expect(await rules('Reciente-sol-3!', context)).toEqual(['reused']);
+    expect(await rules('Media-luna-2!', context)).toEqual(['reused']);
+    // Solo se recuerdan las últimas historySize
+    expect(await rules('Vieja-nube-1!', context)).toEqual([]);
+  });
+
+  it('throws a structured error with the broken rules', async () => {
+    const error = await service
+      .assertAcceptable('password', {}, 'newPassword')
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BadRequestException);
+    expect((error as BadRequestException).getResponse()).toMatchObject({
+      code: 'PASSWORD_POLICY_VIOLATION',
+      field_errors: [{ field: 'newPassword' }],
+      violations: expect.arrayContaining([
+        { rule: 'common', message: 'La contraseña es demasiado común' },
+      ]) as unknown,
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { AppConfig, PasswordPolicyConfig } from '../../config/configuration';
+import { RuleViolation } from '../../common/interfaces/error-response.interface';
+import { User } from '../entities/user.entity';
+import { PasswordHistory } from '../entities/password-history.entity';
+import {
+  estimatePasswordStrength,
+  isCommonPassword,
+  PasswordStrength,
+} from './password-strength';
+
+/**
+ * Código de error de las contraseñas rechazadas por la política
+ */
+export const PASSWORD_POLICY_ERROR_CODE = 'PASSWORD_POLICY_VIOLATION';
+
+/**
+ * Reglas de la política (valor "rule" de cada incumplimiento)
+ */
+export type PasswordRule =
+  | 'min_length'
+  | 'max_length'
+  | 'lowercase'
+  | 'uppercase'
+  | 'digit'
+  | 'symbol'
+  | 'common'
+  | 'personal_info'
+  | 'reused'
+  | 'strength';
+
+export interface PasswordViolation extends RuleViolation {
+  rule: PasswordRule;
+}
+
+/**
+ * Datos del titular con los que se compara la contraseña
+ * - userId: Solo en cambios y restablecimientos (activa el historial)
+ */
+export interface PasswordContext {
+  username?: string;
+  email?: string;
+  userId?: number;
+}
+
+/**
+ * Resultado de evaluar una contraseña
+ */
+export interface PasswordCheck {
+  valid: boolean;
+  violations: PasswordViolation[];
+  strength: PasswordStrength;
+}
+
+/**
+ * Longitud mínima de un dato personal para buscarlo dentro de la
+ * contraseña (los más cortos aparecen en cualquier palabra)
+ */
+const MIN_PERSONAL_INFO_LENGTH = 4;
+
+/**
+ * PasswordPolicyService - Reglas de las contraseñas nuevas
+ *
+ * RESPONSABILIDADES:
+ * 1. Aplicar las reglas configurables (PASSWORD_* en .env): longitud y
+ *    clases de caracteres
+ * 2. Rechazar contraseñas comunes (lista incluida, sin servicios externos)
+ *    y las que contienen el username o el email
+ * 3. Impedir repetir la contraseña actual o las del historial
+ * 4. Estimar la fortaleza y exigir un mínimo
+ *
+ * Se aplica en el registro, el restablecimiento, el cambio de contraseña
+ * y las cuentas creadas por un administrador.
+ */
+@Injectable()
+export class PasswordPolicyService {
+  private readonly policy: PasswordPolicyConfig;
+
+  constructor(
+    @InjectRepository(User)
+    private readonly usersRepository: Repository<User>,
+    @InjectRepository(PasswordHistory)
+    private readonly historyRepository: Repository<PasswordHistory>,
+    config: ConfigService<AppConfig, true>,
+  ) {
+    this.policy = config.get('passwordPolicy', { infer: true });
+  }
+
+  /**
+   * Evalúa una contraseña contra TODAS las reglas
+   *
+   * @returns Las reglas incumplidas (todas a la vez, para que el
+   *   formulario las muestre juntas) y la fortaleza estimada
+   */
+  async check(
+    password: string,
+    context: PasswordContext = {},
+  ): Promise<PasswordCheck> {
+    const { policy } = this;
+    const violations: PasswordViolation[] = [];
+    const fail = (rule: PasswordRule, message: string) =>
+      violations.push({ rule, message });
+
+    // PASO 1: Longitud y clases de caracteres
+    if (password.length < policy.minLength) {
+      fail(
+        'min_length',
+        `La contraseña debe tener al menos ${policy.minLength} caracteres`,
+      );
+    }
+    if (password.length > policy.maxLength) {
+      fail(
+        'max_length',
+        `La contraseña no puede exceder ${policy.maxLength} caracteres`,
+      );
+    }
+    if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+      fail('lowercase', 'La contraseña debe incluir una letra minúscula');
+    }
+    if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+      fail('uppercase', 'La contraseña debe incluir una letra mayúscula');
+    }
+    if (policy.requireDigit && !/\d/.test(password)) {
+      fail('digit', 'La contraseña debe incluir un número');
+    }
+    if (policy.requireSymbol && !/[^\p{L}\d]/u.test(password)) {
+      fail('symbol', 'La contraseña debe incluir un símbolo (p. ej. ! # % -)');
+    }
+
+    // PASO 2: Contraseñas comunes y datos personales
+    if (isCommonPassword(password)) {
+      fail('common', 'La contraseña es demasiado común');
+    }
+    const personalInfo = this.personalInfo(context);
+    const lower = password.toLowerCase();
+    if (personalInfo.some((info) => lower.includes(info))) {
+      fail(
+        'personal_info',
+        'La contraseña no puede contener su nombre de usuario ni su email',
+      );
+    }
+
+    // PASO 3: Historial (la actual y las últimas historySize)
+    if (
+      context.userId !== undefined &&
+      (await this.isReused(context.userId, password))
+    ) {
+      fail(
+        'reused',
+        policy.historySize === 0
+          ? 'No puede repetir su contraseña actual'
+          : `No puede repetir ninguna de sus últimas ${policy.historySize + 1} contraseñas`,
+      );
+    }
+
+    // PASO 4: Fortaleza estimada
+    const strength = estimatePasswordStrength(password, personalInfo);
+    if (strength.score < policy.minStrength) {
+      fail('strength', 'La contraseña es demasiado fácil de adivinar');
+    }
+
+    return { valid: violations.length === 0, violations, strength };
+  }
+
+  /**
+   * Rechaza la contraseña si incumple alguna regla
+   *
+   * @param field - Campo del body con la contraseña ("password",
+   *   "newPassword"...), para que el formulario marque el error
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): Con code PASSWORD_POLICY_VIOLATION, los
+   *   mensajes en field_errors y cada regla en violations
+   *
+   * EJEMPLO DE RESPUESTA:
+   * { "code": "PASSWORD_POLICY_VIOLATION",
+   *   "field_errors": [{ "field": "password", "messages": ["La contraseña es demasiado común"] }],
+   *   "violations": [{ "rule": "common", "message": "La contraseña es demasiado común" }], ... }
+   */
+  async assertAcceptable(
+    password: string,
+    context: PasswordContext,
+    field = 'password',
+  ): Promise<void> {
+    const { valid, violations } = await this.check(password, context);
+    if (valid) {
+      return;
+    }
+
+    throw new BadRequestException({
+      code: PASSWORD_POLICY_ERROR_CODE,
+      message: 'La contraseña no cumple la política de seguridad',
+      field_errors: [
+        { field, messages: violations.map(({ message }) => message) },
+      ],
+      violations,
+    });
+  }
+
+  /**
+   * Guarda en el historial la contraseña que deja de estar vigente y
+   * descarta las que ya no hace falta recordar
+   *
+   * @param passwordHash - Hash bcrypt de la contraseña ANTERIOR
+   */
+  async remember(userId: number, passwordHash: string): Promise<void> {
+    if (this.policy.historySize === 0) {
+      return;
+    }
+
+    await this.historyRepository.save(
+      this.historyRepository.create({ userId, passwordHash }),
+    );
+
+    const expired = await this.historyRepository.find({
+      select: { id: true },
+      where: { userId },
+      order: { id: 'DESC' },
+      skip: this.policy.historySize,
+    });
+    if (expired.length > 0) {
+      await this.historyRepository.delete(expired.map(({ id }) => id));
+    }
+  }
+
+  /**
+   * Username y parte local del email, en minúsculas
+   */
+  private personalInfo({ username, email }: PasswordContext): string[] {
+    return [username, email?.split('@')[0]]
+      .filter((info): info is string => Boolean(info))
+      .map((info) => info.toLowerCase())
+      .filter((info) => info.length >= MIN_PERSONAL_INFO_LENGTH);
+  }
+
+  /**
+   * Compara con bcrypt la contraseña actual y las del historial
+   */
+  private async isReused(userId: number, password: string): Promise<boolean> {
+    const user = await this.usersRepository.findOne({
+      select: { id: true, password: true },
+      where: { id: userId },
+    });
+    const history =
+      this.policy.historySize > 0
+        ? await this.historyRepository.find({
+            where: { userId },
+            order: { id: 'DESC' },
+            take: this.policy.historySize,
+          })
+        : [];
+
+    const hashes = [
+      ...(user ? [user.password] : []),
+      ...history.map(({ passwordHash }) => passwordHash),
+    ];
+    for (const hash of hashes) {
+      if (await bcrypt.compare(password, hash)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
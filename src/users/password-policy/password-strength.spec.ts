@@ -0,0 +1,48 @@
+import {
+  estimatePasswordStrength,
+  isCommonPassword,
+} from './password-strength';
+
+describe('isCommonPassword', () => {
+  it('detects common passwords and their usual variations', () => {
+    expect(isCommonPassword('123456')).toBe(true);
+    expect(isCommonPassword('Password')).toBe(true);
+    expect(isCommonPassword('P@ssw0rd')).toBe(true);
+    expect(isCommonPassword('Qwerty2024!')).toBe(true);
+    expect(isCommonPassword('Contraseña1')).toBe(true);
+  });
+
+  it('accepts passwords that only contain a common word', () => {
+    expect(isCommonPassword('miPassword123')).toBe(false);
+    expect(isCommonPassword('tren-Nube-cactus-42')).toBe(false);
+  });
+});
+
+describe('estimatePasswordStrength', () => {
+  it('rates predictable passwords as very weak', () => {
+    for (const password of ['Password123', 'aaaaaaaaaaaa', 'abcdefgh12']) {
+      expect(estimatePasswordStrength(password)).toEqual({
+        score: 0,
+        label: 'muy débil',
+      });
+    }
+  });
+
+  it('rates long and varied passwords higher', () => {
+    expect(estimatePasswordStrength('miPassword123').score).toBe(1);
+    expect(estimatePasswordStrength('Xk9#mQ2v').score).toBe(3);
+    expect(estimatePasswordStrength('tren-Nube-cactus-42')).toEqual({
+      score: 4,
+      label: 'muy fuerte',
+    });
+  });
+
+  it('treats personal information as easy to guess', () => {
+    const withoutContext = estimatePasswordStrength('Juanperez2024');
+    const withContext = estimatePasswordStrength('Juanperez2024', [
+      'juanperez',
+    ]);
+
+    expect(withContext.score).toBeLessThan(withoutContext.score);
+  });
+});
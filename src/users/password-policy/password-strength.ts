@@ -0,0 +1,190 @@
+import { COMMON_PASSWORDS } from './common-passwords';
+
+/**
+ * Fortaleza estimada de una contraseña
+ * - score: 0 (muy débil) a 4 (muy fuerte)
+ * - label: Texto para mostrar junto al indicador del formulario
+ */
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+}
+
+const STRENGTH_LABELS = [
+  'muy débil',
+  'débil',
+  'aceptable',
+  'fuerte',
+  'muy fuerte',
+] as const;
+
+/**
+ * Bits de entropía mínimos para cada score (1, 2, 3 y 4)
+ */
+const SCORE_THRESHOLDS = [18, 30, 45, 60];
+
+/**
+ * Sustituciones típicas de letras por números o símbolos (p@ssw0rd)
+ */
+const LEET: Record<string, string> = {
+  '4': 'a',
+  '@': 'a',
+  '3': 'e',
+  '1': 'i',
+  '!': 'i',
+  '0': 'o',
+  $: 's',
+  '5': 's',
+  '7': 't',
+};
+
+const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+/**
+ * Palabras más cortas que esto no cuentan como coincidencia: casi
+ * cualquier texto contiene alguna ("amor", "test"...)
+ */
+const MIN_WORD_LENGTH = 4;
+const MAX_WORD_LENGTH = 20;
+
+/** Bits de una palabra del diccionario: basta con probar la lista entera */
+const DICTIONARY_WORD_BITS = Math.log2(COMMON_PASSWORDS.size);
+
+/** Bits de un dato personal (username, email): el atacante lo conoce */
+const PERSONAL_WORD_BITS = 2;
+
+function unleet(text: string): string {
+  return [...text].map((char) => LEET[char] ?? char).join('');
+}
+
+/**
+ * Indica si la contraseña es (o se basa en) una de las más usadas
+ *
+ * Se compara en minúsculas, deshaciendo sustituciones (p@ssw0rd) y sin
+ * los números o símbolos del final (Password2024!).
+ *
+ * EJEMPLO:
+ * isCommonPassword('Qwerty123!')  // true
+ * isCommonPassword('miPassword123')  // false (solo la contiene)
+ */
+export function isCommonPassword(password: string): boolean {
+  const lower = password.toLowerCase();
+  const base = lower.replace(/[\d\W_]+$/u, '');
+
+  return [lower, unleet(lower), base, unleet(base)].some(
+    (candidate) =>
+      candidate.length >= MIN_WORD_LENGTH && COMMON_PASSWORDS.has(candidate),
+  );
+}
+
+/**
+ * Tamaño del alfabeto que un atacante debe probar según las clases de
+ * caracteres presentes
+ */
+function charsetSize(password: string): number {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/\d/.test(password)) size += 10;
+  if (/[^\w\s]|_|\s/.test(password)) size += 33;
+  if (/[^\x20-\x7E]/.test(password)) size += 100;
+  return Math.max(size, 10);
+}
+
+function isKeyboardNeighbour(previous: string, char: string): boolean {
+  const a = previous.toLowerCase();
+  const b = char.toLowerCase();
+  return KEYBOARD_ROWS.some((row) => {
+    const index = row.indexOf(a);
+    return index !== -1 && Math.abs(row.indexOf(b) - index) === 1;
+  });
+}
+
+/**
+ * Palabra conocida más larga que empieza en la posición indicada
+ *
+ * @returns Longitud y bits de la palabra, o null si no hay ninguna
+ */
+function longestWordAt(
+  lower: string,
+  start: number,
+  personalWords: string[],
+): { length: number; bits: number } | null {
+  const maxLength = Math.min(MAX_WORD_LENGTH, lower.length - start);
+
+  for (let length = maxLength; length >= MIN_WORD_LENGTH; length--) {
+    const slice = lower.slice(start, start + length);
+    if (personalWords.includes(slice)) {
+      return { length, bits: PERSONAL_WORD_BITS };
+    }
+    if (COMMON_PASSWORDS.has(slice) || COMMON_PASSWORDS.has(unleet(slice))) {
+      return { length, bits: DICTIONARY_WORD_BITS };
+    }
+  }
+  return null;
+}
+
+/**
+ * Estima la fortaleza de una contraseña sin servicios externos
+ *
+ * ALGORITMO (versión simplificada de la idea de zxcvbn):
+ * 1. Recorre la contraseña de izquierda a derecha sumando bits de entropía
+ * 2. Una palabra de la lista de contraseñas comunes o un dato personal
+ *    cuenta como un único "carácter" fácil de adivinar
+ * 3. Los caracteres repetidos (aaa), en secuencia (abc, 123) o vecinos en
+ *    el teclado (qwe) aportan muy poco
+ * 4. El resto aporta log2(alfabeto): 26 si solo hay minúsculas, 62 con
+ *    mayúsculas y números...
+ * 5. Convierte los bits en un score de 0 a 4
+ *
+ * @param password - Contraseña en texto plano
+ * @param personalInfo - Datos del usuario (username, email) que un
+ *   atacante probaría primero
+ *
+ * EJEMPLO:
+ * estimatePasswordStrength('Password123')  // { score: 0, label: 'muy débil' }
+ * estimatePasswordStrength('tren-Nube-cactus-42')  // { score: 4, ... }
+ */
+export function estimatePasswordStrength(
+  password: string,
+  personalInfo: string[] = [],
+): PasswordStrength {
+  const lower = password.toLowerCase();
+  const personalWords = personalInfo
+    .map((word) => word.toLowerCase())
+    .filter((word) => word.length >= MIN_WORD_LENGTH);
+  const charBits = Math.log2(charsetSize(password));
+
+  let bits = 0;
+  let index = 0;
+  while (index < password.length) {
+    const word = longestWordAt(lower, index, personalWords);
+    if (word) {
+      const segment = password.slice(index, index + word.length);
+      // Mayúsculas en la palabra: el atacante prueba también esas variantes
+      bits += word.bits + (segment === segment.toLowerCase() ? 0 : 1);
+      index += word.length;
+      continue;
+    }
+
+    const char = password[index];
+    const previous = password[index - 1];
+    if (previous === char) {
+      bits += 1;
+    } else if (
+      previous !== undefined &&
+      Math.abs(char.charCodeAt(0) - previous.charCodeAt(0)) === 1
+    ) {
+      bits += 1;
+    } else if (previous !== undefined && isKeyboardNeighbour(previous, char)) {
+      bits += 2;
+    } else {
+      bits += charBits;
+    }
+    index++;
+  }
+
+  const score = SCORE_THRESHOLDS.filter((threshold) => bits >= threshold)
+    .length as PasswordStrength['score'];
+  return { score, label: STRENGTH_LABELS[score] };
+}
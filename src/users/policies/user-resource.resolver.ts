@@ -0,0 +1,20 @@
+import { Injectable } from '@nestjs/common';
+import { PolicyResourceResolver } from '../../auth/policies/policy-handler.interface';
+import { User } from '../entities/user.entity';
+import { UsersService } from '../users.service';
+
+/**
+ * Carga el usuario de las rutas /users/:id para evaluar sus políticas
+ */
+@Injectable()
+export class UserResourceResolver implements PolicyResourceResolver<User> {
+  constructor(private readonly usersService: UsersService) {}
+
+  resolve(request: { params: Record<string, string> }): Promise<User | null> {
+    const id = Number(request.params.id);
+    if (!Number.isInteger(id)) {
+      return Promise.resolve(null);
+    }
+    return this.usersService.findById(id);
+  }
+}
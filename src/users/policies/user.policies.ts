@@ -0,0 +1,22 @@
+import { Permission } from '../../auth/policies/permission.enum';
+import { PolicyHandler } from '../../auth/policies/policy-handler.interface';
+import { User } from '../entities/user.entity';
+
+/**
+ * Políticas sobre registros de usuario
+ *
+ * REGLA: Un usuario solo puede leer su propio registro, salvo que tenga
+ * el permiso users:manage (modificarlo lo exige siempre).
+ *
+ * Si el registro no existe (resource = null) solo pasa quien tiene
+ * users:manage; así un usuario común recibe 403 tanto si el id existe como
+ * si no, y no puede averiguar qué ids están ocupados.
+ */
+export const canReadUser: PolicyHandler<User> = (ability, user) =>
+  ability.can(Permission.UsersManage) || ability.owns(user?.id);
+
+/**
+ * Listar y administrar usuarios en general (p. ej. GET /users)
+ */
+export const canManageUsers: PolicyHandler = (ability) =>
+  ability.can(Permission.UsersManage);
@@ -2,14 +2,55 @@
 // IMPORTACIONES
 // ============================================
 
-import { Controller, Get, Param } from '@nestjs/common';
-import { UsersService } from './users.service';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { toPublicUser, UsersService } from './users.service';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { SetUserRolesDto } from './dto/set-user-roles.dto';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+import { Principal } from '../auth/interfaces/jwt-payload.interface';
+import { ServiceAuthGuard } from '../auth/guards/service-auth.guard';
+import { PoliciesGuard } from '../auth/guards/policies.guard';
+import {
+  CheckPolicies,
+  PolicyResource,
+} from '../auth/decorators/check-policies.decorator';
+import { canManageUsers, canReadUser } from './policies/user.policies';
+import { UserResourceResolver } from './policies/user-resource.resolver';
+import { AuditInterceptor } from '../audit/interceptors/audit.interceptor';
+import { Audited } from '../audit/decorators/audited.decorator';
+import { AuditAction } from '../audit/enums/audit-action.enum';
 
 // ============================================
 // CONTROLADOR DE USUARIOS
 // ============================================
 
 // @Controller('users'): Define que este controlador manejará todas las rutas que empiecen con /users
+// Body y query string se validan contra sus DTOs con AppValidationPipe (global):
+// 400 si llegan campos que el DTO no declara (p. ej. "isActive" o "password"
+// en PATCH /users/:id)
+// AuditInterceptor registra en la auditoría las rutas marcadas con @Audited()
+// (quién, sobre qué usuario, desde dónde y con qué resultado)
+@UseInterceptors(AuditInterceptor)
 @Controller('users')
 export class UsersController {
 
@@ -19,32 +60,49 @@ export class UsersController {
   constructor(private readonly usersService: UsersService) { }
 
   // ==========================================
-  // GET /users - Obtener todos los usuarios
+  // GET /users - Listado paginado de usuarios
   // ==========================================
 
   /**
-   * Endpoint para obtener la lista de todos los usuarios
+   * Endpoint para listar los usuarios, por páginas
    * 
-   * RUTA: GET http://localhost:3000/users
+   * RUTA: GET http://localhost:3000/users?search=juan&sort=username&limit=20
    * 
-   * RESPUESTA: Array de usuarios sin contraseñas
+   * QUERY STRING (ver ListUsersQueryDto, todo opcional):
+   * - limit (1-100, por defecto 20) y cursor u offset
+   * - isActive, createdFrom, createdTo: filtros
+   * - sort (username, email, createdAt) y order (asc, desc)
+   * - search: texto en username o email, sin distinguir mayúsculas
+   * 400 Bad Request si algún parámetro es inválido o desconocido
+   * 
+   * RESPUESTA: Página de usuarios sin contraseñas
    * Ejemplo:
-   * [
-   *   {
-   *     "id": 1,
-   *     "username": "juanperez",
-   *     "email": "juan@test.com",
-   *     "isActive": true,
-   *     "createdAt": "2024-01-15T10:30:00.000Z",
-   *     "updatedAt": "2024-01-15T10:30:00.000Z"
-   *   }
-   * ]
+   * {
+   *   "items": [
+   *     {
+   *       "id": 1,
+   *       "username": "juanperez",
+   *       "email": "juan@test.com",
+   *       "isActive": true,
+   *       "roles": ["user"],
+   *       "createdAt": "2024-01-15T10:30:00.000Z",
+   *       "updatedAt": "2024-01-15T10:30:00.000Z"
+   *     }
+   *   ],
+   *   "total": 57,
+   *   "next_cursor": "eyJzb3J0Ijoi..."   ← null en la última página
+   * }
    * 
-   * SEGURIDAD: Las contraseñas NO se incluyen en la respuesta
+   * SEGURIDAD:
+   * - Las contraseñas NO se incluyen en la respuesta
+   * - Ruta PROTEGIDA - requiere el permiso users:manage (administradores,
+   *   o aplicaciones con ese scope en su token de client credentials)
    */
+  @UseGuards(ServiceAuthGuard, PoliciesGuard)
+  @CheckPolicies(canManageUsers)
   @Get()
-  findAll() {
-    return this.usersService.findAll();
+  findAll(@Query() query: ListUsersQueryDto) {
+    return this.usersService.findAll(query);
   }
 
   // ==========================================
@@ -59,63 +117,205 @@ export class UsersController {
    * PARÁMETRO:
    * - id: ID del usuario (viene en la URL)
    * 
-   * @Param('id'): Extrae el parámetro 'id' de la URL
-   * - id: string - NestJS siempre recibe los parámetros como string
-   * - +id: El operador + convierte el string a número
-   *   Ejemplo: +'123' → 123
+   * @Param('id', ParseIntPipe): Extrae el parámetro 'id' de la URL
+   * - NestJS siempre recibe los parámetros como string
+   * - ParseIntPipe lo convierte a número (400 Bad Request si no es numérico)
+   * 
+   * SEGURIDAD (PoliciesGuard + canReadUser):
+   * - Un usuario solo puede consultar su propio registro
+   * - Quien tenga el permiso users:manage (admins, o aplicaciones con ese
+   *   scope) puede consultar cualquiera
+   * - El password nunca se incluye en la respuesta
    * 
    * RESPUESTA SI EXISTE:
    * {
    *   "id": 1,
    *   "username": "juanperez",
    *   "email": "juan@test.com",
-   *   "password": "$2b$10$...",  // ⚠️ NOTA: Sí incluye password
    *   "isActive": true,
+   *   "roles": ["user"],
    *   "createdAt": "2024-01-15T10:30:00.000Z",
    *   "updatedAt": "2024-01-15T10:30:00.000Z"
    * }
    * 
-   * RESPUESTA SI NO EXISTE:
-   * undefined (Status 200 pero body vacío)
-   * 
-   * NOTA: Este endpoint SÍ retorna el password porque findById() retorna
-   * el usuario completo. En un sistema real, deberías filtrar el password
-   * antes de retornarlo.
-   * 
-   * MEJORA SUGERIDA:
-   * Podrías modificar este método para no retornar el password:
-   * 
-   * @Get(':id')
-   * findOne(@Param('id') id: string) {
-   *   const user = this.usersService.findById(+id);
-   *   if (!user) {
-   *     throw new NotFoundException('Usuario no encontrado');
-   *   }
-   *   const { password, ...userWithoutPassword } = user;
-   *   return userWithoutPassword;
-   * }
+   * RESPUESTA SI NO EXISTE: 404 Not Found (solo para quien tiene users:manage;
+   * el resto recibe 403 para no revelar qué ids existen)
    */
+  @UseGuards(ServiceAuthGuard, PoliciesGuard)
+  @PolicyResource(UserResourceResolver)
+  @CheckPolicies(canReadUser)
+  @Audited({ action: AuditAction.UserRead, target: 'user' })
   @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.usersService.findById(+id);
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    const user = await this.usersService.findById(id);
+    if (!user) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+    return toPublicUser(user);
   }
 
   // ==========================================
-  // NOTAS SOBRE ENDPOINTS NO IMPLEMENTADOS
+  // ADMINISTRACIÓN DE USUARIOS (permiso users:manage)
   // ==========================================
 
-  // Los siguientes endpoints NO están implementados porque el UsersService
-  // no tiene los métodos correspondientes:
-  //
-  // - POST /users - Crear usuario
-  //   → Se crea en /auth/register en su lugar
-  //
-  // - PATCH /users/:id - Actualizar usuario
-  //   → No implementado en este taller básico
-  //   → Podrías agregarlo implementando el método update() en UsersService
-  //
-  // - DELETE /users/:id - Eliminar usuario
-  //   → No implementado en este taller básico
-  //   → Podrías agregarlo implementando el método remove() en UsersService
+  // Todas estas rutas exigen users:manage (administradores, o aplicaciones
+  // con ese scope en su token de client credentials) y responden sin el
+  // password del usuario.
+
+  /**
+   * Crea una cuenta (con el email ya verificado)
+   *
+   * RUTA: POST http://localhost:3000/users
+   * BODY: CreateUserDto { username, email, password, roles? }
+   *
+   * RESPUESTAS:
+   * - 201: Usuario creado
+   * - 400: Datos inválidos
+   * - 409: El email o username ya está registrado
+   */
+  @UseGuards(ServiceAuthGuard, PoliciesGuard)
+  @CheckPolicies(canManageUsers)
+  @Audited({
+    action: AuditAction.UserCreate,
+    target: 'user',
+    metadata: (req) => {
+      const { username, email, roles } = (req.body ?? {}) as CreateUserDto;
+      return { username, email, roles };
+    },
+  })
+  @Post()
+  create(@Body() createUserDto: CreateUserDto) {
+    return this.usersService.createByAdmin(createUserDto);
+  }
+
+  /**
+   * Modifica username y/o email
+   *
+   * RUTA: PATCH http://localhost:3000/users/1
+   * BODY: UpdateUserDto { username?, email? }
+   */
+  @UseGuards(ServiceAuthGuard, PoliciesGuard)
+  @CheckPolicies(canManageUsers)
+  @Audited({
+    action: AuditAction.UserUpdate,
+    target: 'user',
+    metadata: (req) => {
+      const { username, email } = (req.body ?? {}) as UpdateUserDto;
+      return { changes: { username, email } };
+    },
+  })
+  @Patch(':id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateUserDto: UpdateUserDto,
+  ) {
+    return this.usersService.update(id, updateUserDto);
+  }
+
+  /**
+   * Desactiva la cuenta: no puede iniciar sesión y pierde el acceso
+   * inmediatamente (tokens y API keys)
+   *
+   * RUTA: POST http://localhost:3000/users/1/deactivate
+   */
+  @UseGuards(ServiceAuthGuard, PoliciesGuard)
+  @CheckPolicies(canManageUsers)
+  @HttpCode(HttpStatus.OK)
+  @Audited({ action: AuditAction.UserDeactivate, target: 'user' })
+  @Post(':id/deactivate')
+  deactivate(
+    @Req() req: Request & { user: Principal },
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    this.assertNotSelf(req.user, id);
+    return this.usersService.setActive(id, false);
+  }
 
+  /**
+   * Reactiva una cuenta desactivada
+   *
+   * RUTA: POST http://localhost:3000/users/1/reactivate
+   */
+  @UseGuards(ServiceAuthGuard, PoliciesGuard)
+  @CheckPolicies(canManageUsers)
+  @HttpCode(HttpStatus.OK)
+  @Audited({ action: AuditAction.UserReactivate, target: 'user' })
+  @Post(':id/reactivate')
+  reactivate(@Param('id', ParseIntPipe) id: number) {
+    return this.usersService.setActive(id, true);
+  }
+
+  /**
+   * Obliga al usuario a elegir una contraseña nueva: cierra sus sesiones
+   * y no puede volver a iniciar sesión hasta completar
+   * POST /auth/forgot-password → POST /auth/reset-password
+   *
+   * RUTA: POST http://localhost:3000/users/1/force-password-reset
+   */
+  @UseGuards(ServiceAuthGuard, PoliciesGuard)
+  @CheckPolicies(canManageUsers)
+  @HttpCode(HttpStatus.OK)
+  @Audited({ action: AuditAction.UserForcePasswordReset, target: 'user' })
+  @Post(':id/force-password-reset')
+  forcePasswordReset(@Param('id', ParseIntPipe) id: number) {
+    return this.usersService.requirePasswordReset(id);
+  }
+
+  /**
+   * Reemplaza los roles del usuario
+   *
+   * RUTA: PUT http://localhost:3000/users/1/roles
+   * BODY: SetUserRolesDto { roles: ["user", "admin"] }
+   */
+  @UseGuards(ServiceAuthGuard, PoliciesGuard)
+  @CheckPolicies(canManageUsers)
+  @Audited({
+    action: AuditAction.UserSetRoles,
+    target: 'user',
+    metadata: (req) => ({ roles: (req.body as Partial<SetUserRolesDto> | undefined)?.roles }),
+  })
+  @Put(':id/roles')
+  setRoles(
+    @Req() req: Request & { user: Principal },
+    @Param('id', ParseIntPipe) id: number,
+    @Body() setUserRolesDto: SetUserRolesDto,
+  ) {
+    this.assertNotSelf(req.user, id);
+    return this.usersService.setRoles(id, setUserRolesDto.roles);
+  }
+
+  /**
+   * Borra la cuenta (soft delete): deja de existir para la aplicación,
+   * pero la fila se conserva (deletedAt)
+   *
+   * RUTA: DELETE http://localhost:3000/users/1
+   * RESPUESTA: 204 No Content
+   */
+  @UseGuards(ServiceAuthGuard, PoliciesGuard)
+  @CheckPolicies(canManageUsers)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Audited({ action: AuditAction.UserDelete, target: 'user' })
+  @Delete(':id')
+  async remove(
+    @Req() req: Request & { user: Principal },
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    this.assertNotSelf(req.user, id);
+    await this.usersService.softDelete(id);
+  }
+
+  /**
+   * Un administrador no puede desactivar, borrar ni cambiar los roles de
+   * su propia cuenta: podría dejar el sistema sin administradores
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): La cuenta es la del usuario autenticado
+   */
+  private assertNotSelf(principal: Principal, id: number) {
+    if ('userId' in principal && principal.userId === id) {
+      throw new BadRequestException(
+        'No puede realizar esta acción sobre su propia cuenta',
+      );
+    }
+  }
 }
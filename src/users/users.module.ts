@@ -1,11 +1,21 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
+import { User } from './entities/user.entity';
+import { UserIdentity } from './entities/user-identity.entity';
+import { PoliciesModule } from '../auth/policies/policies.module';
+import { UserResourceResolver } from './policies/user-resource.resolver';
+import { PasswordHistory } from './entities/password-history.entity';
+import { PasswordPolicyService } from './password-policy/password-policy.service';
+import { AuditModule } from '../audit/audit.module';
+import { EventsModule } from '../events/events.module';
 
 @Module({
+  imports: [TypeOrmModule.forFeature([User, UserIdentity, PasswordHistory]), PoliciesModule, AuditModule, EventsModule],
   controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService],
+  providers: [UsersService, UserResourceResolver, PasswordPolicyService],
+  exports: [UsersService, PasswordPolicyService],
   // ⚠️ IMPORTANTE: Exportar para usar en AuthModule. Si no lo exportas no podras utilizar este servicio necesario en el modulo Auth
 })
 export class UsersModule { }
\ No newline at end of file
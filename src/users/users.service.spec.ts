@@ -0,0 +1,220 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { buildDataSourceOptions } from '../database/database.config';
+import { User } from './entities/user.entity';
+import { UserIdentity } from './entities/user-identity.entity';
+import { UsersService } from './users.service';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+import { PasswordPolicyService } from './password-policy/password-policy.service';
+import { DomainEventBus } from '../events/domain-event-bus.service';
+import { DomainEventType } from '../events/enums/domain-event-type.enum';
+import { ALL_EVENTS } from '../events/interfaces/domain-event.interface';
+import { UserEventData } from '../events/interfaces/user-event.interface';
+
+describe('UsersService', () => {
+  let moduleRef: TestingModule;
+  let usersService: UsersService;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        TypeOrmModule.forRoot({
+          ...buildDataSourceOptions(),
+          entities: [User, UserIdentity],
+        }),
+        TypeOrmModule.forFeature([User, UserIdentity]),
+      ],
+      providers: [
+        UsersService,
+        // La política tiene sus propias pruebas (password-policy.service.spec)
+        {
+          provide: PasswordPolicyService,
+          useValue: { assertAcceptable: jest.fn(), remember: jest.fn() },
+        },
+        DomainEventBus,
+      ],
+    }).compile();
+
+    usersService = moduleRef.get(UsersService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  const userData = {
+    username: 'juanperez',
+    email: 'juan@test.com',
+    password: '$2b$10$hash',
+  };
+
+  it('persists users and assigns id and timestamps', async () => {
+    const created = await usersService.create(userData);
+
+    expect(created.id).toBeDefined();
+    expect(created.isActive).toBe(true);
+    expect(created.createdAt).toBeInstanceOf(Date);
+
+    const found = await usersService.findByEmail('juan@test.com');
+    expect(found?.id).toBe(created.id);
+    expect((await usersService.findByUsername('juanperez'))?.id).toBe(
+      created.id,
+    );
+    expect((await usersService.findById(created.id))?.email).toBe(
+      'juan@test.com',
+    );
+  });
+
+  it('rejects duplicated emails and usernames', async () => {
+    await usersService.create(userData);
+
+    await expect(
+      usersService.create({ ...userData, username: 'otro' }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    await expect(
+      usersService.create({ ...userData, email: 'otro@test.com' }),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('publishes lifecycle events only when something changes', async () => {
+    const published: { type: string; data: UserEventData }[] = [];
+    moduleRef.get(DomainEventBus).subscribe(ALL_EVENTS, ({ type, data }) => {
+      published.push({ type, data: data as UserEventData });
+    });
+    const user = await usersService.create(userData);
+
+    await usersService.markEmailVerified(user.id);
+    await usersService.markEmailVerified(user.id);
+    await usersService.setActive(user.id, true);
+    await usersService.setActive(user.id, false);
+    await usersService.setRoles(user.id, ['user']);
+    await usersService.setRoles(user.id, ['user', 'soporte']);
+    await usersService.update(user.id, { email: 'nuevo@test.com' });
+    await usersService.softDelete(user.id);
+
+    expect(published.map(({ type }) => type)).toEqual([
+      DomainEventType.UserEmailVerified,
+      DomainEventType.UserDeactivated,
+      DomainEventType.UserRolesChanged,
+      DomainEventType.UserEmailChanged,
+      DomainEventType.UserDeleted,
+    ]);
+    expect(published[2].data.previous).toEqual({ roles: ['user'] });
+    expect(published[3].data).toEqual({
+      user: {
+        id: user.id,
+        username: 'juanperez',
+        email: 'nuevo@test.com',
+        roles: ['user', 'soporte'],
+        isActive: false,
+        emailVerified: true,
+      },
+      previous: { email: 'juan@test.com' },
+    });
+    expect(published[4].data.user).not.toHaveProperty('password');
+  });
+
+  it('never returns passwords from findAll', async () => {
+    await usersService.create(userData);
+
+    const page = await usersService.findAll(new ListUsersQueryDto());
+    expect(page.items).toHaveLength(1);
+    expect(page.items[0]).not.toHaveProperty('password');
+  });
+
+  describe('findAll', () => {
+    const names = ['carla', 'Ana', 'beto', 'dario_x', 'elena%'];
+
+    beforeEach(async () => {
+      for (const [i, name] of names.entries()) {
+        await usersService.create({
+          username: name,
+          email: `${name.toLowerCase()}@test.com`,
+          password: '$2b$10$hash',
+          isActive: i !== 2,
+        });
+      }
+    });
+
+    const query = (params: Partial<ListUsersQueryDto>) =>
+      Object.assign(new ListUsersQueryDto(), params);
+
+    it('walks every page with the cursor without repeating users', async () => {
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await usersService.findAll(
+          query({ sort: 'email', order: 'desc', limit: 2, cursor }),
+        );
+        expect(page.total).toBe(5);
+        seen.push(...page.items.map((user) => user.email));
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor);
+
+      expect(seen).toEqual([
+        'elena%@test.com',
+        'dario_x@test.com',
+        'carla@test.com',
+        'beto@test.com',
+        'ana@test.com',
+      ]);
+    });
+
+    it('supports offset pagination in creation order', async () => {
+      const page = await usersService.findAll(query({ offset: 3, limit: 10 }));
+
+      expect(page.items.map((user) => user.username)).toEqual([
+        'dario_x',
+        'elena%',
+      ]);
+      expect(page.next_cursor).toBeNull();
+    });
+
+    it('filters by status and searches case-insensitively', async () => {
+      const inactive = await usersService.findAll(query({ isActive: false }));
+      expect(inactive.items.map((user) => user.username)).toEqual(['beto']);
+
+      const search = await usersService.findAll(query({ search: 'ANA' }));
+      expect(search.items.map((user) => user.username)).toEqual(['Ana']);
+
+      // Los comodines de LIKE se buscan literalmente
+      const literal = await usersService.findAll(query({ search: '%' }));
+      expect(literal.items.map((user) => user.username)).toEqual(['elena%']);
+      const underscore = await usersService.findAll(query({ search: '_' }));
+      expect(underscore.total).toBe(1);
+    });
+
+    it('filters by creation date range', async () => {
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      expect(
+        (await usersService.findAll(query({ createdFrom: yesterday }))).total,
+      ).toBe(5);
+      expect(
+        (await usersService.findAll(query({ createdFrom: tomorrow }))).total,
+      ).toBe(0);
+      expect(
+        (await usersService.findAll(query({ createdTo: yesterday }))).total,
+      ).toBe(0);
+    });
+
+    it('rejects invalid cursors and mixing cursor with offset', async () => {
+      const { next_cursor } = await usersService.findAll(
+        query({ sort: 'username', limit: 1 }),
+      );
+
+      await expect(
+        usersService.findAll(query({ cursor: next_cursor!, offset: 1 })),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      // Un cursor de otro orden tampoco sirve
+      await expect(
+        usersService.findAll(query({ cursor: next_cursor!, sort: 'email' })),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        usersService.findAll(query({ cursor: 'no-es-un-cursor' })),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+});
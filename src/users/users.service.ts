@@ -4,10 +4,78 @@
 
 // Injectable: Decorador que marca esta clase como un "proveedor" de NestJS
 // Esto permite que NestJS la inyecte automáticamente en otros componentes
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+
+// InjectRepository: Inyecta el repositorio de TypeORM asociado a una entidad
+import { InjectRepository } from '@nestjs/typeorm';
+
+// Repository: API de TypeORM para consultar y persistir entidades
+import { Brackets, IsNull, Repository } from 'typeorm';
+
+// isUniqueViolation: Detecta errores de índices únicos (email/username duplicados)
+import { isUniqueViolation } from '../database/database.errors';
+
+// Paginated: Respuesta paginada estándar (items, total, next_cursor)
+import {
+  decodeCursor,
+  encodeCursor,
+  escapeLike,
+  Paginated,
+} from '../database/pagination';
 
 // User: Importamos la entidad User que define la estructura de un usuario
 import { User } from './entities/user.entity';
+import { UserIdentity } from './entities/user-identity.entity';
+
+// Role: Roles predefinidos (todo usuario nuevo recibe Role.User)
+import { Role } from '../auth/enums/role.enum';
+
+// bcrypt: Hash de la contraseña de las cuentas creadas por un administrador
+import * as bcrypt from 'bcrypt';
+import { BCRYPT_SALT_ROUNDS } from '../auth/auth.constants';
+
+// DTOs de la administración de usuarios (POST /users, PATCH /users/:id)
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+
+// PasswordPolicyService: Reglas de las contraseñas nuevas e historial
+import { PasswordPolicyService } from './password-policy/password-policy.service';
+
+// DomainEventBus: Publica los cambios del ciclo de vida (user.*) para los
+// webhooks y cualquier otro módulo interesado
+import { DomainEventBus } from '../events/domain-event-bus.service';
+import { DomainEventType } from '../events/enums/domain-event-type.enum';
+import { UserEventData, userSnapshot } from '../events/interfaces/user-event.interface';
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Datos necesarios para crear un usuario
+ * - username, email y password son obligatorios
+ * - El resto de columnas (isActive, roles, fechas...) tienen valores por defecto
+ */
+export type CreateUserData = Pick<User, 'username' | 'email' | 'password'> &
+  Partial<Omit<User, 'id' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * Usuario tal como se retorna en las respuestas HTTP (sin password)
+ */
+export type PublicUser = Omit<User, 'password'>;
+
+/**
+ * Quita el password (ni siquiera hasheado debe salir en una respuesta)
+ */
+export function toPublicUser({ password, ...user }: User): PublicUser {
+  return user;
+}
 
 // ============================================
 // SERVICIO DE USUARIOS
@@ -18,19 +86,26 @@ import { User } from './entities/user.entity';
 export class UsersService {
 
   // ==========================================
-  // SIMULACIÓN DE BASE DE DATOS
+  // CONSTRUCTOR - Repositorio de TypeORM
   // ==========================================
 
-  // private users: Arreglo privado que simula una tabla de base de datos
-  // - En producción, esto sería reemplazado por TypeORM Repository
-  // - Ejemplo: @InjectRepository(User) private userRepository: Repository<User>
-  // - Usamos esto para el taller porque es más simple de entender
-  private users: User[] = [];
-
-  // idCounter: Contador para generar IDs únicos auto-incrementales
-  // - Simula la funcionalidad de AUTO_INCREMENT de una base de datos
-  // - En producción, la base de datos genera estos IDs automáticamente
-  private idCounter = 1;
+  /**
+   * @param usersRepository - Repositorio de la tabla 'users'
+   * @param identitiesRepository - Cuentas externas vinculadas (login social)
+   * @param passwordPolicyService - Política e historial de contraseñas
+   * @param eventBus - Eventos de dominio (se publican tras cada cambio)
+   *
+   * Reemplaza al antiguo array en memoria: los usuarios ahora sobreviven
+   * a los reinicios de la aplicación.
+   */
+  constructor(
+    @InjectRepository(User)
+    private readonly usersRepository: Repository<User>,
+    @InjectRepository(UserIdentity)
+    private readonly identitiesRepository: Repository<UserIdentity>,
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly eventBus: DomainEventBus,
+  ) { }
 
   // ==========================================
   // MÉTODO: CREATE - Crear nuevo usuario
@@ -38,51 +113,33 @@ export class UsersService {
 
   /**
    * Crea un nuevo usuario en el sistema
-   * 
-   * @param userData - Datos del usuario a crear (sin id ni createdAt)
+   *
+   * @param userData - Datos del usuario a crear (sin id ni fechas)
    * @returns El usuario creado con todos sus campos
-   * 
+   *
    * FLUJO:
-   * 1. Recibe los datos del usuario (username, email, password, isActive, updatedAt)
-   * 2. Genera un nuevo ID único usando el contador
-   * 3. Crea el objeto completo del usuario con todos los campos
-   * 4. Agrega el usuario al array (simula INSERT en base de datos)
-   * 5. Retorna el usuario creado
-   * 
+   * 1. Construye la entidad con repository.create()
+   * 2. La persiste con repository.save() (INSERT en la base de datos)
+   * 3. La base de datos asigna id, createdAt y updatedAt
+   *
+   * EXCEPCIONES:
+   * - ConflictException (409): Si la base de datos rechaza el INSERT por los
+   *   índices únicos de email/username (p. ej. dos registros simultáneos)
+   *
    * NOTA: Este método NO hashea el password, eso se hace en AuthService
-   * 
-   * EJEMPLO DE USO:
-   * const nuevoUsuario = this.usersService.create({
-   *   username: 'juanperez',
-   *   email: 'juan@test.com',
-   *   password: '$2b$10$hashedPassword...', // Ya viene hasheado desde AuthService
-   *   isActive: true,
-   *   updatedAt: new Date()
-   * });
+   * (o en createByAdmin)
    */
-  create(userData: Omit<User, 'id' | 'createdAt'>): User {
-    // Creamos un nuevo objeto User con todos los campos necesarios
-    const newUser: User = {
-      // id: Asignamos el ID actual del contador y luego lo incrementamos
-      // El operador ++ incrementa después de asignar (post-incremento)
-      id: this.idCounter++,
-
-      // ...userData: Operador spread que copia todas las propiedades de userData
-      // Esto incluye: username, email, password, isActive, updatedAt
-      ...userData,
-
-      // createdAt: Asignamos la fecha y hora actual automáticamente
-      // new Date() crea un objeto Date con el momento exacto de creación
-      createdAt: new Date(),
-    };
-
-    // Agregamos el nuevo usuario al array de usuarios
-    // Esto simula: INSERT INTO usuarios (...) VALUES (...)
-    this.users.push(newUser);
+  async create(userData: CreateUserData): Promise<User> {
+    const user = this.usersRepository.create({ roles: [Role.User], ...userData });
 
-    // Retornamos el usuario creado con todos sus datos
-    // Esto es útil para confirmar que se creó correctamente
-    return newUser;
+    try {
+      return await this.usersRepository.save(user);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictException('El email o nombre de usuario ya está registrado');
+      }
+      throw error;
+    }
   }
 
   // ==========================================
@@ -91,32 +148,30 @@ export class UsersService {
 
   /**
    * Busca un usuario por su dirección de email
-   * 
+   *
    * @param email - Email del usuario a buscar
-   * @returns El usuario encontrado o undefined si no existe
-   * 
+   * @returns El usuario encontrado o null si no existe
+   *
    * USO PRINCIPAL: Este método es crucial para el LOGIN
-   * - En el login, el usuario ingresa su email y password
-   * - Usamos este método para verificar si el email existe
-   * - Luego comparamos el password hasheado
-   * 
-   * NOTA: El método .find() recorre el array hasta encontrar el primer elemento
-   * que cumpla la condición. Si no encuentra ninguno, retorna undefined
-   * 
-   * EJEMPLO DE USO EN LOGIN:
-   * const usuario = this.usersService.findByEmail('juan@test.com');
-   * if (!usuario) {
-   *   throw new UnauthorizedException('Credenciales inválidas');
-   * }
-   * 
-   * EN PRODUCCIÓN CON TYPEORM:
-   * return this.userRepository.findOne({ where: { email } });
    */
-  findByEmail(email: string): User | undefined {
-    // .find() busca el primer usuario cuyo email coincida con el parámetro
-    // user => user.email === email: Función flecha que compara cada usuario
-    // Retorna el usuario encontrado o undefined si no existe
-    return this.users.find(user => user.email === email);
+  findByEmail(email: string): Promise<User | null> {
+    return this.usersRepository.findOne({ where: { email } });
+  }
+
+  // ==========================================
+  // MÉTODO: FIND_BY_USERNAME - Buscar usuario por username
+  // ==========================================
+
+  /**
+   * Busca un usuario por su nombre de usuario
+   *
+   * @param username - Nombre de usuario a buscar
+   * @returns El usuario encontrado o null si no existe
+   *
+   * USO PRINCIPAL: Verificar duplicados durante el registro
+   */
+  findByUsername(username: string): Promise<User | null> {
+    return this.usersRepository.findOne({ where: { username } });
   }
 
   // ==========================================
@@ -125,139 +180,561 @@ export class UsersService {
 
   /**
    * Busca un usuario por su ID único
-   * 
+   *
    * @param id - ID numérico del usuario
-   * @returns El usuario encontrado o undefined si no existe
-   * 
-   * USO PRINCIPAL: Este método es útil para:
-   * 1. Obtener el perfil del usuario autenticado
-   *    - El JWT contiene el ID del usuario (payload.sub)
-   *    - Usamos este método para obtener los datos completos
-   * 2. Validar que un usuario sigue existiendo
-   *    - Antes de realizar operaciones, verificamos que el usuario existe
-   * 
-   * EJEMPLO DE USO EN PERFIL:
-   * // Después de validar el JWT, tenemos el userId
-   * const usuario = this.usersService.findById(userId);
-   * if (!usuario) {
-   *   throw new NotFoundException('Usuario no encontrado');
-   * }
-   * 
-   * EN PRODUCCIÓN CON TYPEORM:
-   * return this.userRepository.findOne({ where: { id } });
+   * @returns El usuario encontrado o null si no existe
+   *
+   * USO PRINCIPAL: Obtener el perfil del usuario autenticado
+   * (el JWT contiene el ID del usuario en payload.sub)
+   */
+  findById(id: number): Promise<User | null> {
+    return this.usersRepository.findOne({ where: { id } });
+  }
+
+  // ==========================================
+  // MÉTODO: UPDATE_PASSWORD - Cambiar contraseña
+  // ==========================================
+
+  /**
+   * Reemplaza la contraseña del usuario
+   *
+   * Cumple también un restablecimiento exigido por un administrador
+   * (ver requirePasswordReset).
+   *
+   * @param userId - ID del usuario
+   * @param hashedPassword - Nueva contraseña YA HASHEADA (lo hace AuthService)
+   */
+  async updatePassword(userId: number, hashedPassword: string): Promise<void> {
+    // La contraseña anterior pasa al historial: no se podrá volver a elegir
+    const user = await this.usersRepository.findOne({
+      select: { id: true, password: true },
+      where: { id: userId },
+    });
+    if (user) {
+      await this.passwordPolicyService.remember(userId, user.password);
+    }
+
+    await this.usersRepository.update(
+      { id: userId },
+      { password: hashedPassword, passwordResetRequiredAt: null },
+    );
+  }
+
+  // ==========================================
+  // MÉTODOS: CAMBIO DE EMAIL
+  // ==========================================
+
+  /**
+   * Registra el nuevo email pendiente de confirmación
+   *
+   * @param userId - ID del usuario
+   * @param pendingEmail - Nuevo email (aún sin verificar)
+   */
+  async requestEmailChange(userId: number, pendingEmail: string): Promise<void> {
+    await this.usersRepository.update({ id: userId }, { pendingEmail });
+  }
+
+  /**
+   * Reemplaza el email por el pendiente ya verificado
+   * (publica user.email_changed)
+   *
+   * EXCEPCIONES:
+   * - ConflictException (409): Otra cuenta registró ese email mientras tanto
+   */
+  async confirmEmailChange(userId: number, email: string): Promise<void> {
+    const previous = await this.findById(userId);
+    try {
+      await this.usersRepository.update(
+        { id: userId },
+        { email, pendingEmail: null, emailVerifiedAt: new Date() },
+      );
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictException('El email ya está registrado');
+      }
+      throw error;
+    }
+
+    if (previous && previous.email !== email) {
+      await this.publish(DomainEventType.UserEmailChanged, userId, {
+        previous: { email: previous.email },
+      });
+    }
+  }
+
+  // ==========================================
+  // MÉTODOS: AUTENTICACIÓN EN DOS PASOS
+  // ==========================================
+
+  /**
+   * Busca un usuario incluyendo las columnas de 2FA marcadas con
+   * select: false (secreto TOTP y último intervalo usado)
+   *
+   * SEGURIDAD: El resultado contiene el secreto TOTP, nunca debe
+   * retornarse en una respuesta HTTP.
+   */
+  findTwoFactorState(id: number): Promise<User | null> {
+    return this.usersRepository
+      .createQueryBuilder('user')
+      .addSelect(['user.twoFactorSecret', 'user.twoFactorLastUsedStep'])
+      .where('user.id = :id', { id })
+      .getOne();
+  }
+
+  /**
+   * Guarda (o borra con null) el secreto TOTP y deja la 2FA desactivada
+   * hasta que el usuario confirme un código
+   */
+  async setTwoFactorSecret(userId: number, secret: string | null): Promise<void> {
+    await this.usersRepository.update(
+      { id: userId },
+      { twoFactorSecret: secret, twoFactorEnabledAt: null, twoFactorLastUsedStep: null },
+    );
+  }
+
+  /**
+   * Activa la autenticación en dos pasos
+   */
+  async enableTwoFactor(userId: number): Promise<void> {
+    await this.usersRepository.update({ id: userId }, { twoFactorEnabledAt: new Date() });
+  }
+
+  /**
+   * Registra el intervalo TOTP usado, solo si es posterior al último
+   *
+   * La condición va en el UPDATE: dos peticiones simultáneas con el mismo
+   * código no pueden tener éxito ambas.
+   *
+   * @returns false si el intervalo ya se había usado
+   */
+  async recordTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const result = await this.usersRepository
+      .createQueryBuilder()
+      .update(User)
+      .set({ twoFactorLastUsedStep: step })
+      .where('id = :userId', { userId })
+      .andWhere('(twoFactorLastUsedStep IS NULL OR twoFactorLastUsedStep < :step)', { step })
+      .execute();
+    return (result.affected ?? 0) > 0;
+  }
+
+  // ==========================================
+  // MÉTODOS: IDENTIDADES EXTERNAS (LOGIN SOCIAL)
+  // ==========================================
+
+  /**
+   * Busca la identidad externa (provider + subject) ya vinculada
+   */
+  findIdentity(provider: string, subject: string): Promise<UserIdentity | null> {
+    return this.identitiesRepository.findOne({ where: { provider, subject } });
+  }
+
+  /**
+   * Vincula una cuenta externa al usuario
+   *
+   * EXCEPCIONES:
+   * - ConflictException (409): Esa cuenta externa ya está vinculada
+   *   (dos callbacks simultáneos)
+   */
+  async linkIdentity(
+    userId: number,
+    provider: string,
+    subject: string,
+    email: string | null,
+  ): Promise<UserIdentity> {
+    try {
+      return await this.identitiesRepository.save(
+        this.identitiesRepository.create({ userId, provider, subject, email }),
+      );
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictException('La cuenta externa ya está vinculada');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cuentas externas vinculadas al usuario
+   */
+  findIdentities(userId: number): Promise<UserIdentity[]> {
+    return this.identitiesRepository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  // ==========================================
+  // MÉTODO: MARK_EMAIL_VERIFIED - Confirmar email
+  // ==========================================
+
+  /**
+   * Marca el email del usuario como verificado (si aún no lo estaba)
+   *
+   * Solo la primera vez publica user.email_verified.
+   *
+   * @param userId - ID del usuario
    */
-  findById(id: number): User | undefined {
-    // .find() busca el primer usuario cuyo id coincida con el parámetro
-    // user => user.id === id: Función flecha que compara los IDs
-    // Retorna el usuario encontrado o undefined si no existe
-    return this.users.find(user => user.id === id);
+  async markEmailVerified(userId: number): Promise<void> {
+    const result = await this.usersRepository.update(
+      { id: userId, emailVerifiedAt: IsNull() },
+      { emailVerifiedAt: new Date() },
+    );
+    if (result.affected) {
+      await this.publish(DomainEventType.UserEmailVerified, userId);
+    }
   }
 
   // ==========================================
-  // MÉTODO: FIND_ALL - Obtener todos los usuarios (SIN CONTRASEÑAS)
+  // MÉTODO: INVALIDATE_TOKENS - Cerrar sesión en todos los dispositivos
   // ==========================================
 
   /**
-   * Obtiene una lista de todos los usuarios registrados
+   * Invalida todos los access tokens emitidos hasta ahora para el usuario
+   *
+   * @param userId - ID del usuario
+   * @returns La nueva marca de tiempo tokensValidAfter
+   *
+   * NOTA: El claim "iat" de los JWT tiene precisión de segundos, por eso la
+   * marca se redondea al inicio del segundo actual. Así un token emitido
+   * justo después (p. ej. al volver a iniciar sesión) sigue siendo válido.
+   */
+  async invalidateTokens(userId: number): Promise<Date> {
+    const tokensValidAfter = new Date(Math.floor(Date.now() / 1000) * 1000);
+    await this.usersRepository.update({ id: userId }, { tokensValidAfter });
+    return tokensValidAfter;
+  }
+
+  // ==========================================
+  // MÉTODO: FIND_ALL - Listado paginado de usuarios (SIN CONTRASEÑAS)
+  // ==========================================
+
+  /**
+   * Obtiene una página de usuarios con filtros, orden y búsqueda
    * IMPORTANTE: NO incluye las contraseñas por seguridad
-   * 
-   * @returns Array de usuarios sin el campo password
-   * 
+   *
+   * @param query - Filtros, orden y posición (ver ListUsersQueryDto)
+   * @returns { items, total, next_cursor }
+   *
+   * ALGORITMO:
+   * 1. Aplica los filtros (isActive, rango de createdAt, búsqueda)
+   * 2. Cuenta el total que los cumple
+   * 3. Ordena por el campo pedido y desempata por id: el orden es total,
+   *    así el cursor continúa exactamente donde terminó la página
+   * 4. Salta hasta el cursor (o el offset) y lee limit + 1 filas: si
+   *    sobra una, hay página siguiente
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): cursor y offset a la vez, o un cursor
+   *   inválido o de otro orden
+   *
    * SEGURIDAD: Nunca debemos exponer las contraseñas, ni siquiera hasheadas
-   * - Las contraseñas hasheadas podrían ser objeto de ataques de fuerza bruta
-   * - Aplicamos el principio de "mínima exposición de información"
-   * 
-   * IMPLEMENTACIÓN:
-   * 1. Usamos .map() para transformar cada usuario
-   * 2. Desestructuramos el usuario separando 'password' de las demás propiedades
-   * 3. Retornamos solo las propiedades que no son password
-   * 
-   * EXPLICACIÓN DE LA DESESTRUCTURACIÓN:
-   * const { password, ...rest } = user;
-   *   - password: Extrae el campo password (lo descartamos)
-   *   - ...rest: Operador rest que agrupa todas las demás propiedades
-   *   - Ejemplo: Si user = { id: 1, email: 'a@b.com', password: 'hash' }
-   *     → password = 'hash'
-   *     → rest = { id: 1, email: 'a@b.com' }
-   * 
-   * EJEMPLO DE USO:
-   * const usuarios = this.usersService.findAll();
-   * // Retorna: [
-   * //   { id: 1, username: 'juan', email: 'juan@test.com', isActive: true, ... },
-   * //   { id: 2, username: 'maria', email: 'maria@test.com', isActive: true, ... }
-   * // ]
-   * 
-   * EN PRODUCCIÓN CON TYPEORM:
-   * return this.userRepository.find({
-   *   select: ['id', 'username', 'email', 'isActive', 'createdAt', 'updatedAt']
-   * });
    */
-  findAll(): Omit<User, 'password'>[] {
-    // .map() transforma cada elemento del array
-    // Para cada usuario, eliminamos el campo password
-    return this.users.map(({ password, ...rest }) => rest);
-
-    // ALTERNATIVA MÁS EXPLÍCITA (mismo resultado):
-    // return this.users.map(user => {
-    //   const { password, ...userWithoutPassword } = user;
-    //   return userWithoutPassword;
-    // });
+  async findAll(query: ListUsersQueryDto): Promise<Paginated<PublicUser>> {
+    if (query.cursor !== undefined && query.offset !== undefined) {
+      throw new BadRequestException('Use cursor u offset, no ambos');
+    }
+
+    // PASO 1: Filtros
+    const qb = this.usersRepository.createQueryBuilder('user');
+    if (query.isActive !== undefined) {
+      qb.andWhere('user.isActive = :isActive', { isActive: query.isActive });
+    }
+    if (query.createdFrom) {
+      qb.andWhere('user.createdAt >= :createdFrom', { createdFrom: query.createdFrom });
+    }
+    if (query.createdTo) {
+      qb.andWhere('user.createdAt <= :createdTo', { createdTo: query.createdTo });
+    }
+    if (query.search) {
+      // LOWER en ambos lados: sin distinguir mayúsculas en cualquier motor
+      qb.andWhere(
+        new Brackets((where) =>
+          where
+            .where("LOWER(user.username) LIKE :search ESCAPE '!'")
+            .orWhere("LOWER(user.email) LIKE :search ESCAPE '!'"),
+        ),
+        { search: `%${escapeLike(query.search.toLowerCase())}%` },
+      );
+    }
+
+    // PASO 2: Total (antes de aplicar la posición)
+    const total = await qb.getCount();
+
+    // PASO 3: Orden. createdAt se ordena por id: ambos se asignan al
+    // insertar, en el mismo orden, y el id además es único
+    const column = query.sort === 'createdAt' ? null : `user.${query.sort}`;
+    const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+    const after = direction === 'DESC' ? '<' : '>';
+    if (column) {
+      qb.orderBy(column, direction).addOrderBy('user.id', direction);
+    } else {
+      qb.orderBy('user.id', direction);
+    }
+
+    // PASO 4: Posición y tamaño de página
+    if (query.cursor !== undefined) {
+      const position = this.decodeUsersCursor(query.cursor, query);
+      if (column) {
+        qb.andWhere(
+          new Brackets((where) =>
+            where
+              .where(`${column} ${after} :cursorValue`)
+              .orWhere(`${column} = :cursorValue AND user.id ${after} :cursorId`),
+          ),
+          { cursorValue: position.value, cursorId: position.id },
+        );
+      } else {
+        qb.andWhere(`user.id ${after} :cursorId`, { cursorId: position.id });
+      }
+    } else if (query.offset) {
+      qb.offset(query.offset);
+    }
+
+    const rows = await qb.limit(query.limit + 1).getMany();
+    const items = rows.slice(0, query.limit);
+    const last = items[items.length - 1];
+
+    return {
+      items: items.map(toPublicUser),
+      total,
+      next_cursor:
+        rows.length > query.limit
+          ? encodeCursor({
+              sort: query.sort,
+              order: query.order,
+              id: last.id,
+              ...(column ? { value: last[query.sort] } : {}),
+            })
+          : null,
+    };
+  }
+
+  /**
+   * Valida un cursor de findAll: debe venir de un listado con el mismo orden
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): Cursor inválido
+   */
+  private decodeUsersCursor(
+    cursor: string,
+    query: ListUsersQueryDto,
+  ): { id: number; value?: string } {
+    const position = decodeCursor(cursor);
+    const id = position?.id;
+    const value = position?.value;
+
+    if (
+      position?.sort !== query.sort ||
+      position.order !== query.order ||
+      typeof id !== 'number' ||
+      (query.sort !== 'createdAt' && typeof value !== 'string')
+    ) {
+      throw new BadRequestException(
+        'Cursor inválido: use el next_cursor de la respuesta anterior, con el mismo orden',
+      );
+    }
+    return { id, value: value as string | undefined };
   }
 
   // ==========================================
-  // NOTAS ADICIONALES
+  // MÉTODOS: ADMINISTRACIÓN DE USUARIOS
   // ==========================================
 
-  // MÉTODOS QUE PODRÍAS AGREGAR EN EL FUTURO:
+  /**
+   * Crea una cuenta desde la administración (POST /users)
+   *
+   * - El email se da por verificado: lo aporta un administrador
+   * - Sin roles en el DTO recibe ['user'], igual que un registro
+   * - La contraseña inicial cumple la misma política que en el registro
+   *
+   * EXCEPCIONES:
+   * - BadRequestException (400): La contraseña no cumple la política
+   * - ConflictException (409): El email o username ya está registrado
+   */
+  async createByAdmin(dto: CreateUserDto): Promise<PublicUser> {
+    await this.passwordPolicyService.assertAcceptable(dto.password, {
+      username: dto.username,
+      email: dto.email,
+    });
+
+    const user = await this.create({
+      username: dto.username,
+      email: dto.email,
+      password: await bcrypt.hash(dto.password, BCRYPT_SALT_ROUNDS),
+      emailVerifiedAt: new Date(),
+      ...(dto.roles ? { roles: [...new Set(dto.roles)] } : {}),
+    });
+    await this.eventBus.publish<UserEventData>(DomainEventType.UserCreated, {
+      user: userSnapshot(user),
+    });
+    return toPublicUser(user);
+  }
 
   /**
-   * Actualizar un usuario existente
-   * 
-   * update(id: number, updateData: Partial<User>): User | undefined {
-   *   const userIndex = this.users.findIndex(user => user.id === id);
-   *   if (userIndex === -1) return undefined;
-   *   
-   *   this.users[userIndex] = {
-   *     ...this.users[userIndex],
-   *     ...updateData,
-   *     updatedAt: new Date()
-   *   };
-   *   
-   *   return this.users[userIndex];
-   * }
+   * Modifica username y/o email (PATCH /users/:id)
+   *
+   * Como en createByAdmin, el email nuevo se da por verificado y se
+   * descarta un cambio de email pendiente del propio usuario.
+   * Publica user.email_changed y/o user.username_changed.
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): El usuario no existe
+   * - ConflictException (409): El email o username ya está registrado
    */
+  async update(id: number, dto: UpdateUserDto): Promise<PublicUser> {
+    const user = await this.findExisting(id);
+    const previous = { username: user.username, email: user.email };
+
+    if (dto.username !== undefined) {
+      user.username = dto.username;
+    }
+    if (dto.email !== undefined && dto.email !== user.email) {
+      user.email = dto.email;
+      user.emailVerifiedAt = new Date();
+      user.pendingEmail = null;
+    }
+
+    let saved: User;
+    try {
+      saved = await this.usersRepository.save(user);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictException('El email o nombre de usuario ya está registrado');
+      }
+      throw error;
+    }
+
+    if (saved.email !== previous.email) {
+      await this.eventBus.publish<UserEventData>(DomainEventType.UserEmailChanged, {
+        user: userSnapshot(saved),
+        previous: { email: previous.email },
+      });
+    }
+    if (saved.username !== previous.username) {
+      await this.eventBus.publish<UserEventData>(DomainEventType.UserUsernameChanged, {
+        user: userSnapshot(saved),
+        previous: { username: previous.username },
+      });
+    }
+    return toPublicUser(saved);
+  }
 
   /**
-   * Desactivar un usuario (soft delete)
-   * 
-   * deactivate(id: number): User | undefined {
-   *   const user = this.findById(id);
-   *   if (!user) return undefined;
-   *   
-   *   user.isActive = false;
-   *   user.updatedAt = new Date();
-   *   
-   *   return user;
-   * }
+   * Desactiva o reactiva la cuenta
+   *
+   * Al desactivarla también invalida sus access tokens: JwtStrategy,
+   * ApiKeyStrategy y /auth/refresh ya rechazan a los usuarios inactivos.
+   * Si el estado cambia publica user.deactivated o user.reactivated.
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): El usuario no existe
    */
+  async setActive(id: number, isActive: boolean): Promise<PublicUser> {
+    const user = await this.findExisting(id);
+    const changed = user.isActive !== isActive;
+    user.isActive = isActive;
+    const saved = await this.usersRepository.save(user);
+
+    if (!isActive) {
+      await this.invalidateTokens(id);
+    }
+    if (changed) {
+      await this.eventBus.publish<UserEventData>(
+        isActive ? DomainEventType.UserReactivated : DomainEventType.UserDeactivated,
+        { user: userSnapshot(saved) },
+      );
+    }
+    return toPublicUser(saved);
+  }
 
   /**
-   * Eliminar un usuario permanentemente (hard delete)
-   * 
-   * remove(id: number): boolean {
-   *   const userIndex = this.users.findIndex(user => user.id === id);
-   *   if (userIndex === -1) return false;
-   *   
-   *   this.users.splice(userIndex, 1);
-   *   return true;
-   * }
+   * Reemplaza los roles del usuario (efecto inmediato, ver JwtStrategy)
+   * Si cambian publica user.roles_changed.
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): El usuario no existe
    */
+  async setRoles(id: number, roles: string[]): Promise<PublicUser> {
+    const user = await this.findExisting(id);
+    const previousRoles = user.roles;
+    user.roles = [...new Set(roles)];
+    const saved = await this.usersRepository.save(user);
+
+    const sameRoles =
+      previousRoles.length === saved.roles.length &&
+      previousRoles.every((role) => saved.roles.includes(role));
+    if (!sameRoles) {
+      await this.eventBus.publish<UserEventData>(DomainEventType.UserRolesChanged, {
+        user: userSnapshot(saved),
+        previous: { roles: previousRoles },
+      });
+    }
+    return toPublicUser(saved);
+  }
+
+  /**
+   * Exige que el usuario restablezca su contraseña
+   *
+   * Mientras esté pendiente, JwtStrategy y OAuthAccessStrategy rechazan
+   * sus access tokens, ApiKeyStrategy sus API keys y AuthService sus
+   * logins y refresh. El usuario elige una contraseña nueva
+   * con POST /auth/forgot-password (que vuelve a invalidar sus sesiones).
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): El usuario no existe
+   */
+  async requirePasswordReset(id: number): Promise<PublicUser> {
+    const user = await this.findExisting(id);
+    user.passwordResetRequiredAt = new Date();
+
+    return toPublicUser(await this.usersRepository.save(user));
+  }
+
+  /**
+   * Borra la cuenta (soft delete: la fila se conserva con deletedAt)
+   *
+   * Para la aplicación la cuenta deja de existir: findById, findByEmail...
+   * ya no la encuentran, por lo que sus tokens y API keys dejan de valer.
+   * Publica user.deleted con los datos que tenía la cuenta.
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): El usuario no existe (o ya fue borrado)
+   */
+  async softDelete(id: number): Promise<void> {
+    const user = await this.findExisting(id);
+    const result = await this.usersRepository.softDelete({ id, deletedAt: IsNull() });
+    if (!result.affected) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+
+    await this.eventBus.publish<UserEventData>(DomainEventType.UserDeleted, {
+      user: userSnapshot(user),
+    });
+  }
+
+  /**
+   * Publica un evento user.* con los datos actuales del usuario
+   */
+  private async publish(
+    type: DomainEventType,
+    userId: number,
+    extra: Omit<UserEventData, 'user'> = {},
+  ): Promise<void> {
+    const user = await this.findById(userId);
+    if (user) {
+      await this.eventBus.publish<UserEventData>(type, { user: userSnapshot(user), ...extra });
+    }
+  }
 
   /**
-   * Buscar usuario por username
-   * 
-   * findByUsername(username: string): User | undefined {
-   *   return this.users.find(user => user.username === username);
-   * }
+   * Busca el usuario o lanza 404
    */
-}
\ No newline at end of file
+  private async findExisting(id: number): Promise<User> {
+    const user = await this.findById(id);
+    if (!user) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+    return user;
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { DomainEventType } from '../../events/enums/domain-event-type.enum';
+import { ALL_EVENTS } from '../../events/interfaces/domain-event.interface';
+
+/**
+ * Valores admitidos en "events": cada tipo de evento, o "*" para todos
+ */
+export const SUBSCRIBABLE_EVENTS: string[] = [
+  ALL_EVENTS,
+  ...Object.values(DomainEventType),
+];
+
+/**
+ * CreateWebhookSubscriptionDto - Body de POST /webhooks
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "url": "https://crm.example.com/hooks/usuarios",
+ *   "events": ["user.registered", "user.email_changed"],
+ *   "description": "Alta de contactos en el CRM"
+ * }
+ */
+export class CreateWebhookSubscriptionDto {
+  @IsUrl(
+    {
+      require_tld: false,
+      require_protocol: true,
+      protocols: ['http', 'https'],
+    },
+    { message: 'url debe ser una URL http(s)' },
+  )
+  @MaxLength(500, { message: 'url no puede exceder 500 caracteres' })
+  url: string;
+
+  @IsArray({ message: 'events debe ser una lista' })
+  @ArrayNotEmpty({ message: 'Debe suscribirse al menos a un evento' })
+  @IsIn(SUBSCRIBABLE_EVENTS, {
+    each: true,
+    message: `events admite: ${SUBSCRIBABLE_EVENTS.join(', ')}`,
+  })
+  events: string[];
+
+  @IsOptional()
+  @IsString({ message: 'description debe ser una cadena de texto' })
+  @MaxLength(100, { message: 'description no puede exceder 100 caracteres' })
+  description?: string;
+}
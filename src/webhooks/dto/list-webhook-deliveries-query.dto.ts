@@ -0,0 +1,53 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import type { WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+
+/**
+ * Tamaño máximo de página
+ */
+export const MAX_DELIVERIES_PAGE_SIZE = 100;
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  'pending',
+  'succeeded',
+  'failed',
+];
+
+/**
+ * ListWebhookDeliveriesQueryDto - Query string de GET /webhooks/:id/deliveries
+ *
+ * Las entregas se listan de la más reciente a la más antigua, por cursor
+ * (igual que GET /audit).
+ *
+ * EJEMPLO:
+ * GET /webhooks/8f14e45f-.../deliveries?status=failed&limit=20
+ */
+export class ListWebhookDeliveriesQueryDto {
+  @IsOptional()
+  @IsIn(DELIVERY_STATUSES, {
+    message: `status admite: ${DELIVERY_STATUSES.join(', ')}`,
+  })
+  status?: WebhookDeliveryStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit debe ser un número entero' })
+  @Min(1, { message: 'limit debe ser al menos 1' })
+  @Max(MAX_DELIVERIES_PAGE_SIZE, {
+    message: `limit no puede exceder ${MAX_DELIVERIES_PAGE_SIZE}`,
+  })
+  limit: number = 20;
+
+  @IsOptional()
+  @IsString({ message: 'cursor debe ser una cadena de texto' })
+  @MaxLength(500, { message: 'Cursor inválido' })
+  cursor?: string;
+}
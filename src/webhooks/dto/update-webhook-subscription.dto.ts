@@ -0,0 +1,22 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { CreateWebhookSubscriptionDto } from './create-webhook-subscription.dto';
+
+/**
+ * UpdateWebhookSubscriptionDto - Body de PATCH /webhooks/:id
+ *
+ * Los mismos campos que al crearla (todos opcionales) y isActive para
+ * pausar la suscripción sin perder su registro de entregas.
+ *
+ * EJEMPLO DE BODY:
+ * {
+ *   "isActive": false
+ * }
+ */
+export class UpdateWebhookSubscriptionDto extends PartialType(
+  CreateWebhookSubscriptionDto,
+) {
+  @IsOptional()
+  @IsBoolean({ message: 'isActive debe ser true o false' })
+  isActive?: boolean;
+}
@@ -0,0 +1,96 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { WebhookSubscription } from './webhook-subscription.entity';
+
+/**
+ * Estado de una entrega
+ * - pending: Aún no se entregó; nextAttemptAt indica el próximo intento
+ * - succeeded: El receptor respondió 2xx
+ * - failed: Se agotaron los intentos (o se desactivó la suscripción)
+ */
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Entidad WebhookDelivery
+ * Envío de un evento a una suscripción: es a la vez la cola de reintentos
+ * y el registro de entregas que consultan los administradores.
+ */
+@Entity('webhook_deliveries')
+@Index('IDX_webhook_deliveries_due', ['status', 'nextAttemptAt'])
+export class WebhookDelivery {
+  /**
+   * Creciente: ordena el registro y sirve de cursor para paginar.
+   */
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Index('IDX_webhook_deliveries_subscriptionId')
+  @Column({ length: 36 })
+  subscriptionId: string;
+
+  @ManyToOne(() => WebhookSubscription, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subscriptionId' })
+  subscription: WebhookSubscription;
+
+  /**
+   * ID del evento de dominio (se repite en los reenvíos manuales).
+   */
+  @Column({ length: 36 })
+  eventId: string;
+
+  @Column({ length: 50 })
+  eventType: string;
+
+  /**
+   * Body JSON exacto que se envía: los reintentos y reenvíos mandan el
+   * mismo contenido.
+   */
+  @Column({ type: 'text' })
+  payload: string;
+
+  @Column({ type: 'varchar', length: 10, default: 'pending' })
+  status: WebhookDeliveryStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  /**
+   * Próximo intento (null cuando la entrega ya terminó).
+   */
+  @Column({ type: 'datetime', nullable: true })
+  nextAttemptAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  lastAttemptAt: Date | null;
+
+  /**
+   * Estado HTTP de la última respuesta (null si no hubo respuesta).
+   */
+  @Column({ type: 'int', nullable: true })
+  responseStatus: number | null;
+
+  /**
+   * Motivo del último fallo ("HTTP 500", "timeout"...).
+   */
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  deliveredAt: Date | null;
+
+  /**
+   * Entrega original cuando esta es un reenvío manual.
+   */
+  @Column({ type: 'int', nullable: true })
+  replayOfId: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
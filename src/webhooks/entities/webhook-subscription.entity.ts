@@ -0,0 +1,56 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Entidad WebhookSubscription
+ * URL de otro sistema que recibe por HTTP los eventos de dominio elegidos
+ * (la gestionan los administradores en /webhooks).
+ */
+@Entity('webhook_subscriptions')
+export class WebhookSubscription {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Destino de los POST (http o https).
+   */
+  @Column({ length: 500 })
+  url: string;
+
+  /**
+   * Tipos de evento suscritos (DomainEventType), o ["*"] para todos.
+   */
+  @Column({ type: 'simple-json' })
+  events: string[];
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  description: string | null;
+
+  /**
+   * Secreto de la firma HMAC de cada entrega ("whsec_...").
+   *
+   * SEGURIDAD: Se guarda en claro porque hace falta para firmar (un hash
+   * no serviría). select: false evita que salga en los listados; solo se
+   * muestra al crear la suscripción o al rotarlo.
+   */
+  @Column({ length: 64, select: false })
+  secret: string;
+
+  /**
+   * Desactivada: no recibe eventos nuevos y sus reintentos pendientes se
+   * dan por fallidos.
+   */
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
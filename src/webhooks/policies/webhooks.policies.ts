@@ -0,0 +1,10 @@
+import { Permission } from '../../auth/policies/permission.enum';
+import { PolicyHandler } from '../../auth/policies/policy-handler.interface';
+
+/**
+ * Administrar webhooks: administradores, o aplicaciones con el scope
+ * webhooks:manage. Una suscripción recibe datos personales (emails) de
+ * todos los usuarios, por eso no basta con users:manage.
+ */
+export const canManageWebhooks: PolicyHandler = (ability) =>
+  ability.can(Permission.WebhooksManage);
@@ -0,0 +1,58 @@
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhook-signature';
+
+describe('webhook signature', () => {
+  const secret = generateWebhookSecret();
+  const body = JSON.stringify({ id: 'evt-1', type: 'user.registered' });
+  const now = new Date('2030-01-01T00:00:00Z');
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  it('genera secretos distintos con prefijo whsec_', () => {
+    expect(secret).toMatch(/^whsec_[\w-]{43}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+
+  it('acepta la firma de la misma entrega', () => {
+    const signature = signWebhookPayload(secret, timestamp, body);
+
+    expect(signature).toMatch(/^v1=[0-9a-f]{64}$/);
+    expect(
+      verifyWebhookSignature(secret, timestamp, body, signature, now),
+    ).toBe(true);
+  });
+
+  it('rechaza un body modificado, otro secreto u otro timestamp', () => {
+    const signature = signWebhookPayload(secret, timestamp, body);
+
+    expect(
+      verifyWebhookSignature(secret, timestamp, `${body} `, signature, now),
+    ).toBe(false);
+    expect(
+      verifyWebhookSignature(
+        generateWebhookSecret(),
+        timestamp,
+        body,
+        signature,
+        now,
+      ),
+    ).toBe(false);
+    expect(
+      verifyWebhookSignature(secret, timestamp + 1, body, signature, now),
+    ).toBe(false);
+    expect(verifyWebhookSignature(secret, timestamp, body, 'v1=00', now)).toBe(
+      false,
+    );
+  });
+
+  it('rechaza entregas con un timestamp de hace más de 5 minutos', () => {
+    const old = timestamp - 301;
+    const signature = signWebhookPayload(secret, old, body);
+
+    expect(verifyWebhookSignature(secret, old, body, signature, now)).toBe(
+      false,
+    );
+  });
+});
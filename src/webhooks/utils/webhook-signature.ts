@@ -0,0 +1,81 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Cabeceras de cada entrega
+ * - Event: Tipo de evento (user.registered...)
+ * - Delivery: ID de la entrega en el registro (GET /webhooks/:id/deliveries)
+ * - Timestamp: Segundos Unix del envío, incluidos en la firma
+ * - Signature: "v1=" + HMAC-SHA256 en hexadecimal
+ */
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+/**
+ * Antigüedad máxima aceptada por verifyWebhookSignature
+ */
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Genera el secreto de una suscripción
+ *
+ * EJEMPLO: "whsec_3q2-Vx9k..." (32 bytes aleatorios en base64url)
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Firma una entrega
+ *
+ * El contenido firmado es "<timestamp>.<body>": incluir la hora impide
+ * que alguien que capturó una entrega la reenvíe más tarde (el receptor
+ * rechaza timestamps antiguos).
+ *
+ * EJEMPLO:
+ * signWebhookPayload('whsec_...', 1893456000, '{"id":"..."}')
+ * // "v1=5d41402abc4b2a76b9719d911017c592..."
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `v1=${digest}`;
+}
+
+/**
+ * Verifica una entrega (lo que debe hacer el sistema receptor)
+ *
+ * @param body - Body tal como llegó, SIN volver a serializarlo
+ * @param now - Hora actual (en las pruebas, la del reloj manual)
+ * @returns true si la firma es válida y el timestamp es reciente
+ *
+ * SEGURIDAD: Compara en tiempo constante (timingSafeEqual)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string | number,
+  body: string,
+  signature: string,
+  now: Date = new Date(),
+): boolean {
+  const seconds = Number(timestamp);
+  if (
+    !Number.isInteger(seconds) ||
+    Math.abs(now.getTime() / 1000 - seconds) >
+      WEBHOOK_SIGNATURE_TOLERANCE_SECONDS
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, seconds, body));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
@@ -0,0 +1,334 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { AppConfig } from '../config/configuration';
+import { CLOCK } from '../auth/interfaces/clock.interface';
+import type { Clock } from '../auth/interfaces/clock.interface';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import {
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './utils/webhook-signature';
+
+/**
+ * Espera máxima entre reintentos, por grande que sea el número de intento
+ */
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+/**
+ * Entregas pendientes que se procesan en cada pasada de processDue()
+ */
+const DISPATCH_BATCH_SIZE = 50;
+
+/**
+ * Margen sobre el timeout durante el que una entrega en curso no se vuelve
+ * a intentar (ver attempt(), PASO 1)
+ */
+const ATTEMPT_LEASE_MARGIN_MS = 60_000;
+
+/**
+ * Espera antes del siguiente intento (backoff exponencial)
+ *
+ * @param attempt - Intentos ya realizados (1 después del primero)
+ *
+ * EJEMPLO (base 30 s): 30 s, 1 min, 2 min, 4 min... hasta 6 horas
+ */
+export function webhookRetryDelayMs(
+  attempt: number,
+  baseDelaySeconds: number,
+): number {
+  const seconds = Math.min(
+    baseDelaySeconds * 2 ** (attempt - 1),
+    MAX_RETRY_DELAY_SECONDS,
+  );
+  return seconds * 1000;
+}
+
+/**
+ * Resultado de un POST al receptor
+ */
+interface SendResult {
+  ok: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+/**
+ * WebhookDispatcher - Envía las entregas y reintenta las fallidas
+ *
+ * - dispatch(): Primer intento en segundo plano, justo después de encolar
+ *   (la petición que produjo el evento no espera al receptor)
+ * - processDue(): Reintenta las entregas cuyo nextAttemptAt ya pasó. Lo
+ *   llama un temporizador cada WEBHOOK_DISPATCH_INTERVAL_SECONDS
+ *
+ * La cola es la propia tabla webhook_deliveries: si la aplicación se
+ * reinicia, los reintentos pendientes siguen ahí.
+ *
+ * Usa el CLOCK inyectado para programar los reintentos: las pruebas
+ * adelantan el reloj y llaman a processDue().
+ */
+@Injectable()
+export class WebhookDispatcher implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcher.name);
+  private readonly options: AppConfig['webhooks'];
+  private readonly inFlight = new Set<Promise<void>>();
+  private timer?: NodeJS.Timeout;
+  private processing = false;
+
+  constructor(
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveriesRepository: Repository<WebhookDelivery>,
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionsRepository: Repository<WebhookSubscription>,
+    @Inject(CLOCK) private readonly clock: Clock,
+    config: ConfigService<AppConfig, true>,
+  ) {
+    this.options = config.get('webhooks', { infer: true });
+  }
+
+  onModuleInit(): void {
+    const { dispatchIntervalSeconds } = this.options;
+    if (dispatchIntervalSeconds > 0) {
+      this.timer = setInterval(
+        () => void this.processDue(),
+        dispatchIntervalSeconds * 1000,
+      );
+      // El temporizador no impide que el proceso termine
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Al cerrar la aplicación deja terminar las entregas en curso (la
+   * conexión a la base de datos se cierra después)
+   */
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.timer);
+    await this.settle();
+  }
+
+  /**
+   * Lanza el intento de una entrega sin esperarlo
+   */
+  dispatch(deliveryId: number): void {
+    const task: Promise<void> = this.attempt(deliveryId)
+      .catch((error: unknown) =>
+        this.logger.error(
+          `No se pudo procesar la entrega ${deliveryId}`,
+          error instanceof Error ? error.stack : String(error),
+        ),
+      )
+      .finally(() => this.inFlight.delete(task));
+    this.inFlight.add(task);
+  }
+
+  /**
+   * Espera a que terminen los intentos lanzados con dispatch()
+   */
+  async settle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.allSettled([...this.inFlight]);
+    }
+  }
+
+  /**
+   * Reintenta las entregas pendientes cuyo momento ya llegó
+   *
+   * @returns Cuántas entregas se intentaron
+   */
+  async processDue(): Promise<number> {
+    // Una pasada lenta no se solapa con la siguiente del temporizador
+    if (this.processing) {
+      return 0;
+    }
+    this.processing = true;
+
+    try {
+      const due = await this.deliveriesRepository.find({
+        select: { id: true },
+        where: {
+          status: 'pending',
+          nextAttemptAt: LessThanOrEqual(this.clock.now()),
+        },
+        order: { id: 'ASC' },
+        take: DISPATCH_BATCH_SIZE,
+      });
+      for (const { id } of due) {
+        await this.attempt(id);
+      }
+      return due.length;
+    } catch (error) {
+      this.logger.error(
+        'No se pudieron procesar los reintentos de webhooks',
+        error instanceof Error ? error.stack : String(error),
+      );
+      return 0;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Un intento de entrega
+   *
+   * ALGORITMO:
+   * 1. Reserva el intento: incrementa attempts solo si nadie lo hizo antes
+   *    (el UPDATE lleva el valor leído en el WHERE) y aleja nextAttemptAt
+   *    mientras dura. Así dispatch() y processDue(), o dos instancias de la
+   *    aplicación, nunca envían la misma entrega a la vez
+   * 2. Con la suscripción desactivada la entrega se da por fallida
+   * 3. POST firmado al receptor
+   * 4. 2xx → succeeded; si no, programa el reintento con backoff
+   *    exponencial, o la da por fallida al agotar WEBHOOK_MAX_ATTEMPTS
+   */
+  private async attempt(deliveryId: number): Promise<void> {
+    const delivery = await this.deliveriesRepository.findOne({
+      where: { id: deliveryId, status: 'pending' },
+    });
+    if (!delivery) {
+      return;
+    }
+
+    // PASO 1: Reservar el intento
+    const { maxAttempts, retryBaseDelaySeconds, timeoutSeconds } = this.options;
+    const startedAt = this.clock.now();
+    const attempt = delivery.attempts + 1;
+    const claimed = await this.deliveriesRepository.update(
+      { id: delivery.id, status: 'pending', attempts: delivery.attempts },
+      {
+        attempts: attempt,
+        lastAttemptAt: startedAt,
+        nextAttemptAt: new Date(
+          startedAt.getTime() + timeoutSeconds * 1000 + ATTEMPT_LEASE_MARGIN_MS,
+        ),
+      },
+    );
+    if (!claimed.affected) {
+      return;
+    }
+
+    // PASO 2: Suscripción (con el secreto, que no se carga por defecto)
+    const subscription = await this.subscriptionsRepository.findOne({
+      select: { id: true, url: true, secret: true, isActive: true },
+      where: { id: delivery.subscriptionId },
+    });
+    if (!subscription?.isActive) {
+      await this.deliveriesRepository.update(
+        { id: delivery.id },
+        {
+          status: 'failed',
+          nextAttemptAt: null,
+          lastError: 'Suscripción desactivada',
+        },
+      );
+      return;
+    }
+
+    // PASO 3: Enviar
+    const result = await this.send(subscription, delivery, startedAt);
+
+    // PASO 4: Registrar el resultado
+    const now = this.clock.now();
+    if (result.ok) {
+      await this.deliveriesRepository.update(
+        { id: delivery.id },
+        {
+          status: 'succeeded',
+          nextAttemptAt: null,
+          responseStatus: result.responseStatus,
+          lastError: null,
+          deliveredAt: now,
+        },
+      );
+      return;
+    }
+
+    const exhausted = attempt >= maxAttempts;
+    await this.deliveriesRepository.update(
+      { id: delivery.id },
+      {
+        status: exhausted ? 'failed' : 'pending',
+        nextAttemptAt: exhausted
+          ? null
+          : new Date(
+              now.getTime() +
+                webhookRetryDelayMs(attempt, retryBaseDelaySeconds),
+            ),
+        responseStatus: result.responseStatus,
+        lastError: result.error,
+      },
+    );
+  }
+
+  /**
+   * POST del payload con las cabeceras de firma
+   *
+   * SEGURIDAD:
+   * - No sigue redirecciones: una respuesta 3xx cuenta como fallo (el
+   *   destino es solo la URL que registró el administrador)
+   * - El body de la respuesta se descarta sin leerlo
+   */
+  private async send(
+    subscription: WebhookSubscription,
+    delivery: WebhookDelivery,
+    sentAt: Date,
+  ): Promise<SendResult> {
+    const timestamp = Math.floor(sentAt.getTime() / 1000);
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+          [WEBHOOK_DELIVERY_HEADER]: String(delivery.id),
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            subscription.secret,
+            timestamp,
+            delivery.payload,
+          ),
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.options.timeoutSeconds * 1000),
+      });
+      await response.body?.cancel();
+
+      const ok = response.status >= 200 && response.status < 300;
+      return {
+        ok,
+        responseStatus: response.status,
+        error: ok ? null : `HTTP ${response.status}`,
+      };
+    } catch (error) {
+      return { ok: false, responseStatus: null, error: describeError(error) };
+    }
+  }
+}
+
+/**
+ * Motivo legible de un fallo de red ("Sin respuesta en 10 s",
+ * "ECONNREFUSED"...)
+ */
+function describeError(error: unknown): string {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return 'Sin respuesta dentro del tiempo límite';
+  }
+  const cause = (error as { cause?: { code?: unknown } } | undefined)?.cause;
+  if (typeof cause?.code === 'string') {
+    return cause.code;
+  }
+  return (error instanceof Error ? error.message : String(error)).slice(0, 500);
+}
@@ -0,0 +1,174 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+import { ListWebhookDeliveriesQueryDto } from './dto/list-webhook-deliveries-query.dto';
+import { canManageWebhooks } from './policies/webhooks.policies';
+import { ServiceAuthGuard } from '../auth/guards/service-auth.guard';
+import { PoliciesGuard } from '../auth/guards/policies.guard';
+import { CheckPolicies } from '../auth/decorators/check-policies.decorator';
+import { AuditInterceptor } from '../audit/interceptors/audit.interceptor';
+import { Audited } from '../audit/decorators/audited.decorator';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+
+/**
+ * URL y eventos del body, para la auditoría (nunca el secreto)
+ */
+function subscriptionChanges(req: Request): Record<string, unknown> {
+  const { url, events, isActive } = (req.body ?? {}) as Record<string, unknown>;
+  return { url, events, isActive };
+}
+
+/**
+ * WebhooksController - Suscripciones de webhooks y registro de entregas
+ *
+ * Todas las rutas exigen el permiso webhooks:manage.
+ *
+ * CÓMO VERIFICA UNA ENTREGA EL RECEPTOR:
+ * Cada POST lleva las cabeceras X-Webhook-Event, X-Webhook-Delivery,
+ * X-Webhook-Timestamp y X-Webhook-Signature ("v1=" + HMAC-SHA256 en hex
+ * de "<timestamp>.<body>" con el secreto de la suscripción). El receptor
+ * recalcula la firma con el body SIN volver a serializarlo, rechaza
+ * timestamps de más de 5 minutos y descarta los "id" de evento ya
+ * procesados (ver verifyWebhookSignature). Debe responder 2xx; cualquier
+ * otra respuesta se reintenta con backoff exponencial.
+ */
+@UseGuards(ServiceAuthGuard, PoliciesGuard)
+@CheckPolicies(canManageWebhooks)
+@UseInterceptors(AuditInterceptor)
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  /**
+   * POST /webhooks
+   * Crea una suscripción
+   *
+   * RESPUESTA (201): La suscripción con su "secret" ("whsec_..."). Es la
+   * única vez que se muestra: guárdelo en el sistema receptor.
+   */
+  @Audited({
+    action: AuditAction.WebhookCreate,
+    target: 'webhook',
+    metadata: subscriptionChanges,
+  })
+  @Post()
+  create(@Body() dto: CreateWebhookSubscriptionDto) {
+    return this.webhooksService.create(dto);
+  }
+
+  /**
+   * GET /webhooks
+   * Todas las suscripciones (sin secretos)
+   */
+  @Get()
+  findAll() {
+    return this.webhooksService.findAll();
+  }
+
+  /**
+   * POST /webhooks/deliveries/:id/replay
+   * Reenvía una entrega como una entrega nueva (mismo payload y mismo id
+   * de evento). Responde 202: el envío ocurre en segundo plano
+   */
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Audited({ action: AuditAction.WebhookReplay, target: 'webhook_delivery' })
+  @Post('deliveries/:id/replay')
+  replay(@Param('id', ParseIntPipe) id: number) {
+    return this.webhooksService.replay(id);
+  }
+
+  @Get(':id')
+  findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.webhooksService.findOne(id);
+  }
+
+  /**
+   * PATCH /webhooks/:id
+   * Cambia url, events, description y/o isActive (false = pausada)
+   */
+  @Audited({
+    action: AuditAction.WebhookUpdate,
+    target: 'webhook',
+    metadata: subscriptionChanges,
+  })
+  @Patch(':id')
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateWebhookSubscriptionDto,
+  ) {
+    return this.webhooksService.update(id, dto);
+  }
+
+  /**
+   * DELETE /webhooks/:id
+   * Borra la suscripción y su registro de entregas (204)
+   */
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Audited({ action: AuditAction.WebhookDelete, target: 'webhook' })
+  @Delete(':id')
+  remove(@Param('id', ParseUUIDPipe) id: string) {
+    return this.webhooksService.remove(id);
+  }
+
+  /**
+   * POST /webhooks/:id/rotate-secret
+   * Genera un secreto nuevo; el anterior deja de usarse al instante
+   */
+  @HttpCode(HttpStatus.OK)
+  @Audited({ action: AuditAction.WebhookRotateSecret, target: 'webhook' })
+  @Post(':id/rotate-secret')
+  rotateSecret(@Param('id', ParseUUIDPipe) id: string) {
+    return this.webhooksService.rotateSecret(id);
+  }
+
+  /**
+   * GET /webhooks/:id/deliveries
+   * Registro de entregas, de la más reciente a la más antigua
+   *
+   * QUERY STRING: status (pending, succeeded, failed), limit y cursor
+   *
+   * RESPUESTA:
+   * {
+   *   "items": [
+   *     {
+   *       "id": 12,
+   *       "eventId": "3f1c...",
+   *       "eventType": "user.registered",
+   *       "status": "pending",
+   *       "attempts": 2,
+   *       "nextAttemptAt": "2024-01-15T10:31:30.000Z",
+   *       "responseStatus": 503,
+   *       "lastError": "HTTP 503",
+   *       "payload": "{\"id\":\"3f1c...\",...}",
+   *       ...
+   *     }
+   *   ],
+   *   "total": 1,
+   *   "next_cursor": null
+   * }
+   */
+  @Get(':id/deliveries')
+  findDeliveries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ListWebhookDeliveriesQueryDto,
+  ) {
+    return this.webhooksService.findDeliveries(id, query);
+  }
+}
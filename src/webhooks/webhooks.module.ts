@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { WebhooksController } from './webhooks.controller';
+import { EventsModule } from '../events/events.module';
+import { AuditModule } from '../audit/audit.module';
+import { PoliciesModule } from '../auth/policies/policies.module';
+import { CLOCK, systemClock } from '../auth/interfaces/clock.interface';
+
+/**
+ * WebhooksModule - Envío de los eventos de dominio a otros sistemas
+ *
+ * Se suscribe a DomainEventBus (EventsModule): los módulos que publican
+ * eventos no dependen de él.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WebhookSubscription, WebhookDelivery]),
+    EventsModule,
+    AuditModule,
+    PoliciesModule,
+  ],
+  controllers: [WebhooksController],
+  providers: [
+    WebhooksService,
+    WebhookDispatcher,
+    { provide: CLOCK, useValue: systemClock },
+  ],
+})
+export class WebhooksModule {}
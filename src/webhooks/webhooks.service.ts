@@ -0,0 +1,280 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CLOCK } from '../auth/interfaces/clock.interface';
+import type { Clock } from '../auth/interfaces/clock.interface';
+import { decodeCursor, encodeCursor, Paginated } from '../database/pagination';
+import { DomainEventBus } from '../events/domain-event-bus.service';
+import {
+  ALL_EVENTS,
+  DomainEvent,
+} from '../events/interfaces/domain-event.interface';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+import { ListWebhookDeliveriesQueryDto } from './dto/list-webhook-deliveries-query.dto';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { generateWebhookSecret } from './utils/webhook-signature';
+
+/**
+ * Suscripción recién creada o con el secreto rotado: la única respuesta
+ * que incluye el secreto
+ */
+export type WebhookSubscriptionWithSecret = WebhookSubscription & {
+  secret: string;
+};
+
+/**
+ * WebhooksService - Suscripciones, cola de entregas y su registro
+ *
+ * RESPONSABILIDADES:
+ * 1. CRUD de suscripciones (solo administradores, ver WebhooksController)
+ * 2. Escuchar TODOS los eventos de DomainEventBus y crear una entrega por
+ *    cada suscripción activa interesada (el envío lo hace WebhookDispatcher)
+ * 3. Consultar el registro de entregas y reenviarlas a mano
+ *
+ * EJEMPLO DE PAYLOAD (body de cada entrega):
+ * {
+ *   "id": "3f1c...",               ← id del evento: descarte duplicados con él
+ *   "type": "user.registered",
+ *   "occurredAt": "2024-01-15T10:30:00.000Z",
+ *   "data": { "user": { "id": 7, "username": "juanperez", ... }, "method": "password" }
+ * }
+ */
+@Injectable()
+export class WebhooksService implements OnModuleInit {
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionsRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveriesRepository: Repository<WebhookDelivery>,
+    private readonly dispatcher: WebhookDispatcher,
+    private readonly eventBus: DomainEventBus,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe(ALL_EVENTS, (event) => this.enqueue(event));
+  }
+
+  // ==========================================
+  // SUSCRIPCIONES
+  // ==========================================
+
+  /**
+   * Crea una suscripción con un secreto nuevo
+   *
+   * @returns La suscripción CON su secreto (no se vuelve a mostrar)
+   */
+  async create(
+    dto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionWithSecret> {
+    const secret = generateWebhookSecret();
+    const subscription = await this.subscriptionsRepository.save(
+      this.subscriptionsRepository.create({
+        url: dto.url,
+        events: [...new Set(dto.events)],
+        description: dto.description ?? null,
+        secret,
+      }),
+    );
+    return { ...subscription, secret };
+  }
+
+  findAll(): Promise<WebhookSubscription[]> {
+    return this.subscriptionsRepository.find({ order: { createdAt: 'ASC' } });
+  }
+
+  /**
+   * EXCEPCIONES:
+   * - NotFoundException (404): La suscripción no existe
+   */
+  async findOne(id: string): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionsRepository.findOne({
+      where: { id },
+    });
+    if (!subscription) {
+      throw new NotFoundException('Webhook no encontrado');
+    }
+    return subscription;
+  }
+
+  /**
+   * Modifica URL, eventos, descripción y/o isActive
+   *
+   * Las entregas ya encoladas se envían a la URL vigente en cada intento.
+   */
+  async update(
+    id: string,
+    dto: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.findOne(id);
+
+    if (dto.url !== undefined) {
+      subscription.url = dto.url;
+    }
+    if (dto.events !== undefined) {
+      subscription.events = [...new Set(dto.events)];
+    }
+    if (dto.description !== undefined) {
+      subscription.description = dto.description;
+    }
+    if (dto.isActive !== undefined) {
+      subscription.isActive = dto.isActive;
+    }
+    return this.subscriptionsRepository.save(subscription);
+  }
+
+  /**
+   * Borra la suscripción junto con su registro de entregas
+   */
+  async remove(id: string): Promise<void> {
+    const result = await this.subscriptionsRepository.delete({ id });
+    if (!result.affected) {
+      throw new NotFoundException('Webhook no encontrado');
+    }
+  }
+
+  /**
+   * Reemplaza el secreto (p. ej. si se filtró). Las entregas siguientes,
+   * incluidos los reintentos pendientes, se firman con el nuevo.
+   */
+  async rotateSecret(id: string): Promise<WebhookSubscriptionWithSecret> {
+    const subscription = await this.findOne(id);
+    const secret = generateWebhookSecret();
+    await this.subscriptionsRepository.update({ id }, { secret });
+    return { ...subscription, secret };
+  }
+
+  // ==========================================
+  // ENTREGAS
+  // ==========================================
+
+  /**
+   * Crea una entrega por cada suscripción activa interesada en el evento
+   * y lanza su primer intento
+   */
+  async enqueue(event: DomainEvent): Promise<void> {
+    const subscriptions = await this.subscriptionsRepository.find({
+      where: { isActive: true },
+    });
+    const interested = subscriptions.filter(
+      ({ events }) =>
+        events.includes(ALL_EVENTS) || events.includes(event.type),
+    );
+    if (interested.length === 0) {
+      return;
+    }
+
+    const payload = JSON.stringify({
+      id: event.id,
+      type: event.type,
+      occurredAt: event.occurredAt.toISOString(),
+      data: event.data,
+    });
+    const deliveries = await this.deliveriesRepository.save(
+      interested.map((subscription) =>
+        this.deliveriesRepository.create({
+          subscriptionId: subscription.id,
+          eventId: event.id,
+          eventType: event.type,
+          payload,
+          nextAttemptAt: this.clock.now(),
+        }),
+      ),
+    );
+    deliveries.forEach(({ id }) => this.dispatcher.dispatch(id));
+  }
+
+  /**
+   * Registro de entregas de una suscripción, de la más reciente a la más
+   * antigua
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): La suscripción no existe
+   * - BadRequestException (400): Cursor inválido
+   */
+  async findDeliveries(
+    subscriptionId: string,
+    query: ListWebhookDeliveriesQueryDto,
+  ): Promise<Paginated<WebhookDelivery>> {
+    await this.findOne(subscriptionId);
+
+    const qb = this.deliveriesRepository
+      .createQueryBuilder('delivery')
+      .where('delivery.subscriptionId = :subscriptionId', { subscriptionId });
+    if (query.status !== undefined) {
+      qb.andWhere('delivery.status = :status', { status: query.status });
+    }
+    const total = await qb.getCount();
+
+    if (query.cursor !== undefined) {
+      const id = decodeCursor(query.cursor)?.id;
+      if (typeof id !== 'number') {
+        throw new BadRequestException(
+          'Cursor inválido: use el next_cursor de la respuesta anterior',
+        );
+      }
+      qb.andWhere('delivery.id < :cursorId', { cursorId: id });
+    }
+
+    const rows = await qb
+      .orderBy('delivery.id', 'DESC')
+      .limit(query.limit + 1)
+      .getMany();
+    const items = rows.slice(0, query.limit);
+
+    return {
+      items,
+      total,
+      next_cursor:
+        rows.length > query.limit
+          ? encodeCursor({ id: items[items.length - 1].id })
+          : null,
+    };
+  }
+
+  /**
+   * Reenvía una entrega (fallida o no) como una entrega nueva con el
+   * mismo payload; la original queda intacta en el registro
+   *
+   * EXCEPCIONES:
+   * - NotFoundException (404): La entrega no existe
+   * - ConflictException (409): La suscripción está desactivada
+   */
+  async replay(deliveryId: number): Promise<WebhookDelivery> {
+    const original = await this.deliveriesRepository.findOne({
+      where: { id: deliveryId },
+      relations: { subscription: true },
+    });
+    if (!original) {
+      throw new NotFoundException('Entrega no encontrada');
+    }
+    if (!original.subscription.isActive) {
+      throw new ConflictException(
+        'El webhook está desactivado: reactívelo antes de reenviar la entrega',
+      );
+    }
+
+    const replayed = await this.deliveriesRepository.save(
+      this.deliveriesRepository.create({
+        subscriptionId: original.subscriptionId,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload,
+        nextAttemptAt: this.clock.now(),
+        replayOfId: original.id,
+      }),
+    );
+    this.dispatcher.dispatch(replayed.id);
+    return replayed;
+  }
+}
@@ -0,0 +1,145 @@
+import request from 'supertest';
+import {
+  createTestApp,
+  login,
+  registerVerifiedUser,
+  TestApp,
+} from './utils/test-app';
+import { UsersService } from '../src/users/users.service';
+
+describe('API keys (e2e)', () => {
+  let testApp: TestApp;
+  let accessToken: string;
+  let juanId: number;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+    ({ id: juanId } = await registerVerifiedUser(
+      testApp,
+      'juanperez',
+      'juan@test.com',
+    ));
+    ({ access_token: accessToken } = await login(testApp, 'juan@test.com'));
+  });
+
+  afterEach(async () => {
+    await testApp.app.close();
+  });
+
+  const server = () => testApp.app.getHttpServer();
+
+  interface CreatedKey {
+    id: string;
+    name: string;
+    prefix: string;
+    key: string;
+  }
+
+  const createKey = async (name = 'Backup nocturno') => {
+    const res = await request(server())
+      .post('/auth/api-keys')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ name })
+      .expect(201);
+    return res.body as CreatedKey;
+  };
+
+  it('authenticates requests with a personal API key', async () => {
+    const created = await createKey();
+    expect(created.key).toMatch(new RegExp(`^ak_${created.prefix}_`));
+
+    const profile = await request(server())
+      .get('/auth/profile')
+      .set('X-API-Key', created.key)
+      .expect(200);
+    expect(profile.body).toMatchObject({ email: 'juan@test.com' });
+
+    // El listado registra el último uso y nunca vuelve a mostrar la clave
+    const list = await request(server())
+      .get('/auth/api-keys')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+    const [listed] = list.body as Record<string, unknown>[];
+    expect(listed).toMatchObject({
+      id: created.id,
+      name: 'Backup nocturno',
+      prefix: created.prefix,
+    });
+    expect(listed.last_used_at).toBeTruthy();
+    expect(listed.key).toBeUndefined();
+  });
+
+  it('stops accepting a key as soon as it is revoked', async () => {
+    const created = await createKey();
+
+    await request(server())
+      .delete(`/auth/api-keys/${created.id}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(204);
+
+    await request(server())
+      .get('/auth/profile')
+      .set('X-API-Key', created.key)
+      .expect(401);
+    await request(server())
+      .delete(`/auth/api-keys/${created.id}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(404);
+  });
+
+  it('rejects unknown or tampered keys', async () => {
+    const created = await createKey();
+
+    await request(server())
+      .get('/auth/profile')
+      .set('X-API-Key', `${created.key.slice(0, -1)}x`)
+      .expect(401);
+    await request(server())
+      .get('/auth/profile')
+      .set('X-API-Key', 'ak_desconocida')
+      .expect(401);
+  });
+
+  it('rejects the keys of a user who must reset the password', async () => {
+    const created = await createKey();
+    await testApp.app.get(UsersService).requirePasswordReset(juanId);
+
+    const res = await request(server())
+      .get('/auth/profile')
+      .set('X-API-Key', created.key)
+      .expect(401);
+    expect((res.body as { message: string }).message).toBe(
+      'API key inválida o revocada',
+    );
+  });
+
+  it('does not accept API keys on session routes', async () => {
+    const created = await createKey();
+
+    await request(server())
+      .post('/auth/api-keys')
+      .set('X-API-Key', created.key)
+      .send({ name: 'Otra' })
+      .expect(401);
+    await request(server())
+      .patch('/auth/password')
+      .set('X-API-Key', created.key)
+      .send({ currentPassword: 'miPassword123', newPassword: 'otraClave456' })
+      .expect(401);
+  });
+
+  it('does not let users revoke keys of other users', async () => {
+    const created = await createKey();
+    await registerVerifiedUser(testApp, 'mariagomez', 'maria@test.com');
+    const { access_token } = await login(testApp, 'maria@test.com');
+
+    await request(server())
+      .delete(`/auth/api-keys/${created.id}`)
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(404);
+    await request(server())
+      .get('/auth/profile')
+      .set('X-API-Key', created.key)
+      .expect(200);
+  });
+});
@@ -0,0 +1,275 @@
+import request from 'supertest';
+import {
+  createTestApp,
+  login,
+  registerVerifiedUser,
+  TestApp,
+} from './utils/test-app';
+
+describe('AuditController (e2e)', () => {
+  let testApp: TestApp;
+  let adminId: number;
+  let adminToken: string;
+
+  beforeEach(async () => {
+    process.env.ADMIN_EMAILS = 'admin@test.com';
+    testApp = await createTestApp();
+    ({ id: adminId } = await registerVerifiedUser(
+      testApp,
+      'admin',
+      'admin@test.com',
+    ));
+    adminToken = (await login(testApp, 'admin@test.com')).access_token;
+  });
+
+  afterEach(async () => {
+    delete process.env.ADMIN_EMAILS;
+    await testApp.app.close();
+  });
+
+  const server = () => testApp.app.getHttpServer();
+
+  interface AuditEventBody {
+    id: number;
+    action: string;
+    outcome: string;
+    actorType: string;
+    actorId: string | null;
+    targetType: string | null;
+    targetId: string | null;
+    ip: string | null;
+    userAgent: string | null;
+    metadata: Record<string, unknown> | null;
+  }
+
+  interface AuditPage {
+    items: AuditEventBody[];
+    total: number;
+    next_cursor: string | null;
+  }
+
+  const audit = async (query: string) => {
+    const res = await request(server())
+      .get(`/audit?${query}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    return res.body as AuditPage;
+  };
+
+  it('is only available to admins', async () => {
+    await request(server()).get('/audit').expect(401);
+
+    await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    const { access_token } = await login(testApp, 'juan@test.com');
+    await request(server())
+      .get('/audit')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(403);
+    await request(server())
+      .get('/audit/export')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(403);
+  });
+
+  it('records the authentication events of an account', async () => {
+    const juan = await registerVerifiedUser(
+      testApp,
+      'juanperez',
+      'juan@test.com',
+    );
+    const userAgent = 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0';
+
+    await request(server())
+      .post('/auth/login')
+      .set('User-Agent', userAgent)
+      .send({ email: juan.email, password: 'incorrecto' })
+      .expect(401);
+    const loginRes = await request(server())
+      .post('/auth/login')
+      .set('User-Agent', userAgent)
+      .send({ email: juan.email, password: juan.password })
+      .expect(201);
+    const tokens = loginRes.body as {
+      access_token: string;
+      refresh_token: string;
+    };
+    const refreshed = await request(server())
+      .post('/auth/refresh')
+      .send({ refresh_token: tokens.refresh_token })
+      .expect(201);
+    const { access_token } = refreshed.body as { access_token: string };
+    const changed = await request(server())
+      .patch('/auth/password')
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ currentPassword: juan.password, newPassword: 'nuevoPassword456' })
+      .expect(200);
+    await request(server())
+      .post('/auth/logout')
+      .set(
+        'Authorization',
+        `Bearer ${(changed.body as { access_token: string }).access_token}`,
+      )
+      .expect(200);
+
+    const page = await audit(`targetType=user&targetId=${juan.id}`);
+    expect(page.items.map(({ action, outcome }) => [action, outcome])).toEqual([
+      ['auth.logout', 'success'],
+      ['auth.password_change', 'success'],
+      ['auth.token_refresh', 'success'],
+      ['auth.login', 'success'],
+      ['auth.login', 'failure'],
+      ['auth.register', 'success'],
+    ]);
+
+    const [success, failure] = page.items.slice(3, 5);
+    expect(success).toMatchObject({
+      actorType: 'user',
+      actorId: String(juan.id),
+      userAgent,
+    });
+    expect(success.ip).toEqual(expect.any(String));
+    expect(failure).toMatchObject({
+      actorType: 'anonymous',
+      actorId: null,
+      metadata: { email: juan.email, reason: 'invalid_password' },
+    });
+    expect(JSON.stringify(page.items)).not.toContain('incorrecto');
+  });
+
+  it('records failed logins for unknown accounts and lockouts', async () => {
+    const fail = () =>
+      request(server())
+        .post('/auth/login')
+        .send({ email: 'nadie@test.com', password: 'incorrecto' })
+        .expect(401);
+
+    await fail();
+    await fail();
+    await fail();
+    testApp.clock.advance(1000);
+    await fail();
+    testApp.clock.advance(2000);
+    await fail();
+
+    const failures = await audit('action=auth.login&outcome=failure');
+    expect(failures.total).toBe(5);
+    expect(failures.items[0]).toMatchObject({
+      targetId: null,
+      metadata: { email: 'nadie@test.com', reason: 'unknown_account' },
+    });
+
+    const lockouts = await audit('action=auth.account_locked');
+    expect(lockouts.items).toEqual([
+      expect.objectContaining({
+        outcome: 'failure',
+        metadata: {
+          scope: 'login',
+          account: 'nadie@test.com',
+          lockoutSeconds: 15 * 60,
+        },
+      }),
+    ]);
+  });
+
+  it('records admin actions and their outcome', async () => {
+    const juan = await registerVerifiedUser(
+      testApp,
+      'juanperez',
+      'juan@test.com',
+    );
+
+    await request(server())
+      .put(`/users/${juan.id}/roles`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ roles: ['user', 'soporte'] })
+      .expect(200);
+    await request(server())
+      .post(`/users/${juan.id}/deactivate`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    await request(server())
+      .post('/users/999/deactivate')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+
+    const page = await audit(`actorType=user&actorId=${adminId}`);
+    expect(page.items.slice(0, 3)).toEqual([
+      expect.objectContaining({
+        action: 'user.deactivate',
+        outcome: 'failure',
+        targetId: '999',
+        metadata: { authMethod: 'jwt', status: 404 },
+      }),
+      expect.objectContaining({
+        action: 'user.deactivate',
+        outcome: 'success',
+        targetType: 'user',
+        targetId: String(juan.id),
+      }),
+      expect.objectContaining({
+        action: 'user.set_roles',
+        outcome: 'success',
+        metadata: { authMethod: 'jwt', roles: ['user', 'soporte'] },
+      }),
+    ]);
+  });
+
+  it('paginates and validates the query', async () => {
+    for (const name of ['juan', 'maria', 'pedro']) {
+      await registerVerifiedUser(testApp, name, `${name}@test.com`);
+    }
+
+    const first = await audit('action=auth.register&limit=2');
+    expect(first.total).toBe(4);
+    expect(first.items).toHaveLength(2);
+
+    const second = await audit(
+      `action=auth.register&limit=2&cursor=${encodeURIComponent(first.next_cursor!)}`,
+    );
+    expect(second.next_cursor).toBeNull();
+    expect(second.items).toHaveLength(2);
+    expect(first.items[1].id).toBeGreaterThan(second.items[0].id);
+
+    for (const query of ['action=auth.unknown', 'outcome=ok', 'limit=0']) {
+      await request(server())
+        .get(`/audit?${query}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    }
+  });
+
+  it('exports the filtered events as JSON lines', async () => {
+    await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    await login(testApp, 'juan@test.com');
+
+    const res = await request(server())
+      .get('/audit/export?action=auth.login')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .buffer(true)
+      .parse((response, callback) => {
+        let text = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => (text += chunk));
+        response.on('end', () => callback(null, text));
+      })
+      .expect(200);
+
+    expect(res.headers['content-type']).toContain('application/x-ndjson');
+    expect(res.headers['content-disposition']).toMatch(
+      /^attachment; filename="audit-\d{4}-\d{2}-\d{2}\.jsonl"$/,
+    );
+
+    const events = (res.body as string)
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line) as AuditEventBody);
+    expect(events).toHaveLength(2);
+    expect(events.every(({ action }) => action === 'auth.login')).toBe(true);
+    expect(events[0].id).toBeLessThan(events[1].id);
+
+    await request(server())
+      .get('/audit/export?limit=10')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+  });
+});
@@ -0,0 +1,1126 @@
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import request from 'supertest';
+import {
+  createTestApp,
+  login,
+  LoginTokens,
+  registerVerifiedUser,
+  TestApp,
+} from './utils/test-app';
+import { generateTotp } from '../src/auth/utils/totp';
+import { UsersService } from '../src/users/users.service';
+
+describe('AuthController (e2e)', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.app.close();
+  });
+
+  const server = () => testApp.app.getHttpServer();
+
+  const credentials = {
+    username: 'juanperez',
+    email: 'juan@test.com',
+    password: 'miPassword123',
+  };
+
+  it('registers, verifies, logs in and reads the profile', async () => {
+    const user = await registerVerifiedUser(
+      testApp,
+      credentials.username,
+      credentials.email,
+    );
+    const { access_token } = await login(testApp, credentials.email);
+
+    const profile = await request(server())
+      .get('/auth/profile')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(200);
+    expect(profile.body).toMatchObject({
+      id: user.id,
+      email: credentials.email,
+    });
+    expect(profile.body).not.toHaveProperty('password');
+  });
+
+  it('rejects duplicated registrations with 409', async () => {
+    await request(server())
+      .post('/auth/register')
+      .send(credentials)
+      .expect(201);
+
+    await request(server())
+      .post('/auth/register')
+      .send({ ...credentials, username: 'otro' })
+      .expect(409);
+  });
+
+  describe('email verification', () => {
+    it('refuses to log in until the email is verified', async () => {
+      await request(server())
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      await request(server())
+        .post('/auth/login')
+        .send({ email: credentials.email, password: credentials.password })
+        .expect(403);
+
+      await request(server())
+        .post('/auth/verify-email')
+        .send({ token: testApp.mailbox.lastTokenTo(credentials.email) })
+        .expect(200);
+
+      await request(server())
+        .post('/auth/login')
+        .send({ email: credentials.email, password: credentials.password })
+        .expect(201);
+    });
+
+    it('accepts each verification link only once', async () => {
+      await request(server())
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+      const token = testApp.mailbox.lastTokenTo(credentials.email);
+
+      await request(server())
+        .post('/auth/verify-email')
+        .send({ token })
+        .expect(200);
+      await request(server())
+        .post('/auth/verify-email')
+        .send({ token })
+        .expect(400);
+    });
+
+    it('rejects tampered tokens', async () => {
+      await request(server())
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+      const token = testApp.mailbox.lastTokenTo(credentials.email);
+
+      await request(server())
+        .post('/auth/verify-email')
+        .send({ token: `${token}x` })
+        .expect(400);
+    });
+
+    it('resends a new link and invalidates the previous one', async () => {
+      await request(server())
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+      const first = testApp.mailbox.lastTokenTo(credentials.email);
+
+      await request(server())
+        .post('/auth/resend-verification')
+        .send({ email: credentials.email })
+        .expect(200);
+      const second = testApp.mailbox.lastTokenTo(credentials.email);
+
+      await request(server())
+        .post('/auth/verify-email')
+        .send({ token: first })
+        .expect(400);
+      await request(server())
+        .post('/auth/verify-email')
+        .send({ token: second })
+        .expect(200);
+    });
+
+    it('answers resend requests the same way for unknown emails', async () => {
+      const res = await request(server())
+        .post('/auth/resend-verification')
+        .send({ email: 'nadie@test.com' })
+        .expect(200);
+      expect(testApp.mailbox.messages).toHaveLength(0);
+
+      await request(server())
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+      const known = await request(server())
+        .post('/auth/resend-verification')
+        .send({ email: credentials.email })
+        .expect(200);
+      expect(known.body).toEqual(res.body);
+    });
+
+    it('does not accept verification tokens as access tokens', async () => {
+      await request(server())
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      await request(server())
+        .get('/auth/profile')
+        .set(
+          'Authorization',
+          `Bearer ${testApp.mailbox.lastTokenTo(credentials.email)}`,
+        )
+        .expect(401);
+    });
+  });
+
+  describe('refresh tokens', () => {
+    beforeEach(async () => {
+      await registerVerifiedUser(
+        testApp,
+        credentials.username,
+        credentials.email,
+      );
+    });
+
+    it('rotates the refresh token on every use', async () => {
+      const { refresh_token } = await login(testApp, credentials.email);
+
+      const res = await request(server())
+        .post('/auth/refresh')
+        .send({ refresh_token })
+        .expect(201);
+      const rotated = res.body as {
+        access_token: string;
+        refresh_token: string;
+      };
+
+      expect(rotated.refresh_token).not.toBe(refresh_token);
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${rotated.access_token}`)
+        .expect(200);
+    });
+
+    it('revokes the whole family when a used token is replayed', async () => {
+      const { refresh_token } = await login(testApp, credentials.email);
+
+      const res = await request(server())
+        .post('/auth/refresh')
+        .send({ refresh_token })
+        .expect(201);
+      const rotated = res.body as { refresh_token: string };
+
+      // Reutilización del token original → 401 y familia revocada
+      await request(server())
+        .post('/auth/refresh')
+        .send({ refresh_token })
+        .expect(401);
+
+      // El token legítimo más reciente tampoco sirve ya
+      await request(server())
+        .post('/auth/refresh')
+        .send({ refresh_token: rotated.refresh_token })
+        .expect(401);
+    });
+
+    it('rejects unknown refresh tokens', async () => {
+      await request(server())
+        .post('/auth/refresh')
+        .send({ refresh_token: 'desconocido' })
+        .expect(401);
+    });
+  });
+
+  describe('logout', () => {
+    beforeEach(async () => {
+      await registerVerifiedUser(
+        testApp,
+        credentials.username,
+        credentials.email,
+      );
+    });
+
+    it('revokes the current token and its refresh token', async () => {
+      const session = await login(testApp, credentials.email);
+      const other = await login(testApp, credentials.email);
+
+      await request(server())
+        .post('/auth/logout')
+        .set('Authorization', `Bearer ${session.access_token}`)
+        .expect(200);
+
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${session.access_token}`)
+        .expect(401);
+      await request(server())
+        .post('/auth/refresh')
+        .send({ refresh_token: session.refresh_token })
+        .expect(401);
+
+      // Las demás sesiones no se ven afectadas
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${other.access_token}`)
+        .expect(200);
+    });
+
+    it('invalidates every token issued before logout-all', async () => {
+      const first = await login(testApp, credentials.email);
+      const second = await login(testApp, credentials.email);
+
+      // "iat" tiene precisión de segundos: esperamos a que cambie el segundo
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+
+      await request(server())
+        .post('/auth/logout-all')
+        .set('Authorization', `Bearer ${first.access_token}`)
+        .expect(200);
+
+      for (const session of [first, second]) {
+        await request(server())
+          .get('/auth/profile')
+          .set('Authorization', `Bearer ${session.access_token}`)
+          .expect(401);
+        await request(server())
+          .post('/auth/refresh')
+          .send({ refresh_token: session.refresh_token })
+          .expect(401);
+      }
+
+      // Un login nuevo sigue funcionando
+      const fresh = await login(testApp, credentials.email);
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${fresh.access_token}`)
+        .expect(200);
+    });
+  });
+
+  describe('password reset', () => {
+    beforeEach(async () => {
+      await registerVerifiedUser(
+        testApp,
+        credentials.username,
+        credentials.email,
+      );
+    });
+
+    const requestReset = (email: string) =>
+      request(server())
+        .post('/auth/forgot-password')
+        .send({ email })
+        .expect(200);
+
+    it('answers the same way whether or not the email exists', async () => {
+      const sent = testApp.mailbox.messages.length;
+      const unknown = await requestReset('nadie@test.com');
+      expect(testApp.mailbox.messages).toHaveLength(sent);
+
+      const known = await requestReset(credentials.email);
+      expect(known.body).toEqual(unknown.body);
+      expect(testApp.mailbox.lastTo(credentials.email).subject).toBe(
+        'Restablecer contraseña',
+      );
+    });
+
+    it('resets the password once and closes existing sessions', async () => {
+      const session = await login(testApp, credentials.email);
+      // "iat" tiene precisión de segundos: esperamos a que cambie el segundo
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+
+      await requestReset(credentials.email);
+      const token = testApp.mailbox.lastTokenTo(credentials.email);
+
+      await request(server())
+        .post('/auth/reset-password')
+        .send({ token, password: 'nuevoPassword456' })
+        .expect(200);
+      await request(server())
+        .post('/auth/reset-password')
+        .send({ token, password: 'otroPassword789' })
+        .expect(400);
+
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${session.access_token}`)
+        .expect(401);
+      await request(server())
+        .post('/auth/refresh')
+        .send({ refresh_token: session.refresh_token })
+        .expect(401);
+
+      await request(server())
+        .post('/auth/login')
+        .send({ email: credentials.email, password: credentials.password })
+        .expect(401);
+      await login(testApp, credentials.email, 'nuevoPassword456');
+    });
+
+    it('invalidates older reset links when a new one is requested', async () => {
+      await requestReset(credentials.email);
+      const first = testApp.mailbox.lastTokenTo(credentials.email);
+      await requestReset(credentials.email);
+
+      await request(server())
+        .post('/auth/reset-password')
+        .send({ token: first, password: 'nuevoPassword456' })
+        .expect(400);
+    });
+  });
+
+  describe('credential changes', () => {
+    let current: LoginTokens;
+    let other: LoginTokens;
+
+    beforeEach(async () => {
+      await registerVerifiedUser(
+        testApp,
+        credentials.username,
+        credentials.email,
+      );
+      other = await login(testApp, credentials.email);
+      current = await login(testApp, credentials.email);
+      // "iat" tiene precisión de segundos: esperamos a que cambie el segundo
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+    });
+
+    const expectOtherSessionRevoked = async () => {
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${other.access_token}`)
+        .expect(401);
+      await request(server())
+        .post('/auth/refresh')
+        .send({ refresh_token: other.refresh_token })
+        .expect(401);
+    };
+
+    it('requires authentication', async () => {
+      await request(server())
+        .patch('/auth/password')
+        .send({ currentPassword: credentials.password, newPassword: 'x' })
+        .expect(401);
+      await request(server())
+        .patch('/auth/email')
+        .send({ password: credentials.password, newEmail: 'otro@test.com' })
+        .expect(401);
+    });
+
+    it('changes the password and keeps only the current session', async () => {
+      const before = await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${current.access_token}`)
+        .expect(200);
+
+      await request(server())
+        .patch('/auth/password')
+        .set('Authorization', `Bearer ${current.access_token}`)
+        .send({
+          currentPassword: 'incorrecto',
+          newPassword: 'nuevoPassword456',
+        })
+        .expect(401);
+
+      const res = await request(server())
+        .patch('/auth/password')
+        .set('Authorization', `Bearer ${current.access_token}`)
+        .send({
+          currentPassword: credentials.password,
+          newPassword: 'nuevoPassword456',
+        })
+        .expect(200);
+      const { access_token } = res.body as LoginTokens;
+
+      await expectOtherSessionRevoked();
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${current.access_token}`)
+        .expect(401);
+      const after = await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(200);
+      const updatedAt = (body: unknown) =>
+        new Date((body as { updatedAt: string }).updatedAt).getTime();
+      expect(updatedAt(after.body)).toBeGreaterThan(updatedAt(before.body));
+
+      await request(server())
+        .post('/auth/refresh')
+        .send({ refresh_token: current.refresh_token })
+        .expect(201);
+      await request(server())
+        .post('/auth/login')
+        .send({ email: credentials.email, password: credentials.password })
+        .expect(401);
+      await login(testApp, credentials.email, 'nuevoPassword456');
+    });
+
+    it('changes the email only after the new address is verified', async () => {
+      const newEmail = 'juan.nuevo@test.com';
+
+      const res = await request(server())
+        .patch('/auth/email')
+        .set('Authorization', `Bearer ${current.access_token}`)
+        .send({ password: credentials.password, newEmail })
+        .expect(200);
+      const { access_token } = res.body as LoginTokens;
+      await expectOtherSessionRevoked();
+      expect(testApp.mailbox.lastTo(credentials.email).subject).toBe(
+        'Solicitud de cambio de email',
+      );
+
+      // Hasta verificar, el email de la cuenta sigue siendo el anterior
+      await login(testApp, credentials.email);
+
+      await request(server())
+        .post('/auth/verify-email')
+        .send({ token: testApp.mailbox.lastTokenTo(newEmail) })
+        .expect(200);
+      await request(server())
+        .post('/auth/verify-email')
+        .send({ token: testApp.mailbox.lastTokenTo(newEmail) })
+        .expect(400);
+
+      const profile = await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(200);
+      expect(profile.body).toMatchObject({
+        email: newEmail,
+        pendingEmail: null,
+      });
+
+      await request(server())
+        .post('/auth/login')
+        .send({ email: credentials.email, password: credentials.password })
+        .expect(401);
+      await login(testApp, newEmail);
+    });
+
+    it('rejects a wrong password or an email already in use', async () => {
+      await registerVerifiedUser(testApp, 'maria', 'maria@test.com');
+
+      await request(server())
+        .patch('/auth/email')
+        .set('Authorization', `Bearer ${current.access_token}`)
+        .send({ password: 'incorrecto', newEmail: 'otro@test.com' })
+        .expect(401);
+      await request(server())
+        .patch('/auth/email')
+        .set('Authorization', `Bearer ${current.access_token}`)
+        .send({ password: credentials.password, newEmail: 'maria@test.com' })
+        .expect(409);
+    });
+  });
+
+  describe('password policy', () => {
+    const violatedRules = (body: unknown) =>
+      (body as { violations: { rule: string }[] }).violations.map(
+        ({ rule }) => rule,
+      );
+
+    it('rejects weak passwords on registration with every broken rule', async () => {
+      const common = await request(server())
+        .post('/auth/register')
+        .send({ ...credentials, password: 'Password123' })
+        .expect(400);
+      expect(common.body).toMatchObject({
+        code: 'PASSWORD_POLICY_VIOLATION',
+        field_errors: [{ field: 'password' }],
+      });
+      expect(violatedRules(common.body)).toContain('common');
+
+      const personal = await request(server())
+        .post('/auth/register')
+        .send({ ...credentials, password: 'Juanperez-2024' })
+        .expect(400);
+      expect(violatedRules(personal.body)).toContain('personal_info');
+
+      const short = await request(server())
+        .post('/auth/register')
+        .set('Accept-Language', 'en')
+        .send({ ...credentials, password: 'aB1' })
+        .expect(400);
+      expect(short.body).toMatchObject({
+        message: 'The password does not meet the security policy',
+        violations: expect.arrayContaining([
+          {
+            rule: 'min_length',
+            message: 'The password must be at least 8 characters long',
+          },
+        ]) as unknown,
+      });
+    });
+
+    it('does not spend the reset link on a rejected password', async () => {
+      await registerVerifiedUser(
+        testApp,
+        credentials.username,
+        credentials.email,
+      );
+      await request(server())
+        .post('/auth/forgot-password')
+        .send({ email: credentials.email })
+        .expect(200);
+      const token = testApp.mailbox.lastTokenTo(credentials.email);
+
+      const res = await request(server())
+        .post('/auth/reset-password')
+        .send({ token, password: credentials.password })
+        .expect(400);
+      expect(violatedRules(res.body)).toEqual(['reused']);
+
+      await request(server())
+        .post('/auth/reset-password')
+        .send({ token, password: 'nuevoPassword456' })
+        .expect(200);
+    });
+
+    it('refuses to go back to a previous password', async () => {
+      await registerVerifiedUser(
+        testApp,
+        credentials.username,
+        credentials.email,
+      );
+      const changePassword = async (
+        currentPassword: string,
+        newPassword: string,
+        status: number,
+      ) => {
+        const { access_token } = await login(
+          testApp,
+          credentials.email,
+          currentPassword,
+        );
+        return request(server())
+          .patch('/auth/password')
+          .set('Authorization', `Bearer ${access_token}`)
+          .send({ currentPassword, newPassword })
+          .expect(status);
+      };
+
+      await changePassword(credentials.password, 'nuevoPassword456', 200);
+      const res = await changePassword(
+        'nuevoPassword456',
+        credentials.password,
+        400,
+      );
+      expect(res.body).toMatchObject({
+        code: 'PASSWORD_POLICY_VIOLATION',
+        field_errors: [{ field: 'newPassword' }],
+      });
+      expect(violatedRules(res.body)).toEqual(['reused']);
+    });
+
+    it('evaluates a password without creating anything', async () => {
+      const weak = await request(server())
+        .post('/auth/password-strength')
+        .send({ password: 'juanperez1A', username: credentials.username })
+        .expect(200);
+      expect(weak.body).toMatchObject({
+        valid: false,
+        strength: { score: 0, label: 'muy débil' },
+      });
+      expect(violatedRules(weak.body)).toContain('personal_info');
+
+      const strong = await request(server())
+        .post('/auth/password-strength')
+        .send({ password: 'tren-Nube-cactus-42' })
+        .expect(200);
+      expect(strong.body).toEqual({
+        valid: true,
+        violations: [],
+        strength: { score: 4, label: 'muy fuerte' },
+      });
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    let accessToken: string;
+
+    beforeEach(async () => {
+      await registerVerifiedUser(
+        testApp,
+        credentials.username,
+        credentials.email,
+      );
+      ({ access_token: accessToken } = await login(testApp, credentials.email));
+    });
+
+    const code = (secret: string) => generateTotp(secret, testApp.clock.now());
+
+    const enable = async () => {
+      const enrolled = await request(server())
+        .post('/auth/2fa/enroll')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(201);
+      const { secret, otpauth_uri } = enrolled.body as {
+        secret: string;
+        otpauth_uri: string;
+      };
+      expect(otpauth_uri).toContain(`secret=${secret}`);
+
+      const confirmed = await request(server())
+        .post('/auth/2fa/confirm')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: code(secret) })
+        .expect(200);
+      const { recovery_codes } = confirmed.body as { recovery_codes: string[] };
+      return { secret, recoveryCodes: recovery_codes };
+    };
+
+    const startLogin = async () => {
+      const res = await request(server())
+        .post('/auth/login')
+        .send({ email: credentials.email, password: credentials.password })
+        .expect(201);
+      expect(res.body).not.toHaveProperty('access_token');
+      return (res.body as { mfa_token: string }).mfa_token;
+    };
+
+    it('requires a valid code to confirm the enrollment', async () => {
+      await request(server())
+        .post('/auth/2fa/enroll')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(201);
+      await request(server())
+        .post('/auth/2fa/confirm')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: '000000' })
+        .expect(400);
+
+      // Sin confirmar, el login sigue sin pedir el segundo factor
+      await login(testApp, credentials.email);
+    });
+
+    it('exchanges the mfa token and a TOTP code for the session', async () => {
+      const { secret } = await enable();
+      const mfaToken = await startLogin();
+
+      // El token "mfa pendiente" no sirve como access token
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${mfaToken}`)
+        .expect(401);
+
+      // El código usado para confirmar no se puede reutilizar
+      await request(server())
+        .post('/auth/2fa/verify')
+        .send({ mfa_token: mfaToken, code: code(secret) })
+        .expect(401);
+
+      testApp.clock.advance(30_000);
+      const res = await request(server())
+        .post('/auth/2fa/verify')
+        .send({ mfa_token: mfaToken, code: code(secret) })
+        .expect(201);
+      const { access_token } = res.body as LoginTokens;
+      const profile = await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(200);
+      expect(profile.body).not.toHaveProperty('twoFactorSecret');
+
+      // El mfa_token es de un solo uso
+      testApp.clock.advance(30_000);
+      await request(server())
+        .post('/auth/2fa/verify')
+        .send({ mfa_token: mfaToken, code: code(secret) })
+        .expect(401);
+    });
+
+    it('accepts each recovery code once', async () => {
+      const { recoveryCodes } = await enable();
+      expect(recoveryCodes).toHaveLength(10);
+
+      await request(server())
+        .post('/auth/2fa/verify')
+        .send({ mfa_token: await startLogin(), code: recoveryCodes[0] })
+        .expect(201);
+      await request(server())
+        .post('/auth/2fa/verify')
+        .send({ mfa_token: await startLogin(), code: recoveryCodes[0] })
+        .expect(401);
+    });
+
+    const verify = (mfaToken: string, totp: string) =>
+      request(server())
+        .post('/auth/2fa/verify')
+        .send({ mfa_token: mfaToken, code: totp });
+
+    it('revokes the mfa token after repeated wrong codes', async () => {
+      const { secret } = await enable();
+      const mfaToken = await startLogin();
+
+      for (let i = 0; i < 3; i++) {
+        const res = await verify(mfaToken, '000000').expect(401);
+        expect((res.body as { message: string }).message).toBe(
+          'Código de verificación inválido',
+        );
+      }
+
+      // Ni el código correcto sirve: hay que volver a enviar la contraseña
+      testApp.clock.advance(30_000);
+      const revoked = await verify(mfaToken, code(secret)).expect(401);
+      expect((revoked.body as { message: string }).message).toBe(
+        'Token de verificación inválido o expirado',
+      );
+
+      testApp.clock.advance(30_000);
+      await verify(await startLogin(), code(secret)).expect(201);
+    });
+
+    it('locks the second factor per account, not per IP', async () => {
+      const { secret } = await enable();
+
+      // 5 códigos incorrectos repartidos entre dos mfa_token
+      const first = await startLogin();
+      for (let i = 0; i < 3; i++) {
+        await verify(first, '000000').expect(401);
+      }
+      testApp.clock.advance(30_000);
+      const second = await startLogin();
+      await verify(second, '000000').expect(401);
+      testApp.clock.advance(30_000);
+      await verify(second, '000000').expect(401);
+
+      testApp.clock.advance(30_000);
+      await verify(await startLogin(), code(secret)).expect(423);
+
+      // Otra cuenta con 2FA, desde la misma IP, no queda bloqueada
+      const maria = await registerVerifiedUser(
+        testApp,
+        'maria',
+        'maria@test.com',
+      );
+      accessToken = (await login(testApp, maria.email)).access_token;
+      const { secret: mariaSecret } = await enable();
+      const pending = await request(server())
+        .post('/auth/login')
+        .send({ email: maria.email, password: maria.password })
+        .expect(201);
+      testApp.clock.advance(30_000);
+      await verify(
+        (pending.body as { mfa_token: string }).mfa_token,
+        code(mariaSecret),
+      ).expect(201);
+    });
+
+    it('does not let forged mfa tokens lock out the real user', async () => {
+      const { secret } = await enable();
+      const mfaToken = await startLogin();
+
+      // Mismo sub que el token real, pero firmado por el atacante
+      const [header, payload] = mfaToken.split('.');
+      const claims = JSON.parse(
+        Buffer.from(payload, 'base64url').toString(),
+      ) as Record<string, unknown>;
+      for (let i = 0; i < 6; i++) {
+        const forged = [
+          header,
+          Buffer.from(
+            JSON.stringify({ ...claims, jti: `falso-${i}` }),
+          ).toString('base64url'),
+          'firma-falsa',
+        ].join('.');
+        await verify(forged, '000000').expect(401);
+      }
+
+      testApp.clock.advance(30_000);
+      await verify(mfaToken, code(secret)).expect(201);
+    });
+
+    it('disables 2FA with the password and a code', async () => {
+      const { secret } = await enable();
+      testApp.clock.advance(30_000);
+
+      await request(server())
+        .post('/auth/2fa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'incorrecto', code: code(secret) })
+        .expect(401);
+      await request(server())
+        .post('/auth/2fa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: credentials.password, code: code(secret) })
+        .expect(200);
+
+      await login(testApp, credentials.email);
+    });
+  });
+
+  describe('brute-force protection', () => {
+    beforeEach(async () => {
+      await registerVerifiedUser(
+        testApp,
+        credentials.username,
+        credentials.email,
+      );
+    });
+
+    const attempt = (email: string, password: string) =>
+      request(server()).post('/auth/login').send({ email, password });
+
+    /** Falla el login; el mensaje es siempre el genérico */
+    const failLogin = async (email: string) => {
+      const res = await attempt(email, 'incorrecto').expect(401);
+      expect((res.body as { message: string }).message).toBe(
+        'Credenciales inválidas',
+      );
+    };
+    const waitRetryAfter = (res: request.Response) =>
+      testApp.clock.advance(Number(res.headers['retry-after']) * 1000);
+
+    it('delays and then locks the account, whether or not it exists', async () => {
+      for (const email of [credentials.email, 'nadie@test.com']) {
+        await failLogin(email);
+        await failLogin(email);
+        await failLogin(email);
+
+        const early = await attempt(email, credentials.password).expect(429);
+        expect(early.headers['retry-after']).toBe('1');
+        waitRetryAfter(early);
+
+        await failLogin(email);
+        waitRetryAfter(await attempt(email, 'incorrecto').expect(429));
+        await failLogin(email);
+
+        const locked = await attempt(email, credentials.password).expect(423);
+        expect(Number(locked.headers['retry-after'])).toBe(15 * 60);
+      }
+
+      testApp.clock.advance(15 * 60 * 1000);
+      await login(testApp, credentials.email);
+    });
+
+    it('resets the counters after a successful login', async () => {
+      await failLogin(credentials.email);
+      await failLogin(credentials.email);
+      await login(testApp, credentials.email);
+
+      await failLogin(credentials.email);
+      await failLogin(credentials.email);
+      await login(testApp, credentials.email);
+    });
+
+    it('rate limits an IP that fails on many accounts', async () => {
+      for (let i = 0; i < 20; i++) {
+        await failLogin(`usuario${i}@test.com`);
+      }
+
+      await attempt(credentials.email, credentials.password).expect(429);
+    });
+
+    it('does not let concurrent guesses exceed the limits', async () => {
+      const responses = await Promise.all(
+        Array.from({ length: 10 }, () =>
+          attempt(credentials.email, 'incorrecto'),
+        ),
+      );
+
+      const guessed = responses.filter((res) => res.status === 401);
+      expect(guessed.length).toBeLessThanOrEqual(5);
+      await attempt(credentials.email, credentials.password).expect(423);
+    });
+  });
+
+  describe('magic link', () => {
+    let userId: number;
+
+    beforeEach(async () => {
+      ({ id: userId } = await registerVerifiedUser(
+        testApp,
+        credentials.username,
+        credentials.email,
+      ));
+    });
+
+    const requestLink = async (email: string) => {
+      const res = await request(server())
+        .post('/auth/magic-link')
+        .send({ email })
+        .expect(200);
+      return res.body as { message: string; nonce: string; expires_in: number };
+    };
+
+    const verify = (token: string, nonce: string) =>
+      request(server()).post('/auth/magic-link/verify').send({ token, nonce });
+
+    it('logs in with the emailed link from the same browser, only once', async () => {
+      const { nonce, expires_in } = await requestLink(credentials.email);
+      expect(expires_in).toBe(15 * 60);
+      expect(testApp.mailbox.lastTo(credentials.email).text).toContain(
+        '/magic-link?token=',
+      );
+      const token = testApp.mailbox.lastTokenTo(credentials.email);
+
+      const res = await verify(token, nonce).expect(200);
+      expect(res.body).toMatchObject({
+        message: 'Login exitoso',
+        token_type: 'Bearer',
+        user: { id: userId, email: credentials.email },
+      });
+      expect(res.body).not.toHaveProperty(['user', 'password']);
+      await request(server())
+        .get('/auth/profile')
+        .set(
+          'Authorization',
+          `Bearer ${(res.body as LoginTokens).access_token}`,
+        )
+        .expect(200);
+
+      await verify(token, nonce).expect(400);
+    });
+
+    it('answers the same for unknown emails and sends nothing', async () => {
+      const sent = testApp.mailbox.messages.length;
+
+      const known = await requestLink(credentials.email);
+      const unknown = await requestLink('nadie@test.com');
+
+      expect(unknown.message).toBe(known.message);
+      expect(unknown.nonce).toEqual(expect.any(String));
+      expect(unknown.nonce).not.toBe(known.nonce);
+      expect(testApp.mailbox.messages).toHaveLength(sent + 1);
+    });
+
+    it('rejects the link from another browser without spending it', async () => {
+      const { nonce } = await requestLink(credentials.email);
+      const { nonce: otherNonce } = await requestLink('nadie@test.com');
+      const token = testApp.mailbox.lastTokenTo(credentials.email);
+
+      const res = await verify(token, otherNonce).expect(400);
+      expect((res.body as { message: string }).message).toBe(
+        'Abra el enlace en el mismo navegador en el que lo solicitó',
+      );
+
+      await verify(token, nonce).expect(200);
+    });
+
+    it('invalidates the previous link when a new one is requested', async () => {
+      const first = await requestLink(credentials.email);
+      const firstToken = testApp.mailbox.lastTokenTo(credentials.email);
+      await requestLink(credentials.email);
+
+      await verify(firstToken, first.nonce).expect(400);
+    });
+
+    it('rejects deactivated accounts', async () => {
+      const { nonce } = await requestLink(credentials.email);
+      const token = testApp.mailbox.lastTokenTo(credentials.email);
+      await testApp.app.get(UsersService).setActive(userId, false);
+
+      await verify(token, nonce).expect(401);
+
+      // Una cuenta desactivada no recibe enlaces nuevos
+      const sent = testApp.mailbox.messages.length;
+      await requestLink(credentials.email);
+      expect(testApp.mailbox.messages).toHaveLength(sent);
+    });
+
+    it('honors the login lockout', async () => {
+      const { nonce } = await requestLink(credentials.email);
+      const token = testApp.mailbox.lastTokenTo(credentials.email);
+
+      for (let i = 0; i < 5; i++) {
+        await request(server())
+          .post('/auth/login')
+          .send({ email: credentials.email, password: 'incorrecto' });
+        testApp.clock.advance(30 * 1000);
+      }
+
+      await verify(token, nonce).expect(423);
+      await request(server())
+        .post('/auth/magic-link')
+        .send({ email: credentials.email })
+        .expect(423);
+
+      // Pasado el bloqueo, el mismo enlace (aún vigente) sirve
+      testApp.clock.advance(15 * 60 * 1000);
+      await verify(token, nonce).expect(200);
+    });
+
+    it('asks for the second factor when 2FA is enabled', async () => {
+      const { access_token } = await login(testApp, credentials.email);
+      const enrolled = await request(server())
+        .post('/auth/2fa/enroll')
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(201);
+      await request(server())
+        .post('/auth/2fa/confirm')
+        .set('Authorization', `Bearer ${access_token}`)
+        .send({
+          code: generateTotp(
+            (enrolled.body as { secret: string }).secret,
+            testApp.clock.now(),
+          ),
+        })
+        .expect(200);
+
+      const { nonce } = await requestLink(credentials.email);
+      const res = await verify(
+        testApp.mailbox.lastTokenTo(credentials.email),
+        nonce,
+      ).expect(200);
+
+      expect(res.body).toMatchObject({ mfa_required: true });
+      expect(res.body).not.toHaveProperty('access_token');
+    });
+  });
+
+  describe('signing keys', () => {
+    it('publishes the key that verifies access tokens', async () => {
+      await registerVerifiedUser(
+        testApp,
+        credentials.username,
+        credentials.email,
+      );
+      const { access_token } = await login(testApp, credentials.email);
+
+      const res = await request(server())
+        .get('/.well-known/jwks.json')
+        .expect(200);
+      expect(res.headers['cache-control']).toContain('max-age');
+
+      const jwtService = new JwtService();
+      const { header } = jwtService.decode<{ header: { kid: string } }>(
+        access_token,
+        { complete: true },
+      );
+      const { keys } = res.body as { keys: (JsonWebKey & { kid: string })[] };
+      const jwk = keys.find((key) => key.kid === header.kid);
+      expect(jwk).toMatchObject({ alg: 'RS256', use: 'sig' });
+      expect(jwk).not.toHaveProperty('d');
+
+      const publicKey = createPublicKey({ key: jwk!, format: 'jwk' })
+        .export({ format: 'pem', type: 'spki' })
+        .toString();
+      expect(
+        jwtService.verify(access_token, { secret: publicKey }),
+      ).toMatchObject({ typ: 'access', email: credentials.email });
+    });
+
+    it('rejects access tokens signed with the HMAC secret', async () => {
+      const user = await registerVerifiedUser(
+        testApp,
+        credentials.username,
+        credentials.email,
+      );
+      const forged = testApp.app.get(JwtService).sign(
+        {
+          typ: 'access',
+          sub: user.id,
+          email: user.email,
+          username: user.username,
+          roles: ['admin'],
+          sid: 'x',
+        },
+        { jwtid: 'forjado', keyid: 'ephemeral' },
+      );
+
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${forged}`)
+        .expect(401);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import request from 'supertest';
+import { AppService } from '../src/app.service';
+import type { ErrorResponse } from '../src/common/interfaces/error-response.interface';
+import { createTestApp, registerVerifiedUser, TestApp } from './utils/test-app';
+
+describe('Error responses (e2e)', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.app.close();
+  });
+
+  const server = () => testApp.app.getHttpServer();
+
+  const expectEnvelope = (res: request.Response) => {
+    const body = res.body as ErrorResponse;
+    expect(body).toMatchObject({
+      statusCode: res.status,
+      request_id: res.headers['x-request-id'],
+      path: expect.any(String) as string,
+    });
+    expect(new Date(body.timestamp).toISOString()).toBe(body.timestamp);
+    return body;
+  };
+
+  it('reports every invalid and unknown field of a DTO', async () => {
+    const res = await request(server())
+      .post('/auth/register')
+      .send({
+        username: 'ju',
+        email: 'no-es-email',
+        password: 'miPassword123',
+        roles: ['admin'],
+      })
+      .expect(400);
+
+    const body = expectEnvelope(res);
+    expect(body).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      message: 'Los datos enviados no son válidos',
+      path: '/auth/register',
+    });
+    expect(body.field_errors).toEqual(
+      expect.arrayContaining([
+        {
+          field: 'username',
+          messages: ['El nombre de usuario debe tener al menos 3 caracteres'],
+        },
+        { field: 'email', messages: ['Debe proporcionar un email válido'] },
+        { field: 'roles', messages: ['Campo no permitido'] },
+      ]),
+    );
+    expect(body.field_errors).toHaveLength(3);
+  });
+
+  it('uses the same shape for auth, conflict and not found errors', async () => {
+    const unauthorized = await request(server())
+      .post('/auth/login')
+      .send({ email: 'nadie@test.com', password: 'incorrecto' })
+      .expect(401);
+    expect(expectEnvelope(unauthorized)).toMatchObject({
+      code: 'UNAUTHORIZED',
+      message: 'Credenciales inválidas',
+    });
+
+    await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    const conflict = await request(server())
+      .post('/auth/register')
+      .send({
+        username: 'otro',
+        email: 'juan@test.com',
+        password: 'miPassword123',
+      })
+      .expect(409);
+    expect(expectEnvelope(conflict)).toMatchObject({ code: 'CONFLICT' });
+
+    const notFound = await request(server()).get('/no-existe').expect(404);
+    expect(expectEnvelope(notFound)).toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Ruta no encontrada: GET /no-existe',
+    });
+  });
+
+  it('hides the details of unexpected errors', async () => {
+    await testApp.app.close();
+    testApp = await createTestApp((builder) =>
+      builder.overrideProvider(AppService).useValue({
+        getHello: () => {
+          throw new Error('conexión perdida con 10.0.0.5');
+        },
+      }),
+    );
+
+    const res = await request(server()).get('/').expect(500);
+    expect(expectEnvelope(res)).toMatchObject({
+      code: 'INTERNAL_ERROR',
+      message: 'Error interno del servidor',
+    });
+    expect(JSON.stringify(res.body)).not.toContain('10.0.0.5');
+  });
+
+  it('echoes a valid X-Request-Id and replaces an invalid one', async () => {
+    const echoed = await request(server())
+      .get('/auth/profile')
+      .set('X-Request-Id', 'lb-7f3a9c')
+      .expect(401);
+    expect(echoed.headers['x-request-id']).toBe('lb-7f3a9c');
+    expect((echoed.body as ErrorResponse).request_id).toBe('lb-7f3a9c');
+
+    const replaced = await request(server())
+      .get('/auth/profile')
+      .set('X-Request-Id', 'con espacios\ty tabs')
+      .expect(401);
+    expect(replaced.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('translates messages to the language in Accept-Language', async () => {
+    const res = await request(server())
+      .post('/auth/register')
+      .set('Accept-Language', 'en-US,en;q=0.9')
+      .send({ username: 'juanperez', email: 'no-es-email', password: 'x' })
+      .expect(400);
+
+    expect(res.headers['content-language']).toBe('en');
+    expect(res.body).toMatchObject({
+      message: 'The submitted data is not valid',
+      field_errors: expect.arrayContaining([
+        { field: 'email', messages: ['You must provide a valid email'] },
+      ]) as unknown,
+    });
+  });
+
+  it('keeps the OAuth2 error format and ignores unknown OAuth parameters', async () => {
+    const res = await request(server())
+      .post('/oauth/token')
+      .type('form')
+      .send({ grant_type: 'password', extra: 'ignorado' })
+      .expect(400);
+
+    expect(res.body).toEqual({
+      error: 'unsupported_grant_type',
+      error_description: expect.any(String) as string,
+    });
+  });
+});
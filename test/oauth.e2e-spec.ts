@@ -0,0 +1,505 @@
+import request from 'supertest';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, createPublicKey, JsonWebKey, randomBytes } from 'crypto';
+import {
+  createTestApp,
+  login,
+  registerVerifiedUser,
+  TestApp,
+} from './utils/test-app';
+import { UsersService } from '../src/users/users.service';
+
+describe('OAuth2 / OpenID Connect (e2e)', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    process.env.ADMIN_EMAILS = 'admin@test.com';
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    delete process.env.ADMIN_EMAILS;
+    await testApp.app.close();
+  });
+
+  const server = () => testApp.app.getHttpServer();
+  const redirectUri = 'https://app.example.com/callback';
+
+  interface RegisteredClient {
+    client_id: string;
+    client_secret?: string;
+  }
+
+  const registerClient = async (confidential = true) => {
+    await registerVerifiedUser(testApp, 'admin', 'admin@test.com');
+    const { access_token } = await login(testApp, 'admin@test.com');
+
+    const res = await request(server())
+      .post('/oauth/clients')
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ name: 'Portal', redirect_uris: [redirectUri], confidential })
+      .expect(201);
+    return res.body as RegisteredClient;
+  };
+
+  const pkcePair = () => {
+    const verifier = randomBytes(32).toString('base64url');
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+    return { verifier, challenge };
+  };
+
+  const authorizeParams = (
+    clientId: string,
+    challenge: string,
+    scope = 'openid profile email',
+  ) => ({
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    scope,
+    state: 'estado-123',
+    nonce: 'nonce-456',
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+  });
+
+  /**
+   * Usuario que aprueba al cliente desde el frontend y el código obtenido
+   */
+  const obtainCode = async (
+    client: RegisteredClient,
+    challenge: string,
+    scope?: string,
+  ) => {
+    await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    const { access_token } = await login(testApp, 'juan@test.com');
+
+    const res = await request(server())
+      .post('/oauth/authorize')
+      .set('Authorization', `Bearer ${access_token}`)
+      .send(authorizeParams(client.client_id, challenge, scope))
+      .expect(200);
+
+    const url = new URL((res.body as { redirect_to: string }).redirect_to);
+    expect(`${url.origin}${url.pathname}`).toBe(redirectUri);
+    expect(url.searchParams.get('state')).toBe('estado-123');
+    return url.searchParams.get('code')!;
+  };
+
+  const publicKeyFor = async (token: string) => {
+    const { header } = new JwtService().decode<{ header: { kid: string } }>(
+      token,
+      { complete: true },
+    );
+    const res = await request(server()).get('/.well-known/jwks.json');
+    const { keys } = res.body as { keys: (JsonWebKey & { kid: string })[] };
+    return createPublicKey({
+      key: keys.find((key) => key.kid === header.kid)!,
+      format: 'jwk',
+    })
+      .export({ format: 'pem', type: 'spki' })
+      .toString();
+  };
+
+  it('publishes the discovery document', async () => {
+    const res = await request(server())
+      .get('/.well-known/openid-configuration')
+      .expect(200);
+
+    expect(res.body).toMatchObject({
+      issuer: 'http://localhost:3000',
+      authorization_endpoint: 'http://localhost:3000/oauth/authorize',
+      token_endpoint: 'http://localhost:3000/oauth/token',
+      userinfo_endpoint: 'http://localhost:3000/oauth/userinfo',
+      jwks_uri: 'http://localhost:3000/.well-known/jwks.json',
+      code_challenge_methods_supported: ['S256'],
+    });
+  });
+
+  it('only lets admins register clients', async () => {
+    await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    const { access_token } = await login(testApp, 'juan@test.com');
+
+    await request(server())
+      .post('/oauth/clients')
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ name: 'Portal', redirect_uris: [redirectUri] })
+      .expect(403);
+  });
+
+  it('rejects insecure redirect URIs at registration', async () => {
+    await registerVerifiedUser(testApp, 'admin', 'admin@test.com');
+    const { access_token } = await login(testApp, 'admin@test.com');
+
+    await request(server())
+      .post('/oauth/clients')
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ name: 'Portal', redirect_uris: ['http://evil.example.com/cb'] })
+      .expect(400);
+  });
+
+  it('runs the authorization code flow with PKCE', async () => {
+    const client = await registerClient();
+    const { verifier, challenge } = pkcePair();
+
+    // 1. El navegador llega desde el cliente y se envía al consentimiento
+    const start = await request(server())
+      .get('/oauth/authorize')
+      .query(authorizeParams(client.client_id, challenge))
+      .expect(302);
+    const consent = new URL(start.headers.location);
+    expect(consent.pathname).toBe('/oauth/consent');
+    expect(consent.searchParams.get('client_name')).toBe('Portal');
+    expect(consent.searchParams.get('code_challenge')).toBe(challenge);
+
+    // 2. El usuario aprueba y 3. el cliente canjea el código
+    const code = await obtainCode(client, challenge);
+    const res = await request(server())
+      .post('/oauth/token')
+      .auth(client.client_id, client.client_secret!)
+      .type('form')
+      .send({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: verifier,
+      })
+      .expect(200);
+
+    expect(res.headers['cache-control']).toBe('no-store');
+    const tokens = res.body as {
+      access_token: string;
+      id_token: string;
+      token_type: string;
+      scope: string;
+    };
+    expect(tokens).toMatchObject({
+      token_type: 'Bearer',
+      scope: 'openid profile email',
+    });
+
+    // El ID token se verifica con el JWKS publicado
+    const idToken = new JwtService().verify<Record<string, unknown>>(
+      tokens.id_token,
+      {
+        secret: await publicKeyFor(tokens.id_token),
+        issuer: 'http://localhost:3000',
+        audience: client.client_id,
+      },
+    );
+    expect(typeof idToken.sub).toBe('string');
+    expect(idToken).toMatchObject({
+      email: 'juan@test.com',
+      email_verified: true,
+      username: 'juanperez',
+      nonce: 'nonce-456',
+    });
+
+    const userInfo = await request(server())
+      .get('/oauth/userinfo')
+      .set('Authorization', `Bearer ${tokens.access_token}`)
+      .expect(200);
+    expect(userInfo.body).toEqual({
+      sub: idToken.sub,
+      email: 'juan@test.com',
+      email_verified: true,
+      username: 'juanperez',
+      preferred_username: 'juanperez',
+    });
+
+    // El token del cliente no sirve en las rutas propias del proyecto
+    await request(server())
+      .get('/auth/profile')
+      .set('Authorization', `Bearer ${tokens.access_token}`)
+      .expect(401);
+  });
+
+  it('puts sub, email and username in the ID token with only openid', async () => {
+    const client = await registerClient();
+    const { verifier, challenge } = pkcePair();
+    const code = await obtainCode(client, challenge, 'openid');
+    const res = await request(server())
+      .post('/oauth/token')
+      .auth(client.client_id, client.client_secret!)
+      .type('form')
+      .send({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: verifier,
+      })
+      .expect(200);
+    const tokens = res.body as { access_token: string; id_token: string };
+
+    const idToken = new JwtService().verify<Record<string, unknown>>(
+      tokens.id_token,
+      {
+        secret: await publicKeyFor(tokens.id_token),
+        audience: client.client_id,
+      },
+    );
+    expect(idToken).toMatchObject({
+      email: 'juan@test.com',
+      username: 'juanperez',
+    });
+    expect(typeof idToken.sub).toBe('string');
+    expect(idToken).not.toHaveProperty('email_verified');
+    expect(idToken).not.toHaveProperty('preferred_username');
+
+    // /oauth/userinfo sigue limitado a los scopes concedidos
+    const userInfo = await request(server())
+      .get('/oauth/userinfo')
+      .set('Authorization', `Bearer ${tokens.access_token}`)
+      .expect(200);
+    expect(userInfo.body).toEqual({ sub: idToken.sub });
+  });
+
+  it('accepts each authorization code only once', async () => {
+    const client = await registerClient();
+    const { verifier, challenge } = pkcePair();
+    const code = await obtainCode(client, challenge);
+
+    const exchange = () =>
+      request(server()).post('/oauth/token').type('form').send({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: verifier,
+        client_id: client.client_id,
+        client_secret: client.client_secret,
+      });
+
+    await exchange().expect(200);
+    const res = await exchange().expect(400);
+    expect(res.body).toMatchObject({ error: 'invalid_grant' });
+  });
+
+  it('rejects a wrong code verifier from a public client', async () => {
+    const client = await registerClient(false);
+    expect(client.client_secret).toBeUndefined();
+    const { challenge } = pkcePair();
+    const code = await obtainCode(client, challenge);
+
+    const res = await request(server())
+      .post('/oauth/token')
+      .type('form')
+      .send({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: pkcePair().verifier,
+        client_id: client.client_id,
+      })
+      .expect(400);
+    expect(res.body).toMatchObject({ error: 'invalid_grant' });
+  });
+
+  it('requires the secret of confidential clients', async () => {
+    const client = await registerClient();
+    const { verifier, challenge } = pkcePair();
+    const code = await obtainCode(client, challenge);
+
+    const res = await request(server())
+      .post('/oauth/token')
+      .auth(client.client_id, 'secreto-incorrecto')
+      .type('form')
+      .send({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: verifier,
+      })
+      .expect(401);
+    expect(res.body).toMatchObject({ error: 'invalid_client' });
+  });
+
+  it('rejects the tokens of a user who must reset the password', async () => {
+    const client = await registerClient();
+    const { verifier, challenge } = pkcePair();
+    const code = await obtainCode(client, challenge);
+    const res = await request(server())
+      .post('/oauth/token')
+      .auth(client.client_id, client.client_secret!)
+      .type('form')
+      .send({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: verifier,
+      })
+      .expect(200);
+    const { access_token } = res.body as { access_token: string };
+
+    const usersService = testApp.app.get(UsersService);
+    const juan = await usersService.findByEmail('juan@test.com');
+    await usersService.requirePasswordReset(juan!.id);
+
+    await request(server())
+      .get('/oauth/userinfo')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(401);
+  });
+
+  it('never redirects to an unregistered redirect URI', async () => {
+    const client = await registerClient();
+
+    const res = await request(server())
+      .get('/oauth/authorize')
+      .query({
+        ...authorizeParams(client.client_id, pkcePair().challenge),
+        redirect_uri: 'https://evil.example.com/callback',
+      })
+      .expect(400);
+    expect(res.headers.location).toBeUndefined();
+  });
+
+  describe('client credentials', () => {
+    let adminToken: string;
+
+    beforeEach(async () => {
+      await registerVerifiedUser(testApp, 'admin', 'admin@test.com');
+      ({ access_token: adminToken } = await login(testApp, 'admin@test.com'));
+    });
+
+    const registerServiceClient = async (
+      body: Record<string, unknown>,
+      status = 201,
+    ) => {
+      const res = await request(server())
+        .post('/oauth/clients')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Sincronización', ...body })
+        .expect(status);
+      return res.body as RegisteredClient;
+    };
+
+    const clientToken = (client: RegisteredClient, scope?: string) =>
+      request(server())
+        .post('/oauth/token')
+        .auth(client.client_id, client.client_secret!)
+        .type('form')
+        .send({ grant_type: 'client_credentials', ...(scope && { scope }) });
+
+    it('lets backend jobs call protected routes with scoped tokens', async () => {
+      const client = await registerServiceClient({
+        grant_types: ['client_credentials'],
+        scopes: ['users:manage'],
+      });
+
+      const res = await clientToken(client).expect(200);
+      const tokens = res.body as {
+        access_token: string;
+        scope: string;
+        refresh_token?: string;
+        id_token?: string;
+      };
+      expect(tokens.scope).toBe('users:manage');
+      expect(tokens.refresh_token).toBeUndefined();
+      expect(tokens.id_token).toBeUndefined();
+
+      const users = await request(server())
+        .get('/users')
+        .set('Authorization', `Bearer ${tokens.access_token}`)
+        .expect(200);
+      const [admin] = (users.body as { items: { id: number }[] }).items;
+      await request(server())
+        .get(`/users/${admin.id}`)
+        .set('Authorization', `Bearer ${tokens.access_token}`)
+        .expect(200);
+
+      // No es un usuario: las rutas de la cuenta no lo aceptan
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${tokens.access_token}`)
+        .expect(401);
+    });
+
+    it('needs oauth-clients:manage to register clients', async () => {
+      const register = async (scope: string, status: number) => {
+        const client = await registerServiceClient({
+          grant_types: ['client_credentials'],
+          scopes: [scope],
+        });
+        const { access_token } = (await clientToken(client).expect(200))
+          .body as { access_token: string };
+        return request(server())
+          .post('/oauth/clients')
+          .set('Authorization', `Bearer ${access_token}`)
+          .send({ name: 'Portal', redirect_uris: [redirectUri] })
+          .expect(status);
+      };
+
+      await register('users:manage', 403);
+      await register('oauth-clients:manage', 201);
+    });
+
+    it('only grants the scopes assigned to the client', async () => {
+      const client = await registerServiceClient({
+        grant_types: ['client_credentials'],
+        scopes: ['reports:read'],
+      });
+
+      const res = await clientToken(client, 'users:manage').expect(400);
+      expect(res.body).toMatchObject({ error: 'invalid_scope' });
+
+      const { access_token } = (await clientToken(client).expect(200)).body as {
+        access_token: string;
+      };
+      await request(server())
+        .get('/users')
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(403);
+    });
+
+    it('requires a confidential client with scopes', async () => {
+      await registerServiceClient(
+        {
+          grant_types: ['client_credentials'],
+          scopes: ['users:manage'],
+          confidential: false,
+        },
+        400,
+      );
+      await registerServiceClient(
+        {
+          grant_types: ['client_credentials'],
+        },
+        400,
+      );
+    });
+
+    it('keeps each client to its own grant types', async () => {
+      const client = await registerServiceClient({
+        redirect_uris: [redirectUri],
+      });
+      const res = await clientToken(client).expect(400);
+      expect(res.body).toMatchObject({ error: 'unauthorized_client' });
+
+      const service = await registerServiceClient({
+        grant_types: ['client_credentials'],
+        scopes: ['users:manage'],
+      });
+      await request(server())
+        .get('/oauth/authorize')
+        .query(authorizeParams(service.client_id, pkcePair().challenge))
+        .expect(400);
+    });
+  });
+
+  it('reports a missing PKCE challenge back to the client', async () => {
+    const client = await registerClient();
+
+    const res = await request(server())
+      .get('/oauth/authorize')
+      .query({
+        ...authorizeParams(client.client_id, ''),
+        code_challenge: undefined,
+      })
+      .expect(302);
+
+    const url = new URL(res.headers.location);
+    expect(`${url.origin}${url.pathname}`).toBe(redirectUri);
+    expect(url.searchParams.get('error')).toBe('invalid_request');
+    expect(url.searchParams.get('state')).toBe('estado-123');
+  });
+});
@@ -0,0 +1,297 @@
+import request, { Response } from 'supertest';
+import {
+  createTestApp,
+  registerVerifiedUser,
+  TestApp,
+  TestUser,
+} from './utils/test-app';
+import { generateTotp } from '../src/auth/utils/totp';
+
+/**
+ * Cookies de la cabecera Set-Cookie: nombre → "nombre=valor; Path=/; ..."
+ */
+function setCookies(res: Response): Map<string, string> {
+  const header = res.headers['set-cookie'] as unknown as string[] | undefined;
+  return new Map(
+    (header ?? []).map((cookie) => {
+      return [cookie.slice(0, cookie.indexOf('=')), cookie];
+    }),
+  );
+}
+
+const valueOf = (cookie: string | undefined) => cookie?.split(';')[0];
+
+describe('Session cookies (e2e)', () => {
+  let testApp: TestApp;
+  let juan: TestUser;
+
+  const server = () => testApp.app.getHttpServer();
+
+  describe('cookie mode', () => {
+    beforeAll(() => {
+      process.env.AUTH_TOKEN_TRANSPORT = 'cookie';
+    });
+
+    afterAll(() => {
+      delete process.env.AUTH_TOKEN_TRANSPORT;
+    });
+
+    beforeEach(async () => {
+      testApp = await createTestApp();
+      juan = await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    });
+
+    afterEach(async () => {
+      await testApp.app.close();
+    });
+
+    /**
+     * Inicia sesión y arma lo que enviaría el navegador
+     */
+    const cookieLogin = async () => {
+      const res = await request(server())
+        .post('/auth/login')
+        .send({ email: juan.email, password: juan.password })
+        .expect(201);
+      const cookies = setCookies(res);
+      const csrfToken = (res.body as { csrf_token: string }).csrf_token;
+      return {
+        res,
+        cookies,
+        csrfToken,
+        /** Cookies que el navegador envía a toda la API */
+        session: [
+          valueOf(cookies.get('access_token')),
+          valueOf(cookies.get('csrf_token')),
+        ].join('; '),
+        /** Cookies que el navegador envía a /auth/refresh */
+        refresh: [
+          valueOf(cookies.get('access_token')),
+          valueOf(cookies.get('refresh_token')),
+          valueOf(cookies.get('csrf_token')),
+        ].join('; '),
+      };
+    };
+
+    it('stores the tokens in HttpOnly cookies instead of the body', async () => {
+      const { res, cookies, csrfToken } = await cookieLogin();
+
+      expect(res.body).toMatchObject({
+        message: 'Login exitoso',
+        expires_in: 900,
+        user: { email: juan.email },
+      });
+      expect(res.body).not.toHaveProperty('access_token');
+      expect(res.body).not.toHaveProperty('refresh_token');
+
+      const access = cookies.get('access_token');
+      expect(access).toMatch(/HttpOnly/);
+      expect(access).toMatch(/Secure/);
+      expect(access).toMatch(/SameSite=Strict/);
+      expect(access).toMatch(/Path=\/;/);
+      expect(cookies.get('refresh_token')).toMatch(
+        /Path=\/auth\/refresh;.*HttpOnly/,
+      );
+
+      // La cookie CSRF la lee el frontend
+      expect(cookies.get('csrf_token')).not.toMatch(/HttpOnly/);
+      expect(valueOf(cookies.get('csrf_token'))).toBe(
+        `csrf_token=${csrfToken}`,
+      );
+    });
+
+    it('authenticates requests with the access token cookie', async () => {
+      const { session } = await cookieLogin();
+
+      const res = await request(server())
+        .get('/auth/profile')
+        .set('Cookie', session)
+        .expect(200);
+      expect(res.body).toMatchObject({ email: juan.email });
+    });
+
+    it('requires the CSRF header on state-changing requests', async () => {
+      const { session, csrfToken } = await cookieLogin();
+
+      const missing = await request(server())
+        .post('/auth/logout')
+        .set('Cookie', session)
+        .expect(403);
+      expect(missing.body).toMatchObject({
+        statusCode: 403,
+        message: 'Token CSRF ausente o inválido',
+      });
+      await request(server())
+        .post('/auth/logout')
+        .set('Cookie', session)
+        .set('X-CSRF-Token', `${csrfToken}x`)
+        .expect(403);
+
+      // Sin cookie CSRF no hay con qué comparar
+      await request(server())
+        .post('/auth/logout')
+        .set('Cookie', session.split('; ')[0])
+        .set('X-CSRF-Token', csrfToken)
+        .expect(403);
+
+      // El rechazo ocurre antes del handler: la sesión sigue abierta
+      await request(server())
+        .get('/auth/profile')
+        .set('Cookie', session)
+        .expect(200);
+    });
+
+    it('protects routes outside the auth module too', async () => {
+      const { session, csrfToken } = await cookieLogin();
+      const update = () =>
+        request(server())
+          .patch(`/users/${juan.id}`)
+          .set('Cookie', session)
+          .send({ username: 'juanito' });
+
+      const forged = await update().expect(403);
+      expect((forged.body as { message: string }).message).toBe(
+        'Token CSRF ausente o inválido',
+      );
+      // Con el token CSRF la petición llega a la ruta (solo para administradores)
+      const denied = await update().set('X-CSRF-Token', csrfToken).expect(403);
+      expect((denied.body as { message: string }).message).not.toBe(
+        'Token CSRF ausente o inválido',
+      );
+    });
+
+    it('renews the session from the refresh token cookie', async () => {
+      const { refresh, csrfToken } = await cookieLogin();
+
+      await request(server())
+        .post('/auth/refresh')
+        .set('Cookie', refresh)
+        .expect(403);
+      const res = await request(server())
+        .post('/auth/refresh')
+        .set('Cookie', refresh)
+        .set('X-CSRF-Token', csrfToken)
+        .expect(201);
+
+      expect(res.body).toMatchObject({ message: 'Token renovado' });
+      expect(res.body).not.toHaveProperty('refresh_token');
+      const renewed = setCookies(res);
+      expect(renewed.get('access_token')).toBeDefined();
+      expect(renewed.get('refresh_token')).toBeDefined();
+      expect(valueOf(renewed.get('refresh_token'))).not.toBe(
+        refresh.split('; ')[1],
+      );
+      expect((res.body as { csrf_token: string }).csrf_token).not.toBe(
+        csrfToken,
+      );
+
+      // El refresh token rotado ya no sirve (y revoca la sesión)
+      await request(server())
+        .post('/auth/refresh')
+        .set('Cookie', refresh)
+        .set('X-CSRF-Token', csrfToken)
+        .expect(401);
+    });
+
+    it('still accepts the refresh token in the body', async () => {
+      const { refresh, csrfToken } = await cookieLogin();
+      const refreshToken = refresh.split('; ')[1].replace('refresh_token=', '');
+
+      await request(server())
+        .post('/auth/refresh')
+        .send({ refresh_token: refreshToken })
+        .expect(201);
+      await request(server())
+        .post('/auth/refresh')
+        .set('X-CSRF-Token', csrfToken)
+        .send({})
+        .expect(400);
+    });
+
+    it('clears the cookies on logout', async () => {
+      const { session, csrfToken } = await cookieLogin();
+
+      const res = await request(server())
+        .post('/auth/logout')
+        .set('Cookie', session)
+        .set('X-CSRF-Token', csrfToken)
+        .expect(200);
+      const cleared = setCookies(res);
+      for (const name of ['access_token', 'refresh_token', 'csrf_token']) {
+        expect(cleared.get(name)).toMatch(/^\w+=;.*Expires=Thu, 01 Jan 1970/);
+      }
+      expect(cleared.get('refresh_token')).toMatch(/Path=\/auth\/refresh/);
+
+      // Aunque el navegador conserve la cookie, el token está revocado
+      await request(server())
+        .get('/auth/profile')
+        .set('Cookie', session)
+        .expect(401);
+    });
+
+    it('sets the cookies only once the second factor is verified', async () => {
+      const { session, csrfToken } = await cookieLogin();
+      const enrolled = await request(server())
+        .post('/auth/2fa/enroll')
+        .set('Cookie', session)
+        .set('X-CSRF-Token', csrfToken)
+        .expect(201);
+      const { secret } = enrolled.body as { secret: string };
+      await request(server())
+        .post('/auth/2fa/confirm')
+        .set('Cookie', session)
+        .set('X-CSRF-Token', csrfToken)
+        .send({ code: generateTotp(secret, testApp.clock.now()) })
+        .expect(200);
+
+      const pending = await request(server())
+        .post('/auth/login')
+        .send({ email: juan.email, password: juan.password })
+        .expect(201);
+      expect(pending.body).toHaveProperty('mfa_token');
+      expect(pending.headers['set-cookie']).toBeUndefined();
+
+      testApp.clock.advance(30 * 1000);
+      const verified = await request(server())
+        .post('/auth/2fa/verify')
+        .send({
+          mfa_token: (pending.body as { mfa_token: string }).mfa_token,
+          code: generateTotp(secret, testApp.clock.now()),
+        })
+        .expect(201);
+      expect(verified.body).toHaveProperty('csrf_token');
+      expect(setCookies(verified).get('access_token')).toMatch(/HttpOnly/);
+    });
+  });
+
+  describe('header mode (default)', () => {
+    beforeEach(async () => {
+      testApp = await createTestApp();
+      juan = await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    });
+
+    afterEach(async () => {
+      await testApp.app.close();
+    });
+
+    it('returns the tokens in the body and ignores session cookies', async () => {
+      const res = await request(server())
+        .post('/auth/login')
+        .send({ email: juan.email, password: juan.password })
+        .expect(201);
+      expect(res.headers['set-cookie']).toBeUndefined();
+      const { access_token } = res.body as { access_token: string };
+
+      await request(server())
+        .get('/auth/profile')
+        .set('Cookie', `access_token=${access_token}`)
+        .expect(401);
+      // Sin cookies no hay CSRF que comprobar
+      await request(server())
+        .post('/auth/logout')
+        .set('Authorization', `Bearer ${access_token}`)
+        .set('Cookie', `access_token=${access_token}`)
+        .expect(200);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import request from 'supertest';
+import {
+  createTestApp,
+  login,
+  LoginTokens,
+  registerVerifiedUser,
+  TestApp,
+} from './utils/test-app';
+
+describe('Sessions (e2e)', () => {
+  let testApp: TestApp;
+
+  const CHROME_ON_WINDOWS =
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+  const FIREFOX_ON_LINUX =
+    'Mozilla/5.0 (X11; Linux x86_64; rv:127.0) Gecko/20100101 Firefox/127.0';
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+    await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+  });
+
+  afterEach(async () => {
+    await testApp.app.close();
+  });
+
+  const server = () => testApp.app.getHttpServer();
+
+  interface ListedSession {
+    id: string;
+    device: string;
+    ip: string | null;
+    user_agent: string | null;
+    last_seen_at: string;
+    current: boolean;
+  }
+
+  const loginFrom = async (userAgent: string) => {
+    const res = await request(server())
+      .post('/auth/login')
+      .set('User-Agent', userAgent)
+      .send({ email: 'juan@test.com', password: 'miPassword123' })
+      .expect(201);
+    return res.body as LoginTokens;
+  };
+
+  const listSessions = async (accessToken: string) => {
+    const res = await request(server())
+      .get('/auth/sessions')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+    return res.body as ListedSession[];
+  };
+
+  it('lists one session per login and marks the current one', async () => {
+    const laptop = await loginFrom(CHROME_ON_WINDOWS);
+    const desktop = await loginFrom(FIREFOX_ON_LINUX);
+
+    const sessions = await listSessions(laptop.access_token);
+    expect(sessions).toHaveLength(2);
+
+    const current = sessions.find((session) => session.current);
+    expect(current).toMatchObject({
+      device: 'Chrome en Windows',
+      user_agent: CHROME_ON_WINDOWS,
+    });
+    expect(current?.ip).toBeTruthy();
+    expect(current?.last_seen_at).toBeTruthy();
+    expect(sessions.find((session) => !session.current)).toMatchObject({
+      device: 'Firefox en Linux',
+    });
+
+    // Desde el otro dispositivo, la actual es la otra
+    const fromDesktop = await listSessions(desktop.access_token);
+    expect(fromDesktop.find((session) => session.current)?.device).toBe(
+      'Firefox en Linux',
+    );
+  });
+
+  it('revokes another session: its access and refresh tokens stop working', async () => {
+    const laptop = await loginFrom(CHROME_ON_WINDOWS);
+    const phone = await loginFrom(FIREFOX_ON_LINUX);
+
+    const other = (await listSessions(laptop.access_token)).find(
+      (session) => !session.current,
+    );
+    await request(server())
+      .delete(`/auth/sessions/${other?.id}`)
+      .set('Authorization', `Bearer ${laptop.access_token}`)
+      .expect(204);
+
+    await request(server())
+      .get('/auth/profile')
+      .set('Authorization', `Bearer ${phone.access_token}`)
+      .expect(401);
+    await request(server())
+      .post('/auth/refresh')
+      .send({ refresh_token: phone.refresh_token })
+      .expect(401);
+
+    // La sesión actual sigue abierta y ya no lista la revocada
+    const sessions = await listSessions(laptop.access_token);
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].current).toBe(true);
+  });
+
+  it('ends the session when its refresh token is reused', async () => {
+    const laptop = await loginFrom(CHROME_ON_WINDOWS);
+    const phone = await login(testApp, 'juan@test.com');
+
+    await request(server())
+      .post('/auth/refresh')
+      .send({ refresh_token: phone.refresh_token })
+      .expect(201);
+    await request(server())
+      .post('/auth/refresh')
+      .send({ refresh_token: phone.refresh_token })
+      .expect(401);
+
+    await request(server())
+      .get('/auth/profile')
+      .set('Authorization', `Bearer ${phone.access_token}`)
+      .expect(401);
+    expect(await listSessions(laptop.access_token)).toHaveLength(1);
+  });
+
+  it('does not let users revoke sessions of other users', async () => {
+    const juan = await loginFrom(CHROME_ON_WINDOWS);
+    await registerVerifiedUser(testApp, 'mariagomez', 'maria@test.com');
+    const maria = await login(testApp, 'maria@test.com');
+
+    const [juanSession] = await listSessions(juan.access_token);
+    await request(server())
+      .delete(`/auth/sessions/${juanSession.id}`)
+      .set('Authorization', `Bearer ${maria.access_token}`)
+      .expect(404);
+
+    await request(server())
+      .get('/auth/profile')
+      .set('Authorization', `Bearer ${juan.access_token}`)
+      .expect(200);
+  });
+
+  it('closes every session on logout-all', async () => {
+    const laptop = await loginFrom(CHROME_ON_WINDOWS);
+    await loginFrom(FIREFOX_ON_LINUX);
+
+    await request(server())
+      .post('/auth/logout-all')
+      .set('Authorization', `Bearer ${laptop.access_token}`)
+      .expect(200);
+
+    const fresh = await loginFrom(CHROME_ON_WINDOWS);
+    const sessions = await listSessions(fresh.access_token);
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].current).toBe(true);
+  });
+});
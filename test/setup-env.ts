@@ -0,0 +1,10 @@
+// Variables de entorno para las pruebas (unitarias y e2e)
+// Usamos SQLite en memoria (sql.js) para no depender de un servidor MySQL
+process.env.DB_TYPE ??= 'sqljs';
+
+// Secreto solo para pruebas (la configuración exige uno fuerte)
+process.env.JWT_SECRET ??= 'test-only-secret-9f8e7d6c5b4a3210fedcba9876543210';
+
+// Sin temporizador de reintentos de webhooks: las pruebas los disparan con
+// WebhookDispatcher.processDue() tras adelantar el reloj
+process.env.WEBHOOK_DISPATCH_INTERVAL_SECONDS ??= '0';
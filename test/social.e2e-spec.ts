@@ -0,0 +1,175 @@
+import request from 'supertest';
+import {
+  createTestApp,
+  login,
+  registerVerifiedUser,
+  TestApp,
+} from './utils/test-app';
+import { MockOAuthServer } from './utils/mock-oauth-server';
+import { SOCIAL_PROVIDERS } from '../src/strategies/social/social-provider.interface';
+import { GoogleStrategy } from '../src/strategies/social/google.strategy';
+import { GitHubStrategy } from '../src/strategies/social/github.strategy';
+
+describe('Social login (e2e)', () => {
+  let testApp: TestApp;
+  let provider: MockOAuthServer;
+
+  beforeEach(async () => {
+    provider = new MockOAuthServer();
+    await provider.start();
+
+    const credentials = {
+      clientId: provider.clientId,
+      clientSecret: provider.clientSecret,
+      authorizationUrl: `${provider.url}/authorize`,
+      tokenUrl: `${provider.url}/token`,
+    };
+    testApp = await createTestApp((builder) =>
+      builder.overrideProvider(SOCIAL_PROVIDERS).useValue([
+        new GoogleStrategy({
+          ...credentials,
+          userInfoUrl: `${provider.url}/userinfo`,
+        }),
+        new GitHubStrategy({
+          ...credentials,
+          userInfoUrl: `${provider.url}/user`,
+        }),
+      ]),
+    );
+  });
+
+  afterEach(async () => {
+    await testApp.app.close();
+    await provider.stop();
+  });
+
+  const server = () => testApp.app.getHttpServer();
+
+  /**
+   * Recorre el flujo como lo haría el navegador y retorna la URL final
+   * del frontend (/auth/social/complete?code=... o ?error=...)
+   *
+   * @param withCookie - false simula un callback iniciado en otro navegador
+   */
+  const socialLogin = async (name: string, withCookie = true) => {
+    const start = await request(server())
+      .get(`/auth/social/${name}`)
+      .expect(302);
+    const cookies = start.headers['set-cookie'] as unknown as string[];
+    expect(cookies[0]).toContain('HttpOnly');
+
+    const authorize = await fetch(start.headers.location, {
+      redirect: 'manual',
+    });
+    const callback = new URL(authorize.headers.get('location')!);
+    expect(callback.pathname).toBe(`/auth/social/${name}/callback`);
+
+    const res = await request(server())
+      .get(`${callback.pathname}${callback.search}`)
+      .set('Cookie', withCookie ? cookies : [])
+      .expect(302);
+    return new URL(res.headers.location);
+  };
+
+  const exchange = (code: string) =>
+    request(server()).post('/auth/social/exchange').send({ code });
+
+  it('creates a verified account on the first login', async () => {
+    const complete = await socialLogin('google');
+    expect(complete.pathname).toBe('/auth/social/complete');
+
+    const res = await exchange(complete.searchParams.get('code')!).expect(200);
+    const body = res.body as {
+      access_token: string;
+      refresh_token: string;
+      user: { email: string; username: string; emailVerifiedAt: string };
+    };
+    expect(body.refresh_token).toBeDefined();
+    expect(body.user).toMatchObject({
+      email: 'juan@test.com',
+      username: 'juan',
+    });
+    expect(body.user.emailVerifiedAt).toBeTruthy();
+
+    const profile = await request(server())
+      .get('/auth/profile')
+      .set('Authorization', `Bearer ${body.access_token}`)
+      .expect(200);
+    expect(profile.body).toMatchObject({ email: 'juan@test.com' });
+  });
+
+  it('links several providers to an existing account by verified email', async () => {
+    const user = await registerVerifiedUser(
+      testApp,
+      'juanperez',
+      'juan@test.com',
+    );
+
+    for (const name of ['google', 'github']) {
+      const complete = await socialLogin(name);
+      const res = await exchange(complete.searchParams.get('code')!).expect(
+        200,
+      );
+      expect((res.body as { user: { id: number } }).user.id).toBe(user.id);
+    }
+
+    const { access_token } = await login(testApp, 'juan@test.com');
+    const identities = await request(server())
+      .get('/auth/identities')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(200);
+    expect(
+      (identities.body as { provider: string }[]).map((i) => i.provider),
+    ).toEqual(['google', 'github']);
+  });
+
+  it('recognises a linked identity after the provider email changes', async () => {
+    const first = await socialLogin('github');
+    const created = await exchange(first.searchParams.get('code')!);
+    const { id } = (created.body as { user: { id: number } }).user;
+
+    provider.account = { ...provider.account, email: 'otro@test.com' };
+    const second = await socialLogin('github');
+    const res = await exchange(second.searchParams.get('code')!).expect(200);
+    expect((res.body as { user: { id: number } }).user.id).toBe(id);
+  });
+
+  it('refuses unverified provider emails', async () => {
+    provider.account = { ...provider.account, emailVerified: false };
+
+    const complete = await socialLogin('google');
+    expect(complete.searchParams.get('code')).toBeNull();
+    expect(complete.searchParams.get('error')).toBe('social_login_failed');
+  });
+
+  it('refuses to link to an account whose email is not verified', async () => {
+    await request(server())
+      .post('/auth/register')
+      .send({
+        username: 'impostor',
+        email: 'juan@test.com',
+        password: 'miPassword123',
+      })
+      .expect(201);
+
+    const complete = await socialLogin('google');
+    expect(complete.searchParams.get('error')).toBe('social_login_failed');
+  });
+
+  it('rejects callbacks without the state cookie', async () => {
+    const complete = await socialLogin('google', false);
+    expect(complete.searchParams.get('error')).toBe('social_login_failed');
+  });
+
+  it('accepts each login code only once', async () => {
+    const complete = await socialLogin('google');
+    const code = complete.searchParams.get('code')!;
+
+    await exchange(code).expect(200);
+    await exchange(code).expect(400);
+  });
+
+  it('returns 404 for providers that are not configured', async () => {
+    await request(server()).get('/auth/social/facebook').expect(404);
+  });
+});
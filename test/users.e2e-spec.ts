@@ -0,0 +1,334 @@
+import request from 'supertest';
+import {
+  createTestApp,
+  login,
+  registerVerifiedUser,
+  TestApp,
+} from './utils/test-app';
+
+describe('UsersController (e2e)', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    process.env.ADMIN_EMAILS = 'admin@test.com';
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    delete process.env.ADMIN_EMAILS;
+    await testApp.app.close();
+  });
+
+  const server = () => testApp.app.getHttpServer();
+
+  interface UsersPage {
+    items: { id: number; username: string; email: string }[];
+    total: number;
+    next_cursor: string | null;
+  }
+
+  const registerAndLogin = async (username: string, email: string) => {
+    const user = await registerVerifiedUser(testApp, username, email);
+    const { access_token } = await login(testApp, email);
+    return { ...user, token: access_token };
+  };
+
+  it('requires authentication to list users', () => {
+    return request(server()).get('/users').expect(401);
+  });
+
+  it('restricts the users listing to admins', async () => {
+    const juan = await registerAndLogin('juanperez', 'juan@test.com');
+    const admin = await registerAndLogin('admin', 'admin@test.com');
+
+    await request(server())
+      .get('/users')
+      .set('Authorization', `Bearer ${juan.token}`)
+      .expect(403);
+
+    const res = await request(server())
+      .get('/users')
+      .set('Authorization', `Bearer ${admin.token}`)
+      .expect(200);
+    expect(res.body).toMatchObject({ total: 2, next_cursor: null });
+    expect((res.body as UsersPage).items).toHaveLength(2);
+  });
+
+  it('paginates, filters and validates the users listing', async () => {
+    const admin = await registerAndLogin('admin', 'admin@test.com');
+    await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    await registerVerifiedUser(testApp, 'mariagomez', 'maria@test.com');
+    const list = (query: string) =>
+      request(server())
+        .get(`/users?${query}`)
+        .set('Authorization', `Bearer ${admin.token}`);
+
+    const first = await list('sort=username&order=desc&limit=2').expect(200);
+    const page = first.body as UsersPage;
+    expect(page.total).toBe(3);
+    expect(page.items.map((u) => u.username)).toEqual([
+      'mariagomez',
+      'juanperez',
+    ]);
+
+    const cursor = encodeURIComponent(page.next_cursor!);
+    const second = await list(
+      `sort=username&order=desc&limit=2&cursor=${cursor}`,
+    ).expect(200);
+    expect(second.body).toMatchObject({
+      items: [{ username: 'admin' }],
+      next_cursor: null,
+    });
+
+    const search = await list('search=MARIA&isActive=true').expect(200);
+    expect(search.body).toMatchObject({
+      total: 1,
+      items: [{ email: 'maria@test.com' }],
+    });
+
+    await list('limit=0').expect(400);
+    await list('sort=password').expect(400);
+    await list('isActive=quizas').expect(400);
+    await list('createdFrom=ayer').expect(400);
+    await list('pagina=2').expect(400);
+    await list('cursor=roto').expect(400);
+  });
+
+  describe('GET /users/:id', () => {
+    it('lets users read only their own record', async () => {
+      const juan = await registerAndLogin('juanperez', 'juan@test.com');
+      const maria = await registerAndLogin('maria', 'maria@test.com');
+
+      const res = await request(server())
+        .get(`/users/${juan.id}`)
+        .set('Authorization', `Bearer ${juan.token}`)
+        .expect(200);
+      expect(res.body).toMatchObject({ id: juan.id, username: 'juanperez' });
+      expect(res.body).not.toHaveProperty('password');
+
+      await request(server())
+        .get(`/users/${juan.id}`)
+        .set('Authorization', `Bearer ${maria.token}`)
+        .expect(403);
+      // Un id inexistente tampoco se distingue de uno ajeno
+      await request(server())
+        .get('/users/999')
+        .set('Authorization', `Bearer ${maria.token}`)
+        .expect(403);
+    });
+
+    it('lets holders of users:manage read any record', async () => {
+      const juan = await registerAndLogin('juanperez', 'juan@test.com');
+      const admin = await registerAndLogin('admin', 'admin@test.com');
+
+      await request(server())
+        .get(`/users/${juan.id}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+      await request(server())
+        .get('/users/999')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(404);
+    });
+
+    it('requires authentication', () => {
+      return request(server()).get('/users/1').expect(401);
+    });
+  });
+
+  describe('administration', () => {
+    let admin: Awaited<ReturnType<typeof registerAndLogin>>;
+    let juan: Awaited<ReturnType<typeof registerAndLogin>>;
+
+    beforeEach(async () => {
+      admin = await registerAndLogin('admin', 'admin@test.com');
+      juan = await registerAndLogin('juanperez', 'juan@test.com');
+    });
+
+    const asAdmin = (req: request.Test) =>
+      req.set('Authorization', `Bearer ${admin.token}`);
+
+    it('creates verified accounts with validated data', async () => {
+      const res = await asAdmin(request(server()).post('/users'))
+        .send({
+          username: 'soporte1',
+          email: 'soporte1@test.com',
+          password: 'claveInicial123',
+          roles: ['user', 'soporte'],
+        })
+        .expect(201);
+      expect(res.body).toMatchObject({
+        username: 'soporte1',
+        roles: ['user', 'soporte'],
+        isActive: true,
+      });
+      expect(res.body).not.toHaveProperty('password');
+
+      // El email ya está verificado: puede iniciar sesión directamente
+      await login(testApp, 'soporte1@test.com', 'claveInicial123');
+
+      await asAdmin(request(server()).post('/users'))
+        .send({ username: 'x', email: 'no-es-email', password: '123' })
+        .expect(400);
+      await asAdmin(request(server()).post('/users'))
+        .send({
+          username: 'otro',
+          email: 'otro@test.com',
+          password: 'claveInicial123',
+          roles: ['admin,user'],
+        })
+        .expect(400);
+      await asAdmin(request(server()).post('/users'))
+        .send({
+          username: 'juanperez',
+          email: 'otro@test.com',
+          password: 'claveInicial123',
+        })
+        .expect(409);
+    });
+
+    it('restricts administration to holders of users:manage', async () => {
+      await request(server())
+        .post('/users')
+        .set('Authorization', `Bearer ${juan.token}`)
+        .send({
+          username: 'soporte1',
+          email: 'soporte1@test.com',
+          password: 'claveInicial123',
+        })
+        .expect(403);
+      await request(server())
+        .delete(`/users/${admin.id}`)
+        .set('Authorization', `Bearer ${juan.token}`)
+        .expect(403);
+    });
+
+    it('updates username and email but rejects unknown fields', async () => {
+      const res = await asAdmin(request(server()).patch(`/users/${juan.id}`))
+        .send({ username: 'juanp', email: 'juan.perez@test.com' })
+        .expect(200);
+      expect(res.body).toMatchObject({
+        username: 'juanp',
+        email: 'juan.perez@test.com',
+      });
+
+      await asAdmin(request(server()).patch(`/users/${juan.id}`))
+        .send({ isActive: false })
+        .expect(400);
+      await asAdmin(request(server()).patch(`/users/${juan.id}`))
+        .send({ email: 'admin@test.com' })
+        .expect(409);
+      await asAdmin(request(server()).patch('/users/999'))
+        .send({ username: 'nadie' })
+        .expect(404);
+    });
+
+    it('deactivates and reactivates accounts', async () => {
+      const res = await asAdmin(
+        request(server()).post(`/users/${juan.id}/deactivate`),
+      ).expect(200);
+      expect(res.body).toMatchObject({ isActive: false });
+
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${juan.token}`)
+        .expect(401);
+      await request(server())
+        .post('/auth/login')
+        .send({ email: 'juan@test.com', password: 'miPassword123' })
+        .expect(401);
+
+      await asAdmin(
+        request(server()).post(`/users/${juan.id}/reactivate`),
+      ).expect(200);
+      await login(testApp, 'juan@test.com');
+
+      // Un administrador no puede desactivarse a sí mismo
+      await asAdmin(
+        request(server()).post(`/users/${admin.id}/deactivate`),
+      ).expect(400);
+    });
+
+    it('forces a password reset before the next login', async () => {
+      await asAdmin(
+        request(server()).post(`/users/${juan.id}/force-password-reset`),
+      ).expect(200);
+
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${juan.token}`)
+        .expect(401);
+      await request(server())
+        .post('/auth/login')
+        .send({ email: 'juan@test.com', password: 'miPassword123' })
+        .expect(403);
+
+      await request(server())
+        .post('/auth/forgot-password')
+        .send({ email: 'juan@test.com' })
+        .expect(200);
+      await request(server())
+        .post('/auth/reset-password')
+        .send({
+          token: testApp.mailbox.lastTokenTo('juan@test.com'),
+          password: 'nuevoPassword456',
+        })
+        .expect(200);
+      await login(testApp, 'juan@test.com', 'nuevoPassword456');
+    });
+
+    it('replaces roles with immediate effect', async () => {
+      await request(server())
+        .get('/users')
+        .set('Authorization', `Bearer ${juan.token}`)
+        .expect(403);
+
+      const res = await asAdmin(
+        request(server()).put(`/users/${juan.id}/roles`),
+      )
+        .send({ roles: ['user', 'admin', 'admin'] })
+        .expect(200);
+      expect(res.body).toMatchObject({ roles: ['user', 'admin'] });
+
+      await request(server())
+        .get('/users')
+        .set('Authorization', `Bearer ${juan.token}`)
+        .expect(200);
+
+      await asAdmin(request(server()).put(`/users/${juan.id}/roles`))
+        .send({ roles: [] })
+        .expect(400);
+      await asAdmin(request(server()).put(`/users/${admin.id}/roles`))
+        .send({ roles: ['user'] })
+        .expect(400);
+    });
+
+    it('soft deletes accounts', async () => {
+      const apiKey = await request(server())
+        .post('/auth/api-keys')
+        .set('Authorization', `Bearer ${juan.token}`)
+        .send({ name: 'Script' })
+        .expect(201);
+
+      await asAdmin(request(server()).delete(`/users/${juan.id}`)).expect(204);
+
+      await asAdmin(request(server()).get(`/users/${juan.id}`)).expect(404);
+      await asAdmin(request(server()).delete(`/users/${juan.id}`)).expect(404);
+      const list = await asAdmin(request(server()).get('/users')).expect(200);
+      expect(list.body).toMatchObject({ total: 1 });
+
+      await request(server())
+        .get('/auth/profile')
+        .set('Authorization', `Bearer ${juan.token}`)
+        .expect(401);
+      await request(server())
+        .get('/auth/profile')
+        .set('X-API-Key', (apiKey.body as { key: string }).key)
+        .expect(401);
+      await request(server())
+        .post('/auth/login')
+        .send({ email: 'juan@test.com', password: 'miPassword123' })
+        .expect(401);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { createHash, randomBytes } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Cuenta del usuario en el proveedor simulado
+ */
+export interface MockAccount {
+  /** ID numérico como texto (GitHub lo expone como número) */
+  id: string;
+  email: string;
+  emailVerified: boolean;
+  login: string;
+}
+
+interface PendingCode {
+  account: MockAccount;
+  redirectUri: string;
+  codeChallenge: string;
+}
+
+/**
+ * Servidor OAuth2 local que imita a Google y GitHub
+ *
+ * - GET /authorize aprueba al instante con la cuenta de `account`
+ * - POST /token verifica client_secret, redirect_uri y PKCE
+ * - GET /userinfo (Google), GET /user y /user/emails (GitHub)
+ */
+export class MockOAuthServer {
+  readonly clientId = 'mock-client';
+  readonly clientSecret = 'mock-secret';
+
+  /** Cuenta con la que "inicia sesión" el próximo usuario */
+  account: MockAccount = {
+    id: '1001',
+    email: 'juan@test.com',
+    emailVerified: true,
+    login: 'juanp',
+  };
+
+  private readonly server: Server = createServer((req, res) => {
+    void this.handle(req, res);
+  });
+  private readonly codes = new Map<string, PendingCode>();
+  private readonly tokens = new Map<string, MockAccount>();
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    );
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', this.url);
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      const code = randomBytes(16).toString('hex');
+      this.codes.set(code, {
+        account: { ...this.account },
+        redirectUri: url.searchParams.get('redirect_uri') ?? '',
+        codeChallenge: url.searchParams.get('code_challenge') ?? '',
+      });
+      const redirect = new URL(url.searchParams.get('redirect_uri') ?? '');
+      redirect.searchParams.set('code', code);
+      redirect.searchParams.set('state', url.searchParams.get('state') ?? '');
+      res.writeHead(302, { Location: redirect.toString() }).end();
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      const body = new URLSearchParams(await readBody(req));
+      const pending = this.codes.get(body.get('code') ?? '');
+      this.codes.delete(body.get('code') ?? '');
+
+      const challenge = createHash('sha256')
+        .update(body.get('code_verifier') ?? '')
+        .digest('base64url');
+      if (
+        !pending ||
+        body.get('client_id') !== this.clientId ||
+        body.get('client_secret') !== this.clientSecret ||
+        body.get('redirect_uri') !== pending.redirectUri ||
+        challenge !== pending.codeChallenge
+      ) {
+        return json(res, 400, { error: 'invalid_grant' });
+      }
+
+      const accessToken = randomBytes(16).toString('hex');
+      this.tokens.set(accessToken, pending.account);
+      return json(res, 200, {
+        access_token: accessToken,
+        token_type: 'bearer',
+      });
+    }
+
+    const bearer = (req.headers.authorization ?? '').replace(/^Bearer /, '');
+    const account = this.tokens.get(bearer);
+    if (!account) {
+      return json(res, 401, { error: 'invalid_token' });
+    }
+
+    switch (url.pathname) {
+      case '/userinfo':
+        return json(res, 200, {
+          sub: account.id,
+          email: account.email,
+          email_verified: account.emailVerified,
+        });
+      case '/user':
+        return json(res, 200, { id: Number(account.id), login: account.login });
+      case '/user/emails':
+        return json(res, 200, [
+          {
+            email: account.email,
+            primary: true,
+            verified: account.emailVerified,
+          },
+        ]);
+      default:
+        return json(res, 404, {});
+    }
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function json(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
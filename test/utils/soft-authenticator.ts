@@ -0,0 +1,324 @@
+import {
+  createHash,
+  generateKeyPairSync,
+  KeyObject,
+  randomBytes,
+  sign,
+} from 'crypto';
+
+/**
+ * Valores que sabe codificar encodeCbor
+ */
+export type CborInput =
+  | number
+  | string
+  | boolean
+  | null
+  | Buffer
+  | CborInput[]
+  | Map<CborInput, CborInput>;
+
+function cborHeader(major: number, value: number): Buffer {
+  if (value < 24) {
+    return Buffer.from([(major << 5) | value]);
+  }
+  if (value < 0x100) {
+    return Buffer.from([(major << 5) | 24, value]);
+  }
+  if (value < 0x10000) {
+    const header = Buffer.alloc(3);
+    header[0] = (major << 5) | 25;
+    header.writeUInt16BE(value, 1);
+    return header;
+  }
+  const header = Buffer.alloc(5);
+  header[0] = (major << 5) | 26;
+  header.writeUInt32BE(value, 1);
+  return header;
+}
+
+/**
+ * Codificador CBOR mínimo (lo que genera un autenticador)
+ */
+export function encodeCbor(value: CborInput): Buffer {
+  if (value === false) return Buffer.from([0xf4]);
+  if (value === true) return Buffer.from([0xf5]);
+  if (value === null) return Buffer.from([0xf6]);
+  if (typeof value === 'number') {
+    return value >= 0 ? cborHeader(0, value) : cborHeader(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([cborHeader(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([cborHeader(2, value.length), value]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([
+      cborHeader(4, value.length),
+      ...value.map(encodeCbor),
+    ]);
+  }
+  return Buffer.concat([
+    cborHeader(5, value.size),
+    ...[...value].flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]),
+  ]);
+}
+
+const sha256 = (data: Buffer | string) =>
+  createHash('sha256').update(data).digest();
+
+const uint32 = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+};
+
+export type SoftAlgorithm = 'ES256' | 'EdDSA' | 'RS256';
+
+/**
+ * Passkey guardada en el autenticador
+ */
+export interface SoftCredential {
+  id: Buffer;
+  algorithm: SoftAlgorithm;
+  privateKey: KeyObject;
+  /** Clave pública en formato COSE */
+  cose: Map<CborInput, CborInput>;
+  userHandle: string;
+  signCount: number;
+}
+
+/**
+ * Cambios para simular navegadores, sitios o autenticadores incorrectos
+ */
+export interface SoftCeremonyOptions {
+  origin?: string;
+  rpId?: string;
+  userVerified?: boolean;
+  /** Formato de atestación (por defecto "none") */
+  fmt?: string;
+  /**
+   * Passkey a usar: al iniciar sesión, por defecto la última creada; al
+   * registrar, se vuelve a presentar en lugar de crear una nueva
+   */
+  credential?: SoftCredential;
+  /** Contador a informar en lugar de incrementar el guardado */
+  signCount?: number;
+}
+
+/**
+ * Opciones de creación que devuelve POST /auth/webauthn/register/options
+ */
+export interface CreationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+}
+
+/**
+ * Opciones que devuelve POST /auth/webauthn/login/options
+ */
+export interface RequestOptions {
+  challenge: string;
+  rpId: string;
+}
+
+/**
+ * Autenticador por software para las pruebas
+ *
+ * Genera las mismas estructuras que un autenticador real (CBOR, claves
+ * COSE, firmas) sin navegador ni hardware. Por defecto usa contador de
+ * firmas, como las llaves de seguridad.
+ */
+export class SoftAuthenticator {
+  readonly credentials: SoftCredential[] = [];
+
+  constructor(
+    private readonly origin = 'http://localhost:5173',
+    private readonly useCounter = true,
+  ) {}
+
+  /**
+   * Simula navigator.credentials.create() (resultado de toJSON())
+   */
+  create(
+    options: CreationOptions,
+    algorithm: SoftAlgorithm = 'ES256',
+    overrides: SoftCeremonyOptions = {},
+  ) {
+    let credential = overrides.credential;
+    if (!credential) {
+      credential = {
+        id: randomBytes(16),
+        algorithm,
+        ...generateCredentialKey(algorithm),
+        userHandle: options.user.id,
+        signCount: 0,
+      };
+      this.credentials.push(credential);
+    }
+
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(credential.id.length);
+    const authData = Buffer.concat([
+      this.authDataHeader(overrides.rpId ?? options.rp.id, overrides, true, 0),
+      Buffer.alloc(16), // AAGUID: ceros con atestación "none"
+      credentialIdLength,
+      credential.id,
+      encodeCbor(credential.cose),
+    ]);
+    const attestationObject = encodeCbor(
+      new Map<CborInput, CborInput>([
+        ['fmt', overrides.fmt ?? 'none'],
+        ['attStmt', new Map()],
+        ['authData', authData],
+      ]),
+    );
+
+    return {
+      id: credential.id.toString('base64url'),
+      rawId: credential.id.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: this.clientData(
+          'webauthn.create',
+          options.challenge,
+          overrides,
+        ).toString('base64url'),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal', 'hybrid'],
+      },
+      authenticatorAttachment: 'platform',
+      clientExtensionResults: {},
+    };
+  }
+
+  /**
+   * Simula navigator.credentials.get() (resultado de toJSON())
+   */
+  get(options: RequestOptions, overrides: SoftCeremonyOptions = {}) {
+    const credential = overrides.credential ?? this.credentials.at(-1);
+    if (!credential) {
+      throw new Error('El autenticador no tiene passkeys');
+    }
+    if (this.useCounter) {
+      credential.signCount++;
+    }
+
+    const authenticatorData = this.authDataHeader(
+      overrides.rpId ?? options.rpId,
+      overrides,
+      false,
+      overrides.signCount ?? (this.useCounter ? credential.signCount : 0),
+    );
+    const clientDataJSON = this.clientData(
+      'webauthn.get',
+      options.challenge,
+      overrides,
+    );
+    const signature = sign(
+      credential.algorithm === 'EdDSA' ? null : 'sha256',
+      Buffer.concat([authenticatorData, sha256(clientDataJSON)]),
+      credential.privateKey,
+    );
+
+    return {
+      id: credential.id.toString('base64url'),
+      rawId: credential.id.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: credential.userHandle,
+      },
+      authenticatorAttachment: 'platform',
+      clientExtensionResults: {},
+    };
+  }
+
+  /**
+   * rpIdHash | flags | signCount
+   */
+  private authDataHeader(
+    rpId: string,
+    overrides: SoftCeremonyOptions,
+    attested: boolean,
+    signCount: number,
+  ): Buffer {
+    let flags = 0x01; // UP
+    if (overrides.userVerified ?? true) flags |= 0x04; // UV
+    if (attested) flags |= 0x40; // AT
+    return Buffer.concat([
+      sha256(rpId),
+      Buffer.from([flags]),
+      uint32(signCount),
+    ]);
+  }
+
+  private clientData(
+    type: string,
+    challenge: string,
+    overrides: SoftCeremonyOptions,
+  ): Buffer {
+    return Buffer.from(
+      JSON.stringify({
+        type,
+        challenge,
+        origin: overrides.origin ?? this.origin,
+        crossOrigin: false,
+      }),
+    );
+  }
+}
+
+/**
+ * Par de claves y su clave pública en formato COSE
+ */
+function generateCredentialKey(algorithm: SoftAlgorithm) {
+  if (algorithm === 'EdDSA') {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const jwk = publicKey.export({ format: 'jwk' });
+    return {
+      privateKey,
+      cose: new Map<CborInput, CborInput>([
+        [1, 1],
+        [3, -8],
+        [-1, 6],
+        [-2, Buffer.from(jwk.x as string, 'base64url')],
+      ]),
+    };
+  }
+  if (algorithm === 'RS256') {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    const jwk = publicKey.export({ format: 'jwk' });
+    return {
+      privateKey,
+      cose: new Map<CborInput, CborInput>([
+        [1, 3],
+        [3, -257],
+        [-1, Buffer.from(jwk.n as string, 'base64url')],
+        [-2, Buffer.from(jwk.e as string, 'base64url')],
+      ]),
+    };
+  }
+
+  const { privateKey, publicKey } = generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+  });
+  const jwk = publicKey.export({ format: 'jwk' });
+  return {
+    privateKey,
+    cose: new Map<CborInput, CborInput>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x as string, 'base64url')],
+      [-3, Buffer.from(jwk.y as string, 'base64url')],
+    ]),
+  };
+}
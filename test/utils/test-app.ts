@@ -0,0 +1,95 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModuleBuilder } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from '../../src/app.module';
+import { MAILER } from '../../src/mail/mailer.interface';
+import { CLOCK } from '../../src/auth/interfaces/clock.interface';
+import { TestMailbox } from './test-mailbox';
+import { TestClock } from './test-clock';
+
+export interface TestApp {
+  app: INestApplication<App>;
+  mailbox: TestMailbox;
+  clock: TestClock;
+}
+
+/**
+ * Levanta la aplicación completa con SQLite en memoria, un buzón de prueba
+ * y un reloj manual (códigos TOTP)
+ *
+ * @param configure - Reemplazos adicionales (p. ej. proveedores sociales)
+ */
+export async function createTestApp(
+  configure: (builder: TestingModuleBuilder) => TestingModuleBuilder = (
+    builder,
+  ) => builder,
+): Promise<TestApp> {
+  const mailbox = new TestMailbox();
+  const clock = new TestClock();
+
+  const moduleFixture = await configure(
+    Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(MAILER)
+      .useValue(mailbox)
+      .overrideProvider(CLOCK)
+      .useValue(clock),
+  ).compile();
+
+  const app = moduleFixture.createNestApplication<INestApplication<App>>();
+  await app.init();
+
+  return { app, mailbox, clock };
+}
+
+export interface TestUser {
+  id: number;
+  username: string;
+  email: string;
+  password: string;
+}
+
+/**
+ * Registra un usuario y confirma su email con el enlace recibido
+ */
+export async function registerVerifiedUser(
+  { app, mailbox }: TestApp,
+  username: string,
+  email: string,
+  password = 'miPassword123',
+): Promise<TestUser> {
+  const res = await request(app.getHttpServer())
+    .post('/auth/register')
+    .send({ username, email, password })
+    .expect(201);
+
+  await request(app.getHttpServer())
+    .post('/auth/verify-email')
+    .send({ token: mailbox.lastTokenTo(email) })
+    .expect(200);
+
+  const { user } = res.body as { user: { id: number } };
+  return { id: user.id, username, email, password };
+}
+
+export interface LoginTokens {
+  access_token: string;
+  refresh_token: string;
+}
+
+/**
+ * Inicia sesión y retorna los tokens
+ */
+export async function login(
+  { app }: TestApp,
+  email: string,
+  password = 'miPassword123',
+): Promise<LoginTokens> {
+  const res = await request(app.getHttpServer())
+    .post('/auth/login')
+    .send({ email, password })
+    .expect(201);
+  return res.body as LoginTokens;
+}
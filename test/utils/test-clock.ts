@@ -0,0 +1,16 @@
+import { Clock } from '../../src/auth/interfaces/clock.interface';
+
+/**
+ * Reloj manual para las pruebas: la hora solo avanza con advance()
+ */
+export class TestClock implements Clock {
+  private current = new Date('2030-01-01T00:00:00Z');
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+}
@@ -0,0 +1,35 @@
+import { Mailer, MailMessage } from '../../src/mail/mailer.interface';
+
+/**
+ * Mailer en memoria para las pruebas: guarda los correos "enviados"
+ */
+export class TestMailbox implements Mailer {
+  readonly messages: MailMessage[] = [];
+
+  send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+    return Promise.resolve();
+  }
+
+  /**
+   * Último correo recibido por la dirección indicada
+   */
+  lastTo(email: string): MailMessage {
+    const message = [...this.messages].reverse().find((m) => m.to === email);
+    if (!message) {
+      throw new Error(`No se envió ningún correo a ${email}`);
+    }
+    return message;
+  }
+
+  /**
+   * Extrae el parámetro "token" del enlace del último correo a esa dirección
+   */
+  lastTokenTo(email: string): string {
+    const match = /[?&]token=([^\s&]+)/.exec(this.lastTo(email).text);
+    if (!match) {
+      throw new Error(`El correo a ${email} no contiene un token`);
+    }
+    return decodeURIComponent(match[1]);
+  }
+}
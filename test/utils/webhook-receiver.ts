@@ -0,0 +1,79 @@
+import {
+  createServer,
+  IncomingHttpHeaders,
+  IncomingMessage,
+  Server,
+} from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Body de una entrega (ver WebhooksService)
+ */
+export interface WebhookPayload {
+  id: string;
+  type: string;
+  occurredAt: string;
+  data: {
+    user: Record<string, unknown>;
+    previous?: Record<string, unknown>;
+    method?: string;
+  };
+}
+
+/**
+ * Entrega recibida, con el body tal como llegó (para verificar la firma)
+ */
+export interface ReceivedWebhook {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Servidor HTTP local que hace de sistema receptor de los webhooks
+ *
+ * - Guarda cada POST en `received`
+ * - Responde con los estados de `responses` (uno por entrega, en orden)
+ *   y, cuando se acaban, con 200
+ */
+export class WebhookReceiver {
+  readonly received: ReceivedWebhook[] = [];
+
+  /** Estados de las próximas respuestas (p. ej. [500, 503] para fallar dos veces) */
+  responses: number[] = [];
+
+  private readonly server: Server = createServer((req, res) => {
+    void readBody(req).then((body) => {
+      this.received.push({ headers: req.headers, body });
+      res.writeHead(this.responses.shift() ?? 200).end();
+    });
+  });
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/hooks`;
+  }
+
+  /** Payloads recibidos, ya parseados */
+  get events(): WebhookPayload[] {
+    return this.received.map(({ body }) => JSON.parse(body) as WebhookPayload);
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    );
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,329 @@
+import { randomBytes } from 'crypto';
+import request from 'supertest';
+import {
+  createTestApp,
+  login,
+  LoginTokens,
+  registerVerifiedUser,
+  TestApp,
+  TestUser,
+} from './utils/test-app';
+import {
+  CreationOptions,
+  RequestOptions,
+  SoftAlgorithm,
+  SoftAuthenticator,
+  SoftCeremonyOptions,
+} from './utils/soft-authenticator';
+import { generateTotp } from '../src/auth/utils/totp';
+import { UsersService } from '../src/users/users.service';
+
+describe('WebAuthnController (e2e)', () => {
+  let testApp: TestApp;
+  let juan: TestUser;
+  let accessToken: string;
+  let authenticator: SoftAuthenticator;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+    juan = await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    ({ access_token: accessToken } = await login(testApp, juan.email));
+    authenticator = new SoftAuthenticator();
+  });
+
+  afterEach(async () => {
+    await testApp.app.close();
+  });
+
+  const server = () => testApp.app.getHttpServer();
+
+  interface PasskeyBody {
+    id: string;
+    name: string;
+    transports: string[];
+    backed_up: boolean;
+    last_used_at: string | null;
+  }
+
+  const registrationOptions = async (token = accessToken) => {
+    const res = await request(server())
+      .post('/auth/webauthn/register/options')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    return res.body as CreationOptions;
+  };
+
+  const register = async (
+    status: number,
+    algorithm: SoftAlgorithm = 'ES256',
+    overrides: SoftCeremonyOptions = {},
+  ) =>
+    request(server())
+      .post('/auth/webauthn/register')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(
+        authenticator.create(await registrationOptions(), algorithm, overrides),
+      )
+      .expect(status);
+
+  const loginOptions = async () => {
+    const res = await request(server())
+      .post('/auth/webauthn/login/options')
+      .expect(200);
+    return res.body as RequestOptions;
+  };
+
+  const loginWith = (assertion: ReturnType<SoftAuthenticator['get']>) =>
+    request(server()).post('/auth/webauthn/login').send(assertion);
+
+  const listPasskeys = async () => {
+    const res = await request(server())
+      .get('/auth/webauthn/credentials')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+    return res.body as PasskeyBody[];
+  };
+
+  it('registers a passkey and logs in with it', async () => {
+    const options = await registrationOptions();
+    expect(options).toMatchObject({
+      rp: { id: 'localhost' },
+      user: { name: juan.email, displayName: juan.username },
+      attestation: 'none',
+      authenticatorSelection: { userVerification: 'required' },
+    });
+
+    const registered = await request(server())
+      .post('/auth/webauthn/register')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ ...authenticator.create(options), name: 'Portátil' })
+      .expect(201);
+    expect(registered.body).toMatchObject({
+      name: 'Portátil',
+      transports: ['internal', 'hybrid'],
+      last_used_at: null,
+    });
+    expect(registered.body).not.toHaveProperty('publicKey');
+
+    // Sin email ni contraseña: la passkey dice quién es el usuario
+    const res = await loginWith(authenticator.get(await loginOptions())).expect(
+      200,
+    );
+    expect(res.body).toMatchObject({
+      message: 'Login exitoso',
+      token_type: 'Bearer',
+      user: { id: juan.id, email: juan.email },
+    });
+    expect(res.body).not.toHaveProperty(['user', 'password']);
+
+    await request(server())
+      .get('/auth/profile')
+      .set('Authorization', `Bearer ${(res.body as LoginTokens).access_token}`)
+      .expect(200);
+    const [passkey] = await listPasskeys();
+    expect(passkey.last_used_at).not.toBeNull();
+  });
+
+  it('allows several authenticators per user', async () => {
+    await register(201, 'ES256');
+    await register(201, 'EdDSA');
+    await register(201, 'RS256');
+    expect(await listPasskeys()).toHaveLength(3);
+
+    // excludeCredentials evita registrar dos veces el mismo autenticador
+    const options = await registrationOptions();
+    expect(
+      (options as unknown as { excludeCredentials: unknown[] })
+        .excludeCredentials,
+    ).toHaveLength(3);
+
+    for (const credential of authenticator.credentials) {
+      await loginWith(
+        authenticator.get(await loginOptions(), { credential }),
+      ).expect(200);
+    }
+  });
+
+  it('requires a session to manage passkeys', async () => {
+    await request(server()).post('/auth/webauthn/register/options').expect(401);
+    await request(server()).get('/auth/webauthn/credentials').expect(401);
+  });
+
+  it('only accepts "none" attestation from this site with user verification', async () => {
+    await register(400, 'ES256', { fmt: 'packed' });
+    await register(400, 'ES256', { origin: 'https://phishing.test' });
+    await register(400, 'ES256', { rpId: 'phishing.test' });
+    await register(400, 'ES256', { userVerified: false });
+
+    expect(await listPasskeys()).toHaveLength(0);
+  });
+
+  it('rejects a registration with a challenge from another user', async () => {
+    const maria = await registerVerifiedUser(
+      testApp,
+      'maria',
+      'maria@test.com',
+    );
+    const { access_token: mariaToken } = await login(testApp, maria.email);
+    const options = await registrationOptions(mariaToken);
+
+    await request(server())
+      .post('/auth/webauthn/register')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(authenticator.create(options))
+      .expect(400);
+  });
+
+  it('refuses to register the same passkey twice', async () => {
+    await register(201);
+    const [credential] = authenticator.credentials;
+
+    const res = await register(409, 'ES256', { credential });
+    expect((res.body as { message: string }).message).toBe(
+      'La passkey ya está registrada',
+    );
+    expect(await listPasskeys()).toHaveLength(1);
+  });
+
+  it('rejects a registration whose id does not match the authenticator data', async () => {
+    const registration = authenticator.create(await registrationOptions());
+    const other = randomBytes(16).toString('base64url');
+
+    await request(server())
+      .post('/auth/webauthn/register')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ ...registration, id: other, rawId: other })
+      .expect(400);
+  });
+
+  it('rejects assertions from another site or without user verification', async () => {
+    await register(201);
+
+    for (const overrides of [
+      { origin: 'https://phishing.test' },
+      { rpId: 'phishing.test' },
+      { userVerified: false },
+    ]) {
+      const res = await loginWith(
+        authenticator.get(await loginOptions(), overrides),
+      ).expect(401);
+      expect((res.body as { message: string }).message).toBe(
+        'Passkey inválida',
+      );
+    }
+  });
+
+  it('rejects forged signatures and unknown passkeys', async () => {
+    await register(201);
+    const assertion = authenticator.get(await loginOptions());
+
+    // Firma de otro mensaje
+    const other = authenticator.get(await loginOptions());
+    await loginWith({
+      ...other,
+      response: { ...other.response, signature: assertion.response.signature },
+    }).expect(401);
+
+    // Passkey que nunca se registró
+    const stranger = new SoftAuthenticator();
+    stranger.create(await registrationOptions());
+    await loginWith(stranger.get(await loginOptions())).expect(401);
+  });
+
+  it('uses each challenge once and only before it expires', async () => {
+    await register(201);
+
+    const assertion = authenticator.get(await loginOptions());
+    await loginWith(assertion).expect(200);
+    await loginWith(assertion).expect(400);
+
+    const options = await loginOptions();
+    testApp.clock.advance(5 * 60 * 1000);
+    await loginWith(authenticator.get(options)).expect(400);
+  });
+
+  it('detects a cloned authenticator by its signature counter', async () => {
+    await register(201);
+    const [credential] = authenticator.credentials;
+
+    await loginWith(authenticator.get(await loginOptions())).expect(200);
+    await loginWith(authenticator.get(await loginOptions())).expect(200);
+
+    // La copia aún va por el contador 1
+    await loginWith(
+      authenticator.get(await loginOptions(), { signCount: 1 }),
+    ).expect(401);
+    expect(credential.signCount).toBe(3);
+  });
+
+  it('accepts authenticators without a signature counter', async () => {
+    authenticator = new SoftAuthenticator(undefined, false);
+    await register(201);
+
+    await loginWith(authenticator.get(await loginOptions())).expect(200);
+    await loginWith(authenticator.get(await loginOptions())).expect(200);
+  });
+
+  it('removes a passkey so it no longer logs in', async () => {
+    await register(201);
+    const [passkey] = await listPasskeys();
+
+    const maria = await registerVerifiedUser(
+      testApp,
+      'maria',
+      'maria@test.com',
+    );
+    const { access_token: mariaToken } = await login(testApp, maria.email);
+    await request(server())
+      .delete(`/auth/webauthn/credentials/${passkey.id}`)
+      .set('Authorization', `Bearer ${mariaToken}`)
+      .expect(404);
+
+    await request(server())
+      .delete(`/auth/webauthn/credentials/${passkey.id}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(204);
+    expect(await listPasskeys()).toHaveLength(0);
+
+    await loginWith(authenticator.get(await loginOptions())).expect(401);
+  });
+
+  it('rejects deactivated accounts', async () => {
+    await register(201);
+    await testApp.app.get(UsersService).setActive(juan.id, false);
+
+    await loginWith(authenticator.get(await loginOptions())).expect(401);
+  });
+
+  it('does not ask for the TOTP code: the passkey is already two factors', async () => {
+    const enrolled = await request(server())
+      .post('/auth/2fa/enroll')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(201);
+    await request(server())
+      .post('/auth/2fa/confirm')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        code: generateTotp(
+          (enrolled.body as { secret: string }).secret,
+          testApp.clock.now(),
+        ),
+      })
+      .expect(200);
+    await register(201);
+
+    const res = await loginWith(authenticator.get(await loginOptions())).expect(
+      200,
+    );
+    expect(res.body).toHaveProperty('access_token');
+    expect(res.body).not.toHaveProperty('mfa_required');
+  });
+
+  it('validates the credential shape', async () => {
+    const res = await request(server())
+      .post('/auth/webauthn/login')
+      .send({ id: 'no base64!', type: 'password' })
+      .expect(400);
+    expect(res.body).toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+});
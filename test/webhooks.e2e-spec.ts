@@ -0,0 +1,322 @@
+import request from 'supertest';
+import {
+  createTestApp,
+  login,
+  registerVerifiedUser,
+  TestApp,
+} from './utils/test-app';
+import { WebhookReceiver } from './utils/webhook-receiver';
+import { WebhookDispatcher } from '../src/webhooks/webhook-dispatcher.service';
+import { verifyWebhookSignature } from '../src/webhooks/utils/webhook-signature';
+
+describe('WebhooksController (e2e)', () => {
+  let testApp: TestApp;
+  let receiver: WebhookReceiver;
+  let dispatcher: WebhookDispatcher;
+  let adminToken: string;
+
+  beforeEach(async () => {
+    process.env.ADMIN_EMAILS = 'admin@test.com';
+    receiver = new WebhookReceiver();
+    await receiver.start();
+    testApp = await createTestApp();
+    dispatcher = testApp.app.get(WebhookDispatcher);
+    await registerVerifiedUser(testApp, 'admin', 'admin@test.com');
+    adminToken = (await login(testApp, 'admin@test.com')).access_token;
+  });
+
+  afterEach(async () => {
+    delete process.env.ADMIN_EMAILS;
+    await testApp.app.close();
+    await receiver.stop();
+  });
+
+  const server = () => testApp.app.getHttpServer();
+
+  interface SubscriptionBody {
+    id: string;
+    url: string;
+    events: string[];
+    isActive: boolean;
+    secret?: string;
+  }
+
+  interface DeliveryBody {
+    id: number;
+    eventId: string;
+    eventType: string;
+    status: string;
+    attempts: number;
+    nextAttemptAt: string | null;
+    responseStatus: number | null;
+    lastError: string | null;
+    replayOfId: number | null;
+  }
+
+  const subscribe = async (events: string[]) => {
+    const res = await request(server())
+      .post('/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ url: receiver.url, events })
+      .expect(201);
+    return res.body as SubscriptionBody & { secret: string };
+  };
+
+  const deliveries = async (subscriptionId: string, query = '') => {
+    const res = await request(server())
+      .get(`/webhooks/${subscriptionId}/deliveries?${query}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    return (res.body as { items: DeliveryBody[] }).items;
+  };
+
+  it('is only available to admins and validates subscriptions', async () => {
+    await request(server()).get('/webhooks').expect(401);
+
+    await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    const { access_token } = await login(testApp, 'juan@test.com');
+    await request(server())
+      .post('/webhooks')
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ url: receiver.url, events: ['*'] })
+      .expect(403);
+
+    const res = await request(server())
+      .post('/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ url: 'ftp://example.com', events: ['user.hacked'] })
+      .expect(400);
+    expect(
+      (res.body as { field_errors: { field: string }[] }).field_errors.map(
+        ({ field }) => field,
+      ),
+    ).toEqual(['url', 'events']);
+  });
+
+  it('shows the secret only when creating or rotating it', async () => {
+    const subscription = await subscribe(['user.registered']);
+    expect(subscription.secret).toMatch(/^whsec_/);
+
+    const list = await request(server())
+      .get('/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(list.body).toEqual([
+      expect.objectContaining({ id: subscription.id, url: receiver.url }),
+    ]);
+    expect((list.body as SubscriptionBody[])[0]).not.toHaveProperty('secret');
+
+    const rotated = await request(server())
+      .post(`/webhooks/${subscription.id}/rotate-secret`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    const { secret } = rotated.body as { secret: string };
+    expect(secret).toMatch(/^whsec_/);
+    expect(secret).not.toBe(subscription.secret);
+
+    // Las entregas siguientes se firman con el secreto nuevo
+    await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    await dispatcher.settle();
+    const [{ headers, body }] = receiver.received;
+    expect(
+      verifyWebhookSignature(
+        secret,
+        headers['x-webhook-timestamp'] as string,
+        body,
+        headers['x-webhook-signature'] as string,
+        testApp.clock.now(),
+      ),
+    ).toBe(true);
+  });
+
+  it('delivers signed lifecycle events to the subscribed events only', async () => {
+    const { secret } = await subscribe([
+      'user.registered',
+      'user.email_verified',
+      'user.deactivated',
+    ]);
+
+    const juan = await registerVerifiedUser(
+      testApp,
+      'juanperez',
+      'juan@test.com',
+    );
+    await request(server())
+      .patch(`/users/${juan.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ email: 'nuevo@test.com' })
+      .expect(200);
+    await request(server())
+      .post(`/users/${juan.id}/deactivate`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    await dispatcher.settle();
+
+    // user.email_changed no está en la suscripción
+    expect(receiver.events.map(({ type }) => type)).toEqual([
+      'user.registered',
+      'user.email_verified',
+      'user.deactivated',
+    ]);
+
+    const [registered] = receiver.events;
+    expect(registered.data).toEqual({
+      user: {
+        id: juan.id,
+        username: 'juanperez',
+        email: 'juan@test.com',
+        roles: ['user'],
+        isActive: true,
+        emailVerified: false,
+      },
+      method: 'password',
+    });
+
+    for (const { headers, body } of receiver.received) {
+      expect(headers['content-type']).toBe('application/json');
+      expect(headers['x-webhook-event']).toBe(
+        (JSON.parse(body) as { type: string }).type,
+      );
+      expect(
+        verifyWebhookSignature(
+          secret,
+          headers['x-webhook-timestamp'] as string,
+          body,
+          headers['x-webhook-signature'] as string,
+          testApp.clock.now(),
+        ),
+      ).toBe(true);
+    }
+  });
+
+  it('retries failed deliveries with exponential backoff', async () => {
+    const subscription = await subscribe(['user.registered']);
+    receiver.responses = [500, 503];
+
+    await request(server())
+      .post('/auth/register')
+      .send({
+        username: 'juanperez',
+        email: 'juan@test.com',
+        password: 'miPassword123',
+      })
+      .expect(201);
+    await dispatcher.settle();
+
+    let [delivery] = await deliveries(subscription.id);
+    expect(delivery).toMatchObject({
+      eventType: 'user.registered',
+      status: 'pending',
+      attempts: 1,
+      responseStatus: 500,
+      lastError: 'HTTP 500',
+    });
+    // Primer reintento a los 30 s (WEBHOOK_RETRY_BASE_DELAY_SECONDS)
+    expect(new Date(delivery.nextAttemptAt!).getTime()).toBe(
+      testApp.clock.now().getTime() + 30_000,
+    );
+    expect(await dispatcher.processDue()).toBe(0);
+
+    testApp.clock.advance(30_000);
+    expect(await dispatcher.processDue()).toBe(1);
+    [delivery] = await deliveries(subscription.id);
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 2 });
+    // El segundo espera el doble
+    expect(new Date(delivery.nextAttemptAt!).getTime()).toBe(
+      testApp.clock.now().getTime() + 60_000,
+    );
+
+    testApp.clock.advance(60_000);
+    expect(await dispatcher.processDue()).toBe(1);
+    [delivery] = await deliveries(subscription.id);
+    expect(delivery).toMatchObject({
+      status: 'succeeded',
+      attempts: 3,
+      responseStatus: 200,
+      lastError: null,
+      nextAttemptAt: null,
+    });
+
+    // Tres envíos del mismo evento (el receptor descarta duplicados por id)
+    expect(new Set(receiver.events.map(({ id }) => id)).size).toBe(1);
+    expect(receiver.received).toHaveLength(3);
+  });
+
+  it('gives up after the maximum attempts and replays deliveries by hand', async () => {
+    const subscription = await subscribe(['*']);
+    // Dos eventos (user.registered y user.email_verified), 8 intentos cada uno
+    receiver.responses = Array<number>(16).fill(500);
+
+    await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    await dispatcher.settle();
+    for (let retry = 0; retry < 8; retry++) {
+      testApp.clock.advance(6 * 60 * 60 * 1000);
+      await dispatcher.processDue();
+    }
+
+    const failed = await deliveries(subscription.id, 'status=failed');
+    expect(failed).toHaveLength(2);
+    expect(failed[0]).toMatchObject({ attempts: 8, nextAttemptAt: null });
+    expect(await deliveries(subscription.id, 'status=pending')).toEqual([]);
+
+    const res = await request(server())
+      .post(`/webhooks/deliveries/${failed[0].id}/replay`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(202);
+    const replay = res.body as DeliveryBody;
+    expect(replay).toMatchObject({
+      eventId: failed[0].eventId,
+      replayOfId: failed[0].id,
+    });
+    await dispatcher.settle();
+
+    const [latest] = await deliveries(subscription.id);
+    expect(latest).toMatchObject({
+      id: replay.id,
+      status: 'succeeded',
+      attempts: 1,
+    });
+    expect(receiver.events.at(-1)?.id).toBe(failed[0].eventId);
+
+    // Una suscripción desactivada no recibe nada, ni reenvíos
+    await request(server())
+      .patch(`/webhooks/${subscription.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ isActive: false })
+      .expect(200);
+    await request(server())
+      .post(`/webhooks/deliveries/${failed[0].id}/replay`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+    await request(server())
+      .post(`/webhooks/deliveries/999999/replay`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+  });
+
+  it('deletes subscriptions together with their delivery log', async () => {
+    const subscription = await subscribe(['*']);
+    await registerVerifiedUser(testApp, 'juanperez', 'juan@test.com');
+    await dispatcher.settle();
+    expect(await deliveries(subscription.id)).toHaveLength(2);
+
+    await request(server())
+      .delete(`/webhooks/${subscription.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(204);
+    await request(server())
+      .get(`/webhooks/${subscription.id}/deliveries`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+
+    const audit = await request(server())
+      .get('/audit?targetType=webhook')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(
+      (audit.body as { items: { action: string }[] }).items.map(
+        ({ action }) => action,
+      ),
+    ).toEqual(['webhook.delete', 'webhook.create']);
+  });
+});